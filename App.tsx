@@ -3,31 +3,28 @@ import Sidebar from './components/Sidebar';
 import AnalyzeView from './components/AnalyzeView';
 import DiscoverView from './components/DiscoverView';
 import ComposerView from './components/ComposerView';
+import TaskBoardView from './components/TaskBoardView';
 import LoginView from './components/LoginView';
 import RegisterView from './components/RegisterView';
 import { useAuth } from './contexts/AuthContext';
 import { useConversation } from './contexts/ConversationContext';
-import { ViewMode, Theme, UserDrivenResponse, ProactiveDiscoveryResponse, FounderProfile } from './types';
+import { useFounderProfile } from './contexts/FounderProfileContext';
+import { ViewMode, Theme, UserDrivenResponse, ProactiveDiscoveryResponse } from './types';
 
 const App: React.FC = () => {
   const { isAuthenticated } = useAuth();
-  const { createConversation } = useConversation();
+  const { createConversation, switchConversation } = useConversation();
   const [authView, setAuthView] = useState<'login' | 'register'>('login');
   const [viewMode, setViewMode] = useState<ViewMode>('analyze');
   const [theme, setTheme] = useState<Theme>('light');
-  const [founderProfile, setFounderProfile] = useState<FounderProfile>({
-    experience_years: 0,
-    team_size: 1,
-    runway_months: 1,
-    tech_stack: [],
-    location: '',
-    funding_stage: 'pre-seed'
-  });
+  const { profile: founderProfile, setProfile: setFounderProfile } = useFounderProfile();
   const mq = window.matchMedia('(prefers-color-scheme: dark)');
   const updateTheme = () => setTheme(mq.matches ? 'dark' : 'light');
   const [analysisResponse, setAnalysisResponse] = useState<UserDrivenResponse | null>(null);
+  const [analysisId, setAnalysisId] = useState<string | null>(null);
   const [discoveryResponse, setDiscoveryResponse] = useState<ProactiveDiscoveryResponse | null>(null);
-  const [selectedProblem, setSelectedProblem] = useState<string | null>(null);
+  // Problems to analyze one after another; the first is the one being analyzed
+  const [selectedProblems, setSelectedProblems] = useState<string[]>([]);
 
   useEffect(() => {
     updateTheme();
@@ -51,16 +48,36 @@ const App: React.FC = () => {
   }, []);
 
   const handleProblemSelect = useCallback((problemStatement: string) => {
-    setSelectedProblem(problemStatement);
+    setSelectedProblems([problemStatement]);
     setViewMode('analyze');
   }, []);
 
+  const handleAnalyzeBatch = useCallback((problemStatements: string[]) => {
+    setSelectedProblems(problemStatements);
+    setViewMode('analyze');
+  }, []);
+
+  const handleProblemProcessed = useCallback(() => {
+    setSelectedProblems(prev => prev.slice(1));
+  }, []);
+
+  const handleCancelQueue = useCallback(() => {
+    setSelectedProblems(prev => prev.slice(0, 1));
+  }, []);
+
+  const handleOpenAnalysis = useCallback((conversationId: string) => {
+    setSelectedProblems([]);
+    switchConversation(conversationId);
+    setViewMode('analyze');
+  }, [switchConversation]);
+
   const handleNewConversation = useCallback(() => {
     console.log('handleNewConversation: Creating new conversation');
     
     // Reset all analysis state
     setAnalysisResponse(null);
-    setSelectedProblem(null);
+    setAnalysisId(null);
+    setSelectedProblems([]);
     
     // Create a new conversation
     createConversation();
@@ -72,13 +89,15 @@ const App: React.FC = () => {
   const renderView = () => {
     switch (viewMode) {
       case 'analyze':
-        return <AnalyzeView setResponse={setAnalysisResponse} initialProblem={selectedProblem} onProblemProcessed={() => setSelectedProblem(null)} profile={founderProfile} setProfile={setFounderProfile} theme={theme} />;
+        return <AnalyzeView setResponse={setAnalysisResponse} analysisId={analysisId} setAnalysisId={setAnalysisId} initialProblem={selectedProblems[0] ?? null} onProblemProcessed={handleProblemProcessed} queuedProblems={selectedProblems.slice(1)} onCancelQueue={handleCancelQueue} profile={founderProfile} setProfile={setFounderProfile} theme={theme} />;
       case 'discover':
-        return <DiscoverView setResponse={setDiscoveryResponse} onProblemSelect={handleProblemSelect} />;
+        return <DiscoverView setResponse={setDiscoveryResponse} onProblemSelect={handleProblemSelect} onAnalyzeBatch={handleAnalyzeBatch} onOpenAnalysis={handleOpenAnalysis} profile={founderProfile} setProfile={setFounderProfile} />;
       case 'compose':
-        return <ComposerView analysis={analysisResponse} opportunities={discoveryResponse?.problems || []} />;
+        return <ComposerView analysis={analysisResponse} analysisId={analysisId} opportunities={discoveryResponse?.problems || []} />;
+      case 'tasks':
+        return <TaskBoardView />;
       default:
-        return <AnalyzeView setResponse={setAnalysisResponse} initialProblem={null} profile={founderProfile} setProfile={setFounderProfile} theme={theme} />;
+        return <AnalyzeView setResponse={setAnalysisResponse} analysisId={analysisId} setAnalysisId={setAnalysisId} initialProblem={null} profile={founderProfile} setProfile={setFounderProfile} theme={theme} />;
     }
   };
 
@@ -111,6 +130,7 @@ const App: React.FC = () => {
         onThemeChange={handleThemeChange}
         isComposerEnabled={!!analysisResponse}
         onNewConversation={handleNewConversation}
+        onAnalyzeProblem={handleProblemSelect}
       />
 
       {/* This is now your scrolling content area */}
@@ -0,0 +1,219 @@
+import React, { useState, useEffect } from 'react';
+import { analysesAPI } from '../services/apiService';
+import { SavedAnalysis, AnalysisComparison, DiffPart, ChunkDiff, FounderProfile, ProfileFieldChange } from '../types';
+import { Loader } from './Loader';
+import { XIcon } from './icons/MenuIcon';
+
+interface AnalysisVersionsPanelProps {
+  analysisId: string;
+  onClose: () => void;
+}
+
+const PROFILE_FIELD_LABELS: Record<keyof FounderProfile, string> = {
+  experience_years: 'Experience (years)',
+  team_size: 'Team size',
+  runway_months: 'Runway',
+  runway_unit: 'Runway unit',
+  funding_stage: 'Funding stage',
+  location: 'Location',
+  tech_stack: 'Tech stack',
+};
+
+const CHUNK_STATUS_STYLES: Record<ChunkDiff['status'], string> = {
+  added: 'bg-green-100 text-green-800 border-green-300 dark:bg-green-500/10 dark:text-green-300 dark:border-green-500/30',
+  removed: 'bg-red-100 text-red-800 border-red-300 dark:bg-red-500/10 dark:text-red-300 dark:border-red-500/30',
+  changed: 'bg-yellow-100 text-yellow-800 border-yellow-300 dark:bg-yellow-500/10 dark:text-yellow-300 dark:border-yellow-500/30',
+  unchanged: 'bg-gray-100 text-gray-600 border-gray-300 dark:bg-white/5 dark:text-gray-400 dark:border-white/10',
+};
+
+const PART_STYLES: Record<DiffPart['type'], string> = {
+  equal: '',
+  added: 'bg-green-100 text-green-900 dark:bg-green-500/20 dark:text-green-200',
+  removed: 'bg-red-100 text-red-900 line-through dark:bg-red-500/20 dark:text-red-200',
+};
+
+const formatProfileValue = (value: ProfileFieldChange['before']) =>
+  value === null ? '—' : Array.isArray(value) ? value.join(', ') || '—' : String(value);
+
+const versionLabel = (analysis: SavedAnalysis) =>
+  `Version ${analysis.version ?? '?'} · ${new Date(analysis.createdAt).toLocaleString()}`;
+
+const hasChanges = (parts: DiffPart[]) => parts.some(part => part.type !== 'equal');
+
+// Changed words inline: additions highlighted, removals struck through
+const TextDiff: React.FC<{ parts: DiffPart[] }> = ({ parts }) => (
+  <p className="whitespace-pre-wrap text-sm text-gray-800 dark:text-gray-300">
+    {parts.map((part, index) => <span key={index} className={PART_STYLES[part.type]}>{part.text}</span>)}
+  </p>
+);
+
+const ListDiff: React.FC<{ parts: DiffPart[] }> = ({ parts }) => (
+  <ul className="space-y-1 text-sm">
+    {parts.map((part, index) => (
+      <li key={index} className={`px-2 py-1 rounded ${PART_STYLES[part.type] || 'text-gray-700 dark:text-gray-400'}`}>
+        <span className="font-mono mr-2">{part.type === 'added' ? '+' : part.type === 'removed' ? '−' : ' '}</span>
+        {part.text}
+      </li>
+    ))}
+  </ul>
+);
+
+// Every analysis of the same problem, with a diff between any two of them
+const AnalysisVersionsPanel: React.FC<AnalysisVersionsPanelProps> = ({ analysisId, onClose }) => {
+  const [versions, setVersions] = useState<SavedAnalysis[]>([]);
+  const [baseId, setBaseId] = useState<string | null>(null);
+  const [targetId, setTargetId] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<AnalysisComparison | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // By default the open analysis is compared with the version before it
+  useEffect(() => {
+    analysesAPI.versions(analysisId)
+      .then(saved => {
+        setVersions(saved);
+        const current = Math.max(0, saved.findIndex(version => version.id === analysisId));
+        setTargetId(saved[current]?.id ?? null);
+        setBaseId(saved[current > 0 ? current - 1 : current + 1]?.id ?? null);
+      })
+      .catch(err => setError(err.message || 'Failed to load versions'))
+      .finally(() => setIsLoading(false));
+  }, [analysisId]);
+
+  useEffect(() => {
+    setComparison(null);
+    if (!baseId || !targetId || baseId === targetId) return;
+
+    let cancelled = false;
+    setError(null);
+    analysesAPI.compare(baseId, targetId)
+      .then(result => {
+        if (!cancelled) setComparison(result);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err.message || 'Failed to compare versions');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [baseId, targetId]);
+
+  const versionSelect = (value: string | null, onChange: (id: string) => void, label: string) => (
+    <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+      {label}
+      <select
+        value={value ?? ''}
+        onChange={(e) => onChange(e.target.value)}
+        className="px-2 py-1 text-sm rounded-md bg-white dark:bg-black/30 border border-gray-300 dark:border-white/10 text-black dark:text-white"
+      >
+        {versions.map(version => <option key={version.id} value={version.id}>{versionLabel(version)}</option>)}
+      </select>
+    </label>
+  );
+
+  const diff = comparison?.diff;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-5xl max-h-[90vh] overflow-y-auto bg-white dark:bg-[#1a1a1a] border border-gray-200 dark:border-white/10 rounded-xl shadow-xl p-6 animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-1">
+          <h2 className="text-lg font-semibold text-black dark:text-white">Compare Versions</h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-gray-200 dark:hover:bg-white/10 text-gray-600 dark:text-gray-400 transition-colors"
+            aria-label="Close"
+          >
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="mb-4 text-sm text-gray-600 dark:text-gray-400">Each time you analyze the same problem, e.g. after updating your founder profile, a new version is saved.</p>
+
+        {error && <div className="mb-4 text-sm text-gray-800 dark:text-gray-300 bg-gray-200 dark:bg-gray-800/50 p-3 rounded-lg border border-gray-400 dark:border-gray-600">{error}</div>}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8 text-black dark:text-white"><Loader /></div>
+        ) : versions.length < 2 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-500 italic">This is the only version so far. Analyze the same problem again to compare the results.</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-4">
+              {versionSelect(baseId, setBaseId, 'From')}
+              {versionSelect(targetId, setTargetId, 'To')}
+            </div>
+
+            {baseId === targetId && <p className="mt-6 text-sm text-gray-500 italic">Pick two different versions.</p>}
+            {baseId !== targetId && !diff && !error && <div className="flex justify-center py-8 text-black dark:text-white"><Loader /></div>}
+
+            {diff && (
+              <div className="mt-6 space-y-6">
+                <section>
+                  <h3 className="font-semibold text-black dark:text-gray-200 mb-2">Founder Profile</h3>
+                  {diff.profile_changes.length === 0 ? (
+                    <p className="text-sm text-gray-500 italic">Same profile in both versions.</p>
+                  ) : (
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500 dark:text-gray-400">
+                          <th className="py-1 pr-4 font-medium">Field</th>
+                          <th className="py-1 pr-4 font-medium">Before</th>
+                          <th className="py-1 font-medium">After</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {diff.profile_changes.map(change => (
+                          <tr key={change.field} className="border-t border-gray-200 dark:border-white/10">
+                            <td className="py-1 pr-4 text-gray-700 dark:text-gray-300">{PROFILE_FIELD_LABELS[change.field]}</td>
+                            <td className={`py-1 pr-4 ${PART_STYLES.removed}`}>{formatProfileValue(change.before)}</td>
+                            <td className={`py-1 ${PART_STYLES.added}`}>{formatProfileValue(change.after)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </section>
+
+                <section>
+                  <h3 className="font-semibold text-black dark:text-gray-200 mb-2">Refined Problem</h3>
+                  <TextDiff parts={diff.refined_problem} />
+                </section>
+
+                {diff.chunks.map(chunk => (
+                  <section key={chunk.title} className="border-t border-gray-200 dark:border-white/10 pt-4">
+                    <h3 className="font-semibold text-black dark:text-gray-200 mb-2 flex items-center gap-2">
+                      {chunk.title}
+                      <span className={`px-2 py-0.5 text-xs font-medium rounded-full border ${CHUNK_STATUS_STYLES[chunk.status]}`}>{chunk.status}</span>
+                    </h3>
+                    {chunk.status === 'unchanged' ? (
+                      <p className="text-sm text-gray-500 italic">No changes.</p>
+                    ) : (
+                      <div className="space-y-3">
+                        {hasChanges(chunk.analysis) && <TextDiff parts={chunk.analysis} />}
+                        {hasChanges(chunk.key_insights) && (
+                          <div>
+                            <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Key Insights</h4>
+                            <ListDiff parts={chunk.key_insights} />
+                          </div>
+                        )}
+                      </div>
+                    )}
+                  </section>
+                ))}
+
+                <section className="border-t border-gray-200 dark:border-white/10 pt-4">
+                  <h3 className="font-semibold text-black dark:text-gray-200 mb-2">Solution Guide</h3>
+                  {hasChanges(diff.solution_guide) ? <ListDiff parts={diff.solution_guide} /> : <p className="text-sm text-gray-500 italic">No changes.</p>}
+                </section>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisVersionsPanel;
@@ -1,26 +1,85 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { analyzeProblem, chat, ChatMessage as GeminiChatMessage } from '../services/geminiService';
-import { UserDrivenResponse, AnalysisChunk, FounderProfile, Theme } from '../types';
-import { useConversation, Message } from '../contexts/ConversationContext';
+import { aiAPI, analysesAPI } from '../services/apiService';
+import { UserDrivenResponse, AnalysisChunk, ChunkRefinement, FounderProfile, Theme, ChatMessage } from '../types';
+import { useConversation, Message, Conversation, isDraftConversation } from '../contexts/ConversationContext';
 import { MarkdownRenderer } from './MarkdownRenderer';
 import { Loader } from './Loader';
+import { ErrorNotice } from './ErrorNotice';
 import { LightbulbIcon } from './icons/LightbulbIcon';
 import { FlaskConicalIcon } from './icons/FlaskConicalIcon';
 import { SparklesIcon } from './icons/SparklesIcon';
 import FounderProfileForm from './FounderProfileForm';
+import FounderProfileSwitcher from './FounderProfileSwitcher';
 import AnalysisVisualizer from './AnalysisVisualizer';
+import ExportButtons from './ExportButtons';
+import AnalysisVersionsPanel from './AnalysisVersionsPanel';
 
 interface AnalyzeViewProps {
   setResponse: (response: UserDrivenResponse | null) => void;
+  analysisId: string | null;
+  setAnalysisId: (analysisId: string | null) => void;
   initialProblem?: string | null;
   onProblemProcessed?: () => void;
+  // Problems waiting to be analyzed after initialProblem, each in its own conversation
+  queuedProblems?: string[];
+  onCancelQueue?: () => void;
   profile: FounderProfile;
-  setProfile: (profile: FounderProfile) => void;
+  setProfile: React.Dispatch<React.SetStateAction<FounderProfile>>;
   theme: Theme;
   onNewConversation?: () => void;
 }
 
-const AnalysisChunkCard: React.FC<{ chunk: AnalysisChunk }> = ({ chunk }) => {
+const ANALYSIS_EXPORT_FORMATS: { value: 'md' | 'pdf' | 'docx'; label: string }[] = [
+  { value: 'pdf', label: 'PDF' },
+  { value: 'docx', label: 'Word' },
+  { value: 'md', label: 'Markdown' },
+];
+
+const REFINEMENT_LABELS: Record<ChunkRefinement, string> = {
+  regenerate: 'Regenerated',
+  deepen: 'Drilled deeper',
+};
+
+const InsightList: React.FC<{ insights: string[] }> = ({ insights }) => (
+  <ul className="mt-3 list-none space-y-2">
+    {insights.map((insight, index) => (
+      <li key={index} className="flex items-start">
+        <span className="text-black dark:text-white mr-2">▪</span>
+        <div className="flex-1">
+          <MarkdownRenderer content={insight} />
+        </div>
+      </li>
+    ))}
+  </ul>
+);
+
+const AnalysisChunkCard: React.FC<{
+  chunk: AnalysisChunk;
+  // Absent while the analysis is still streaming in
+  onRefine?: (mode: ChunkRefinement, focus: string) => Promise<void>;
+}> = ({ chunk, onRefine }) => {
+  const [focus, setFocus] = useState('');
+  const [pending, setPending] = useState<ChunkRefinement | null>(null);
+  const [refineError, setRefineError] = useState<string | null>(null);
+  const [compareIndex, setCompareIndex] = useState<number | null>(null);
+  const versions = chunk.previous_versions ?? [];
+  const compared = compareIndex !== null ? versions[compareIndex] : undefined;
+
+  const handleRefine = async (mode: ChunkRefinement) => {
+    if (!onRefine) return;
+    setPending(mode);
+    setRefineError(null);
+    try {
+      await onRefine(mode, focus.trim());
+      setFocus('');
+      setCompareIndex(null);
+    } catch (err: any) {
+      setRefineError(err.message || 'Could not refine this section');
+    } finally {
+      setPending(null);
+    }
+  };
+
   return (
     <div className="bg-gray-50 dark:bg-[#1a1a1a]/80 backdrop-blur-sm border border-gray-200 dark:border-white/10 rounded-xl shadow-lg transition-all duration-300 hover:border-gray-400 dark:hover:border-gray-500/50">
       <div className="p-6">
@@ -28,41 +87,116 @@ const AnalysisChunkCard: React.FC<{ chunk: AnalysisChunk }> = ({ chunk }) => {
             <FlaskConicalIcon className="w-5 h-5" />
             {chunk.title}
         </h3>
-        <div className="mt-4">
-          <MarkdownRenderer content={chunk.analysis} />
-        </div>
-        <div className="mt-6 border-t border-gray-200 dark:border-white/10 pt-4">
-          <h4 className="text-md font-semibold text-gray-800 dark:text-gray-200 flex items-center gap-3"><LightbulbIcon className="w-5 h-5 text-black dark:text-white" /> Key Insights</h4>
-          <ul className="mt-3 list-none space-y-2">
-            {chunk.key_insights.map((insight, index) => (
-              <li key={index} className="flex items-start">
-                <span className="text-black dark:text-white mr-2">▪</span>
-                <div className="flex-1">
-                  <MarkdownRenderer content={insight} />
-                </div>
-              </li>
+        {compared ? (
+          <div className="mt-4 grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="opacity-80">
+              <p className="text-xs font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400">
+                Before: {REFINEMENT_LABELS[compared.replaced_by].toLowerCase()} {new Date(compared.replaced_at).toLocaleString()}
+              </p>
+              <div className="mt-2">
+                <MarkdownRenderer content={compared.analysis} sources={compared.sources} />
+              </div>
+              <InsightList insights={compared.key_insights} />
+            </div>
+            <div>
+              <p className="text-xs font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400">Current</p>
+              <div className="mt-2">
+                <MarkdownRenderer content={chunk.analysis} sources={chunk.sources} />
+              </div>
+              <InsightList insights={chunk.key_insights} />
+            </div>
+          </div>
+        ) : (
+          <>
+            <div className="mt-4">
+              <MarkdownRenderer content={chunk.analysis} sources={chunk.sources} />
+            </div>
+            <div className="mt-6 border-t border-gray-200 dark:border-white/10 pt-4">
+              <h4 className="text-md font-semibold text-gray-800 dark:text-gray-200 flex items-center gap-3"><LightbulbIcon className="w-5 h-5 text-black dark:text-white" /> Key Insights</h4>
+              <InsightList insights={chunk.key_insights} />
+            </div>
+          </>
+        )}
+        {onRefine && (
+          <div className="mt-6 border-t border-gray-200 dark:border-white/10 pt-4 flex flex-wrap items-center gap-2 text-xs">
+            <input
+              type="text"
+              value={focus}
+              onChange={(e) => setFocus(e.target.value)}
+              maxLength={500}
+              disabled={pending !== null}
+              placeholder="Optional focus, e.g. pricing for Tier-2 cities"
+              className="flex-1 min-w-[12rem] px-2 py-1 rounded-md bg-white dark:bg-black/30 border border-gray-300 dark:border-white/10 text-black dark:text-white"
+            />
+            {(['regenerate', 'deepen'] as ChunkRefinement[]).map(mode => (
+              <button
+                key={mode}
+                onClick={() => handleRefine(mode)}
+                disabled={pending !== null}
+                className="px-2 py-1 rounded-md border border-gray-300 dark:border-white/20 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+              >
+                {pending === mode ? 'Working…' : mode === 'regenerate' ? 'Regenerate section' : 'Drill deeper'}
+              </button>
             ))}
-          </ul>
-        </div>
+            {versions.length > 0 && (
+              <select
+                value={compareIndex ?? ''}
+                onChange={(e) => setCompareIndex(e.target.value === '' ? null : Number(e.target.value))}
+                className="px-2 py-1 rounded-md bg-white dark:bg-black/30 border border-gray-300 dark:border-white/10 text-black dark:text-white"
+                title="Show an earlier version next to the current one"
+              >
+                <option value="">Current version</option>
+                {versions.map((version, index) => (
+                  <option key={version.replaced_at} value={index}>
+                    Compare with version before {REFINEMENT_LABELS[version.replaced_by].toLowerCase()} ({new Date(version.replaced_at).toLocaleString()})
+                  </option>
+                ))}
+              </select>
+            )}
+            {refineError && <span className="w-full text-red-600 dark:text-red-400">{refineError}</span>}
+          </div>
+        )}
       </div>
     </div>
   );
 };
 
-const AnalyzeView: React.FC<AnalyzeViewProps> = ({ setResponse, initialProblem, onProblemProcessed, profile, setProfile, theme, onNewConversation }) => {
+const AnalyzeView: React.FC<AnalyzeViewProps> = ({ setResponse, analysisId, setAnalysisId, initialProblem, onProblemProcessed, queuedProblems = [], onCancelQueue, profile, setProfile, theme, onNewConversation }) => {
   const [activeTab, setActiveTab] = useState<'analyze' | 'history'>('analyze');
   const [userInput, setUserInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Error | null>(null);
   const [currentResponse, setCurrentResponse] = useState<UserDrivenResponse | null>(null);
+  // Chunks received so far while an analysis is still streaming in
+  const [streamingChunks, setStreamingChunks] = useState<AnalysisChunk[]>([]);
   const [viewMode, setViewMode] = useState<'cards' | 'visualizer'>('cards');
+  const [showVersions, setShowVersions] = useState(false);
 
   const { currentConversation, conversations, addMessage, createConversation } = useConversation();
   const [chatInput, setChatInput] = useState('');
   const [isChatLoading, setIsChatLoading] = useState(false);
+  const [streamingReply, setStreamingReply] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const chatInputRef = useRef<HTMLTextAreaElement>(null);
   const processedSignatureRef = useRef<string | null>(null);
+  const isLoadingRef = useRef(false);
+  isLoadingRef.current = isLoading;
+  // Refinements finish asynchronously; each applies to the analysis as it is by then
+  const currentResponseRef = useRef<UserDrivenResponse | null>(null);
+  currentResponseRef.current = currentResponse;
+  const analysisAbortRef = useRef<AbortController | null>(null);
+
+  // Stop any in-flight analysis when leaving the view
+  useEffect(() => () => analysisAbortRef.current?.abort(), []);
+
+  const beginAnalysisRequest = () => {
+    analysisAbortRef.current = new AbortController();
+    return analysisAbortRef.current.signal;
+  };
+
+  const handleStopAnalysis = () => {
+    analysisAbortRef.current?.abort();
+  };
 
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -70,7 +204,7 @@ const AnalyzeView: React.FC<AnalyzeViewProps> = ({ setResponse, initialProblem,
 
   useEffect(() => {
     scrollToBottom();
-  }, [currentConversation?.messages]);
+  }, [currentConversation?.messages, streamingReply]);
 
   // Clear the analysis display when switching to an empty conversation
   useEffect(() => {
@@ -94,7 +228,56 @@ const AnalyzeView: React.FC<AnalyzeViewProps> = ({ setResponse, initialProblem,
     }
   }, [currentConversation?.id]);
 
-  const seedChatWithAnalysis = useCallback((problem: string, analysis: UserDrivenResponse) => {
+  // Reopen the saved analysis behind a conversation picked from the sidebar
+  useEffect(() => {
+    if (!currentConversation || isDraftConversation(currentConversation) || isLoading || initialProblem) return;
+
+    let cancelled = false;
+    analysesAPI.list(currentConversation.id)
+      .then(saved => {
+        // A fresh analysis started while we were fetching; don't clobber it
+        if (cancelled || isLoadingRef.current) return;
+        const latest = saved[0] ?? null;
+        setCurrentResponse(latest?.data ?? null);
+        setResponse(latest?.data ?? null);
+        setAnalysisId(latest?.id ?? null);
+        if (latest) {
+          setActiveTab('analyze');
+        }
+      })
+      .catch(err => console.error('Failed to load saved analysis:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentConversation?.id]);
+
+  const persistAnalysis = useCallback(async (analysis: UserDrivenResponse, conversation: Conversation | undefined) => {
+    try {
+      const saved = await analysesAPI.create(analysis, conversation?.id);
+      setAnalysisId(saved.id);
+    } catch (err) {
+      console.error('Failed to save analysis:', err);
+    }
+  }, [setAnalysisId]);
+
+  const handleRefineChunk = useCallback(async (chunkId: number, mode: ChunkRefinement, focus: string) => {
+    const analysis = currentResponseRef.current;
+    if (!analysis) return;
+    const chunk = await aiAPI.refineChunk(analysis, chunkId, mode, focus || undefined);
+
+    const latest = currentResponseRef.current;
+    if (!latest || latest.input_problem !== analysis.input_problem) return;
+    const updated = { ...latest, chunks: latest.chunks.map(existing => existing.id === chunkId ? chunk : existing) };
+    currentResponseRef.current = updated;
+    setCurrentResponse(updated);
+    setResponse(updated);
+    if (analysisId) {
+      analysesAPI.update(analysisId, updated).catch(err => console.error('Failed to save refined analysis:', err));
+    }
+  }, [analysisId, setResponse]);
+
+  const seedChatWithAnalysis = useCallback(async (problem: string, analysis: UserDrivenResponse): Promise<Conversation | undefined> => {
     if (!currentConversation) {
       console.error('No current conversation available');
       return;
@@ -112,8 +295,8 @@ const AnalyzeView: React.FC<AnalyzeViewProps> = ({ setResponse, initialProblem,
     ).join('\n\n')}\n\n## Solution Guide\n${analysis.synthesis.solution_guide.map((step, idx) => `${idx + 1}. ${step}`).join('\n')}`;
     
     // Add messages to the target conversation (critical: pass targetConv explicitly)
-    const convWithUserMsg = addMessage('user', problem, targetConv);
-    const convWithBothMessages = addMessage('assistant', analysisText, convWithUserMsg);
+    const convWithUserMsg = await addMessage('user', problem, targetConv);
+    return addMessage('assistant', analysisText, convWithUserMsg);
   }, [currentConversation, createConversation, addMessage]);
 
   React.useEffect(() => {
@@ -128,26 +311,30 @@ const AnalyzeView: React.FC<AnalyzeViewProps> = ({ setResponse, initialProblem,
           setIsLoading(true);
           setError(null);
           setCurrentResponse(null);
+          setStreamingChunks([]);
           setResponse(null);
+          setAnalysisId(null);
 
           try {
-            const result = await analyzeProblem(initialProblem, profile);
+            const result = await aiAPI.analyzeProblemStream(initialProblem, profile, chunk => setStreamingChunks(prev => [...prev, chunk]), beginAnalysisRequest());
             setCurrentResponse(result);
             setResponse(result);
-            await seedChatWithAnalysis(initialProblem, result);
+            const conversation = await seedChatWithAnalysis(initialProblem, result);
+            await persistAnalysis(result, conversation);
             if (onProblemProcessed) {
               onProblemProcessed();
             }
           } catch (err: any) {
-            setError(err.message || 'An unknown error occurred.');
+            if (err.name !== 'AbortError') setError(err);
           } finally {
+            analysisAbortRef.current = null;
             setIsLoading(false);
           }
         };
         autoAnalyze();
       }
     }
-  }, [initialProblem, profile, setResponse, onProblemProcessed, seedChatWithAnalysis]);
+  }, [initialProblem, profile, setResponse, onProblemProcessed, seedChatWithAnalysis, persistAnalysis]);
 
   const handleAnalyzeSubmit = useCallback(async (e: React.FormEvent) => {
     e.preventDefault();
@@ -156,19 +343,23 @@ const AnalyzeView: React.FC<AnalyzeViewProps> = ({ setResponse, initialProblem,
     setIsLoading(true);
     setError(null);
     setCurrentResponse(null);
+    setStreamingChunks([]);
     setResponse(null);
+    setAnalysisId(null);
 
     try {
-      const result = await analyzeProblem(userInput, profile);
+      const result = await aiAPI.analyzeProblemStream(userInput, profile, chunk => setStreamingChunks(prev => [...prev, chunk]), beginAnalysisRequest());
       setCurrentResponse(result);
       setResponse(result);
-      await seedChatWithAnalysis(userInput, result);
+      const conversation = await seedChatWithAnalysis(userInput, result);
+      await persistAnalysis(result, conversation);
     } catch (err: any) {
-      setError(err.message || 'An unknown error occurred.');
+      if (err.name !== 'AbortError') setError(err);
     } finally {
+      analysisAbortRef.current = null;
       setIsLoading(false);
     }
-  }, [userInput, profile, setResponse, seedChatWithAnalysis]);
+  }, [userInput, profile, setResponse, seedChatWithAnalysis, persistAnalysis]);
 
   const handleChatSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -187,24 +378,33 @@ const AnalyzeView: React.FC<AnalyzeViewProps> = ({ setResponse, initialProblem,
     setChatInput('');
     setIsChatLoading(true);
 
+    let conversationWithUserMessage: Conversation | undefined;
     try {
-      // Add user message and get the updated conversation back immediately
-      const conversationWithUserMessage = addMessage('user', userMessage);
+      // Add user message and get the saved conversation back
+      conversationWithUserMessage = await addMessage('user', userMessage);
       
       // Build chat history from the updated conversation (includes the new user message)
-      const history: GeminiChatMessage[] = conversationWithUserMessage.messages.map(msg => ({
+      const history: ChatMessage[] = conversationWithUserMessage.messages.map(msg => ({
         role: msg.role === 'user' ? ('user' as const) : ('model' as const),
         parts: msg.content
       }));
 
-      // Call Gemini with the complete history including the latest user message
-      const response = await chat(userMessage, history);
+      // Stream the reply in as it is generated, using the complete history including the latest user message
+      setStreamingReply('');
+      const response = await aiAPI.chatStream(userMessage, history, text => setStreamingReply(prev => (prev ?? '') + text));
       
-      // Add assistant response
-      addMessage('assistant', response);
+      // Add assistant response to the same conversation the question went to
+      await addMessage('assistant', response, conversationWithUserMessage);
     } catch (error: any) {
-      addMessage('assistant', `Sorry, I encountered an error: ${error.message}`);
+      if (conversationWithUserMessage) {
+        addMessage('assistant', `Sorry, I encountered an error: ${error.message}`, conversationWithUserMessage)
+          .catch(err => console.error('Failed to save error reply:', err));
+      } else {
+        setChatInput(userMessage);
+        alert(`Your message could not be sent: ${error.message}`);
+      }
     } finally {
+      setStreamingReply(null);
       setIsChatLoading(false);
       chatInputRef.current?.focus();
     }
@@ -258,9 +458,27 @@ const AnalyzeView: React.FC<AnalyzeViewProps> = ({ setResponse, initialProblem,
           <p className="text-center text-sm sm:text-base text-gray-500 dark:text-gray-400 mt-2 max-w-2xl mx-auto px-4">Get a deep, structured analysis tailored to your specific founder profile and constraints.</p>
           
           <div className="mt-6 sm:mt-8 lg:mt-10 max-w-4xl mx-auto">
-            <FounderProfileForm profile={profile} setProfile={setProfile} disabled={isLoading} />
+            <FounderProfileForm profile={profile} setProfile={setProfile} disabled={isLoading} headerAction={<FounderProfileSwitcher disabled={isLoading} />} />
           </div>
 
+          {queuedProblems.length > 0 && (
+            <div className="mt-6 max-w-4xl mx-auto flex flex-wrap items-center gap-x-4 gap-y-2 px-4 py-3 rounded-lg bg-gray-100 dark:bg-white/5 border border-gray-200 dark:border-white/10 text-sm">
+              <span className="flex-1 min-w-0 text-gray-700 dark:text-gray-300">
+                {queuedProblems.length} more queued. Next: <span className="text-gray-900 dark:text-white">{queuedProblems[0]}</span>
+              </span>
+              {!isLoading && onProblemProcessed && (
+                <button onClick={onProblemProcessed} className="text-xs font-medium text-gray-900 dark:text-white hover:underline">
+                  Analyze the next one
+                </button>
+              )}
+              {onCancelQueue && (
+                <button onClick={onCancelQueue} className="text-xs text-gray-500 dark:text-gray-400 hover:underline">
+                  Cancel the queue
+                </button>
+              )}
+            </div>
+          )}
+
           <form onSubmit={handleAnalyzeSubmit} className="mt-6 sm:mt-8 max-w-4xl mx-auto">
             <div className="gemini-glow-input border border-gray-300 dark:border-gray-500/30 rounded-lg p-0.5 transition-all duration-300">
               <textarea
@@ -279,9 +497,33 @@ const AnalyzeView: React.FC<AnalyzeViewProps> = ({ setResponse, initialProblem,
             >
               {isLoading ? <><Loader /> <span className="ml-2">Thinking...</span></> : <><SparklesIcon className="w-4 h-4 sm:w-5 sm:h-5 mr-2"/>Forge Personalized Analysis</>}
             </button>
+            {isLoading && (
+              <button
+                type="button"
+                onClick={handleStopAnalysis}
+                className="mt-3 w-full py-2 px-4 rounded-lg text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-200 dark:bg-gray-800 hover:bg-gray-300 dark:hover:bg-gray-700 transition-all duration-200"
+              >
+                Stop analysis
+              </button>
+            )}
           </form>
 
-          {error && <div className="mt-8 text-center text-gray-800 dark:text-gray-300 bg-gray-200 dark:bg-gray-800/50 p-4 rounded-lg max-w-3xl mx-auto border border-gray-400 dark:border-gray-600">{error}</div>}
+          {isLoading && !currentResponse && streamingChunks.length > 0 && (
+            <div className="mt-12 max-w-6xl mx-auto space-y-6">
+              {streamingChunks.map((chunk) => (
+                <div key={chunk.id} className="animate-slide-up">
+                  <AnalysisChunkCard chunk={chunk} />
+                </div>
+              ))}
+              <div className="flex items-center justify-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+                <Loader /> <span>Working on the next section...</span>
+              </div>
+            </div>
+          )}
+
+          {error && <ErrorNotice error={error} />}
+
+          {showVersions && analysisId && <AnalysisVersionsPanel analysisId={analysisId} onClose={() => setShowVersions(false)} />}
 
           {currentResponse && (
             <div className="mt-12 max-w-6xl mx-auto animate-slide-up">
@@ -293,6 +535,22 @@ const AnalyzeView: React.FC<AnalyzeViewProps> = ({ setResponse, initialProblem,
                     <hr className="my-4 border-gray-200 dark:border-white/10" />
                     <h3 className="text-xs sm:text-sm font-semibold text-black dark:text-white tracking-wider uppercase">Refined & Personalized Problem</h3>
                     <p className="text-black dark:text-white font-medium text-base sm:text-lg lg:text-xl mt-1">{currentResponse.refined_problem}</p>
+                    <div className="mt-4 flex flex-wrap items-center gap-4">
+                      <ExportButtons
+                        formats={ANALYSIS_EXPORT_FORMATS}
+                        onExport={format => analysesAPI.export(analysisId!, format)}
+                        disabled={!analysisId}
+                        disabledTitle="The analysis is still being saved"
+                      />
+                      {analysisId && (
+                        <button
+                          onClick={() => setShowVersions(true)}
+                          className="text-xs font-medium text-gray-600 dark:text-gray-400 hover:underline"
+                        >
+                          Compare versions
+                        </button>
+                      )}
+                    </div>
                   </div>
                   <div className="flex gap-2 lg:ml-4 shrink-0">
                     <button
@@ -326,7 +584,11 @@ const AnalyzeView: React.FC<AnalyzeViewProps> = ({ setResponse, initialProblem,
               ) : (
                 <div className="space-y-6">
                   {currentResponse.chunks.map((chunk) => (
-                    <AnalysisChunkCard key={chunk.id} chunk={chunk} />
+                    <AnalysisChunkCard
+                      key={chunk.id}
+                      chunk={chunk}
+                      onRefine={isLoading ? undefined : (mode, focus) => handleRefineChunk(chunk.id, mode, focus)}
+                    />
                   ))}
                 </div>
               )}
@@ -376,8 +638,14 @@ const AnalyzeView: React.FC<AnalyzeViewProps> = ({ setResponse, initialProblem,
                   ))}
                   {isChatLoading && (
                     <div className="flex justify-start">
-                      <div className="max-w-[85%] rounded-2xl px-4 py-3 bg-gray-100 dark:bg-white/10">
-                        <Loader />
+                      <div className="max-w-[85%] rounded-2xl px-4 py-3 bg-gray-100 dark:bg-white/10 text-gray-900 dark:text-white">
+                        {streamingReply ? (
+                          <div className="prose dark:prose-invert max-w-none">
+                            <MarkdownRenderer content={streamingReply} />
+                          </div>
+                        ) : (
+                          <Loader />
+                        )}
                       </div>
                     </div>
                   )}
@@ -459,6 +727,19 @@ const AnalyzeView: React.FC<AnalyzeViewProps> = ({ setResponse, initialProblem,
                   </div>
                 </div>
               ))}
+              {isChatLoading && streamingReply && (
+                <div className="flex justify-start">
+                  <div className="max-w-[85%] rounded-2xl px-4 py-3 bg-gray-100 dark:bg-white/10 text-gray-900 dark:text-white">
+                    <div className="flex items-center gap-2 mb-1">
+                      <span className="text-xs font-semibold opacity-70">Forge AI</span>
+                      <span className="text-xs opacity-50">typing...</span>
+                    </div>
+                    <div className="prose dark:prose-invert max-w-none">
+                      <MarkdownRenderer content={streamingReply} />
+                    </div>
+                  </div>
+                </div>
+              )}
             </div>
           )}
         </div>
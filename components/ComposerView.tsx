@@ -1,26 +1,78 @@
-import React, { useState, useCallback, useEffect } from 'react';
-import { composeActionPlan } from '../services/geminiService';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
+import { aiAPI, actionPlansAPI, connectorsAPI, liveDataAPI, LiveDataResult } from '../services/apiService';
 import {
     UserDrivenResponse,
     Problem,
     ComposedActionPlan,
     LiveData,
-    Priority,
+    PrioritySelection,
     ActionTask,
-    ActionStatus
+    ActionStatus,
+    SavedConnector,
+    SavedLiveDataItem,
+    SavedActionPlan,
+    CommandPreview,
+    TaskExecution,
+    ActionOutput,
+    MAX_LIVE_DATA_ITEMS
 } from '../types';
 import { Loader } from './Loader';
+import { ErrorNotice } from './ErrorNotice';
 import { ZapIcon } from './icons/ZapIcon';
+import ConnectorsPanel from './ConnectorsPanel';
+import LiveDataInbox from './LiveDataInbox';
+import ExportButtons from './ExportButtons';
 
 interface ComposerViewProps {
     analysis: UserDrivenResponse | null;
+    analysisId: string | null;
     opportunities: Problem[];
 }
 
+const EXECUTION_STYLES: Record<TaskExecution['status'], string> = {
+    succeeded: 'text-green-700 dark:text-green-400',
+    failed: 'text-red-600 dark:text-red-400',
+    rejected: 'text-gray-500',
+};
+
 const ActionTaskCard: React.FC<{
     task: ActionTask;
     onMarkComplete: () => void;
-}> = ({ task, onMarkComplete }) => {
+    // Only saved plans can run commands, since results are recorded on the server
+    onPreview?: () => Promise<CommandPreview>;
+    onDecide?: (decision: 'approve' | 'reject') => Promise<void>;
+}> = ({ task, onMarkComplete, onPreview, onDecide }) => {
+    const [preview, setPreview] = useState<CommandPreview | null>(null);
+    const [isWorking, setIsWorking] = useState(false);
+    const [reviewError, setReviewError] = useState<string | null>(null);
+
+    const handleReview = async () => {
+        if (!onPreview) return;
+        setIsWorking(true);
+        setReviewError(null);
+        try {
+            setPreview(await onPreview());
+        } catch (err: any) {
+            setReviewError(err.message || 'Failed to load the command');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
+    const handleDecide = async (decision: 'approve' | 'reject') => {
+        if (!onDecide) return;
+        setIsWorking(true);
+        setReviewError(null);
+        try {
+            await onDecide(decision);
+            setPreview(null);
+        } catch (err: any) {
+            setReviewError(err.message || 'Failed to run the command');
+        } finally {
+            setIsWorking(false);
+        }
+    };
+
     const getStatusPill = (status: ActionTask['status']) => {
         const styles = {
             pending: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300 border-yellow-300 dark:border-yellow-700',
@@ -50,6 +102,51 @@ const ActionTaskCard: React.FC<{
                     <span className="text-gray-500 dark:text-gray-400">$ &gt; </span>{task.command}
                 </div>
             )}
+            {task.execution && (
+                <p className={`mt-2 text-xs ${EXECUTION_STYLES[task.execution.status]}`}>
+                    {task.execution.status === 'succeeded' ? 'Ran' : task.execution.status === 'failed' ? 'Failed' : 'Rejected'} {new Date(task.execution.at).toLocaleString()}: {task.execution.summary}
+                    {task.execution.url && (
+                        <> (<a href={task.execution.url} target="_blank" rel="noopener noreferrer" className="underline">open</a>)</>
+                    )}
+                </p>
+            )}
+            {preview && (
+                <div className="mt-2 text-sm bg-white dark:bg-black/30 border border-gray-200 dark:border-white/10 p-3 rounded-md">
+                    {preview.error ? (
+                        <p className="text-red-600 dark:text-red-400">This command can't run: {preview.error}</p>
+                    ) : (
+                        <>
+                            <p className="text-gray-800 dark:text-gray-300">{preview.description}</p>
+                            <div className="mt-2 flex gap-2">
+                                <button
+                                    onClick={() => handleDecide('approve')}
+                                    disabled={isWorking}
+                                    className="bg-black dark:bg-white text-white dark:text-black font-medium py-1 px-3 rounded-md hover:opacity-80 disabled:opacity-50 text-xs"
+                                >
+                                    Approve & run
+                                </button>
+                                <button
+                                    onClick={() => handleDecide('reject')}
+                                    disabled={isWorking}
+                                    className="border border-gray-300 dark:border-white/20 py-1 px-3 rounded-md hover:bg-gray-200 dark:hover:bg-white/10 disabled:opacity-50 text-xs"
+                                >
+                                    Reject
+                                </button>
+                            </div>
+                        </>
+                    )}
+                </div>
+            )}
+            {reviewError && <p className="mt-2 text-xs text-red-600 dark:text-red-400">{reviewError}</p>}
+            {task.executable && task.command && onPreview && !preview && task.execution?.status !== 'succeeded' && (
+                <button
+                    onClick={handleReview}
+                    disabled={isWorking}
+                    className="mt-3 w-full border border-gray-300 dark:border-white/20 font-medium py-2 px-4 rounded-md hover:bg-gray-200 dark:hover:bg-white/10 disabled:opacity-50 transition-all duration-300 text-sm"
+                >
+                    {isWorking ? 'Loading…' : 'Review & run command'}
+                </button>
+            )}
             {task.status !== 'done' && (
                 <button
                     onClick={onMarkComplete}
@@ -63,11 +160,128 @@ const ActionTaskCard: React.FC<{
 };
 
 
-const ComposerView: React.FC<ComposerViewProps> = ({ analysis, opportunities }) => {
+const PRIORITY_OPTIONS: { value: PrioritySelection; label: string }[] = [
+    { value: 'auto', label: 'Auto' },
+    { value: 'urgent', label: 'Urgent' },
+    { value: 'high', label: 'High' },
+    { value: 'medium', label: 'Medium' },
+    { value: 'low', label: 'Low' },
+];
+
+// Calendar events are the same .ics export, for calendars that don't show to-dos
+type PlanExportOption = 'ics' | 'ics-events' | 'csv' | 'json';
+
+const PLAN_EXPORT_FORMATS: { value: PlanExportOption; label: string }[] = [
+    { value: 'ics', label: 'Calendar to-dos' },
+    { value: 'ics-events', label: 'Calendar events' },
+    { value: 'csv', label: 'CSV' },
+    { value: 'json', label: 'Forge JSON' },
+];
+
+const PRIORITY_STYLES: Record<ComposedActionPlan['priority'], string> = {
+    urgent: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 border-red-300 dark:border-red-700',
+    high: 'bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-300 border-orange-300 dark:border-orange-700',
+    medium: 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-300 border-yellow-300 dark:border-yellow-700',
+    low: 'bg-gray-100 dark:bg-white/5 text-gray-700 dark:text-gray-300 border-gray-300 dark:border-white/20',
+};
+
+const OUTPUT_LABELS: Record<ActionOutput['kind'], string> = {
+    email_draft: 'Email draft',
+    reminder: 'Reminder',
+    note: 'Note',
+};
+
+// How long to wait before reopening the plan update stream after it drops
+const RECONNECT_MS = 5000;
+
+type HeartbeatSchedule = Pick<SavedActionPlan, 'revision' | 'heartbeatEnabled' | 'nextHeartbeatAt' | 'heartbeatError'>;
+
+const scheduleOf = ({ revision, heartbeatEnabled, nextHeartbeatAt, heartbeatError }: SavedActionPlan): HeartbeatSchedule =>
+    ({ revision, heartbeatEnabled, nextHeartbeatAt, heartbeatError });
+
+const ComposerView: React.FC<ComposerViewProps> = ({ analysis, analysisId, opportunities }) => {
     const [isLoading, setIsLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<Error | null>(null);
     const [plan, setPlan] = useState<ComposedActionPlan | null>(null);
+    const [planId, setPlanId] = useState<string | null>(null);
     const [heartbeat, setHeartbeat] = useState(0);
+    const [schedule, setSchedule] = useState<HeartbeatSchedule | null>(null);
+    const [refreshNotice, setRefreshNotice] = useState<string | null>(null);
+    const revisionRef = useRef(0);
+    const [connectors, setConnectors] = useState<SavedConnector[]>([]);
+    const [showConnectors, setShowConnectors] = useState(false);
+    const [liveDataErrors, setLiveDataErrors] = useState<LiveDataResult['errors']>([]);
+    const [liveDataCount, setLiveDataCount] = useState<number | null>(null);
+    const [manualItems, setManualItems] = useState<SavedLiveDataItem[]>([]);
+    const [prioritySelection, setPrioritySelection] = useState<PrioritySelection>('auto');
+    const [outputs, setOutputs] = useState<ActionOutput[]>([]);
+    const [isImporting, setIsImporting] = useState(false);
+    const importInputRef = useRef<HTMLInputElement>(null);
+
+    useEffect(() => {
+        connectorsAPI.list()
+            .then(setConnectors)
+            .catch(err => console.error('Failed to load live data sources:', err));
+        liveDataAPI.list()
+            .then(setManualItems)
+            .catch(err => console.error('Failed to load live data inbox:', err));
+    }, []);
+
+    const applySavedPlan = useCallback((saved: SavedActionPlan | null) => {
+        setPlan(saved?.data ?? null);
+        setPlanId(saved?.id ?? null);
+        setSchedule(saved ? scheduleOf(saved) : null);
+        revisionRef.current = saved?.revision ?? 0;
+    }, []);
+
+    // Pick up the latest plan already composed for this analysis
+    useEffect(() => {
+        applySavedPlan(null);
+        setRefreshNotice(null);
+        if (!analysisId) return;
+
+        let cancelled = false;
+        actionPlansAPI.list(analysisId)
+            .then(saved => {
+                if (cancelled || saved.length === 0) return;
+                applySavedPlan(saved[0]);
+            })
+            .catch(err => console.error('Failed to load saved action plan:', err));
+
+        return () => {
+            cancelled = true;
+        };
+    }, [analysisId, applySavedPlan]);
+
+    // The server recomposes the plan when its heartbeat fires and pushes the new revision here
+    useEffect(() => {
+        if (!planId) return;
+
+        const controller = new AbortController();
+        let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+        const connect = () => {
+            actionPlansAPI.subscribe(saved => {
+                if (saved.id !== planId) return;
+                if (saved.revision > revisionRef.current) {
+                    setRefreshNotice(`Plan refreshed automatically at ${new Date(saved.updatedAt).toLocaleTimeString()} (revision ${saved.revision}).`);
+                }
+                applySavedPlan(saved);
+            }, controller.signal)
+                .catch(err => {
+                    if (!controller.signal.aborted) console.error('Plan update stream failed:', err);
+                })
+                .finally(() => {
+                    if (!controller.signal.aborted) reconnectTimer = setTimeout(connect, RECONNECT_MS);
+                });
+        };
+        connect();
+
+        return () => {
+            controller.abort();
+            clearTimeout(reconnectTimer);
+        };
+    }, [planId, applySavedPlan]);
 
     const handleMarkComplete = useCallback((taskId: number) => {
         if (!plan) return;
@@ -78,53 +292,198 @@ const ComposerView: React.FC<ComposerViewProps> = ({ analysis, opportunities })
         const now = new Date().toLocaleTimeString();
         const logEntry = `[${now}] Task #${taskId} completed: ${taskToComplete.title}`;
 
-        setPlan(prev => {
-            if (!prev) return prev;
-            return {
-                ...prev,
-                action_plan: prev.action_plan.map(task =>
-                    task.id === taskId ? { ...task, status: 'done' as ActionStatus } : task
-                ),
-                execution_log: [...prev.execution_log, logEntry]
-            };
-        });
-    }, [plan]);
+        const updatedPlan: ComposedActionPlan = {
+            ...plan,
+            action_plan: plan.action_plan.map(task =>
+                task.id === taskId ? { ...task, status: 'done' as ActionStatus } : task
+            ),
+            execution_log: [...plan.execution_log, logEntry]
+        };
+        setPlan(updatedPlan);
 
-    useEffect(() => {
-        if (plan && plan.next_heartbeat_in_seconds > 0) {
-            setHeartbeat(plan.next_heartbeat_in_seconds);
-            const timer = setInterval(() => {
-                setHeartbeat(h => {
-                    if (h <= 1) {
-                        clearInterval(timer);
-                        return 0;
-                    }
-                    return h - 1;
+        // The server records the change on the task board and sends back the plan with its log entry
+        if (planId) {
+            setError(null);
+            actionPlansAPI.setTaskStatus(planId, taskId, 'done')
+                .then(applySavedPlan)
+                .catch(err => {
+                    console.error('Failed to save task progress:', err);
+                    setError(err);
+                    // Undo only this task's change, so anything that arrived in the meantime stays
+                    setPlan(current => current && {
+                        ...current,
+                        action_plan: current.action_plan.map(task =>
+                            task.id === taskId ? { ...task, status: taskToComplete.status } : task
+                        ),
+                        execution_log: current.execution_log.filter(entry => entry !== logEntry),
+                    });
                 });
-            }, 1000);
-            return () => clearInterval(timer);
         }
-    }, [plan]);
+    }, [plan, planId, applySavedPlan]);
+
+    // Drafts and notes written by approved commands
+    useEffect(() => {
+        setOutputs([]);
+        if (!planId) return;
+        actionPlansAPI.outputs(planId)
+            .then(setOutputs)
+            .catch(err => console.error('Failed to load command outputs:', err));
+    }, [planId]);
+
+    const handleDecide = useCallback(async (taskId: number, decision: 'approve' | 'reject') => {
+        if (!planId) return;
+        const { execution, plan: saved } = await actionPlansAPI.execute(planId, taskId, decision);
+        applySavedPlan(saved);
+        if (execution.status === 'succeeded') {
+            setOutputs(await actionPlansAPI.outputs(planId));
+        }
+    }, [planId, applySavedPlan]);
+
+    const handleToggleHeartbeat = useCallback(async () => {
+        if (!planId || !schedule) return;
+        try {
+            const saved = await actionPlansAPI.setHeartbeat(planId, !schedule.heartbeatEnabled);
+            setSchedule(scheduleOf(saved));
+        } catch (err: any) {
+            setError(err);
+        }
+    }, [planId, schedule]);
+
+    // Counts down to the next server-side heartbeat
+    useEffect(() => {
+        const dueAt = schedule?.heartbeatEnabled ? schedule.nextHeartbeatAt : null;
+        if (!dueAt) {
+            setHeartbeat(0);
+            return;
+        }
+
+        const update = () => setHeartbeat(Math.max(0, Math.ceil((dueAt - Date.now()) / 1000)));
+        update();
+        const timer = setInterval(update, 1000);
+        return () => clearInterval(timer);
+    }, [schedule]);
+
+    const handleExport = useCallback((format: PlanExportOption) =>
+        format === 'ics-events' ? actionPlansAPI.export(planId!, 'ics', true) : actionPlansAPI.export(planId!, format), [planId]);
+
+    // Restores a plan from a Forge JSON export as a new saved plan for this analysis
+    const handleImport = useCallback(async (file: File) => {
+        setIsImporting(true);
+        setError(null);
+        try {
+            let data: unknown;
+            try {
+                data = JSON.parse(await file.text());
+            } catch {
+                throw new Error(`${file.name} is not a JSON file`);
+            }
+            const saved = await actionPlansAPI.import(data, analysisId);
+            applySavedPlan(saved);
+            setRefreshNotice(`Imported ${saved.data.action_plan.length} task${saved.data.action_plan.length === 1 ? '' : 's'} from ${file.name}.`);
+        } catch (err: any) {
+            setError(err);
+        } finally {
+            setIsImporting(false);
+        }
+    }, [analysisId, applySavedPlan]);
 
     const handleSubmit = useCallback(async () => {
         if (!analysis) return;
 
         setIsLoading(true);
         setError(null);
-        setPlan(null);
+        applySavedPlan(null);
+        setRefreshNotice(null);
+        setLiveDataErrors([]);
+        setLiveDataCount(null);
 
-        const liveDataItems: LiveData[] = [];
-        const priority: Priority = 'high';
+        // Connector data is a bonus: if the sources can't be reached, compose from the inbox and analysis alone
+        let connectorItems: LiveData[] = [];
+        if (connectors.some(c => c.enabled)) {
+            try {
+                const liveData = await connectorsAPI.liveData();
+                connectorItems = liveData.items;
+                setLiveDataErrors(liveData.errors);
+            } catch (liveDataError) {
+                console.error('Failed to collect live data:', liveDataError);
+            }
+        }
+        const liveDataItems: LiveData[] = [
+            ...manualItems.map(({ source, content, timestamp }) => ({ source, content, timestamp })),
+            ...connectorItems,
+        ].sort((a, b) => b.timestamp.localeCompare(a.timestamp)).slice(0, MAX_LIVE_DATA_ITEMS);
+        setLiveDataCount(liveDataItems.length);
 
         try {
-            const result = await composeActionPlan(analysis, opportunities, liveDataItems, analysis.founder_profile, priority);
+            const result = await aiAPI.composeActionPlan(analysis, opportunities, liveDataItems, analysis.founder_profile, prioritySelection, analysisId);
             setPlan(result);
+            try {
+                const saved = await actionPlansAPI.create(result, analysisId, null, { analysis, opportunities, priority: prioritySelection });
+                applySavedPlan(saved);
+            } catch (saveError) {
+                console.error('Failed to save action plan:', saveError);
+            }
         } catch (err: any) {
-            setError(err.message || 'An unknown error occurred.');
+            setError(err);
         } finally {
             setIsLoading(false);
         }
-    }, [analysis, opportunities]);
+    }, [analysis, analysisId, opportunities, connectors, manualItems, prioritySelection, applySavedPlan]);
+
+    const prioritySelector = (
+        <label className="inline-flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+            Priority
+            <select
+                value={prioritySelection}
+                onChange={(e) => setPrioritySelection(e.target.value as PrioritySelection)}
+                disabled={isLoading}
+                className="px-2 py-1 text-sm rounded-md bg-white dark:bg-black/30 border border-gray-300 dark:border-white/10 text-black dark:text-white"
+                title="Auto weighs your runway, urgent live signals and overdue tasks"
+            >
+                {PRIORITY_OPTIONS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+            </select>
+        </label>
+    );
+
+    const importControl = (
+        <>
+            <input
+                ref={importInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) handleImport(file);
+                }}
+            />
+            <button
+                onClick={() => importInputRef.current?.click()}
+                disabled={isImporting || isLoading}
+                className="text-xs font-medium text-gray-600 dark:text-gray-400 hover:underline disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Load a plan exported from Forge as JSON"
+            >
+                {isImporting ? 'Importing...' : 'Import plan'}
+            </button>
+        </>
+    );
+
+    const enabledConnectors = connectors.filter(c => c.enabled).length;
+    const liveDataControl = (
+        <div className="mt-4 text-sm text-gray-600 dark:text-gray-400">
+            {enabledConnectors > 0
+                ? `${enabledConnectors} live data source${enabledConnectors === 1 ? '' : 's'} enabled. `
+                : 'No live data sources connected. '}
+            <button onClick={() => setShowConnectors(true)} className="font-medium text-black dark:text-white hover:underline">
+                Manage sources
+            </button>
+            {liveDataCount !== null && <span className="block mt-1 text-xs text-gray-500">Fused {liveDataCount} live signal{liveDataCount === 1 ? '' : 's'} into the last plan.</span>}
+            {liveDataErrors.map(e => (
+                <span key={e.id} className="block mt-1 text-xs text-red-600 dark:text-red-400">{e.name}: {e.error}</span>
+            ))}
+        </div>
+    );
 
     if (!analysis) {
         return (
@@ -144,6 +503,8 @@ const ComposerView: React.FC<ComposerViewProps> = ({ analysis, opportunities })
             </p>
 
             <div className="mt-10 max-w-4xl mx-auto space-y-6">
+                <LiveDataInbox items={manualItems} onItemsChange={setManualItems} />
+
                 {!plan && (
                     <div className="text-center p-8 bg-gray-50 dark:bg-[#1a1a1a]/80 border border-gray-200 dark:border-white/10 rounded-xl">
                         <h3 className="text-xl font-bold text-black dark:text-gray-200">Ready to Synthesize</h3>
@@ -151,6 +512,7 @@ const ComposerView: React.FC<ComposerViewProps> = ({ analysis, opportunities })
                             Your analysis is ready. {opportunities.length > 0 ? 'Discovery insights are also available.' : 'No discovery data available - will use analysis only.'}
                             <br />Click the button below to generate a composed action plan.
                         </p>
+                        <div className="mt-4">{prioritySelector}</div>
                         <button
                             onClick={handleSubmit}
                             className="mt-6 bg-gradient-to-r from-[var(--gradient-start)] to-[var(--gradient-end)] hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold py-3 px-6 rounded-lg transition-all duration-300 flex items-center justify-center text-lg gemini-glow-button mx-auto"
@@ -158,23 +520,79 @@ const ComposerView: React.FC<ComposerViewProps> = ({ analysis, opportunities })
                         >
                             {isLoading ? <><Loader /><span className="ml-2">Thinking...</span></> : <><ZapIcon className="w-5 h-5 mr-2" />Compose Action Plan</>}
                         </button>
+                        <div className="mt-3">{importControl}</div>
+                        {liveDataControl}
                     </div>
                 )}
             </div>
 
-            {error && <div className="mt-8 text-center text-gray-800 dark:text-gray-300 bg-gray-200 dark:bg-gray-800/50 p-4 rounded-lg max-w-3xl mx-auto border border-gray-400 dark:border-gray-600">{error}</div>}
+            {error && <ErrorNotice error={error} />}
+
+            {showConnectors && <ConnectorsPanel onClose={() => setShowConnectors(false)} onChange={setConnectors} />}
 
             {plan && (
                 <div className="mt-12 max-w-5xl mx-auto animate-slide-up space-y-8">
                     <div className="bg-gray-50 dark:bg-[#1a1a1a]/80 border border-gray-200 dark:border-white/10 p-6 rounded-xl">
                         <div className="flex justify-between items-center">
-                            <h3 className="text-xl font-semibold text-black dark:text-white">Composed Action Plan</h3>
+                            <div>
+                                <h3 className="text-xl font-semibold text-black dark:text-white">
+                                    Composed Action Plan
+                                    <span className={`ml-3 align-middle px-2 py-1 text-xs font-medium rounded-full border ${PRIORITY_STYLES[plan.priority]}`}>
+                                        {plan.priority}{plan.priority_decision?.mode === 'auto' ? ' (auto)' : ''}
+                                    </span>
+                                </h3>
+                                <div className="mt-1 flex items-center gap-3">
+                                    <button
+                                        onClick={handleSubmit}
+                                        disabled={isLoading}
+                                        className="text-xs font-medium text-gray-600 dark:text-gray-400 hover:underline disabled:opacity-50 disabled:cursor-not-allowed"
+                                    >
+                                        {isLoading ? 'Recomposing...' : 'Recompose plan'}
+                                    </button>
+                                    {importControl}
+                                    {prioritySelector}
+                                </div>
+                            </div>
                             <div className="text-right">
-                                <p className="text-sm text-gray-500">Re Trend </p>
-                                <p className="text-2xl font-mono font-bold text-black dark:text-gray-200">{String(Math.floor(heartbeat / 60)).padStart(2, '0')}:{String(heartbeat % 60).padStart(2, '0')}</p>
+                                <p className="text-sm text-gray-500">{schedule?.heartbeatEnabled ? 'Next refresh' : 'Auto-refresh'}</p>
+                                <p className="text-2xl font-mono font-bold text-black dark:text-gray-200">
+                                    {!schedule?.heartbeatEnabled || !schedule.nextHeartbeatAt
+                                        ? '--:--'
+                                        : heartbeat > 0
+                                            ? `${String(Math.floor(heartbeat / 60)).padStart(2, '0')}:${String(heartbeat % 60).padStart(2, '0')}`
+                                            : 'Refreshing...'}
+                                </p>
+                                {schedule && (
+                                    <button
+                                        onClick={handleToggleHeartbeat}
+                                        className="text-xs font-medium text-gray-600 dark:text-gray-400 hover:underline"
+                                    >
+                                        {schedule.heartbeatEnabled ? 'Pause auto-refresh' : 'Resume auto-refresh'}
+                                    </button>
+                                )}
                             </div>
                         </div>
+                        {schedule && schedule.revision > 1 && <p className="mt-1 text-xs text-gray-500">Revision {schedule.revision}</p>}
+                        {refreshNotice && <p className="mt-2 text-sm text-green-700 dark:text-green-400">{refreshNotice}</p>}
+                        {schedule?.heartbeatError && <p className="mt-2 text-sm text-red-600 dark:text-red-400">Last refresh: {schedule.heartbeatError}</p>}
                         <p className="mt-2 text-gray-800 dark:text-gray-300">{plan.fusion_summary}</p>
+                        <div className="mt-3">
+                            <ExportButtons
+                                formats={PLAN_EXPORT_FORMATS}
+                                onExport={handleExport}
+                                disabled={!planId}
+                                disabledTitle="The plan is still being saved"
+                            />
+                        </div>
+                        {plan.priority_decision && plan.priority_decision.reasoning.length > 0 && (
+                            <details className="mt-3 text-sm text-gray-600 dark:text-gray-400">
+                                <summary className="cursor-pointer">Why {plan.priority} priority</summary>
+                                <ul className="mt-2 list-disc list-inside space-y-1">
+                                    {plan.priority_decision.reasoning.map((reason, i) => <li key={`priority-${i}`}>{reason}</li>)}
+                                </ul>
+                            </details>
+                        )}
+                        {liveDataControl}
                     </div>
 
                     <div>
@@ -223,6 +641,8 @@ const ComposerView: React.FC<ComposerViewProps> = ({ analysis, opportunities })
                                         key={task.id}
                                         task={task}
                                         onMarkComplete={() => handleMarkComplete(task.id)}
+                                        onPreview={planId ? () => actionPlansAPI.commandPreview(planId, task.id) : undefined}
+                                        onDecide={planId ? decision => handleDecide(task.id, decision) : undefined}
                                     />
                                 ))}
                             </div>
@@ -243,6 +663,25 @@ const ComposerView: React.FC<ComposerViewProps> = ({ analysis, opportunities })
                             </div>
                         </div>
                     </div>
+
+                    {outputs.length > 0 && (
+                        <div>
+                            <h4 className="text-lg font-semibold mb-3 text-black dark:text-gray-200">Drafts & Notes</h4>
+                            <div className="space-y-3">
+                                {outputs.map(output => (
+                                    <details key={output.id} className="bg-gray-100 dark:bg-white/5 border border-gray-200 dark:border-white/10 p-4 rounded-lg">
+                                        <summary className="cursor-pointer text-gray-800 dark:text-gray-300">
+                                            <span className="text-xs uppercase tracking-wide text-gray-500 mr-2">{OUTPUT_LABELS[output.kind]}</span>
+                                            {output.title}
+                                            {output.recipient && <span className="text-gray-500"> → {output.recipient}</span>}
+                                            {output.remindAt && <span className="text-gray-500"> · {new Date(output.remindAt).toLocaleString()}</span>}
+                                        </summary>
+                                        <p className="mt-2 text-sm whitespace-pre-wrap text-gray-700 dark:text-gray-400">{output.body}</p>
+                                    </details>
+                                ))}
+                            </div>
+                        </div>
+                    )}
                 </div>
             )}
         </div>
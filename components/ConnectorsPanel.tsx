@@ -0,0 +1,381 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { connectorsAPI } from '../services/apiService';
+import { SavedConnector, ConnectorKind, ConnectorConfig, LiveData } from '../types';
+import { Loader } from './Loader';
+import { XIcon } from './icons/MenuIcon';
+
+interface ConnectorsPanelProps {
+  onClose: () => void;
+  onChange?: (connectors: SavedConnector[]) => void;
+}
+
+const KIND_LABELS: Record<ConnectorKind, string> = {
+  github: 'GitHub issues',
+  email: 'Email',
+  rss: 'RSS / Atom feed',
+};
+
+interface ConnectorForm {
+  id: string | null;
+  kind: ConnectorKind;
+  name: string;
+  repo: string;
+  labels: string;
+  token: string;
+  url: string;
+  mode: 'imap' | 'mbox';
+  host: string;
+  port: string;
+  secure: boolean;
+  user: string;
+  password: string;
+  mailbox: string;
+  mbox: string;
+  mboxFileName: string;
+}
+
+const emptyForm = (kind: ConnectorKind = 'github'): ConnectorForm => ({
+  id: null,
+  kind,
+  name: '',
+  repo: '',
+  labels: '',
+  token: '',
+  url: '',
+  mode: 'imap',
+  host: '',
+  port: '',
+  secure: true,
+  user: '',
+  password: '',
+  mailbox: 'INBOX',
+  mbox: '',
+  mboxFileName: '',
+});
+
+const formFromConnector = (connector: SavedConnector): ConnectorForm => {
+  const config = connector.config as Record<string, any>;
+  return {
+    ...emptyForm(connector.kind),
+    id: connector.id,
+    name: connector.name,
+    repo: config.repo ?? '',
+    labels: (config.labels ?? []).join(', '),
+    url: config.url ?? '',
+    mode: config.mode ?? 'imap',
+    host: config.host ?? '',
+    port: config.port ? String(config.port) : '',
+    secure: config.secure !== false,
+    user: config.user ?? '',
+    mailbox: config.mailbox ?? 'INBOX',
+  };
+};
+
+// Blank secrets are left out so the server keeps whatever it already has stored
+const configFromForm = (form: ConnectorForm): Partial<ConnectorConfig> => {
+  switch (form.kind) {
+    case 'github':
+      return {
+        repo: form.repo.trim(),
+        labels: form.labels.split(',').map(label => label.trim()).filter(Boolean),
+        ...(form.token ? { token: form.token } : {}),
+      };
+    case 'rss':
+      return { url: form.url.trim() };
+    case 'email':
+      return form.mode === 'mbox'
+        ? { mode: 'mbox', ...(form.mbox ? { mbox: form.mbox } : {}) }
+        : {
+            mode: 'imap',
+            host: form.host.trim(),
+            ...(form.port ? { port: Number(form.port) } : {}),
+            secure: form.secure,
+            user: form.user.trim(),
+            mailbox: form.mailbox.trim() || 'INBOX',
+            ...(form.password ? { password: form.password } : {}),
+          };
+  }
+};
+
+const describeConnector = (connector: SavedConnector): string => {
+  const config = connector.config as Record<string, any>;
+  switch (connector.kind) {
+    case 'github':
+      return config.repo ?? '';
+    case 'rss':
+      return config.url ?? '';
+    case 'email':
+      return config.mode === 'mbox' ? 'Imported mbox' : `${config.user ?? ''} @ ${config.host ?? ''}`;
+  }
+};
+
+const inputClass = 'w-full px-3 py-2 text-sm rounded-md bg-white dark:bg-black/30 border border-gray-300 dark:border-white/10 text-black dark:text-white focus:outline-none focus:ring-1 focus:ring-gray-400';
+
+const ConnectorsPanel: React.FC<ConnectorsPanelProps> = ({ onClose, onChange }) => {
+  const [connectors, setConnectors] = useState<SavedConnector[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [form, setForm] = useState<ConnectorForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [syncingId, setSyncingId] = useState<string | null>(null);
+  const [preview, setPreview] = useState<{ connectorId: string; items: LiveData[] } | null>(null);
+
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const updateConnectors = useCallback((next: SavedConnector[]) => {
+    setConnectors(next);
+    onChangeRef.current?.(next);
+  }, []);
+
+  useEffect(() => {
+    connectorsAPI.list()
+      .then(updateConnectors)
+      .catch((err: any) => setError(err.message || 'Failed to load live data sources.'))
+      .finally(() => setIsLoading(false));
+  }, [updateConnectors]);
+
+  const setField = <K extends keyof ConnectorForm>(field: K, value: ConnectorForm[K]) =>
+    setForm(prev => prev ? { ...prev, [field]: value } : prev);
+
+  const handleMboxFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    setForm(prev => prev ? { ...prev, mbox: text, mboxFileName: file.name } : prev);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const name = form.name.trim() || KIND_LABELS[form.kind];
+      const config = configFromForm(form);
+      if (form.id) {
+        const saved = await connectorsAPI.update(form.id, { name, config });
+        updateConnectors(connectors.map(c => c.id === saved.id ? saved : c));
+      } else {
+        const saved = await connectorsAPI.create(form.kind, name, config);
+        updateConnectors([saved, ...connectors]);
+      }
+      setForm(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to save live data source.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (connector: SavedConnector) => {
+    try {
+      const saved = await connectorsAPI.update(connector.id, { enabled: !connector.enabled });
+      updateConnectors(connectors.map(c => c.id === saved.id ? saved : c));
+    } catch (err: any) {
+      setError(err.message || 'Failed to update live data source.');
+    }
+  };
+
+  const handleSync = async (connector: SavedConnector) => {
+    setSyncingId(connector.id);
+    setError(null);
+    try {
+      const result = await connectorsAPI.sync(connector.id);
+      updateConnectors(connectors.map(c => c.id === result.connector.id ? result.connector : c));
+      setPreview({ connectorId: connector.id, items: result.items });
+    } catch (err: any) {
+      setError(err.message || 'Failed to sync live data source.');
+    } finally {
+      setSyncingId(null);
+    }
+  };
+
+  const handleDelete = async (connector: SavedConnector) => {
+    if (!window.confirm(`Remove "${connector.name}"?`)) return;
+    try {
+      await connectorsAPI.remove(connector.id);
+      updateConnectors(connectors.filter(c => c.id !== connector.id));
+      if (preview?.connectorId === connector.id) setPreview(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to remove live data source.');
+    }
+  };
+
+  const editing = form?.id ? connectors.find(c => c.id === form.id) : undefined;
+  const secretPlaceholder = (field: string) => editing?.privateFieldsSet.includes(field) ? 'Saved (leave blank to keep)' : '';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[90vh] overflow-y-auto bg-white dark:bg-[#1a1a1a] border border-gray-200 dark:border-white/10 rounded-xl shadow-xl p-6 animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-1">
+          <h2 className="text-lg font-semibold text-black dark:text-white">Live Data Sources</h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-gray-200 dark:hover:bg-white/10 text-gray-600 dark:text-gray-400 transition-colors"
+            aria-label="Close"
+          >
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="mb-4 text-sm text-gray-600 dark:text-gray-400">Enabled sources are fetched each time you compose a plan and fused with your analysis.</p>
+
+        {error && <div className="mb-4 text-sm text-gray-800 dark:text-gray-300 bg-gray-200 dark:bg-gray-800/50 p-3 rounded-lg border border-gray-400 dark:border-gray-600">{error}</div>}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8 text-black dark:text-white"><Loader /></div>
+        ) : (
+          <ul className="space-y-2">
+            {connectors.length === 0 && (
+              <li className="text-sm text-gray-500 dark:text-gray-500 italic">No sources yet.</li>
+            )}
+            {connectors.map(connector => (
+              <li key={connector.id} className="px-3 py-2 rounded-lg bg-gray-100 dark:bg-white/5 border border-gray-200 dark:border-white/10">
+                <div className="flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                      {connector.name}
+                      <span className="ml-2 text-xs font-normal text-gray-500">{KIND_LABELS[connector.kind]}</span>
+                    </div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400 truncate">{describeConnector(connector)}</div>
+                    <div className="text-xs text-gray-500 dark:text-gray-400">
+                      {connector.lastSyncedAt ? `Last synced ${new Date(connector.lastSyncedAt).toLocaleString()}` : 'Never synced'}
+                    </div>
+                    {connector.lastError && <div className="text-xs text-red-600 dark:text-red-400 truncate">{connector.lastError}</div>}
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-400 mr-1">
+                      <input type="checkbox" checked={connector.enabled} onChange={() => handleToggle(connector)} />
+                      On
+                    </label>
+                    <button
+                      onClick={() => handleSync(connector)}
+                      disabled={syncingId === connector.id}
+                      className="px-2 py-1 text-xs font-medium rounded-md text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-white/10 disabled:opacity-50 transition-all"
+                    >
+                      {syncingId === connector.id ? 'Syncing...' : 'Sync'}
+                    </button>
+                    <button
+                      onClick={() => setForm(formFromConnector(connector))}
+                      className="px-2 py-1 text-xs font-medium rounded-md text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-white/10 transition-all"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => handleDelete(connector)}
+                      className="px-2 py-1 text-xs font-medium rounded-md text-gray-600 dark:text-gray-400 hover:bg-red-100 dark:hover:bg-red-900/20 hover:text-red-600 dark:hover:text-red-400 transition-all"
+                    >
+                      Remove
+                    </button>
+                  </div>
+                </div>
+                {preview?.connectorId === connector.id && (
+                  <ul className="mt-2 pt-2 border-t border-gray-200 dark:border-white/10 space-y-1 max-h-48 overflow-y-auto">
+                    {preview.items.length === 0 && <li className="text-xs text-gray-500 italic">No recent items.</li>}
+                    {preview.items.map((item, index) => (
+                      <li key={index} className="text-xs text-gray-700 dark:text-gray-300">
+                        <span className="text-gray-500">{new Date(item.timestamp).toLocaleString()} · </span>{item.content}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {form ? (
+          <form onSubmit={handleSave} className="mt-6 space-y-3 p-4 rounded-lg border border-gray-200 dark:border-white/10">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <select
+                value={form.kind}
+                onChange={(e) => setForm({ ...emptyForm(e.target.value as ConnectorKind), name: form.name })}
+                disabled={!!form.id}
+                className={inputClass}
+              >
+                {(Object.keys(KIND_LABELS) as ConnectorKind[]).map(kind => <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>)}
+              </select>
+              <input className={inputClass} placeholder="Name" value={form.name} onChange={(e) => setField('name', e.target.value)} />
+            </div>
+
+            {form.kind === 'github' && (
+              <>
+                <input className={inputClass} placeholder="owner/repository" value={form.repo} onChange={(e) => setField('repo', e.target.value)} required />
+                <input className={inputClass} placeholder="Labels (optional, comma separated)" value={form.labels} onChange={(e) => setField('labels', e.target.value)} />
+                <input className={inputClass} type="password" placeholder={secretPlaceholder('token') || 'Access token (optional, for private repos)'} value={form.token} onChange={(e) => setField('token', e.target.value)} autoComplete="off" />
+              </>
+            )}
+
+            {form.kind === 'rss' && (
+              <input className={inputClass} type="url" placeholder="https://example.com/feed.xml" value={form.url} onChange={(e) => setField('url', e.target.value)} required />
+            )}
+
+            {form.kind === 'email' && (
+              <>
+                <select value={form.mode} onChange={(e) => setField('mode', e.target.value as ConnectorForm['mode'])} className={inputClass}>
+                  <option value="imap">IMAP mailbox</option>
+                  <option value="mbox">Import an mbox file</option>
+                </select>
+                {form.mode === 'imap' ? (
+                  <>
+                    <div className="grid grid-cols-3 gap-3">
+                      <input className={`${inputClass} col-span-2`} placeholder="imap.example.com" value={form.host} onChange={(e) => setField('host', e.target.value)} required />
+                      <input className={inputClass} type="number" placeholder={form.secure ? '993' : '143'} value={form.port} onChange={(e) => setField('port', e.target.value)} />
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                      <input className={inputClass} placeholder="User" value={form.user} onChange={(e) => setField('user', e.target.value)} required autoComplete="off" />
+                      <input className={inputClass} type="password" placeholder={secretPlaceholder('password') || 'Password or app password'} value={form.password} onChange={(e) => setField('password', e.target.value)} autoComplete="new-password" />
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 items-center">
+                      <input className={inputClass} placeholder="Mailbox" value={form.mailbox} onChange={(e) => setField('mailbox', e.target.value)} />
+                      <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                        <input type="checkbox" checked={form.secure} onChange={(e) => setField('secure', e.target.checked)} />
+                        Use TLS
+                      </label>
+                    </div>
+                  </>
+                ) : (
+                  <div className="text-sm text-gray-700 dark:text-gray-300">
+                    <input type="file" accept=".mbox,text/plain,application/mbox" onChange={(e) => handleMboxFile(e.target.files?.[0])} />
+                    <p className="mt-1 text-xs text-gray-500">
+                      {form.mboxFileName || secretPlaceholder('mbox') || 'Export a folder from your mail client as mbox.'}
+                    </p>
+                  </div>
+                )}
+              </>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setForm(null)}
+                className="px-4 py-2 rounded-lg text-sm font-medium text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-white/10 transition-all"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="px-4 py-2 rounded-lg text-sm font-medium bg-black dark:bg-white text-white dark:text-black hover:opacity-80 disabled:opacity-50 transition-all"
+              >
+                {isSaving ? 'Saving...' : form.id ? 'Save changes' : 'Add source'}
+              </button>
+            </div>
+          </form>
+        ) : (
+          <button
+            onClick={() => setForm(emptyForm())}
+            className="mt-6 w-full px-4 py-2 rounded-lg text-sm font-medium text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-white/10 hover:bg-gray-100 dark:hover:bg-white/5 transition-all duration-200"
+          >
+            + Add a source
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ConnectorsPanel;
@@ -1,18 +1,49 @@
-import React, { useState, useCallback } from 'react';
-import { discoverOpportunities } from '../services/geminiService';
-import { ProactiveDiscoveryResponse, Problem, FounderProfile } from '../types';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
+import { aiAPI, discoveriesAPI, shortlistAPI, watchlistsAPI } from '../services/apiService';
+import { problemKey } from '../shared/keys';
+import { ProactiveDiscoveryResponse, Problem, FounderProfile, SavedDiscovery, DiscoveryScan, OpportunityScores, OpportunityWeights, SavedWatchlist, ShortlistItem } from '../types';
 import { Loader } from './Loader';
+import { ErrorNotice } from './ErrorNotice';
 import { SearchIcon } from './icons/SearchIcon';
 import { SparklesIcon } from './icons/SparklesIcon';
+import { BookmarkIcon } from './icons/BookmarkIcon';
 import FounderProfileForm from './FounderProfileForm';
+import FounderProfileSwitcher from './FounderProfileSwitcher';
 import { MarkdownRenderer } from './MarkdownRenderer';
+import { SCORE_LABELS, ScoreBreakdown, ScoreWeightsPanel, loadWeights, saveWeights, weightedScore } from './OpportunityScoring';
+import WatchlistsPanel, { DEFAULT_INTERVAL_HOURS, intervalLabel } from './WatchlistsPanel';
+import ShortlistPanel from './ShortlistPanel';
 
 interface DiscoverViewProps {
   setResponse: (response: ProactiveDiscoveryResponse | null) => void;
   onProblemSelect: (problemStatement: string) => void;
+  onAnalyzeBatch: (problemStatements: string[]) => void;
+  onOpenAnalysis: (conversationId: string) => void;
+  profile: FounderProfile;
+  setProfile: React.Dispatch<React.SetStateAction<FounderProfile>>;
 }
 
-const OpportunityCard: React.FC<{ problem: Problem; onClick: () => void }> = ({ problem, onClick }) => {
+type SortKey = 'score' | keyof OpportunityScores | 'newest';
+
+const SORT_LABELS: Record<SortKey, string> = {
+  score: 'Overall score',
+  ...SCORE_LABELS,
+  newest: 'Newest evidence',
+};
+
+const MIN_SCORE_OPTIONS = [0, 5, 6, 7, 8];
+
+const SELECT_CLASSES = 'px-2 py-1 text-sm rounded-md bg-white dark:bg-black/30 border border-gray-300 dark:border-white/10 text-black dark:text-white';
+
+interface OpportunityCardProps {
+  problem: Problem;
+  score: number | null;
+  onClick: () => void;
+  isShortlisted: boolean;
+  onToggleShortlist: () => void;
+}
+
+const OpportunityCard: React.FC<OpportunityCardProps> = ({ problem, score, onClick, isShortlisted, onToggleShortlist }) => {
   const timeAgo = (dateString: string) => {
     try {
       const date = new Date(dateString);
@@ -36,8 +67,26 @@ const OpportunityCard: React.FC<{ problem: Problem; onClick: () => void }> = ({
       onClick={onClick}
       className="bg-gray-50 dark:bg-[#1a1a1a]/80 backdrop-blur-sm border border-gray-200 dark:border-white/10 rounded-xl p-6 transition-all duration-300 hover:border-gray-400 dark:hover:border-gray-500/50 hover:-translate-y-1 cursor-pointer hover:shadow-lg dark:hover:shadow-gray-900/50"
     >
-      <div className="text-lg font-medium">
-        <MarkdownRenderer content={problem.problem_statement} />
+      <div className="flex items-start gap-4">
+        <div className="text-lg font-medium flex-1">
+          <MarkdownRenderer content={problem.problem_statement} />
+        </div>
+        {score !== null && (
+          <span className="flex-shrink-0 px-2.5 py-1 rounded-lg bg-gray-200 dark:bg-white/10 text-sm font-bold text-black dark:text-white" title="Overall score with your weights">
+            {score.toFixed(1)}
+          </span>
+        )}
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggleShortlist();
+          }}
+          className={`flex-shrink-0 p-1.5 rounded-lg transition-colors hover:bg-gray-200 dark:hover:bg-white/10 ${isShortlisted ? 'text-black dark:text-white' : 'text-gray-400 dark:text-gray-500'}`}
+          aria-pressed={isShortlisted}
+          title={isShortlisted ? 'Remove from shortlist' : 'Add to shortlist'}
+        >
+          <BookmarkIcon className="w-5 h-5" fill={isShortlisted ? 'currentColor' : 'none'} />
+        </button>
       </div>
       <div className="mt-4 pt-4 border-t border-gray-200 dark:border-white/10">
         <div className="text-sm flex items-start">
@@ -46,29 +95,200 @@ const OpportunityCard: React.FC<{ problem: Problem; onClick: () => void }> = ({
             <MarkdownRenderer content={problem.personalization_note} />
           </div>
         </div>
+        {problem.scores && <div className="mt-2"><ScoreBreakdown scores={problem.scores} /></div>}
       </div>
-      <div className="mt-4 flex justify-between items-center text-sm text-gray-500 dark:text-gray-400">
-        <span className="bg-gray-200/10 dark:bg-gray-700/50 px-2 py-1 rounded-md text-xs">{problem.simulated_source}</span>
-        <span>{timeAgo(problem.freshness_timestamp)}</span>
+      <div className="mt-4 flex justify-between items-start gap-4 text-sm text-gray-500 dark:text-gray-400">
+        <div className="flex flex-wrap gap-2 min-w-0">
+          {problem.sources ? (
+            problem.sources.length > 0 ? problem.sources.map(source => (
+              <a
+                key={source.url}
+                href={source.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                onClick={(e) => e.stopPropagation()}
+                title={source.title}
+                className="bg-gray-200/10 dark:bg-gray-700/50 px-2 py-1 rounded-md text-xs truncate max-w-[16rem] hover:underline"
+              >
+                {source.feed}: {source.title}
+              </a>
+            )) : <span className="text-xs italic">No feed evidence</span>
+          ) : (
+            <span className="bg-gray-200/10 dark:bg-gray-700/50 px-2 py-1 rounded-md text-xs">{problem.simulated_source}</span>
+          )}
+        </div>
+        <span className="flex-shrink-0" title={new Date(problem.freshness_timestamp).toLocaleString()}>{timeAgo(problem.freshness_timestamp)}</span>
       </div>
     </div>
   );
 };
 
+// How much evidence the scan was based on, and which feeds couldn't be read
+const ScanSummary: React.FC<{ scan: DiscoveryScan }> = ({ scan }) => {
+  const items = scan.feeds.reduce((sum, feed) => sum + feed.items, 0);
+  const failed = scan.feeds.filter(feed => feed.error);
+  return (
+    <div className="mb-6 text-center text-xs text-gray-500 dark:text-gray-400">
+      <p>
+        Based on {items} items from {scan.feeds.filter(feed => feed.items > 0).length} of {scan.feeds.length} feeds, grouped into {scan.clusters} pain points · scanned {new Date(scan.scanned_at).toLocaleString()}
+      </p>
+      {failed.map(feed => (
+        <p key={feed.name} className="mt-1">
+          {feed.name}: {feed.error}{feed.cached ? ' (showing cached items)' : ''}
+        </p>
+      ))}
+    </div>
+  );
+};
 
-const DiscoverView: React.FC<DiscoverViewProps> = ({ setResponse, onProblemSelect }) => {
+const DiscoverView: React.FC<DiscoverViewProps> = ({ setResponse, onProblemSelect, onAnalyzeBatch, onOpenAnalysis, profile, setProfile }) => {
   const [userInput, setUserInput] = useState('');
-  const [founderProfile, setFounderProfile] = useState<FounderProfile>({
-    experience_years: 0,
-    team_size: 1,
-    runway_months: 1,
-    tech_stack: [],
-    location: '',
-    funding_stage: 'pre-seed'
-  });
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Error | null>(null);
   const [currentResponse, setCurrentResponse] = useState<ProactiveDiscoveryResponse | null>(null);
+  const [recentScans, setRecentScans] = useState<SavedDiscovery[]>([]);
+  const [savedScanId, setSavedScanId] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [noMoreProblems, setNoMoreProblems] = useState(false);
+  const [weights, setWeights] = useState<OpportunityWeights>(loadWeights);
+  const [showWeights, setShowWeights] = useState(false);
+  const [sortBy, setSortBy] = useState<SortKey>('score');
+  const [minScore, setMinScore] = useState(0);
+  const [feedFilter, setFeedFilter] = useState('');
+  const [watchlists, setWatchlists] = useState<SavedWatchlist[]>([]);
+  const [showWatchlists, setShowWatchlists] = useState(false);
+  const [isWatching, setIsWatching] = useState(false);
+  const [shortlist, setShortlist] = useState<ShortlistItem[]>([]);
+  const [showShortlist, setShowShortlist] = useState(false);
+
+  useEffect(() => {
+    discoveriesAPI.list()
+      .then(saved => setRecentScans(saved.slice(0, 5)))
+      .catch(err => console.error('Failed to load recent scans:', err));
+    watchlistsAPI.list()
+      .then(setWatchlists)
+      .catch(err => console.error('Failed to load watchlists:', err));
+    shortlistAPI.list()
+      .then(setShortlist)
+      .catch(err => console.error('Failed to load the shortlist:', err));
+  }, []);
+
+  const shortlistedByStatement = useMemo(
+    () => new Map(shortlist.map(item => [problemKey(item.problem.problem_statement), item])),
+    [shortlist]
+  );
+
+  const handleToggleShortlist = async (problem: Problem) => {
+    if (!currentResponse) return;
+
+    setError(null);
+    try {
+      const existing = shortlistedByStatement.get(problemKey(problem.problem_statement));
+      if (existing) {
+        await shortlistAPI.remove(existing.id);
+        setShortlist(prev => prev.filter(item => item.id !== existing.id));
+      } else {
+        const item = await shortlistAPI.add(problem, currentResponse.sector);
+        setShortlist(prev => [item, ...prev.filter(other => other.id !== item.id)]);
+      }
+    } catch (err: any) {
+      setError(err);
+    }
+  };
+
+  const currentWatchlist = currentResponse
+    ? watchlists.find(watchlist => watchlist.sector.toLowerCase() === currentResponse.sector.trim().toLowerCase())
+    : undefined;
+
+  // The problems on screen become the baseline, so alerts only cover what later scans find
+  const handleWatch = async () => {
+    if (!currentResponse) return;
+
+    setIsWatching(true);
+    setError(null);
+    try {
+      const watchlist = await watchlistsAPI.create(currentResponse.sector, profile, DEFAULT_INTERVAL_HOURS, currentResponse);
+      setWatchlists(prev => [watchlist, ...prev]);
+    } catch (err: any) {
+      setError(err);
+    } finally {
+      setIsWatching(false);
+    }
+  };
+
+  const handleOpenWatchlistScan = (data: ProactiveDiscoveryResponse) => {
+    setError(null);
+    setUserInput(data.sector);
+    setCurrentResponse(data);
+    setResponse(data);
+    setSavedScanId(null);
+    setNoMoreProblems(false);
+  };
+
+  const handleReopenScan = (scan: SavedDiscovery) => {
+    setError(null);
+    setUserInput(scan.data.sector);
+    setCurrentResponse(scan.data);
+    setResponse(scan.data);
+    setSavedScanId(scan.id);
+    setNoMoreProblems(false);
+  };
+
+  const handleWeightsChange = (next: OpportunityWeights) => {
+    setWeights(next);
+    saveWeights(next);
+  };
+
+  // Asks for five problems the founder hasn't seen yet and appends them to the saved scan
+  const handleLoadMore = async () => {
+    if (!currentResponse) return;
+
+    setIsLoadingMore(true);
+    setError(null);
+    try {
+      const more = await aiAPI.discoverOpportunities(currentResponse.sector, profile, currentResponse.problems);
+      if (more.problems.length === 0) {
+        setNoMoreProblems(true);
+        return;
+      }
+      const merged: ProactiveDiscoveryResponse = {
+        ...currentResponse,
+        problems: [...currentResponse.problems, ...more.problems],
+        scan: more.scan ?? currentResponse.scan,
+      };
+      setCurrentResponse(merged);
+      setResponse(merged);
+      if (savedScanId) {
+        discoveriesAPI.update(savedScanId, merged)
+          .then(saved => setRecentScans(prev => prev.map(scan => scan.id === saved.id ? saved : scan)))
+          .catch(err => console.error('Failed to save discovery:', err));
+      }
+    } catch (err: any) {
+      setError(err);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const feeds = useMemo(
+    () => [...new Set(currentResponse?.problems.flatMap(problem => problem.sources ?? []).map(source => source.feed) ?? [])].sort(),
+    [currentResponse]
+  );
+
+  // Problems without scores (from scans saved before scoring) sort last and only pass the "Any score" filter
+  const visibleProblems = useMemo(() => {
+    const rank = ({ problem, score }: { problem: Problem; score: number | null }) => {
+      if (sortBy === 'score') return score ?? -1;
+      if (sortBy === 'newest') return new Date(problem.freshness_timestamp).getTime() || 0;
+      return problem.scores?.[sortBy] ?? -1;
+    };
+    return (currentResponse?.problems ?? [])
+      .map(problem => ({ problem, score: weightedScore(problem.scores, weights) }))
+      .filter(({ problem, score }) =>
+        (minScore === 0 || (score !== null && score >= minScore))
+        && (!feedFilter || problem.sources?.some(source => source.feed === feedFilter)))
+      .sort((a, b) => rank(b) - rank(a) || a.problem.id - b.problem.id);
+  }, [currentResponse, weights, sortBy, minScore, feedFilter]);
 
   const handleSubmit = useCallback(async (e: React.FormEvent) => {
     e.preventDefault();
@@ -78,18 +298,26 @@ const DiscoverView: React.FC<DiscoverViewProps> = ({ setResponse, onProblemSelec
     setError(null);
     setCurrentResponse(null);
     setResponse(null);
+    setSavedScanId(null);
+    setNoMoreProblems(false);
+    setFeedFilter('');
 
     try {
-      const result = await discoverOpportunities(userInput, founderProfile);
+      const result = await aiAPI.discoverOpportunities(userInput, profile);
       setCurrentResponse(result);
       setResponse(result);
-      // Fix: Corrected syntax for try-catch block.
+      discoveriesAPI.create(result)
+        .then(saved => {
+          setSavedScanId(saved.id);
+          setRecentScans(prev => [saved, ...prev].slice(0, 5));
+        })
+        .catch(err => console.error('Failed to save discovery:', err));
     } catch (err: any) {
-      setError(err.message || 'An unknown error occurred.');
+      setError(err);
     } finally {
       setIsLoading(false);
     }
-  }, [userInput, founderProfile, setResponse]);
+  }, [userInput, profile, setResponse]);
 
   return (
     <div className="animate-fade-in">
@@ -97,7 +325,7 @@ const DiscoverView: React.FC<DiscoverViewProps> = ({ setResponse, onProblemSelec
       <p className="text-center text-sm sm:text-base text-gray-500 dark:text-gray-400 mt-2 max-w-2xl mx-auto px-4">Discover emerging problems and opportunities tailored to your founder profile.</p>
 
       <div className="mt-6 sm:mt-8 lg:mt-10 max-w-4xl mx-auto">
-        <FounderProfileForm profile={founderProfile} setProfile={setFounderProfile} disabled={isLoading} />
+        <FounderProfileForm profile={profile} setProfile={setProfile} disabled={isLoading} headerAction={<FounderProfileSwitcher disabled={isLoading} />} />
       </div>
 
       <form onSubmit={handleSubmit} className="mt-6 sm:mt-8 max-w-4xl mx-auto">
@@ -122,24 +350,147 @@ const DiscoverView: React.FC<DiscoverViewProps> = ({ setResponse, onProblemSelec
         </button>
       </form>
 
-      {error && <div className="mt-8 text-center text-gray-800 dark:text-gray-300 bg-gray-200 dark:bg-gray-800/50 p-4 rounded-lg max-w-xl mx-auto border border-gray-400 dark:border-gray-600">{error}</div>}
+      {(recentScans.length > 0 || watchlists.length > 0 || shortlist.length > 0) && (
+        <div className="mt-4 max-w-4xl mx-auto flex flex-wrap items-center gap-2 text-xs">
+          {recentScans.length > 0 && <span className="text-gray-500 dark:text-gray-400">Recent scans:</span>}
+          {recentScans.map(scan => (
+            <button
+              key={scan.id}
+              onClick={() => handleReopenScan(scan)}
+              disabled={isLoading || isLoadingMore}
+              className="px-2.5 py-1 rounded-full bg-gray-200 dark:bg-white/10 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-white/20 transition-colors disabled:opacity-50"
+              title={new Date(scan.createdAt).toLocaleString()}
+            >
+              {scan.data.sector}
+            </button>
+          ))}
+          <span className="flex-1" />
+          {shortlist.length > 0 && (
+            <button
+              onClick={() => setShowShortlist(true)}
+              className="px-2.5 py-1 rounded-full border border-gray-300 dark:border-white/10 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-white/10 transition-colors"
+            >
+              Shortlist ({shortlist.length})
+            </button>
+          )}
+          {watchlists.length > 0 && (
+            <button
+              onClick={() => setShowWatchlists(true)}
+              className="px-2.5 py-1 rounded-full border border-gray-300 dark:border-white/10 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-white/10 transition-colors"
+            >
+              Watchlists ({watchlists.length})
+            </button>
+          )}
+        </div>
+      )}
+
+      {error && <ErrorNotice error={error} className="max-w-xl" />}
 
       {currentResponse && (
         <div className="mt-12 max-w-3xl mx-auto animate-slide-up">
-          <h3 className="text-2xl font-bold text-center mb-6 text-black dark:text-gray-200">
-            Top 5 Opportunities in <span>{currentResponse.sector}</span>
+          <h3 className="text-2xl font-bold text-center mb-2 text-black dark:text-gray-200">
+            {currentResponse.problems.length} Opportunities in <span>{currentResponse.sector}</span>
           </h3>
+          {currentResponse.scan && <ScanSummary scan={currentResponse.scan} />}
+          <div className="mb-6 text-center text-xs">
+            {currentWatchlist ? (
+              <button onClick={() => setShowWatchlists(true)} className="text-gray-500 dark:text-gray-400 hover:underline">
+                Watching {currentWatchlist.sector} · {currentWatchlist.enabled ? intervalLabel(currentWatchlist.intervalHours).toLowerCase() : 'paused'}
+              </button>
+            ) : (
+              <button
+                onClick={handleWatch}
+                disabled={isWatching}
+                className="px-3 py-1 rounded-md border border-gray-300 dark:border-white/10 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-white/10 transition-colors disabled:opacity-50"
+                title="Re-scan this sector weekly and get an alert for each new problem"
+              >
+                {isWatching ? 'Watching…' : 'Watch this sector'}
+              </button>
+            )}
+          </div>
+
+          <div className="mb-4 flex flex-wrap items-center gap-3 text-sm text-gray-600 dark:text-gray-400">
+            <label className="flex items-center gap-2">
+              Sort by
+              <select value={sortBy} onChange={(e) => setSortBy(e.target.value as SortKey)} className={SELECT_CLASSES}>
+                {(Object.keys(SORT_LABELS) as SortKey[]).map(key => <option key={key} value={key}>{SORT_LABELS[key]}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Score
+              <select value={minScore} onChange={(e) => setMinScore(Number(e.target.value))} className={SELECT_CLASSES}>
+                {MIN_SCORE_OPTIONS.map(value => <option key={value} value={value}>{value === 0 ? 'Any' : `${value}+`}</option>)}
+              </select>
+            </label>
+            {feeds.length > 0 && (
+              <label className="flex items-center gap-2">
+                Source
+                <select value={feedFilter} onChange={(e) => setFeedFilter(e.target.value)} className={SELECT_CLASSES}>
+                  <option value="">All feeds</option>
+                  {feeds.map(feed => <option key={feed} value={feed}>{feed}</option>)}
+                </select>
+              </label>
+            )}
+            <button
+              onClick={() => setShowWeights(prev => !prev)}
+              className="ml-auto px-3 py-1 rounded-md border border-gray-300 dark:border-white/10 hover:bg-gray-200 dark:hover:bg-white/10 transition-colors"
+            >
+              {showWeights ? 'Hide weights' : 'Adjust weights'}
+            </button>
+          </div>
+          {showWeights && <div className="mb-4"><ScoreWeightsPanel weights={weights} onChange={handleWeightsChange} /></div>}
+
+          {visibleProblems.length < currentResponse.problems.length && (
+            <p className="mb-4 text-xs text-gray-500 dark:text-gray-400">
+              Showing {visibleProblems.length} of {currentResponse.problems.length} problems.
+            </p>
+          )}
           <div className="space-y-4">
-            {currentResponse.problems.map((problem) => (
+            {visibleProblems.map(({ problem, score }) => (
               <OpportunityCard
                 key={problem.id}
                 problem={problem}
+                score={score}
                 onClick={() => onProblemSelect(problem.problem_statement)}
+                isShortlisted={shortlistedByStatement.has(problemKey(problem.problem_statement))}
+                onToggleShortlist={() => handleToggleShortlist(problem)}
               />
             ))}
           </div>
+
+          <div className="mt-6 text-center">
+            {noMoreProblems ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400 italic">No new problems in the feeds right now. Try again later or scan another sector.</p>
+            ) : (
+              <button
+                onClick={handleLoadMore}
+                disabled={isLoadingMore || isLoading}
+                className="inline-flex items-center justify-center gap-2 px-4 py-2 rounded-lg border border-gray-300 dark:border-white/10 text-sm font-medium text-black dark:text-white hover:bg-gray-200 dark:hover:bg-white/10 transition-colors disabled:opacity-50"
+              >
+                {isLoadingMore ? <Loader /> : 'Give me 5 more'}
+              </button>
+            )}
+          </div>
         </div>
       )}
+
+      {showWatchlists && (
+        <WatchlistsPanel
+          watchlists={watchlists}
+          setWatchlists={setWatchlists}
+          onOpenScan={handleOpenWatchlistScan}
+          onClose={() => setShowWatchlists(false)}
+        />
+      )}
+      {showShortlist && (
+        <ShortlistPanel
+          items={shortlist}
+          setItems={setShortlist}
+          onAnalyzeBatch={onAnalyzeBatch}
+          onOpenAnalysis={onOpenAnalysis}
+          onClose={() => setShowShortlist(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,24 @@
+import React from 'react';
+import { isInvalidModelOutput } from '../services/apiService';
+
+interface ErrorNoticeProps {
+  error: Error;
+  className?: string;
+}
+
+// Shows a failed request; malformed AI output also lists what was wrong so it can be reported
+export const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, className = 'max-w-3xl' }) => {
+  return (
+    <div className={`mt-8 text-center text-gray-800 dark:text-gray-300 bg-gray-200 dark:bg-gray-800/50 p-4 rounded-lg mx-auto border border-gray-400 dark:border-gray-600 ${className}`}>
+      {error.message || 'An unknown error occurred.'}
+      {isInvalidModelOutput(error) && error.issues.length > 0 && (
+        <details className="mt-3 text-left text-xs text-gray-600 dark:text-gray-400">
+          <summary className="cursor-pointer text-center">What was wrong with the response</summary>
+          <ul className="mt-2 list-disc list-inside space-y-1 font-mono">
+            {error.issues.map((issue, index) => <li key={index}>{issue}</li>)}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+};
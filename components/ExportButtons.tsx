@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { DownloadedFile } from '../services/apiService';
+
+interface ExportButtonsProps<F extends string> {
+  formats: { value: F; label: string }[];
+  onExport: (format: F) => Promise<DownloadedFile>;
+  disabled?: boolean;
+  disabledTitle?: string;
+}
+
+function saveFile({ blob, filename }: DownloadedFile) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// A row of download buttons, one per export format
+function ExportButtons<F extends string>({ formats, onExport, disabled = false, disabledTitle }: ExportButtonsProps<F>) {
+  const [pending, setPending] = useState<F | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: F) => {
+    setPending(format);
+    setError(null);
+    try {
+      saveFile(await onExport(format));
+    } catch (err: any) {
+      setError(err.message || 'Export failed');
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs">
+      <span className="text-gray-500 dark:text-gray-400">Export:</span>
+      {formats.map(({ value, label }) => (
+        <button
+          key={value}
+          onClick={() => handleExport(value)}
+          disabled={disabled || pending !== null}
+          title={disabled ? disabledTitle : `Download as ${label}`}
+          className="px-2 py-1 rounded-md border border-gray-300 dark:border-white/20 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200"
+        >
+          {pending === value ? 'Preparing…' : label}
+        </button>
+      ))}
+      {error && <span className="text-red-600 dark:text-red-400">{error}</span>}
+    </div>
+  );
+}
+
+export default ExportButtons;
@@ -5,6 +5,7 @@ interface FounderProfileFormProps {
   profile: FounderProfile;
   setProfile: React.Dispatch<React.SetStateAction<FounderProfile>>;
   disabled: boolean;
+  headerAction?: React.ReactNode;
 }
 
 const Label: React.FC<{ htmlFor: string; children: React.ReactNode }> = ({ htmlFor, children }) => (
@@ -20,7 +21,7 @@ const Select: React.FC<React.SelectHTMLAttributes<HTMLSelectElement>> = (props)
 );
 
 
-const FounderProfileForm: React.FC<FounderProfileFormProps> = ({ profile, setProfile, disabled }) => {
+const FounderProfileForm: React.FC<FounderProfileFormProps> = ({ profile, setProfile, disabled, headerAction }) => {
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     let processedValue: string | number | string[] = value;
@@ -80,7 +81,10 @@ const FounderProfileForm: React.FC<FounderProfileFormProps> = ({ profile, setPro
 
   return (
     <div className="bg-gray-50 dark:bg-[#1a1a1a]/80 backdrop-blur-sm border border-gray-200 dark:border-white/10 rounded-xl p-4 sm:p-6">
-      <h3 className="text-base sm:text-lg font-semibold text-black dark:text-gray-200 mb-3 sm:mb-4">Founder Profile</h3>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3 sm:mb-4">
+        <h3 className="text-base sm:text-lg font-semibold text-black dark:text-gray-200">Founder Profile</h3>
+        {headerAction}
+      </div>
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4">
         <div>
           <Label htmlFor="experience_years">Experience (Years)</Label>
@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import { useFounderProfile } from '../contexts/FounderProfileContext';
+
+interface FounderProfileSwitcherProps {
+  disabled: boolean;
+}
+
+const FounderProfileSwitcher: React.FC<FounderProfileSwitcherProps> = ({ disabled }) => {
+  const { profiles, activeProfileId, switchProfile, createProfile, renameProfile, deleteProfile } = useFounderProfile();
+  const [isBusy, setIsBusy] = useState(false);
+
+  const activeProfile = profiles.find(p => p.id === activeProfileId);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    try {
+      await action();
+    } catch (err: any) {
+      alert(err.message || 'Something went wrong while updating your profiles.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleCreate = () => {
+    const name = window.prompt('Name this profile (e.g., "Solo side-project" or "Funded team")');
+    if (name?.trim()) run(() => createProfile(name.trim()));
+  };
+
+  const handleRename = () => {
+    if (!activeProfile) return;
+    const name = window.prompt('Rename profile', activeProfile.name);
+    if (name?.trim() && name.trim() !== activeProfile.name) run(() => renameProfile(activeProfile.id, name.trim()));
+  };
+
+  const handleDelete = () => {
+    if (!activeProfile) return;
+    if (window.confirm(`Delete the "${activeProfile.name}" profile?`)) run(() => deleteProfile(activeProfile.id));
+  };
+
+  const isDisabled = disabled || isBusy;
+  const linkClass = 'text-xs font-medium text-gray-600 dark:text-gray-400 hover:underline disabled:opacity-50 disabled:cursor-not-allowed';
+
+  if (profiles.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        value={activeProfileId ?? ''}
+        onChange={(e) => run(() => switchProfile(e.target.value))}
+        disabled={isDisabled}
+        aria-label="Active founder profile"
+        className="p-1.5 text-xs sm:text-sm bg-gray-50 dark:bg-[#1a1a1a]/50 border border-gray-200 dark:border-white/10 rounded-md text-black dark:text-gray-200 focus:outline-none focus:ring-2 focus:ring-[var(--primary-brand)] disabled:opacity-50"
+      >
+        {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+      </select>
+      <button type="button" onClick={handleCreate} disabled={isDisabled} className={linkClass}>New</button>
+      <button type="button" onClick={handleRename} disabled={isDisabled} className={linkClass}>Rename</button>
+      <button type="button" onClick={handleDelete} disabled={isDisabled || profiles.length <= 1} className={linkClass}>Delete</button>
+    </div>
+  );
+};
+
+export default FounderProfileSwitcher;
@@ -0,0 +1,204 @@
+import React, { useState, useRef } from 'react';
+import { liveDataAPI } from '../services/apiService';
+import { parseLiveDataImport } from '../services/liveDataImport';
+import { LIVE_DATA_SOURCES, LiveDataSource, SavedLiveDataItem } from '../types';
+
+interface LiveDataInboxProps {
+  items: SavedLiveDataItem[];
+  onItemsChange: (items: SavedLiveDataItem[]) => void;
+}
+
+const SOURCE_LABELS: Record<LiveDataSource, string> = {
+  slack: 'Slack',
+  github: 'GitHub',
+  notion: 'Notion',
+  email: 'Email',
+  market_news: 'Market news',
+};
+
+interface ItemDraft {
+  id: string | null;
+  source: LiveDataSource;
+  content: string;
+  timestamp: string; // datetime-local value
+}
+
+// datetime-local inputs work in local time without a zone suffix
+const toLocalInput = (iso: string): string => {
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+};
+
+const emptyDraft = (): ItemDraft => ({
+  id: null,
+  source: 'slack',
+  content: '',
+  timestamp: toLocalInput(new Date().toISOString()),
+});
+
+const byNewest = (a: SavedLiveDataItem, b: SavedLiveDataItem) => b.timestamp.localeCompare(a.timestamp);
+
+const inputClass = 'px-3 py-2 text-sm rounded-md bg-white dark:bg-black/30 border border-gray-300 dark:border-white/10 text-black dark:text-white focus:outline-none focus:ring-1 focus:ring-gray-400';
+
+const LiveDataInbox: React.FC<LiveDataInboxProps> = ({ items, onItemsChange }) => {
+  const [draft, setDraft] = useState<ItemDraft>(emptyDraft);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [importNotes, setImportNotes] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.content.trim()) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const item = { source: draft.source, content: draft.content, timestamp: new Date(draft.timestamp).toISOString() };
+      if (draft.id) {
+        const saved = await liveDataAPI.update(draft.id, item);
+        onItemsChange(items.map(i => i.id === saved.id ? saved : i).sort(byNewest));
+      } else {
+        const saved = await liveDataAPI.create([item]);
+        onItemsChange([...saved, ...items].sort(byNewest));
+      }
+      setDraft(emptyDraft());
+    } catch (err: any) {
+      setError(err.message || 'Failed to save live data.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (item: SavedLiveDataItem) => {
+    try {
+      await liveDataAPI.remove(item.id);
+      onItemsChange(items.filter(i => i.id !== item.id));
+      if (draft.id === item.id) setDraft(emptyDraft());
+    } catch (err: any) {
+      setError(err.message || 'Failed to delete live data.');
+    }
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    if (fileInputRef.current) fileInputRef.current.value = '';
+
+    setError(null);
+    const { items: imported, errors } = parseLiveDataImport(await file.text(), file.name);
+    if (imported.length === 0) {
+      setImportNotes(errors.length ? errors : ['No items found in the file.']);
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const saved = await liveDataAPI.create(imported);
+      onItemsChange([...saved, ...items].sort(byNewest));
+      setImportNotes([
+        `Imported ${saved.length} item${saved.length === 1 ? '' : 's'} from ${file.name}.`,
+        ...(errors.length ? [`Skipped ${errors.length}:`, ...errors] : []),
+      ]);
+    } catch (err: any) {
+      setError(err.message || 'Failed to import live data.');
+      setImportNotes([]);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-6 bg-gray-50 dark:bg-[#1a1a1a]/80 border border-gray-200 dark:border-white/10 rounded-xl">
+      <div className="flex flex-wrap justify-between items-start gap-3">
+        <div>
+          <h3 className="text-lg font-semibold text-black dark:text-gray-200">Live Data Inbox</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">Paste signals from Slack, GitHub, Notion, email or the news. They are fused into every plan you compose.</p>
+        </div>
+        <div>
+          <input ref={fileInputRef} type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={(e) => handleImport(e.target.files?.[0])} />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isSaving}
+            className="px-3 py-2 text-sm font-medium rounded-md border border-gray-300 dark:border-white/10 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-white/5 disabled:opacity-50 transition-all"
+            title='CSV with "source,content,timestamp" columns, or a JSON array of items'
+          >
+            Import CSV / JSON
+          </button>
+        </div>
+      </div>
+
+      {importNotes.length > 0 && (
+        <div className="mt-3 text-xs text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-white/5 p-3 rounded-lg border border-gray-200 dark:border-white/10 space-y-0.5">
+          {importNotes.map((note, index) => <p key={index}>{note}</p>)}
+        </div>
+      )}
+
+      <form onSubmit={handleSave} className="mt-4 space-y-2">
+        <div className="flex flex-wrap gap-2">
+          <select value={draft.source} onChange={(e) => setDraft({ ...draft, source: e.target.value as LiveDataSource })} className={inputClass}>
+            {LIVE_DATA_SOURCES.map(source => <option key={source} value={source}>{SOURCE_LABELS[source]}</option>)}
+          </select>
+          <input type="datetime-local" value={draft.timestamp} onChange={(e) => setDraft({ ...draft, timestamp: e.target.value })} className={inputClass} required />
+        </div>
+        <textarea
+          value={draft.content}
+          onChange={(e) => setDraft({ ...draft, content: e.target.value })}
+          placeholder="e.g. Three customers in #support asked for offline mode this week"
+          rows={2}
+          className={`${inputClass} w-full resize-y`}
+        />
+        <div className="flex justify-end gap-2">
+          {draft.id && (
+            <button
+              type="button"
+              onClick={() => setDraft(emptyDraft())}
+              className="px-3 py-1.5 text-sm font-medium rounded-md text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-white/10 transition-all"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={isSaving || !draft.content.trim()}
+            className="px-3 py-1.5 text-sm font-medium rounded-md bg-black dark:bg-white text-white dark:text-black hover:opacity-80 disabled:opacity-50 transition-all"
+          >
+            {draft.id ? 'Save changes' : 'Add signal'}
+          </button>
+        </div>
+      </form>
+
+      {error && <div className="mt-3 text-sm text-gray-800 dark:text-gray-300 bg-gray-200 dark:bg-gray-800/50 p-3 rounded-lg border border-gray-400 dark:border-gray-600">{error}</div>}
+
+      {items.length > 0 && (
+        <ul className="mt-4 space-y-2 max-h-72 overflow-y-auto">
+          {items.map(item => (
+            <li key={item.id} className={`flex items-start justify-between gap-3 px-3 py-2 rounded-lg border ${draft.id === item.id ? 'border-gray-500 dark:border-white/40' : 'border-gray-200 dark:border-white/10'} bg-gray-100 dark:bg-white/5`}>
+              <div className="min-w-0">
+                <div className="text-xs text-gray-500 dark:text-gray-400">
+                  <span className="font-medium text-gray-700 dark:text-gray-300">{SOURCE_LABELS[item.source]}</span> · {new Date(item.timestamp).toLocaleString()}
+                </div>
+                <p className="text-sm text-gray-800 dark:text-gray-200 whitespace-pre-wrap break-words">{item.content}</p>
+              </div>
+              <div className="flex shrink-0 gap-1">
+                <button
+                  onClick={() => setDraft({ id: item.id, source: item.source, content: item.content, timestamp: toLocalInput(item.timestamp) })}
+                  className="px-2 py-1 text-xs font-medium rounded-md text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-white/10 transition-all"
+                >
+                  Edit
+                </button>
+                <button
+                  onClick={() => handleDelete(item)}
+                  className="px-2 py-1 text-xs font-medium rounded-md text-gray-600 dark:text-gray-400 hover:bg-red-100 dark:hover:bg-red-900/20 hover:text-red-600 dark:hover:text-red-400 transition-all"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default LiveDataInbox;
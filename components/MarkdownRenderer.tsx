@@ -1,16 +1,40 @@
+import { useId } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
+import { CitedSource } from '../types';
 
 interface MarkdownRendererProps {
   content: string;
   className?: string;
+  sources?: CitedSource[]; // Rendered as the footnotes that [^1], [^2], ... in content point to
 }
 
-export const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ content, className = '' }) => {
+const escapeLinkText = (text: string) => text.replace(/[[\]\\]/g, '\\$&');
+
+// GFM footnote definitions; remark-gfm drops any that the content never references
+const footnoteDefinitions = (sources: CitedSource[]) => sources
+  .map((source, index) => {
+    const url = source.url.replace(/[<>\s]/g, encodeURIComponent);
+    const snippet = source.snippet.replace(/\s+/g, ' ').trim();
+    return `[^${index + 1}]: [${escapeLinkText(source.title)}](<${url}>)${snippet ? ` — ${snippet}` : ''}`;
+  })
+  .join('\n');
+
+export const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ content, className = '', sources }) => {
+  // Footnote ids must be unique per renderer, since several analysis chunks share a page
+  const footnotePrefix = `${useId().replace(/[^a-zA-Z0-9]/g, '')}-`;
+  const markdown = sources?.length ? `${content}\n\n${footnoteDefinitions(sources)}` : content;
+
   return (
     <div className={`markdown-content ${className}`}>
       <ReactMarkdown
         remarkPlugins={[remarkGfm]}
+        remarkRehypeOptions={{
+          clobberPrefix: footnotePrefix,
+          footnoteLabel: 'Sources',
+          footnoteLabelTagName: 'h4',
+          footnoteLabelProperties: { className: ['text-sm font-semibold mt-4 mb-2 text-gray-600 dark:text-gray-400'] },
+        }}
         components={{
           h1: ({ node, ...props }) => <h1 className="text-2xl font-bold mt-6 mb-4 text-black dark:text-white" {...props} />,
           h2: ({ node, ...props }) => <h2 className="text-xl font-bold mt-5 mb-3 text-black dark:text-white" {...props} />,
@@ -32,8 +56,7 @@ export const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ content, cla
           a: ({ node, ...props }) => (
             <a 
               className="text-blue-600 dark:text-blue-400 hover:underline font-medium" 
-              target="_blank" 
-              rel="noopener noreferrer" 
+              {...(props.href?.startsWith('#') ? {} : { target: '_blank', rel: 'noopener noreferrer' })}
               {...props} 
             />
           ),
@@ -54,7 +77,7 @@ export const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ content, cla
           td: ({ node, ...props }) => <td className="px-4 py-2 border border-gray-300 dark:border-gray-600" {...props} />,
         }}
       >
-        {content}
+        {markdown}
       </ReactMarkdown>
     </div>
   );
@@ -0,0 +1,164 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { watchlistsAPI } from '../services/apiService';
+import { WatchlistAlert } from '../types';
+import { BellIcon } from './icons/BellIcon';
+import { XIcon } from './icons/MenuIcon';
+
+const RECONNECT_MS = 5000;
+
+/**
+ * The user's watchlist alerts, newest first. Alerts from scans that finish while the app is open arrive over
+ * the watchlist event stream, which reconnects after dropping.
+ */
+export function useWatchlistAlerts() {
+  const [alerts, setAlerts] = useState<WatchlistAlert[]>([]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+
+    watchlistsAPI.alerts()
+      .then(loaded => {
+        if (!controller.signal.aborted) setAlerts(loaded);
+      })
+      .catch(err => console.error('Failed to load watchlist alerts:', err));
+
+    const connect = () => {
+      watchlistsAPI.subscribe({
+        onAlert: alert => setAlerts(prev => [alert, ...prev.filter(existing => existing.id !== alert.id)]),
+      }, controller.signal)
+        .catch(err => {
+          if (!controller.signal.aborted) console.error('Watchlist alert stream failed:', err);
+        })
+        .finally(() => {
+          if (!controller.signal.aborted) reconnectTimer = setTimeout(connect, RECONNECT_MS);
+        });
+    };
+    connect();
+
+    return () => {
+      controller.abort();
+      clearTimeout(reconnectTimer);
+    };
+  }, []);
+
+  const markRead = useCallback(async (alertIds?: string[]) => {
+    const readAt = Date.now();
+    setAlerts(prev => prev.map(alert =>
+      !alert.readAt && (!alertIds || alertIds.includes(alert.id)) ? { ...alert, readAt } : alert
+    ));
+    try {
+      await watchlistsAPI.markRead(alertIds);
+    } catch (err) {
+      console.error('Failed to mark alerts read:', err);
+    }
+  }, []);
+
+  return { alerts, unreadCount: alerts.filter(alert => !alert.readAt).length, markRead };
+}
+
+export const NotificationBell: React.FC<{ unreadCount: number; onClick: () => void }> = ({ unreadCount, onClick }) => (
+  <button
+    onClick={onClick}
+    className="relative p-2 rounded-lg text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-white/10 transition-all duration-200"
+    aria-label={unreadCount > 0 ? `${unreadCount} new problem${unreadCount === 1 ? '' : 's'} from your watchlists` : 'Watchlist alerts'}
+    title="Watchlist alerts"
+  >
+    <BellIcon className="w-5 h-5" />
+    {unreadCount > 0 && (
+      <span className="absolute -top-0.5 -right-0.5 min-w-[1.1rem] h-[1.1rem] px-1 rounded-full bg-red-600 text-white text-[10px] font-semibold leading-[1.1rem] text-center">
+        {unreadCount > 99 ? '99+' : unreadCount}
+      </span>
+    )}
+  </button>
+);
+
+interface NotificationTrayProps {
+  alerts: WatchlistAlert[];
+  onMarkRead: (alertIds?: string[]) => void;
+  onAnalyze: (problemStatement: string) => void;
+  onClose: () => void;
+}
+
+// Problems found by scheduled sector scans that no earlier scan of the same watchlist had
+const NotificationTray: React.FC<NotificationTrayProps> = ({ alerts, onMarkRead, onAnalyze, onClose }) => {
+  const unread = alerts.filter(alert => !alert.readAt);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-lg bg-white dark:bg-[#1a1a1a] border border-gray-200 dark:border-white/10 rounded-xl shadow-xl p-6 animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-black dark:text-white">New Since Last Scan</h2>
+          <div className="flex items-center gap-2">
+            {unread.length > 0 && (
+              <button onClick={() => onMarkRead()} className="text-xs font-medium text-gray-600 dark:text-gray-300 hover:underline">
+                Mark all read
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="p-1 rounded hover:bg-gray-200 dark:hover:bg-white/10 text-gray-600 dark:text-gray-400 transition-colors"
+              aria-label="Close"
+            >
+              <XIcon className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {alerts.length === 0 ? (
+          <p className="py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+            Nothing yet. Watch a sector from Discover and new problems will show up here after each scan.
+          </p>
+        ) : (
+          <ul className="space-y-2 max-h-[28rem] overflow-y-auto">
+            {alerts.map(alert => (
+              <li
+                key={alert.id}
+                className={`px-3 py-2 rounded-lg border ${alert.readAt
+                  ? 'bg-white dark:bg-transparent border-gray-200 dark:border-white/10'
+                  : 'bg-gray-100 dark:bg-white/5 border-gray-300 dark:border-white/20'}`}
+              >
+                <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+                  <span className="truncate">{!alert.readAt && <span className="mr-1.5 inline-block w-1.5 h-1.5 rounded-full bg-red-600 align-middle" />}{alert.sector}</span>
+                  <span className="ml-2 flex-shrink-0">{new Date(alert.createdAt).toLocaleString()}</span>
+                </div>
+                <p className="mt-1 text-sm text-gray-900 dark:text-white">{alert.problem.problem_statement}</p>
+                {alert.problem.sources && alert.problem.sources.length > 0 && (
+                  <div className="mt-1 flex flex-wrap gap-x-3 text-xs">
+                    {alert.problem.sources.map(source => (
+                      <a key={source.url} href={source.url} target="_blank" rel="noopener noreferrer" className="text-gray-500 dark:text-gray-400 hover:underline truncate max-w-[14rem]">
+                        {source.feed}: {source.title}
+                      </a>
+                    ))}
+                  </div>
+                )}
+                <div className="mt-2 flex gap-3">
+                  <button
+                    onClick={() => {
+                      onMarkRead([alert.id]);
+                      onAnalyze(alert.problem.problem_statement);
+                      onClose();
+                    }}
+                    className="text-xs font-medium text-gray-900 dark:text-white hover:underline"
+                  >
+                    Analyze
+                  </button>
+                  {!alert.readAt && (
+                    <button onClick={() => onMarkRead([alert.id])} className="text-xs text-gray-500 dark:text-gray-400 hover:underline">
+                      Mark read
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NotificationTray;
@@ -0,0 +1,99 @@
+import React from 'react';
+import { OpportunityScores, OpportunityWeights } from '../types';
+
+export const SCORE_LABELS: Record<keyof OpportunityScores, string> = {
+  market_size: 'Market size',
+  urgency: 'Urgency',
+  fit: 'Fit',
+  competition: 'Low competition',
+};
+
+const SCORE_HINTS: Record<keyof OpportunityScores, string> = {
+  market_size: 'How many would pay to solve it',
+  urgency: 'How pressing the pain is right now',
+  fit: 'How well it suits your runway, team and tech stack',
+  competition: 'How few others solve it well',
+};
+
+export const DEFAULT_WEIGHTS: OpportunityWeights = { market_size: 1, urgency: 1, fit: 2, competition: 1 };
+const MAX_WEIGHT = 5;
+const WEIGHTS_STORAGE_KEY = 'forgeai_opportunity_weights';
+
+const SCORE_KEYS = Object.keys(SCORE_LABELS) as (keyof OpportunityScores)[];
+
+export function loadWeights(): OpportunityWeights {
+  try {
+    const stored = JSON.parse(localStorage.getItem(WEIGHTS_STORAGE_KEY) ?? 'null');
+    if (stored && SCORE_KEYS.every(key => Number.isFinite(stored[key]))) return stored;
+  } catch {
+    // Fall through to the defaults
+  }
+  return DEFAULT_WEIGHTS;
+}
+
+export function saveWeights(weights: OpportunityWeights): void {
+  localStorage.setItem(WEIGHTS_STORAGE_KEY, JSON.stringify(weights));
+}
+
+// Weighted average on the same 1-10 scale; with every weight at zero, all scores count equally
+export function weightedScore(scores: OpportunityScores | undefined, weights: OpportunityWeights): number | null {
+  if (!scores) return null;
+  const total = SCORE_KEYS.reduce((sum, key) => sum + weights[key], 0);
+  const effective = total > 0 ? weights : { market_size: 1, urgency: 1, fit: 1, competition: 1 };
+  return SCORE_KEYS.reduce((sum, key) => sum + scores[key] * effective[key], 0) / (total || SCORE_KEYS.length);
+}
+
+export const ScoreBreakdown: React.FC<{ scores: OpportunityScores }> = ({ scores }) => (
+  <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+    {SCORE_KEYS.map(key => (
+      <div key={key} title={SCORE_HINTS[key]}>
+        <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+          <span>{SCORE_LABELS[key]}</span>
+          <span className="font-medium text-gray-700 dark:text-gray-300">{scores[key]}</span>
+        </div>
+        <div className="mt-1 h-1.5 rounded-full bg-gray-200 dark:bg-white/10">
+          <div className="h-full rounded-full bg-gray-700 dark:bg-gray-300" style={{ width: `${scores[key] * 10}%` }} />
+        </div>
+      </div>
+    ))}
+  </div>
+);
+
+interface ScoreWeightsPanelProps {
+  weights: OpportunityWeights;
+  onChange: (weights: OpportunityWeights) => void;
+}
+
+// One slider per score; the overall score and the "Score" sort follow these weights
+export const ScoreWeightsPanel: React.FC<ScoreWeightsPanelProps> = ({ weights, onChange }) => (
+  <div className="p-4 rounded-lg border border-gray-200 dark:border-white/10 bg-gray-50 dark:bg-[#1a1a1a]/80">
+    <div className="flex items-center justify-between mb-3">
+      <p className="text-sm font-medium text-black dark:text-gray-200">What matters most to you?</p>
+      <button
+        onClick={() => onChange(DEFAULT_WEIGHTS)}
+        className="text-xs text-gray-500 dark:text-gray-400 hover:underline"
+      >
+        Reset
+      </button>
+    </div>
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3">
+      {SCORE_KEYS.map(key => (
+        <label key={key} className="text-xs text-gray-600 dark:text-gray-400" title={SCORE_HINTS[key]}>
+          <span className="flex justify-between">
+            <span>{SCORE_LABELS[key]}</span>
+            <span>{weights[key] === 0 ? 'ignored' : `×${weights[key]}`}</span>
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={MAX_WEIGHT}
+            step={1}
+            value={weights[key]}
+            onChange={(e) => onChange({ ...weights, [key]: Number(e.target.value) })}
+            className="w-full accent-gray-700 dark:accent-gray-300"
+          />
+        </label>
+      ))}
+    </div>
+  </div>
+);
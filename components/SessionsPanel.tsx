@@ -0,0 +1,125 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { authAPI, Session } from '../services/apiService';
+import { useAuth } from '../contexts/AuthContext';
+import { Loader } from './Loader';
+import { XIcon } from './icons/MenuIcon';
+
+interface SessionsPanelProps {
+  onClose: () => void;
+}
+
+const describeUserAgent = (userAgent: string | null): string => {
+  if (!userAgent) return 'Unknown device';
+  const browser = /Edg\//.test(userAgent) ? 'Edge'
+    : /Chrome\//.test(userAgent) ? 'Chrome'
+    : /Firefox\//.test(userAgent) ? 'Firefox'
+    : /Safari\//.test(userAgent) ? 'Safari'
+    : 'Browser';
+  const os = /Windows/.test(userAgent) ? 'Windows'
+    : /Android/.test(userAgent) ? 'Android'
+    : /iPhone|iPad/.test(userAgent) ? 'iOS'
+    : /Mac OS X/.test(userAgent) ? 'macOS'
+    : /Linux/.test(userAgent) ? 'Linux'
+    : 'Unknown OS';
+  return `${browser} on ${os}`;
+};
+
+const SessionsPanel: React.FC<SessionsPanelProps> = ({ onClose }) => {
+  const { logoutAll } = useAuth();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setSessions(await authAPI.getSessions());
+    } catch (err: any) {
+      setError(err.message || 'Failed to load devices.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSessions();
+  }, [loadSessions]);
+
+  const handleRevoke = async (sessionId: number) => {
+    try {
+      await authAPI.revokeSession(sessionId);
+      setSessions(prev => prev.filter(s => s.id !== sessionId));
+    } catch (err: any) {
+      setError(err.message || 'Failed to revoke device.');
+    }
+  };
+
+  const handleLogoutAll = async () => {
+    try {
+      await logoutAll();
+      onClose();
+    } catch (err: any) {
+      setError(err.message || 'Failed to log out all devices.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-lg bg-white dark:bg-[#1a1a1a] border border-gray-200 dark:border-white/10 rounded-xl shadow-xl p-6 animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-black dark:text-white">Signed-in Devices</h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-gray-200 dark:hover:bg-white/10 text-gray-600 dark:text-gray-400 transition-colors"
+            aria-label="Close"
+          >
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && <div className="mb-4 text-sm text-gray-800 dark:text-gray-300 bg-gray-200 dark:bg-gray-800/50 p-3 rounded-lg border border-gray-400 dark:border-gray-600">{error}</div>}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8 text-black dark:text-white"><Loader /></div>
+        ) : (
+          <ul className="space-y-2 max-h-80 overflow-y-auto">
+            {sessions.map(session => (
+              <li key={session.id} className="flex items-center justify-between px-3 py-2 rounded-lg bg-gray-100 dark:bg-white/5 border border-gray-200 dark:border-white/10">
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-gray-900 dark:text-white truncate">
+                    {describeUserAgent(session.userAgent)}
+                    {session.current && <span className="ml-2 text-xs text-green-600 dark:text-green-400">This device</span>}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    Last active {new Date(session.lastSeenAt).toLocaleString()}
+                  </div>
+                </div>
+                {!session.current && (
+                  <button
+                    onClick={() => handleRevoke(session.id)}
+                    className="ml-3 px-3 py-1 text-xs font-medium rounded-md text-gray-600 dark:text-gray-400 hover:bg-red-100 dark:hover:bg-red-900/20 hover:text-red-600 dark:hover:text-red-400 transition-all"
+                  >
+                    Revoke
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <button
+          onClick={handleLogoutAll}
+          className="mt-6 w-full px-4 py-2 rounded-lg text-sm font-medium text-red-600 dark:text-red-400 border border-red-200 dark:border-red-900/50 hover:bg-red-50 dark:hover:bg-red-900/20 transition-all duration-200"
+        >
+          Log out all devices
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SessionsPanel;
@@ -0,0 +1,244 @@
+import React, { useState, useMemo } from 'react';
+import { shortlistAPI } from '../services/apiService';
+import { ShortlistItem } from '../types';
+import { XIcon } from './icons/MenuIcon';
+
+interface ShortlistRowProps {
+  item: ShortlistItem;
+  selected: boolean;
+  onSelect: (selected: boolean) => void;
+  onUpdate: (changes: { tags?: string[]; note?: string }) => void;
+  onRemove: () => void;
+  onOpenAnalysis: (conversationId: string) => void;
+}
+
+const ShortlistRow: React.FC<ShortlistRowProps> = ({ item, selected, onSelect, onUpdate, onRemove, onOpenAnalysis }) => {
+  const [note, setNote] = useState(item.note);
+  const [newTag, setNewTag] = useState('');
+
+  const addTag = () => {
+    const tag = newTag.trim();
+    setNewTag('');
+    if (tag && !item.tags.some(existing => existing.toLowerCase() === tag.toLowerCase())) {
+      onUpdate({ tags: [...item.tags, tag] });
+    }
+  };
+
+  return (
+    <li className="px-3 py-3 rounded-lg bg-gray-100 dark:bg-white/5 border border-gray-200 dark:border-white/10">
+      <div className="flex items-start gap-3">
+        <input
+          type="checkbox"
+          checked={selected}
+          onChange={(e) => onSelect(e.target.checked)}
+          className="mt-1 accent-gray-700 dark:accent-gray-300"
+          aria-label="Select for analysis"
+        />
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-gray-900 dark:text-white">{item.problem.problem_statement}</p>
+          <div className="mt-1 flex flex-wrap items-center gap-x-3 text-xs text-gray-500 dark:text-gray-400">
+            {item.sector && <span>{item.sector}</span>}
+            {item.analysis ? (
+              <span className="text-green-700 dark:text-green-400">
+                Analyzed{item.analysis.versionCount > 1 ? ` · ${item.analysis.versionCount} versions` : ''} · {new Date(item.analysis.updatedAt).toLocaleDateString()}
+                {item.analysis.conversationId && (
+                  <button onClick={() => onOpenAnalysis(item.analysis!.conversationId!)} className="ml-2 font-medium text-gray-700 dark:text-gray-300 hover:underline">
+                    Open
+                  </button>
+                )}
+              </span>
+            ) : (
+              <span>Not analyzed yet</span>
+            )}
+          </div>
+          {item.problem.sources && item.problem.sources.length > 0 && (
+            <div className="mt-1 flex flex-wrap gap-x-3 text-xs">
+              {item.problem.sources.map(source => (
+                <a key={source.url} href={source.url} target="_blank" rel="noopener noreferrer" className="text-gray-500 dark:text-gray-400 hover:underline truncate max-w-[14rem]">
+                  {source.feed}: {source.title}
+                </a>
+              ))}
+            </div>
+          )}
+
+          <div className="mt-2 flex flex-wrap items-center gap-1.5">
+            {item.tags.map(tag => (
+              <span key={tag} className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-gray-200 dark:bg-white/10 text-xs text-gray-700 dark:text-gray-300">
+                {tag}
+                <button onClick={() => onUpdate({ tags: item.tags.filter(existing => existing !== tag) })} aria-label={`Remove tag ${tag}`} className="hover:text-red-600 dark:hover:text-red-400">
+                  ×
+                </button>
+              </span>
+            ))}
+            <input
+              value={newTag}
+              onChange={(e) => setNewTag(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' || e.key === ',') {
+                  e.preventDefault();
+                  addTag();
+                }
+              }}
+              onBlur={addTag}
+              placeholder="Add tag"
+              className="w-24 px-2 py-0.5 text-xs rounded-full bg-transparent border border-dashed border-gray-300 dark:border-white/20 text-gray-800 dark:text-gray-200 placeholder-gray-400 focus:outline-none"
+            />
+          </div>
+
+          <textarea
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            onBlur={() => {
+              if (note !== item.note) onUpdate({ note });
+            }}
+            placeholder="Notes"
+            rows={note ? 2 : 1}
+            className="mt-2 w-full px-2 py-1 text-xs rounded-md bg-white dark:bg-black/30 border border-gray-300 dark:border-white/10 text-gray-800 dark:text-gray-200 placeholder-gray-400 focus:outline-none resize-y"
+          />
+        </div>
+        <button
+          onClick={onRemove}
+          className="p-1 rounded text-gray-500 dark:text-gray-400 hover:bg-red-100 dark:hover:bg-red-900/20 hover:text-red-600 dark:hover:text-red-400 transition-colors"
+          aria-label="Remove from shortlist"
+          title="Remove from shortlist"
+        >
+          <XIcon className="w-4 h-4" />
+        </button>
+      </div>
+    </li>
+  );
+};
+
+interface ShortlistPanelProps {
+  items: ShortlistItem[];
+  setItems: React.Dispatch<React.SetStateAction<ShortlistItem[]>>;
+  onAnalyzeBatch: (problemStatements: string[]) => void;
+  onOpenAnalysis: (conversationId: string) => void;
+  onClose: () => void;
+}
+
+// Bookmarked problems with tags and notes; several can be queued for analysis at once
+const ShortlistPanel: React.FC<ShortlistPanelProps> = ({ items, setItems, onAnalyzeBatch, onOpenAnalysis, onClose }) => {
+  const [error, setError] = useState<string | null>(null);
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const tags = useMemo(() => [...new Set(items.flatMap(item => item.tags))].sort((a, b) => a.localeCompare(b)), [items]);
+  const visibleItems = tagFilter ? items.filter(item => item.tags.includes(tagFilter)) : items;
+  // Analyze in the order shown, so the queue follows the list
+  const selectedItems = visibleItems.filter(item => selectedIds.has(item.id));
+
+  const setSelected = (itemId: string, selected: boolean) => setSelectedIds(prev => {
+    const next = new Set(prev);
+    if (selected) next.add(itemId);
+    else next.delete(itemId);
+    return next;
+  });
+
+  const handleUpdate = async (item: ShortlistItem, changes: { tags?: string[]; note?: string }) => {
+    setError(null);
+    setItems(prev => prev.map(existing => existing.id === item.id ? { ...existing, ...changes } : existing));
+    try {
+      const updated = await shortlistAPI.update(item.id, changes);
+      setItems(prev => prev.map(existing => existing.id === updated.id ? updated : existing));
+    } catch (err: any) {
+      setError(err.message || 'Failed to save the change.');
+      setItems(prev => prev.map(existing => existing.id === item.id ? item : existing));
+    }
+  };
+
+  const handleRemove = async (item: ShortlistItem) => {
+    setError(null);
+    try {
+      await shortlistAPI.remove(item.id);
+      setItems(prev => prev.filter(existing => existing.id !== item.id));
+      setSelected(item.id, false);
+    } catch (err: any) {
+      setError(err.message || 'Failed to remove the problem.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl bg-white dark:bg-[#1a1a1a] border border-gray-200 dark:border-white/10 rounded-xl shadow-xl p-6 animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-black dark:text-white">Shortlist</h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-gray-200 dark:hover:bg-white/10 text-gray-600 dark:text-gray-400 transition-colors"
+            aria-label="Close"
+          >
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && <div className="mb-4 text-sm text-gray-800 dark:text-gray-300 bg-gray-200 dark:bg-gray-800/50 p-3 rounded-lg border border-gray-400 dark:border-gray-600">{error}</div>}
+
+        {items.length === 0 ? (
+          <p className="py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+            Nothing shortlisted yet. Bookmark problems from a scan to keep them here.
+          </p>
+        ) : (
+          <>
+            {tags.length > 0 && (
+              <div className="mb-3 flex flex-wrap items-center gap-1.5 text-xs">
+                {[null, ...tags].map(tag => (
+                  <button
+                    key={tag ?? ''}
+                    onClick={() => setTagFilter(tag)}
+                    className={`px-2.5 py-1 rounded-full transition-colors ${tagFilter === tag
+                      ? 'bg-gray-900 dark:bg-white text-white dark:text-black'
+                      : 'bg-gray-200 dark:bg-white/10 text-gray-700 dark:text-gray-300 hover:bg-gray-300 dark:hover:bg-white/20'}`}
+                  >
+                    {tag ?? 'All'}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            <ul className="space-y-2 max-h-[26rem] overflow-y-auto">
+              {visibleItems.map(item => (
+                <ShortlistRow
+                  key={item.id}
+                  item={item}
+                  selected={selectedIds.has(item.id)}
+                  onSelect={(selected) => setSelected(item.id, selected)}
+                  onUpdate={(changes) => handleUpdate(item, changes)}
+                  onRemove={() => handleRemove(item)}
+                  onOpenAnalysis={(conversationId) => {
+                    onOpenAnalysis(conversationId);
+                    onClose();
+                  }}
+                />
+              ))}
+            </ul>
+
+            <div className="mt-4 flex flex-wrap items-center justify-between gap-3">
+              <button
+                onClick={() => setSelectedIds(new Set(visibleItems.filter(item => !item.analysis).map(item => item.id)))}
+                className="text-xs font-medium text-gray-600 dark:text-gray-300 hover:underline"
+              >
+                Select the ones not analyzed yet
+              </button>
+              <button
+                onClick={() => {
+                  onAnalyzeBatch(selectedItems.map(item => item.problem.problem_statement));
+                  onClose();
+                }}
+                disabled={selectedItems.length === 0}
+                className="px-4 py-2 rounded-lg text-sm font-medium text-white bg-gray-900 dark:bg-white dark:text-black hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+              >
+                Analyze selected ({selectedItems.length})
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ShortlistPanel;
@@ -10,6 +10,10 @@ import { ZapIcon } from './icons/ZapIcon';
 import { MenuIcon, XIcon } from './icons/MenuIcon';
 import { FlaskConicalIcon } from './icons/FlaskConicalIcon';
 import { MessageSquareIcon } from './icons/MessageSquareIcon';
+import { KanbanIcon } from './icons/KanbanIcon';
+import SessionsPanel from './SessionsPanel';
+import UsagePanel from './UsagePanel';
+import NotificationTray, { NotificationBell, useWatchlistAlerts } from './NotificationTray';
 
 interface SidebarProps {
   activeMode: ViewMode;
@@ -18,6 +22,7 @@ interface SidebarProps {
   onThemeChange: () => void;
   isComposerEnabled: boolean;
   onNewConversation: () => void;
+  onAnalyzeProblem: (problemStatement: string) => void;
 }
 
 const NavButton: React.FC<{
@@ -46,8 +51,11 @@ const NavButton: React.FC<{
   );
 };
 
-const Sidebar: React.FC<SidebarProps> = ({ activeMode, onModeChange, theme, onThemeChange, isComposerEnabled, onNewConversation }) => {
+const Sidebar: React.FC<SidebarProps> = ({ activeMode, onModeChange, theme, onThemeChange, isComposerEnabled, onNewConversation, onAnalyzeProblem }) => {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isSessionsOpen, setIsSessionsOpen] = useState(false);
+  const [isTrayOpen, setIsTrayOpen] = useState(false);
+  const { alerts, unreadCount, markRead } = useWatchlistAlerts();
   const { user, logout } = useAuth();
   const { conversations, currentConversation, switchConversation, deleteConversation } = useConversation();
 
@@ -73,6 +81,7 @@ const Sidebar: React.FC<SidebarProps> = ({ activeMode, onModeChange, theme, onTh
         </div>
         
         <div className="flex items-center space-x-2">
+          <NotificationBell unreadCount={unreadCount} onClick={() => setIsTrayOpen(true)} />
           <button
             onClick={onThemeChange}
             className="p-2 rounded-lg text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-white/10 transition-all duration-200"
@@ -120,6 +129,10 @@ const Sidebar: React.FC<SidebarProps> = ({ activeMode, onModeChange, theme, onTh
                 <ZapIcon className="w-5 h-5" />
                 <span>Composer</span>
               </NavButton>
+              <NavButton mode="tasks" activeMode={activeMode} onClick={handleNavClick}>
+                <KanbanIcon className="w-5 h-5" />
+                <span>Tasks</span>
+              </NavButton>
             </nav>
 
             {/* Chat History Section - Mobile */}
@@ -179,11 +192,21 @@ const Sidebar: React.FC<SidebarProps> = ({ activeMode, onModeChange, theme, onTh
             </div>
 
             <div className="mt-auto p-4 space-y-3">
+              {user && <UsagePanel />}
               {user && (
                 <div className="px-4 py-3 rounded-lg bg-gray-200 dark:bg-white/10">
                   <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">Signed in as</div>
                   <div className="text-sm font-medium text-gray-900 dark:text-white truncate">{user.name}</div>
                   <div className="text-xs text-gray-500 dark:text-gray-400 truncate">{user.email}</div>
+                  <button
+                    onClick={() => {
+                      setIsSessionsOpen(true);
+                      setIsMenuOpen(false);
+                    }}
+                    className="mt-2 text-xs font-medium text-gray-600 dark:text-gray-300 hover:underline"
+                  >
+                    Manage devices
+                  </button>
                 </div>
               )}
               
@@ -208,6 +231,8 @@ const Sidebar: React.FC<SidebarProps> = ({ activeMode, onModeChange, theme, onTh
           <h1 className="text-xl font-bold text-gray-900 dark:text-white tracking-tight">
             Forge-<span className="gemini-gradient-text">AI</span>
           </h1>
+          <span className="flex-1" />
+          <NotificationBell unreadCount={unreadCount} onClick={() => setIsTrayOpen(true)} />
         </div>
         
         <nav className="flex flex-col space-y-2 mb-4">
@@ -229,6 +254,10 @@ const Sidebar: React.FC<SidebarProps> = ({ activeMode, onModeChange, theme, onTh
             <ZapIcon className="w-5 h-5" />
             <span>Composer</span>
           </NavButton>
+          <NavButton mode="tasks" activeMode={activeMode} onClick={onModeChange}>
+            <KanbanIcon className="w-5 h-5" />
+            <span>Tasks</span>
+          </NavButton>
         </nav>
 
         {/* Chat History Section */}
@@ -282,11 +311,18 @@ const Sidebar: React.FC<SidebarProps> = ({ activeMode, onModeChange, theme, onTh
         </div>
 
         <div className="mt-auto space-y-3">
+          {user && <UsagePanel />}
           {user && (
             <div className="px-4 py-3 rounded-lg bg-gray-200 dark:bg-white/10">
               <div className="text-xs text-gray-500 dark:text-gray-400 mb-1">Signed in as</div>
               <div className="text-sm font-medium text-gray-900 dark:text-white truncate">{user.name}</div>
               <div className="text-xs text-gray-500 dark:text-gray-400 truncate">{user.email}</div>
+              <button
+                onClick={() => setIsSessionsOpen(true)}
+                className="mt-2 text-xs font-medium text-gray-600 dark:text-gray-300 hover:underline"
+              >
+                Manage devices
+              </button>
             </div>
           )}
           
@@ -311,6 +347,16 @@ const Sidebar: React.FC<SidebarProps> = ({ activeMode, onModeChange, theme, onTh
           </button>
         </div>
       </div>
+
+      {isSessionsOpen && <SessionsPanel onClose={() => setIsSessionsOpen(false)} />}
+      {isTrayOpen && (
+        <NotificationTray
+          alerts={alerts}
+          onMarkRead={markRead}
+          onAnalyze={onAnalyzeProblem}
+          onClose={() => setIsTrayOpen(false)}
+        />
+      )}
     </>
   );
 };
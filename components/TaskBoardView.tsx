@@ -0,0 +1,215 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { tasksAPI } from '../services/apiService';
+import { ActionStatus, BoardTask, TaskStatusChange } from '../types';
+
+const COLUMNS: { status: ActionStatus; label: string }[] = [
+    { status: 'pending', label: 'Pending' },
+    { status: 'in_progress', label: 'In Progress' },
+    { status: 'done', label: 'Done' },
+];
+
+const STATUS_LABELS: Record<ActionStatus, string> = {
+    pending: 'pending',
+    in_progress: 'in progress',
+    done: 'done',
+};
+
+const formatDue = (dueAt: number, now: number): string => {
+    const hours = Math.round((dueAt - now) / (60 * 60 * 1000));
+    if (hours < 0) return `overdue by ${Math.abs(hours) < 48 ? `${Math.abs(hours)}h` : `${Math.round(Math.abs(hours) / 24)}d`}`;
+    return hours < 48 ? `due in ${hours}h` : `due ${new Date(dueAt).toLocaleDateString()}`;
+};
+
+const TaskCard: React.FC<{
+    task: BoardTask;
+    onMove: (status: ActionStatus) => void;
+    onAssign: (assignee: string | null) => void;
+    onRemove: () => void;
+}> = ({ task, onMove, onAssign, onRemove }) => {
+    const [assignee, setAssignee] = useState(task.assignee ?? '');
+    const [history, setHistory] = useState<TaskStatusChange[] | null>(null);
+    const [historyError, setHistoryError] = useState<string | null>(null);
+    const index = COLUMNS.findIndex(c => c.status === task.status);
+    const overdue = task.status !== 'done' && task.dueAt !== null && task.dueAt < Date.now();
+
+    useEffect(() => {
+        setAssignee(task.assignee ?? '');
+    }, [task.assignee]);
+
+    const toggleHistory = async () => {
+        if (history) {
+            setHistory(null);
+            return;
+        }
+        try {
+            setHistoryError(null);
+            setHistory(await tasksAPI.history(task.id));
+        } catch (err: any) {
+            setHistoryError(err.message || 'Failed to load history');
+        }
+    };
+
+    const commitAssignee = () => {
+        const next = assignee.trim() || null;
+        if (next !== task.assignee) onAssign(next);
+    };
+
+    return (
+        <div
+            draggable
+            onDragStart={e => e.dataTransfer.setData('text/plain', task.id)}
+            className={`bg-gray-100 dark:bg-[#1a1a1a]/50 border border-gray-200 dark:border-white/10 p-3 rounded-lg cursor-grab ${task.status === 'done' ? 'opacity-60' : ''}`}
+        >
+            <h4 className={`font-semibold text-sm text-black dark:text-gray-100 ${task.status === 'done' ? 'line-through' : ''}`}>{task.title}</h4>
+            <p className="text-xs text-gray-600 dark:text-gray-400 mt-1 line-clamp-3">{task.description}</p>
+            <div className="mt-2 flex flex-wrap gap-x-3 gap-y-1 text-xs text-gray-500">
+                <span>Owner: <span className="font-medium text-gray-700 dark:text-gray-300">{task.owner}</span></span>
+                {task.dueAt !== null && task.status !== 'done' && (
+                    <span className={overdue ? 'text-red-600 dark:text-red-400 font-medium' : ''}>{formatDue(task.dueAt, Date.now())}</span>
+                )}
+                {task.completedAt !== null && task.status === 'done' && <span>done {new Date(task.completedAt).toLocaleDateString()}</span>}
+                {task.planId && <span>plan #{task.planId}</span>}
+            </div>
+            <input
+                type="text"
+                value={assignee}
+                onChange={e => setAssignee(e.target.value)}
+                onBlur={commitAssignee}
+                onKeyDown={e => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                placeholder="Assign to…"
+                maxLength={255}
+                className="mt-2 w-full text-xs bg-white dark:bg-black/30 border border-gray-200 dark:border-white/10 rounded-md px-2 py-1 text-gray-800 dark:text-gray-300"
+            />
+            <div className="mt-2 flex items-center gap-2 text-xs">
+                {index > 0 && (
+                    <button onClick={() => onMove(COLUMNS[index - 1].status)} className="px-2 py-1 rounded-md border border-gray-300 dark:border-white/20 hover:bg-gray-200 dark:hover:bg-white/10">
+                        ← {COLUMNS[index - 1].label}
+                    </button>
+                )}
+                {index < COLUMNS.length - 1 && (
+                    <button onClick={() => onMove(COLUMNS[index + 1].status)} className="px-2 py-1 rounded-md bg-black dark:bg-white text-white dark:text-black hover:opacity-80">
+                        {COLUMNS[index + 1].label} →
+                    </button>
+                )}
+                <button onClick={toggleHistory} className="ml-auto text-gray-500 hover:underline">History</button>
+                <button onClick={onRemove} className="text-gray-500 hover:text-red-600 dark:hover:text-red-400" aria-label="Remove task">✕</button>
+            </div>
+            {historyError && <p className="mt-2 text-xs text-red-600 dark:text-red-400">{historyError}</p>}
+            {history && (
+                <ul className="mt-2 space-y-1 text-xs text-gray-500">
+                    {history.map((change, i) => (
+                        <li key={`${change.at}-${i}`}>
+                            {new Date(change.at).toLocaleString()}: {change.from ? `${STATUS_LABELS[change.from]} → ` : 'added as '}{STATUS_LABELS[change.to]} ({change.source})
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+const TaskBoardView: React.FC = () => {
+    const [tasks, setTasks] = useState<BoardTask[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [dropTarget, setDropTarget] = useState<ActionStatus | null>(null);
+
+    const loadTasks = useCallback(async () => {
+        setIsLoading(true);
+        setError(null);
+        try {
+            setTasks(await tasksAPI.list());
+        } catch (err: any) {
+            setError(err.message || 'Failed to load tasks.');
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        loadTasks();
+    }, [loadTasks]);
+
+    const handleUpdate = useCallback(async (taskId: string, changes: Parameters<typeof tasksAPI.update>[1]) => {
+        // Move the card right away; the server's copy replaces it once saved
+        setTasks(prev => prev.map(t => t.id === taskId ? { ...t, ...changes } as BoardTask : t));
+        try {
+            const saved = await tasksAPI.update(taskId, changes);
+            setTasks(prev => prev.map(t => t.id === taskId ? saved : t));
+        } catch (err: any) {
+            setError(err.message || 'Failed to update task.');
+            loadTasks();
+        }
+    }, [loadTasks]);
+
+    const handleRemove = useCallback(async (taskId: string) => {
+        try {
+            await tasksAPI.remove(taskId);
+            setTasks(prev => prev.filter(t => t.id !== taskId));
+        } catch (err: any) {
+            setError(err.message || 'Failed to remove task.');
+        }
+    }, []);
+
+    const handleDrop = (status: ActionStatus, e: React.DragEvent) => {
+        e.preventDefault();
+        setDropTarget(null);
+        const taskId = e.dataTransfer.getData('text/plain');
+        const task = tasks.find(t => t.id === taskId);
+        if (task && task.status !== status) handleUpdate(taskId, { status });
+    };
+
+    return (
+        <div className="animate-fade-in">
+            <h2 className="text-3xl md:text-4xl font-bold text-center text-black dark:text-white">Task Board</h2>
+            <p className="mt-2 text-center text-gray-600 dark:text-gray-400">Tasks from all of your action plans. Progress carries over when a plan is recomposed.</p>
+
+            {error && (
+                <div className="mt-6 bg-gray-100 dark:bg-white/5 border border-gray-200 dark:border-white/10 p-3 rounded-lg text-sm text-red-600 dark:text-red-400">
+                    {error}
+                </div>
+            )}
+
+            {isLoading ? (
+                <p className="mt-8 text-center text-gray-500">Loading tasks…</p>
+            ) : tasks.length === 0 ? (
+                <p className="mt-8 text-center text-gray-500">No tasks yet. Compose an action plan and its tasks will show up here.</p>
+            ) : (
+                <div className="mt-8 grid grid-cols-1 md:grid-cols-3 gap-4">
+                    {COLUMNS.map(column => {
+                        const columnTasks = tasks.filter(t => t.status === column.status);
+                        return (
+                            <div
+                                key={column.status}
+                                onDragOver={e => {
+                                    e.preventDefault();
+                                    setDropTarget(column.status);
+                                }}
+                                onDragLeave={() => setDropTarget(null)}
+                                onDrop={e => handleDrop(column.status, e)}
+                                className={`rounded-lg p-3 border transition-colors ${dropTarget === column.status ? 'border-gray-500 dark:border-white/40 bg-gray-50 dark:bg-white/10' : 'border-gray-200 dark:border-white/10 bg-white/50 dark:bg-white/5'}`}
+                            >
+                                <h3 className="text-sm font-semibold uppercase tracking-wider text-gray-500 dark:text-gray-400 mb-3">
+                                    {column.label} <span className="font-normal">({columnTasks.length})</span>
+                                </h3>
+                                <div className="space-y-3 min-h-[4rem]">
+                                    {columnTasks.map(task => (
+                                        <TaskCard
+                                            key={task.id}
+                                            task={task}
+                                            onMove={status => handleUpdate(task.id, { status })}
+                                            onAssign={assignee => handleUpdate(task.id, { assignee })}
+                                            onRemove={() => handleRemove(task.id)}
+                                        />
+                                    ))}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default TaskBoardView;
@@ -0,0 +1,100 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { usageAPI, UsageReport, TeamUsage } from '../services/apiService';
+
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+const formatTokens = (tokens: number): string => {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return tokens.toString();
+};
+
+const UsageBar: React.FC<{ label: string; used: number; limit: number; format?: (value: number) => string }> = ({ label, used, limit, format = String }) => {
+  const percent = limit > 0 ? Math.min(100, Math.round((used / limit) * 100)) : 0;
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-gray-600 dark:text-gray-400">
+        <span>{label}</span>
+        <span>{format(used)}{limit > 0 ? ` / ${format(limit)}` : ''}</span>
+      </div>
+      {limit > 0 && (
+        <div className="mt-1 h-1.5 rounded-full bg-gray-300 dark:bg-white/10 overflow-hidden">
+          <div
+            className={`h-full rounded-full ${percent >= 90 ? 'bg-red-500' : 'bg-gray-900 dark:bg-white'}`}
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Compact view of today's AI usage for the sidebar; admins can expand it to see the whole team
+const UsagePanel: React.FC = () => {
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [team, setTeam] = useState<TeamUsage[] | null>(null);
+  const [isTeamOpen, setIsTeamOpen] = useState(false);
+
+  const loadUsage = useCallback(async () => {
+    try {
+      setReport(await usageAPI.get());
+    } catch (err) {
+      console.error('Failed to load usage:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsage();
+    const interval = setInterval(loadUsage, REFRESH_INTERVAL_MS);
+    window.addEventListener('focus', loadUsage);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('focus', loadUsage);
+    };
+  }, [loadUsage]);
+
+  useEffect(() => {
+    if (!isTeamOpen) return;
+    usageAPI.team()
+      .then(setTeam)
+      .catch(err => console.error('Failed to load team usage:', err));
+  }, [isTeamOpen]);
+
+  if (!report) return null;
+
+  return (
+    <div className="px-4 py-3 rounded-lg bg-gray-200 dark:bg-white/10 space-y-2">
+      <div className="text-xs text-gray-500 dark:text-gray-400">Today's AI usage</div>
+      <UsageBar label="Generations" used={report.today.generations} limit={report.limits.generations} />
+      <UsageBar label="Tokens" used={report.today.totalTokens} limit={report.limits.tokens} format={formatTokens} />
+      {report.today.thinkingTokens > 0 && (
+        <div className="text-[11px] text-gray-500 dark:text-gray-400">
+          {formatTokens(report.today.thinkingTokens)} of those were thinking tokens
+        </div>
+      )}
+      {report.isAdmin && (
+        <>
+          <button
+            onClick={() => setIsTeamOpen(open => !open)}
+            className="text-xs font-medium text-gray-600 dark:text-gray-300 hover:underline"
+          >
+            {isTeamOpen ? 'Hide team usage' : 'Team usage'}
+          </button>
+          {isTeamOpen && team && (
+            <ul className="space-y-1 max-h-40 overflow-y-auto">
+              {team.length === 0 && <li className="text-xs text-gray-500 dark:text-gray-400">No usage yet today</li>}
+              {team.map(member => (
+                <li key={member.userId} className="flex justify-between gap-2 text-xs text-gray-700 dark:text-gray-300" title={member.email}>
+                  <span className="truncate">{member.name}</span>
+                  <span className="shrink-0">{member.generations} · {formatTokens(member.totalTokens)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default UsagePanel;
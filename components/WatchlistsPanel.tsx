@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import { watchlistsAPI } from '../services/apiService';
+import { ProactiveDiscoveryResponse, SavedWatchlist, WATCHLIST_SCANS_PAGE_SIZE, WatchlistScan } from '../types';
+import { Loader } from './Loader';
+import { XIcon } from './icons/MenuIcon';
+
+export const INTERVAL_OPTIONS: { hours: number; label: string }[] = [
+  { hours: 24, label: 'Daily' },
+  { hours: 72, label: 'Every 3 days' },
+  { hours: 168, label: 'Weekly' },
+  { hours: 336, label: 'Every 2 weeks' },
+];
+
+export const DEFAULT_INTERVAL_HOURS = 168;
+
+export const intervalLabel = (hours: number) =>
+  INTERVAL_OPTIONS.find(option => option.hours === hours)?.label ?? `Every ${hours} hours`;
+
+const TRIGGER_LABELS: Record<WatchlistScan['trigger'], string> = {
+  baseline: 'Started watching',
+  schedule: 'Scheduled scan',
+  manual: 'Scanned by hand',
+};
+
+const formatTime = (time: number | null) => (time ? new Date(time).toLocaleString() : '—');
+
+interface WatchlistsPanelProps {
+  watchlists: SavedWatchlist[];
+  setWatchlists: React.Dispatch<React.SetStateAction<SavedWatchlist[]>>;
+  onOpenScan: (data: ProactiveDiscoveryResponse) => void;
+  onClose: () => void;
+}
+
+// The founder's watched sectors: schedule, pause, scan now, and every earlier scan with what it found new
+const WatchlistsPanel: React.FC<WatchlistsPanelProps> = ({ watchlists, setWatchlists, onOpenScan, onClose }) => {
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [historyFor, setHistoryFor] = useState<string | null>(null);
+  const [scans, setScans] = useState<WatchlistScan[]>([]);
+  const [isLoadingHistory, setIsLoadingHistory] = useState(false);
+  const [hasOlderScans, setHasOlderScans] = useState(false);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+
+  const replace = (updated: SavedWatchlist) =>
+    setWatchlists(prev => prev.map(watchlist => watchlist.id === updated.id ? updated : watchlist));
+
+  const run = async (watchlistId: string, action: () => Promise<void>) => {
+    setBusyId(watchlistId);
+    setError(null);
+    try {
+      await action();
+    } catch (err: any) {
+      setError(err.message || 'Something went wrong. Please try again.');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const loadHistory = async (watchlistId: string) => {
+    setHistoryFor(watchlistId);
+    setIsLoadingHistory(true);
+    setError(null);
+    try {
+      const page = await watchlistsAPI.scans(watchlistId);
+      setScans(page);
+      setHasOlderScans(page.length === WATCHLIST_SCANS_PAGE_SIZE);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load the history.');
+    } finally {
+      setIsLoadingHistory(false);
+    }
+  };
+
+  const loadOlderScans = async (watchlistId: string) => {
+    const oldest = scans[scans.length - 1];
+    if (!oldest) return;
+
+    setIsLoadingOlder(true);
+    setError(null);
+    try {
+      const page = await watchlistsAPI.scans(watchlistId, oldest.id);
+      setScans(prev => [...prev, ...page]);
+      setHasOlderScans(page.length === WATCHLIST_SCANS_PAGE_SIZE);
+    } catch (err: any) {
+      setError(err.message || 'Failed to load older scans.');
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  };
+
+  const handleScanNow = (watchlist: SavedWatchlist) => run(watchlist.id, async () => {
+    const scan = await watchlistsAPI.scanNow(watchlist.id);
+    setWatchlists(await watchlistsAPI.list());
+    if (historyFor === watchlist.id) setScans(prev => [scan, ...prev]);
+  });
+
+  const handleRemove = (watchlist: SavedWatchlist) => run(watchlist.id, async () => {
+    await watchlistsAPI.remove(watchlist.id);
+    setWatchlists(prev => prev.filter(existing => existing.id !== watchlist.id));
+    if (historyFor === watchlist.id) setHistoryFor(null);
+  });
+
+  const historyWatchlist = watchlists.find(watchlist => watchlist.id === historyFor);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl bg-white dark:bg-[#1a1a1a] border border-gray-200 dark:border-white/10 rounded-xl shadow-xl p-6 animate-fade-in"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-black dark:text-white">
+            {historyWatchlist ? (
+              <>
+                <button onClick={() => setHistoryFor(null)} className="mr-2 text-sm font-normal text-gray-500 dark:text-gray-400 hover:underline">← Watchlists</button>
+                {historyWatchlist.sector}
+              </>
+            ) : 'Watchlists'}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-gray-200 dark:hover:bg-white/10 text-gray-600 dark:text-gray-400 transition-colors"
+            aria-label="Close"
+          >
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        {error && <div className="mb-4 text-sm text-gray-800 dark:text-gray-300 bg-gray-200 dark:bg-gray-800/50 p-3 rounded-lg border border-gray-400 dark:border-gray-600">{error}</div>}
+
+        {historyWatchlist ? (
+          isLoadingHistory ? (
+            <div className="flex justify-center py-8 text-black dark:text-white"><Loader /></div>
+          ) : (
+            <ul className="space-y-3 max-h-[28rem] overflow-y-auto">
+              {scans.map(scan => {
+                const isNew = new Set(scan.newProblemIds);
+                return (
+                  <li key={scan.id} className="px-3 py-2 rounded-lg bg-gray-100 dark:bg-white/5 border border-gray-200 dark:border-white/10">
+                    <div className="flex items-center justify-between text-xs text-gray-500 dark:text-gray-400">
+                      <span>
+                        {TRIGGER_LABELS[scan.trigger]} · {formatTime(scan.createdAt)}
+                        {scan.trigger !== 'baseline' && ` · ${scan.newProblemIds.length} new`}
+                      </span>
+                      <button
+                        onClick={() => {
+                          onOpenScan(scan.data);
+                          onClose();
+                        }}
+                        className="font-medium text-gray-700 dark:text-gray-300 hover:underline"
+                      >
+                        Open
+                      </button>
+                    </div>
+                    <ul className="mt-1 space-y-1">
+                      {scan.data.problems.map(problem => (
+                        <li key={problem.id} className="text-sm text-gray-900 dark:text-white">
+                          {scan.trigger !== 'baseline' && isNew.has(problem.id) && (
+                            <span className="mr-1.5 px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase bg-gray-900 dark:bg-white text-white dark:text-black">New</span>
+                          )}
+                          {problem.problem_statement}
+                        </li>
+                      ))}
+                    </ul>
+                  </li>
+                );
+              })}
+              {scans.length === 0 && (
+                <p className="py-8 text-center text-sm text-gray-500 dark:text-gray-400">Not scanned yet. The first scan runs shortly.</p>
+              )}
+              {hasOlderScans && (
+                <li className="text-center">
+                  <button
+                    onClick={() => loadOlderScans(historyWatchlist.id)}
+                    disabled={isLoadingOlder}
+                    className="text-xs font-medium text-gray-600 dark:text-gray-300 hover:underline disabled:opacity-50"
+                  >
+                    {isLoadingOlder ? 'Loading…' : 'Show older scans'}
+                  </button>
+                </li>
+              )}
+            </ul>
+          )
+        ) : watchlists.length === 0 ? (
+          <p className="py-8 text-center text-sm text-gray-500 dark:text-gray-400">
+            No watchlists yet. Scan a sector and choose "Watch this sector" to have it re-scanned on a schedule.
+          </p>
+        ) : (
+          <ul className="space-y-2 max-h-[28rem] overflow-y-auto">
+            {watchlists.map(watchlist => (
+              <li key={watchlist.id} className="px-3 py-2 rounded-lg bg-gray-100 dark:bg-white/5 border border-gray-200 dark:border-white/10">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="text-sm font-medium text-gray-900 dark:text-white">{watchlist.sector}</span>
+                  <div className="flex items-center gap-2 text-xs">
+                    <select
+                      value={watchlist.intervalHours}
+                      onChange={(e) => run(watchlist.id, async () => replace(await watchlistsAPI.update(watchlist.id, { intervalHours: Number(e.target.value) })))}
+                      disabled={busyId === watchlist.id}
+                      className="px-2 py-1 rounded-md bg-gray-50 dark:bg-[#1a1a1a] border border-gray-300 dark:border-white/10 text-gray-800 dark:text-gray-200"
+                    >
+                      {!INTERVAL_OPTIONS.some(option => option.hours === watchlist.intervalHours) && (
+                        <option value={watchlist.intervalHours}>{intervalLabel(watchlist.intervalHours)}</option>
+                      )}
+                      {INTERVAL_OPTIONS.map(option => <option key={option.hours} value={option.hours}>{option.label}</option>)}
+                    </select>
+                    <button
+                      onClick={() => run(watchlist.id, async () => replace(await watchlistsAPI.update(watchlist.id, { enabled: !watchlist.enabled })))}
+                      disabled={busyId === watchlist.id}
+                      className="px-2 py-1 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-white/10 disabled:opacity-50"
+                    >
+                      {watchlist.enabled ? 'Pause' : 'Resume'}
+                    </button>
+                    <button
+                      onClick={() => handleScanNow(watchlist)}
+                      disabled={busyId === watchlist.id}
+                      className="px-2 py-1 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-white/10 disabled:opacity-50"
+                    >
+                      {busyId === watchlist.id ? 'Working…' : 'Scan now'}
+                    </button>
+                    <button
+                      onClick={() => loadHistory(watchlist.id)}
+                      className="px-2 py-1 rounded-md text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-white/10"
+                    >
+                      History
+                    </button>
+                    <button
+                      onClick={() => handleRemove(watchlist)}
+                      disabled={busyId === watchlist.id}
+                      className="px-2 py-1 rounded-md text-gray-600 dark:text-gray-400 hover:bg-red-100 dark:hover:bg-red-900/20 hover:text-red-600 dark:hover:text-red-400 disabled:opacity-50"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+                <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Last scan {formatTime(watchlist.lastScanAt)} · {watchlist.enabled ? `next ${formatTime(watchlist.nextScanAt)}` : 'paused'}
+                </div>
+                {watchlist.lastError && <div className="mt-1 text-xs text-red-600 dark:text-red-400">{watchlist.lastError}</div>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WatchlistsPanel;
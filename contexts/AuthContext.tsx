@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { authAPI, getAuthToken, User as APIUser } from '../services/apiService';
+import { authAPI, getAuthToken, setUnauthorizedHandler } from '../services/apiService';
 
 export interface User {
   id: number;
@@ -12,6 +12,7 @@ interface AuthContextType {
   login: (email: string, password: string) => Promise<void>;
   register: (name: string, email: string, password: string) => Promise<void>;
   logout: () => void;
+  logoutAll: () => Promise<void>;
   isAuthenticated: boolean;
 }
 
@@ -33,21 +34,31 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
 
   useEffect(() => {
+    // Any 401 means our session expired or was revoked from another device
+    setUnauthorizedHandler(() => {
+      localStorage.removeItem('forgeai_user');
+      setUser(null);
+    });
+
+    // The token isn't rotated here: the other providers are already sending it, and so may other tabs.
+    // Each authenticated request slides the session's expiry instead.
     const storedUser = localStorage.getItem('forgeai_user');
     const token = getAuthToken();
     if (storedUser && token) {
       setUser(JSON.parse(storedUser));
     }
+
+    return () => setUnauthorizedHandler(null);
   }, []);
 
   const register = async (name: string, email: string, password: string): Promise<void> => {
-    const { user, token } = await authAPI.register({ email, password, name });
+    const { user } = await authAPI.register({ email, password, name });
     localStorage.setItem('forgeai_user', JSON.stringify(user));
     setUser(user);
   };
 
   const login = async (email: string, password: string): Promise<void> => {
-    const { user, token } = await authAPI.login({ email, password });
+    const { user } = await authAPI.login({ email, password });
     localStorage.setItem('forgeai_user', JSON.stringify(user));
     setUser(user);
   };
@@ -58,11 +69,18 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setUser(null);
   };
 
+  const logoutAll = async () => {
+    await authAPI.logoutAll();
+    localStorage.removeItem('forgeai_user');
+    setUser(null);
+  };
+
   const value = {
     user,
     login,
     register,
     logout,
+    logoutAll,
     isAuthenticated: !!user,
   };
 
@@ -1,4 +1,6 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode, useCallback } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, useMemo, ReactNode, useCallback } from 'react';
+import { conversationAPI } from '../services/apiService';
+import { useAuth } from './AuthContext';
 
 export interface Message {
   id: string;
@@ -17,10 +19,11 @@ export interface Conversation {
 interface ConversationContextType {
   conversations: Conversation[];
   currentConversation: Conversation | null;
-  addMessage: (role: 'user' | 'assistant', content: string, targetConversation?: Conversation) => Conversation;
+  isLoading: boolean;
+  addMessage: (role: 'user' | 'assistant', content: string, targetConversation?: Conversation) => Promise<Conversation>;
   createConversation: () => Conversation;
   switchConversation: (conversationId: string) => void;
-  deleteConversation: (conversationId: string) => void;
+  deleteConversation: (conversationId: string) => Promise<void>;
 }
 
 const ConversationContext = createContext<ConversationContextType | undefined>(undefined);
@@ -37,120 +40,214 @@ interface ConversationProviderProps {
   children: ReactNode;
 }
 
+// Drafts live only in the browser until their first message is sent, so empty chats never reach the server
+const DRAFT_PREFIX = 'draft-';
+
+export const isDraftConversation = (conversation: Conversation) => conversation.id.startsWith(DRAFT_PREFIX);
+
+const createDraft = (): Conversation => ({
+  id: `${DRAFT_PREFIX}${Date.now()}`,
+  title: 'New Conversation',
+  messages: [],
+  createdAt: Date.now(),
+});
+
 export const ConversationProvider: React.FC<ConversationProviderProps> = ({ children }) => {
+  const { isAuthenticated } = useAuth();
   const [conversations, setConversations] = useState<Conversation[]>([]);
-  const [currentConversation, setCurrentConversation] = useState<Conversation | null>(null);
+  const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
 
-  // Initialize with one empty conversation on mount
+  // Refs mirror the latest state so async callbacks never work from a stale closure
+  const conversationsRef = useRef<Conversation[]>([]);
+  const currentIdRef = useRef<string | null>(null);
+  const pendingCreatesRef = useRef(new Map<string, Promise<Conversation>>());
+
+  const updateConversations = useCallback((updater: (prev: Conversation[]) => Conversation[]) => {
+    conversationsRef.current = updater(conversationsRef.current);
+    setConversations(conversationsRef.current);
+  }, []);
+
+  const setCurrentId = useCallback((conversationId: string | null) => {
+    currentIdRef.current = conversationId;
+    setCurrentConversationId(conversationId);
+  }, []);
+
+  // Load the user's history whenever they sign in; start them on a fresh draft
   useEffect(() => {
-    const initialConversation: Conversation = {
-      id: `conv-${Date.now()}`,
-      title: 'New Conversation',
-      messages: [],
-      createdAt: Date.now(),
+    if (!isAuthenticated) {
+      updateConversations(() => []);
+      setCurrentId(null);
+      return;
+    }
+
+    const draft = createDraft();
+    updateConversations(() => [draft]);
+    setCurrentId(draft.id);
+
+    let cancelled = false;
+    setIsLoading(true);
+    conversationAPI.getConversations()
+      .then(loaded => {
+        if (cancelled) return;
+        updateConversations(prev => [...prev.filter(c => isDraftConversation(c) || !loaded.some(l => l.id === c.id)), ...loaded]);
+      })
+      .catch(error => console.error('Failed to load conversations:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
     };
-    setConversations([initialConversation]);
-    setCurrentConversation(initialConversation);
-  }, []);
+  }, [isAuthenticated, updateConversations, setCurrentId]);
 
   // Create a new empty conversation and return it immediately
   const createConversation = useCallback(() => {
-    // Filter out any empty conversations first
-    const conversationsWithMessages = conversations.filter(c => c.messages.length > 0);
-    
-    // Create new conversation
-    const newConversation: Conversation = {
-      id: `conv-${Date.now()}`,
-      title: 'New Conversation',
-      messages: [],
-      createdAt: Date.now(),
-    };
-    
-    // Update state
-    setConversations([newConversation, ...conversationsWithMessages]);
-    setCurrentConversation(newConversation);
-    
-    // Return the new conversation immediately for synchronous access
+    const newConversation = createDraft();
+
+    // Drop any other empty drafts so they don't pile up
+    updateConversations(prev => [newConversation, ...prev.filter(c => c.messages.length > 0)]);
+    setCurrentId(newConversation.id);
+
     return newConversation;
-  }, [conversations]);
+  }, [updateConversations, setCurrentId]);
+
+  // Persists a draft exactly once, even when several messages are sent before the server answers
+  const persistDraft = useCallback((draft: Conversation, title: string): Promise<Conversation> => {
+    const pending = pendingCreatesRef.current.get(draft.id);
+    if (pending) return pending;
+
+    const request = conversationAPI.createConversation(title)
+      .then(created => {
+        updateConversations(prev => prev.map(c => c.id === draft.id ? { ...c, id: created.id, createdAt: created.createdAt } : c));
+        if (currentIdRef.current === draft.id) {
+          setCurrentId(created.id);
+        }
+        return created;
+      })
+      .finally(() => pendingCreatesRef.current.delete(draft.id));
+
+    pendingCreatesRef.current.set(draft.id, request);
+    return request;
+  }, [updateConversations, setCurrentId]);
+
+  // Optimistically add a message to a conversation (current if not specified), then persist it.
+  // Resolves with the saved conversation; on failure the message is rolled back and the error rethrown.
+  const addMessage = useCallback(async (role: 'user' | 'assistant', content: string, targetConversation?: Conversation) => {
+    const targetId = targetConversation?.id ?? currentIdRef.current;
+    const conversationToUpdate = conversationsRef.current.find(c => c.id === targetId) ?? targetConversation;
 
-  // Add a message to a specific conversation (or current if not specified) and return the updated conversation
-  const addMessage = useCallback((role: 'user' | 'assistant', content: string, targetConversation?: Conversation) => {
-    // Use provided conversation or fall back to currentConversation
-    const conversationToUpdate = targetConversation || currentConversation;
-    
     if (!conversationToUpdate) {
       console.error('No conversation to add message to');
       throw new Error('No conversation available');
     }
 
-    const newMessage: Message = {
+    const optimisticMessage: Message = {
       id: `msg-${Date.now()}-${Math.random()}`,
       role,
       content,
       timestamp: Date.now(),
     };
 
-    // Update the conversation with the new message
+    const title = conversationToUpdate.messages.length === 0 && role === 'user'
+      ? content.slice(0, 50) + (content.length > 50 ? '...' : '')
+      : conversationToUpdate.title;
+
     const updatedConversation: Conversation = {
       ...conversationToUpdate,
-      messages: [...conversationToUpdate.messages, newMessage],
-      // Update title based on first user message
-      title: conversationToUpdate.messages.length === 0 && role === 'user'
-        ? content.slice(0, 50) + (content.length > 50 ? '...' : '')
-        : conversationToUpdate.title,
+      title,
+      messages: [...conversationToUpdate.messages, optimisticMessage],
     };
 
-    // Update conversations list
-    setConversations(prev => 
-      prev.map(c => c.id === conversationToUpdate.id ? updatedConversation : c)
-    );
+    // Most recently active conversations float to the top, matching the server ordering
+    updateConversations(prev => [updatedConversation, ...prev.filter(c => c.id !== conversationToUpdate.id)]);
+    setCurrentId(conversationToUpdate.id);
 
-    // Always update currentConversation to keep state in sync
-    // This ensures UI reflects the latest changes even when using targetConversation
-    setCurrentConversation(updatedConversation);
-    
-    // Return the updated conversation immediately for synchronous access
-    return updatedConversation;
-  }, [currentConversation]);
+    try {
+      let conversationId = conversationToUpdate.id;
+      if (isDraftConversation(conversationToUpdate)) {
+        conversationId = (await persistDraft(conversationToUpdate, title)).id;
+      }
+
+      const savedMessage = await conversationAPI.addMessage(conversationId, role, content);
+      updateConversations(prev => prev.map(c => c.id === conversationId
+        ? { ...c, messages: c.messages.map(m => m.id === optimisticMessage.id ? savedMessage : m) }
+        : c
+      ));
+
+      return conversationsRef.current.find(c => c.id === conversationId) ?? updatedConversation;
+    } catch (error) {
+      updateConversations(prev => prev.map(c => c.messages.some(m => m.id === optimisticMessage.id)
+        ? {
+            ...c,
+            title: c.messages.length === 1 ? conversationToUpdate.title : c.title,
+            messages: c.messages.filter(m => m.id !== optimisticMessage.id),
+          }
+        : c
+      ));
+      throw error;
+    }
+  }, [updateConversations, setCurrentId, persistDraft]);
 
   // Switch to a different conversation
   const switchConversation = useCallback((conversationId: string) => {
-    const conversation = conversations.find(c => c.id === conversationId);
-    if (conversation) {
-      setCurrentConversation(conversation);
+    if (conversationsRef.current.some(c => c.id === conversationId)) {
+      setCurrentId(conversationId);
     }
-  }, [conversations]);
-
-  // Delete a conversation
-  const deleteConversation = useCallback((conversationId: string) => {
-    const updatedConversations = conversations.filter(c => c.id !== conversationId);
-    
-    setConversations(updatedConversations);
-    
-    // If we deleted the current conversation, switch to another or create new
-    if (currentConversation?.id === conversationId) {
-      const conversationsWithMessages = updatedConversations.filter(c => c.messages.length > 0);
-      
+  }, [setCurrentId]);
+
+  // Optimistically delete a conversation, restoring it if the server refuses
+  const deleteConversation = useCallback(async (conversationId: string) => {
+    const previousConversations = conversationsRef.current;
+    const previousCurrentId = currentIdRef.current;
+    const index = previousConversations.findIndex(c => c.id === conversationId);
+    if (index === -1) return;
+    const conversation = previousConversations[index];
+
+    const remaining = previousConversations.filter(c => c.id !== conversationId);
+    updateConversations(() => remaining);
+
+    // If we deleted the current conversation, switch to another or start a new draft
+    let placeholder: Conversation | null = null;
+    if (previousCurrentId === conversationId) {
+      const conversationsWithMessages = remaining.filter(c => c.messages.length > 0);
+
       if (conversationsWithMessages.length > 0) {
-        setCurrentConversation(conversationsWithMessages[0]);
+        setCurrentId(conversationsWithMessages[0].id);
       } else {
-        // Create a new empty conversation
-        const newConversation: Conversation = {
-          id: `conv-${Date.now()}`,
-          title: 'New Conversation',
-          messages: [],
-          createdAt: Date.now(),
-        };
-        setConversations([newConversation]);
-        setCurrentConversation(newConversation);
+        const draft = createDraft();
+        placeholder = draft;
+        updateConversations(() => [draft]);
+        setCurrentId(draft.id);
       }
     }
-  }, [conversations, currentConversation]);
+    const switchedTo = currentIdRef.current;
+
+    if (isDraftConversation(conversation)) return;
+
+    try {
+      await conversationAPI.deleteConversation(conversationId);
+    } catch (error) {
+      console.error('Failed to delete conversation:', error);
+      // Put back only the deleted conversation, keeping anything created or changed while the request ran
+      updateConversations(prev => {
+        const kept = prev.filter(c => c.id !== placeholder?.id || c.messages.length > 0);
+        return [...kept.slice(0, index), conversation, ...kept.slice(index)];
+      });
+      if (currentIdRef.current === switchedTo) setCurrentId(previousCurrentId);
+    }
+  }, [updateConversations, setCurrentId]);
+
+  const currentConversation = useMemo(
+    () => conversations.find(c => c.id === currentConversationId) ?? null,
+    [conversations, currentConversationId]
+  );
 
   const value = {
     conversations,
     currentConversation,
+    isLoading,
     addMessage,
     createConversation,
     switchConversation,
@@ -0,0 +1,168 @@
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import { founderProfilesAPI } from '../services/apiService';
+import { FounderProfile, SavedFounderProfile } from '../types';
+import { useAuth } from './AuthContext';
+
+export const DEFAULT_FOUNDER_PROFILE: FounderProfile = {
+  experience_years: 0,
+  team_size: 1,
+  runway_months: 1,
+  tech_stack: [],
+  location: '',
+  funding_stage: 'pre-seed'
+};
+
+// Edits are batched so typing in the form doesn't hit the server on every keystroke
+const SAVE_DELAY_MS = 800;
+
+interface FounderProfileContextType {
+  profiles: SavedFounderProfile[];
+  activeProfileId: string | null;
+  profile: FounderProfile;
+  setProfile: React.Dispatch<React.SetStateAction<FounderProfile>>;
+  switchProfile: (profileId: string) => Promise<void>;
+  createProfile: (name: string) => Promise<void>;
+  renameProfile: (profileId: string, name: string) => Promise<void>;
+  deleteProfile: (profileId: string) => Promise<void>;
+}
+
+const FounderProfileContext = createContext<FounderProfileContextType | undefined>(undefined);
+
+export const useFounderProfile = () => {
+  const context = useContext(FounderProfileContext);
+  if (!context) {
+    throw new Error('useFounderProfile must be used within a FounderProfileProvider');
+  }
+  return context;
+};
+
+interface FounderProfileProviderProps {
+  children: ReactNode;
+}
+
+export const FounderProfileProvider: React.FC<FounderProfileProviderProps> = ({ children }) => {
+  const { isAuthenticated } = useAuth();
+  const [profiles, setProfiles] = useState<SavedFounderProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const [profile, setProfileState] = useState<FounderProfile>(DEFAULT_FOUNDER_PROFILE);
+
+  const profileRef = useRef<FounderProfile>(DEFAULT_FOUNDER_PROFILE);
+  const activeIdRef = useRef<string | null>(null);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const isDirtyRef = useRef(false);
+
+  const applyActive = useCallback((saved: SavedFounderProfile | null) => {
+    isDirtyRef.current = false;
+    activeIdRef.current = saved?.id ?? null;
+    profileRef.current = saved?.data ?? DEFAULT_FOUNDER_PROFILE;
+    setActiveProfileId(activeIdRef.current);
+    setProfileState(profileRef.current);
+  }, []);
+
+  // Write any pending edits for the active profile straight away
+  const flushSave = useCallback(async () => {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+
+    const profileId = activeIdRef.current;
+    if (!isDirtyRef.current || !profileId) return;
+    isDirtyRef.current = false;
+    try {
+      const saved = await founderProfilesAPI.update(profileId, { data: profileRef.current });
+      setProfiles(prev => prev.map(p => p.id === saved.id ? saved : p));
+    } catch (error) {
+      console.error('Failed to save founder profile:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!isAuthenticated) {
+      setProfiles([]);
+      applyActive(null);
+      return;
+    }
+
+    let cancelled = false;
+    founderProfilesAPI.list()
+      .then(async (loaded) => {
+        // First visit: give the user a profile to edit straight away
+        if (loaded.length === 0) {
+          loaded = [await founderProfilesAPI.create('My Profile', DEFAULT_FOUNDER_PROFILE, true)];
+        }
+        if (cancelled) return;
+        setProfiles(loaded);
+        applyActive(loaded.find(p => p.isActive) ?? loaded[0]);
+      })
+      .catch(error => console.error('Failed to load founder profiles:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated, applyActive]);
+
+  useEffect(() => () => {
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+  }, []);
+
+  const setProfile: React.Dispatch<React.SetStateAction<FounderProfile>> = useCallback((action) => {
+    const next = typeof action === 'function' ? action(profileRef.current) : action;
+    profileRef.current = next;
+    setProfileState(next);
+
+    if (!activeIdRef.current) return;
+    isDirtyRef.current = true;
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(flushSave, SAVE_DELAY_MS);
+  }, [flushSave]);
+
+  const switchProfile = useCallback(async (profileId: string) => {
+    if (profileId === activeIdRef.current) return;
+    await flushSave();
+
+    const saved = await founderProfilesAPI.activate(profileId);
+    setProfiles(prev => prev.map(p => ({ ...p, isActive: p.id === saved.id })));
+    applyActive(saved);
+  }, [flushSave, applyActive]);
+
+  // New profiles start as a copy of the current one, which is usually the quickest starting point
+  const createProfile = useCallback(async (name: string) => {
+    await flushSave();
+
+    const saved = await founderProfilesAPI.create(name, profileRef.current, true);
+    setProfiles(prev => [saved, ...prev.map(p => ({ ...p, isActive: false }))]);
+    applyActive(saved);
+  }, [flushSave, applyActive]);
+
+  const renameProfile = useCallback(async (profileId: string, name: string) => {
+    const saved = await founderProfilesAPI.update(profileId, { name });
+    setProfiles(prev => prev.map(p => p.id === saved.id ? { ...p, name: saved.name } : p));
+  }, []);
+
+  const deleteProfile = useCallback(async (profileId: string) => {
+    if (profileId === activeIdRef.current) {
+      isDirtyRef.current = false;
+      if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+
+    await founderProfilesAPI.remove(profileId);
+    const remaining = await founderProfilesAPI.list();
+    setProfiles(remaining);
+    applyActive(remaining.find(p => p.isActive) ?? remaining[0] ?? null);
+  }, [applyActive]);
+
+  const value = {
+    profiles,
+    activeProfileId,
+    profile,
+    setProfile,
+    switchProfile,
+    createProfile,
+    renameProfile,
+    deleteProfile,
+  };
+
+  return <FounderProfileContext.Provider value={value}>{children}</FounderProfileContext.Provider>;
+};
@@ -4,6 +4,7 @@ import ReactDOM from 'react-dom/client';
 import App from './App';
 import { AuthProvider } from './contexts/AuthContext';
 import { ConversationProvider } from './contexts/ConversationContext';
+import { FounderProfileProvider } from './contexts/FounderProfileContext';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -14,9 +15,11 @@ const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
     <AuthProvider>
-      <ConversationProvider>
-        <App />
-      </ConversationProvider>
+      <FounderProfileProvider>
+        <ConversationProvider>
+          <App />
+        </ConversationProvider>
+      </FounderProfileProvider>
     </AuthProvider>
   </React.StrictMode>
 );
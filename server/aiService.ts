@@ -0,0 +1,690 @@
+import { Type } from "@google/genai";
+import {
+  UserDrivenResponse,
+  AnalysisChunk,
+  AnalysisChunkVersion,
+  ChunkRefinement,
+  ProactiveDiscoveryResponse,
+  FounderProfile,
+  ComposedActionPlan,
+  Problem,
+  OpportunityScores,
+  LiveData,
+  Priority,
+  PriorityDecision,
+  ChatMessage
+} from '../types';
+import {
+  getLLMProvider,
+  StructuredRequest,
+  ChatRequest,
+  GenerationOptions,
+  validateAgainstSchema,
+  ResponseValidationError,
+  GenerationTimeoutError,
+  isAbortError
+} from './llm';
+import { JsonArrayItemStream } from './llm/jsonStream';
+import { retrieveSources, SourceRegistry } from './retrieval';
+import { collectEvidence, evidencePrompt, citeEvidence, termVector, cosineSimilarity } from './discovery';
+import { HEARTBEAT_SECONDS } from './priority';
+
+const handleGenerationError = (error: any, context: string): never => {
+  console.error(`Error ${context}:`, error);
+  // Cancellation means nobody is waiting for a friendlier message
+  if (error instanceof ResponseValidationError || isAbortError(error)) {
+    throw error;
+  }
+  if (error instanceof GenerationTimeoutError) {
+    throw new Error(`The AI took longer than ${Math.round(error.timeoutMs / 1000)} seconds to ${context}. Please try again.`);
+  }
+  const errorMessage = String(error);
+  if (errorMessage.includes('429') || errorMessage.includes('RESOURCE_EXHAUSTED')) {
+    throw new Error("You've exceeded your API quota. Please check your plan and billing details on Google AI Studio. You might need to wait a bit before trying again.");
+  }
+  throw new Error(`Failed to ${context}. Please check your network connection and try again.`);
+};
+
+const founderProfileSchema = {
+  type: Type.OBJECT,
+  properties: {
+    experience_years: { type: Type.INTEGER },
+    team_size: { type: Type.INTEGER },
+    runway_months: { type: Type.INTEGER },
+    tech_stack: { type: Type.ARRAY, items: { type: Type.STRING } },
+    location: { type: Type.STRING },
+    funding_stage: { type: Type.STRING, enum: ["pre-seed", "seed", "pre-series-a", "series-a+"] },
+  },
+  required: ['experience_years', 'team_size', 'runway_months', 'tech_stack', 'location', 'funding_stage'],
+};
+
+const analysisChunkSchema = {
+  type: Type.OBJECT,
+  properties: {
+    id: { type: Type.INTEGER },
+    title: { type: Type.STRING },
+    analysis: { type: Type.STRING },
+    key_insights: { type: Type.ARRAY, items: { type: Type.STRING } },
+  },
+  required: ['id', 'title', 'analysis', 'key_insights'],
+};
+
+// A refined chunk: the id and title stay the server's, only the content comes from the model
+const chunkRevisionSchema = {
+  type: Type.OBJECT,
+  properties: {
+    analysis: analysisChunkSchema.properties.analysis,
+    key_insights: analysisChunkSchema.properties.key_insights,
+  },
+  required: ['analysis', 'key_insights'],
+};
+
+const userDrivenResponseSchema = {
+  type: Type.OBJECT,
+  properties: {
+    mode: { type: Type.STRING, enum: ['user_driven'] },
+    input_problem: { type: Type.STRING },
+    refined_problem: { type: Type.STRING },
+    founder_profile: founderProfileSchema,
+    chunks: { type: Type.ARRAY, items: analysisChunkSchema },
+    synthesis: {
+      type: Type.OBJECT,
+      properties: {
+        solution_guide: { type: Type.ARRAY, items: { type: Type.STRING } },
+      },
+      required: ['solution_guide'],
+    },
+  },
+  required: ['mode', 'input_problem', 'refined_problem', 'founder_profile', 'chunks', 'synthesis'],
+};
+
+// Discovery output as the model writes it: sources and freshness come from the evidence each problem cites
+const discoveryDraftSchema = {
+  type: Type.OBJECT,
+  properties: {
+    mode: { type: Type.STRING, enum: ['proactive_discovery'] },
+    sector: { type: Type.STRING },
+    founder_profile: founderProfileSchema,
+    problems: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.INTEGER },
+          problem_statement: { type: Type.STRING },
+          evidence: { type: Type.ARRAY, items: { type: Type.INTEGER }, description: "Numbers of the evidence items (E1 -> 1) the problem is based on" },
+          personalization_note: { type: Type.STRING },
+          scores: {
+            type: Type.OBJECT,
+            description: "Each an integer from 1 to 10, where 10 is best for the founder",
+            properties: {
+              market_size: { type: Type.INTEGER },
+              urgency: { type: Type.INTEGER },
+              fit: { type: Type.INTEGER },
+              competition: { type: Type.INTEGER, description: "10 means little or no competition" },
+            },
+            required: ['market_size', 'urgency', 'fit', 'competition'],
+          },
+        },
+        required: ['id', 'problem_statement', 'evidence', 'personalization_note', 'scores'],
+      },
+    },
+  },
+  required: ['mode', 'sector', 'founder_profile', 'problems'],
+};
+
+interface DiscoveryDraft extends Omit<ProactiveDiscoveryResponse, 'problems' | 'scan'> {
+  problems: (Pick<Problem, 'id' | 'problem_statement' | 'personalization_note'> & { evidence: number[]; scores: OpportunityScores })[];
+}
+
+const composedActionPlanSchema = {
+  type: Type.OBJECT,
+  properties: {
+    mode: { type: Type.STRING, enum: ['compose'] },
+    cap_id: { type: Type.STRING, description: "UUID v4" },
+    generated_at: { type: Type.STRING, description: "ISO 8601 UTC" },
+    founder_profile: founderProfileSchema,
+    priority: { type: Type.STRING, enum: ["urgent", "high", "medium", "low"] },
+    fusion_summary: { type: Type.STRING },
+    fused_insights: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          from_sources: { type: Type.ARRAY, items: { type: Type.STRING } },
+          insight: { type: Type.STRING },
+          confidence: { type: Type.NUMBER },
+        },
+        required: ['from_sources', 'insight', 'confidence'],
+      },
+    },
+    action_plan: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.INTEGER },
+          title: { type: Type.STRING },
+          description: { type: Type.STRING },
+          owner: { type: Type.STRING, enum: ["founder", "ai", "tool"] },
+          executable: { type: Type.BOOLEAN },
+          command: { type: Type.STRING, nullable: true },
+          status: { type: Type.STRING, enum: ["pending", "in_progress", "done"] },
+          due_in_hours: { type: Type.INTEGER },
+        },
+        required: ['id', 'title', 'description', 'owner', 'executable', 'command', 'status', 'due_in_hours'],
+      },
+    },
+    execution_log: { type: Type.ARRAY, items: { type: Type.STRING } },
+    next_heartbeat_in_seconds: { type: Type.INTEGER },
+  },
+  required: ['mode', 'cap_id', 'generated_at', 'founder_profile', 'priority', 'fusion_summary', 'fused_insights', 'action_plan', 'execution_log', 'next_heartbeat_in_seconds'],
+};
+
+// Also checks plans imported from a JSON export
+export const composedActionPlanSchemaWithConsiderations = {
+  ...composedActionPlanSchema,
+  properties: {
+    ...composedActionPlanSchema.properties,
+    key_considerations: {
+      type: Type.OBJECT,
+      properties: {
+        financial: { type: Type.ARRAY, items: { type: Type.STRING } },
+        governmental: { type: Type.ARRAY, items: { type: Type.STRING } },
+      },
+      required: ['financial', 'governmental'],
+    },
+  },
+  required: [...composedActionPlanSchema.required, 'key_considerations'],
+};
+
+// How many times invalid output is sent back to the model for repair before giving up
+const MAX_REPAIR_ATTEMPTS = Number(process.env.LLM_MAX_REPAIR_ATTEMPTS ?? 2);
+
+interface StructuredAttempt {
+  output: unknown;
+  raw: string;
+  issues: string[];
+}
+
+const checkOutput = (output: unknown, request: StructuredRequest): StructuredAttempt => ({
+  output,
+  raw: JSON.stringify(output),
+  issues: validateAgainstSchema(output, request.schema),
+});
+
+const NOT_JSON: StructuredAttempt = { output: null, raw: '(not valid JSON)', issues: ['$: response was not valid JSON'] };
+
+const attemptStructured = async (request: StructuredRequest): Promise<StructuredAttempt> => {
+  try {
+    return checkOutput(await getLLMProvider().generateStructured(request), request);
+  } catch (error) {
+    if (error instanceof SyntaxError) return NOT_JSON;
+    throw error;
+  }
+};
+
+const repairRequest = (request: StructuredRequest, attempt: StructuredAttempt): StructuredRequest => ({
+  ...request,
+  prompt: `${request.prompt}
+
+Your previous response did not match the required JSON schema. Problems found:
+${attempt.issues.map(issue => `- ${issue}`).join('\n')}
+
+Previous response:
+${attempt.raw}
+
+Return the complete, corrected JSON object.`,
+});
+
+// Generates structured output and checks it against the request schema, feeding the problems back
+// to the model until it is valid or MAX_REPAIR_ATTEMPTS is used up
+const generateValidated = async <T>(request: StructuredRequest, firstAttempt?: StructuredAttempt): Promise<T> => {
+  let attempt = firstAttempt ?? await attemptStructured(request);
+  let attempts = 1;
+
+  while (attempt.issues.length > 0) {
+    if (attempts > MAX_REPAIR_ATTEMPTS) {
+      throw new ResponseValidationError(request.task, attempt.issues, attempts);
+    }
+    console.warn(`Invalid ${request.task} output, asking the model to repair it:`, attempt.issues);
+    attempt = await attemptStructured(repairRequest(request, attempt));
+    attempts++;
+  }
+
+  return attempt.output as T;
+};
+
+// What the analysis prompt says about citing, depending on whether anything was retrieved
+const sourcesBrief = (registry: SourceRegistry): string => registry.size === 0
+  ? `No sources could be retrieved for this request. Do not use citation markers; rely on your own knowledge and label figures you are unsure of as estimates.`
+  : `Sources retrieved for this request:
+${registry.promptList()}
+
+    Ground competitors, figures and schemes in these sources and cite them with a footnote marker right after the claim, e.g. "Fasal sells IoT sensors[^2]". Only cite the numbered sources above, never invent sources or URLs, and do not put markers in key_insights. Claims no source supports must be labelled as estimates.`;
+
+// One query per researched chunk: competitors, market size and government support
+const analysisQueries = (problem: string, founderProfile: FounderProfile): string[] => [
+  `${problem} existing startups and competitors`,
+  `${problem} market size ${founderProfile.location}`,
+  `Indian government schemes and grants for startups: ${problem}`,
+];
+
+const analyzeRequest = (problem: string, founderProfile: FounderProfile, registry: SourceRegistry): StructuredRequest => {
+  const systemInstruction = `
+    You are Forge AI, a personalized co-pilot for founders. Your task is to analyze a user-submitted problem and generate a structured JSON report that is DEEPLY PERSONALIZED to the provided founder's profile. You must strictly adhere to the provided JSON schema.
+
+    Founder Profile for this analysis: ${JSON.stringify(founderProfile)}
+
+    ${sourcesBrief(registry)}
+
+    Follow this 8-step process with absolute precision, tailoring every step to the founder's profile:
+    1.  **Refine Problem:** Rewrite the user's input into a precise, actionable problem statement. Incorporate context from the founder's profile, especially their location and team size. For example, "Predict crop failure" for a 2-person team in Bihar becomes "Enable a 2-person team in Bihar to predict crop loss 7 days ahead using free satellite data and SMS alerts."
+    2.  **Chunk 1 - Existing Solutions & Gaps:** The chunk title must be exactly "Existing Solutions & Gaps". Use the sources to identify 3-5 competitors. Filter or critique them based on the founder's constraints. For example, flag solutions as "too expensive" if they would exhaust the founder's runway. Note gaps that are exploitable by a small, agile team.
+    3.  **Chunk 2 - Feasibility & Scalability:** The chunk title must be exactly "Feasibility & Scalability". Your analysis MUST be based on the founder's runway and team size.
+        -   **MVP Cost:** Use this logic: runway <= 3 months -> '< ₹50,000'; runway <= 6 months -> '₹50K - ₹2 Lakh'; else -> '₹2L - ₹10L'.
+        -   **Tech Stack:** Recommend a stack that aligns with the founder's preferred tech_stack and is suitable for their team_size. Prioritize free tiers and low-code/no-code solutions if the runway is short.
+        -   **Scalability:** Rate as Low, Medium, or High, justifying it based on the recommended tech stack (e.g., 'High due to serverless architecture').
+    4.  **Chunk 3 - Market & Edge:** The chunk title must be exactly "Market & Edge".
+        -   **TAM:** Take the market size from the sources, then narrow it down to the founder's location (e.g., "Estimate the TAM for EdTech in Tier-2 Indian cities").
+        -   **Target User & UVP:** Define a specific user persona relevant to the location. The UVP must be a compelling advantage for that niche (e.g., "Offline-first SMS alerts for farmers in low-connectivity regions").
+        -   **Govt Support:** Mention relevant Indian government schemes.
+        -   **Govt Support:** Identify 1-2 specific Indian government schemes (e.g., Startup India Seed Fund, TIDE 2.0) that are highly relevant to the startup's sector, the founder's location, and funding stage. For each scheme, provide a brief on its benefits and cite its official page when it is among the sources.
+    5.  **Chunk 4 - Resources & Timeline:** The chunk title must be exactly "Resources & Timeline".
+        -   **Team:** The team composition must match the founder's team_size.
+        -   **Timeline:** The MVP timeline must be realistic for the founder's runway_months: runway <= 3 months -> '2-3 weeks'; runway <= 6 months -> '4-6 weeks'; else -> '2-3 months'.
+    6.  **Chunk 5 - Ethics & Risks:** The chunk title must be exactly "Ethics & Risks". Identify 1-2 risks directly related to the founder's context, like "Model bias in regional dialects" if location is specific, and suggest a mitigation.
+    7.  **Synthesis:** Create a 'solution_guide' with 5-7 concrete, actionable steps the founder can take immediately, given their profile. Recommend specific free-tier tools (e.g., "Set up Gemini API free tier," "Use Vercel for hosting").
+    8.  **Output:** Ensure the entire output is a single, valid JSON object matching the schema, including the founder's profile.
+  `;
+
+  return {
+    task: 'analyze',
+    tier: 'reasoning',
+    prompt: `Analyze this problem: "${problem}"`,
+    systemInstruction,
+    schema: userDrivenResponseSchema,
+    thinkingBudget: 32768,
+    context: { problem, founderProfile, sources: registry.list() },
+  };
+};
+
+const citeAnalysis = (response: UserDrivenResponse, registry: SourceRegistry): UserDrivenResponse => ({
+  ...response,
+  chunks: response.chunks.map(chunk => registry.cite(chunk)),
+});
+
+export const analyzeProblem = async (problem: string, founderProfile: FounderProfile, options: GenerationOptions = {}): Promise<UserDrivenResponse> => {
+  try {
+    const registry = await retrieveSources(analysisQueries(problem, founderProfile), options);
+    const response = await generateValidated<UserDrivenResponse>({ ...analyzeRequest(problem, founderProfile, registry), ...options });
+    return citeAnalysis(response, registry);
+  } catch (error) {
+    handleGenerationError(error, "analyze the problem");
+  }
+};
+
+// Same as analyzeProblem, but reports each chunk through onChunk as soon as the model finishes writing it
+export const streamAnalyzeProblem = async (
+  problem: string,
+  founderProfile: FounderProfile,
+  onChunk: (chunk: AnalysisChunk) => void,
+  options: GenerationOptions = {}
+): Promise<UserDrivenResponse> => {
+  const llm = getLLMProvider();
+  try {
+    const registry = await retrieveSources(analysisQueries(problem, founderProfile), options);
+    const request = { ...analyzeRequest(problem, founderProfile, registry), ...options };
+    const chunkStream = new JsonArrayItemStream('chunks');
+    for await (const fragment of llm.streamStructured(request)) {
+      chunkStream.push(fragment)
+        .filter(chunk => validateAgainstSchema(chunk, analysisChunkSchema).length === 0)
+        .forEach(chunk => onChunk(registry.cite(chunk as AnalysisChunk)));
+    }
+
+    // Chunks already shown are provisional; the validated (possibly repaired) result replaces them
+    let firstAttempt: StructuredAttempt;
+    try {
+      firstAttempt = checkOutput(JSON.parse(chunkStream.buffer.trim()), request);
+    } catch {
+      firstAttempt = NOT_JSON;
+    }
+    return citeAnalysis(await generateValidated<UserDrivenResponse>(request, firstAttempt), registry);
+  } catch (error) {
+    handleGenerationError(error, "analyze the problem");
+  }
+};
+
+
+// Earlier versions kept on a refined chunk so the founder can compare against them
+const MAX_CHUNK_VERSIONS = 5;
+
+interface ChunkRevision {
+  analysis: string;
+  key_insights: string[];
+}
+
+const REFINEMENT_BRIEFS: Record<ChunkRefinement, string> = {
+  regenerate: `Rewrite the section from scratch. Keep its scope and title, but replace weak, generic or unsupported claims with specific, verifiable ones (named competitors, tools, schemes, figures) tailored to the founder's profile. Return the complete new section and 3-5 key insights.`,
+  deepen: `Go one level deeper on this section. Add material that is NOT already in it: concrete numbers, named examples, trade-offs and next steps the founder can act on this week. Return ONLY the new material as Markdown starting with a level-3 heading, plus 2-4 new key insights; the existing text is kept as it is.`,
+};
+
+const refineChunkRequest = (
+  analysis: UserDrivenResponse,
+  chunk: AnalysisChunk,
+  mode: ChunkRefinement,
+  registry: SourceRegistry,
+  focus?: string
+): StructuredRequest => {
+  const otherSections = analysis.chunks
+    .filter(other => other.id !== chunk.id)
+    .map(other => `- ${other.title}: ${other.key_insights.join(' ')}`)
+    .join('\n');
+
+  const systemInstruction = `
+    You are Forge AI, a personalized co-pilot for founders. You are revising one section of an existing problem analysis. You must strictly adhere to the provided JSON schema.
+
+    Founder Profile for this analysis: ${JSON.stringify(analysis.founder_profile)}
+    Refined problem: ${analysis.refined_problem}
+
+    Key insights of the other sections, for context (do not repeat them):
+    ${otherSections || '- (none)'}
+
+    ${sourcesBrief(registry)}
+
+    ${REFINEMENT_BRIEFS[mode]}
+    ${focus ? `The founder asked you to focus on: "${focus}"` : ''}
+  `;
+
+  return {
+    task: 'refine',
+    tier: 'reasoning',
+    prompt: `Section "${chunk.title}":\n\n${chunk.analysis}\n\nKey insights:\n${chunk.key_insights.map(insight => `- ${insight}`).join('\n')}`,
+    systemInstruction,
+    schema: chunkRevisionSchema,
+    thinkingBudget: 8192,
+    context: { chunk, mode, focus, founderProfile: analysis.founder_profile, sources: registry.list() },
+  };
+};
+
+/**
+ * Regenerates one chunk of an analysis, or drills deeper into it, with the rest of the analysis as context.
+ * Returns the updated chunk; the content it replaces goes to the front of `previous_versions`.
+ */
+export const refineAnalysisChunk = async (
+  analysis: UserDrivenResponse,
+  chunkId: number,
+  mode: ChunkRefinement,
+  focus?: string,
+  options: GenerationOptions = {}
+): Promise<AnalysisChunk> => {
+  const chunk = analysis.chunks.find(candidate => candidate.id === chunkId);
+  if (!chunk) {
+    throw new Error(`The analysis has no section with id ${chunkId}`);
+  }
+
+  try {
+    // The chunk's own sources come first so the markers already in its text keep their numbers
+    const query = `${analysis.refined_problem} ${chunk.title}${focus ? `: ${focus}` : ''}`;
+    const registry = await retrieveSources([query], options, chunk.sources);
+    const revision = await generateValidated<ChunkRevision>({ ...refineChunkRequest(analysis, chunk, mode, registry, focus), ...options });
+    const seen = new Set(chunk.key_insights.map(insight => insight.trim().toLowerCase()));
+    const previous: AnalysisChunkVersion = {
+      analysis: chunk.analysis,
+      key_insights: chunk.key_insights,
+      ...(chunk.sources ? { sources: chunk.sources } : {}),
+      replaced_at: new Date().toISOString(),
+      replaced_by: mode,
+      ...(focus ? { focus } : {}),
+    };
+
+    return registry.cite({
+      id: chunk.id,
+      title: chunk.title,
+      ...(mode === 'regenerate'
+        ? { analysis: revision.analysis, key_insights: revision.key_insights }
+        : {
+          analysis: `${chunk.analysis.trimEnd()}\n\n${revision.analysis.trim()}`,
+          key_insights: [...chunk.key_insights, ...revision.key_insights.filter(insight => !seen.has(insight.trim().toLowerCase()))],
+        }),
+      previous_versions: [previous, ...(chunk.previous_versions ?? [])].slice(0, MAX_CHUNK_VERSIONS),
+    });
+  } catch (error) {
+    handleGenerationError(error, "refine the analysis section");
+  }
+};
+
+const MAX_DISCOVERED_PROBLEMS = 5;
+// A new problem this similar to one the founder has already seen is a rewording of it
+const SEEN_SIMILARITY_THRESHOLD = 0.6;
+
+const clampScore = (value: number) => Math.min(10, Math.max(1, Math.round(value)));
+
+/**
+ * Finds up to five problems in the sector, each scored and backed by feed evidence. Passing the problems the
+ * founder has already seen asks for different ones: their evidence is left out and rewordings are dropped.
+ */
+export const discoverOpportunities = async (
+  sector: string,
+  founderProfile: FounderProfile,
+  seen: Pick<Problem, 'id' | 'problem_statement' | 'sources'>[] = [],
+  options: GenerationOptions = {}
+): Promise<ProactiveDiscoveryResponse> => {
+  try {
+    const seenLinks = new Set(seen.flatMap(problem => problem.sources ?? []).map(source => source.url));
+    const seenVectors = seen.map(problem => termVector(problem.problem_statement));
+    const evidence = await collectEvidence(sector, { signal: options.signal, exclude: seenLinks });
+    const hasEvidence = evidence.clusters.length > 0;
+    const feedNames = evidence.scan.feeds.map(feed => feed.name).join(', ');
+
+    const systemInstruction = `
+    You are Forge AI, a personalized co-pilot for founders. Your task is to find up to 5 "hot" problems in a given sector that are HIGHLY PERSONALIZED and viable for the provided founder's profile, and return them as JSON. You must strictly adhere to the provided JSON schema.
+
+    Founder Profile for this discovery: ${JSON.stringify(founderProfile)}
+
+    ${hasEvidence
+      ? `Evidence: recent items from ${feedNames}, grouped into clusters of related pain points:
+${evidencePrompt(evidence)}`
+      : `Evidence: none. The feeds (${feedNames || 'none configured'}) returned nothing${seen.length > 0 ? ' new' : ''} for this sector.`}
+
+    Follow this ${seen.length > 0 ? 5 : 4}-step process with absolute precision:
+    1.  **Identify Sector:** The user's input is the sector to scan.
+    2.  **Read the Evidence:** ${hasEvidence
+      ? `Work only from the evidence above. Prefer clusters with several items, items from different feeds and recent items. Skip items that are announcements or promotion rather than someone's problem.`
+      : `Without evidence, rely on your own knowledge of the sector and leave every 'evidence' list empty.`}
+    3.  **Generate up to 5 Personalized Hot Problems:** Generate up to 5 diverse problems. Each problem MUST be filtered and framed to be a perfect fit for the founder's profile.
+        -   **Evidence:** ${hasEvidence
+          ? `List in 'evidence' the numbers of the items the problem is based on (E3 -> 3). Never cite an item that doesn't support the problem, and drop a problem rather than invent support for it.`
+          : `Leave 'evidence' empty.`}
+        -   **Viability Filter:** Only select problems that can be addressed with an MVP within the founder's runway_months and by their team_size. Do not suggest capital-intensive or large-team ideas.
+        -   **Tech Stack Alignment:** Prioritize problems that can be solved using the founder's preferred tech_stack.
+        -   **Location Relevance:** Find problems that are particularly acute or offer a unique advantage in the founder's location.
+        -   **Personalization Note:** For each problem, you MUST write a concise 'personalization_note' explaining *why* this specific problem is a good fit for this founder. Example: "Fits your 3-month runway: solvable in 10 days with under ₹30K," or "Leverages your team's Python skills and is a major issue in your location."
+        -   **Scores:** Rate each problem from 1 to 10 on 'market_size' (how many would pay to solve it), 'urgency' (how pressing the pain is now${hasEvidence ? ', judging by the evidence' : ''}), 'fit' (how well it suits the founder's runway, team size and tech stack together) and 'competition' (10 when hardly anyone solves it well, 1 when the space is crowded). Use the whole range; not every problem is a 7.
+    ${seen.length > 0 ? `4.  **Avoid Repeats:** The founder has already seen the problems below. Do not repeat or reword them; find different ones.
+${seen.map(problem => `        - ${problem.problem_statement}`).join('\n')}
+    5.` : '4.'}  **Output:** Ensure the entire output is a single, valid JSON object matching the schema perfectly and including the founder's profile.
+  `;
+
+    const draft = await generateValidated<DiscoveryDraft>({
+      task: 'discover',
+      tier: 'fast',
+      prompt: `Scan this sector: "${sector}"`,
+      systemInstruction,
+      schema: discoveryDraftSchema,
+      context: { sector, founderProfile, evidence: evidence.clusters, seen: seen.map(problem => problem.problem_statement) },
+      ...options,
+    });
+
+    // With evidence available, a problem that cites none of it is unsupported and gets dropped
+    const firstId = Math.max(0, ...seen.map(problem => problem.id)) + 1;
+    const problems: Problem[] = [];
+    for (const { evidence: refs, scores, ...problem } of draft.problems) {
+      const cited = citeEvidence(evidence, refs);
+      if (hasEvidence && !cited) {
+        console.warn(`Dropping discovered problem without valid evidence: "${problem.problem_statement}"`);
+        continue;
+      }
+      const vector = termVector(problem.problem_statement);
+      if (seenVectors.some(seenVector => cosineSimilarity(vector, seenVector) >= SEEN_SIMILARITY_THRESHOLD)) {
+        console.warn(`Dropping discovered problem the founder has already seen: "${problem.problem_statement}"`);
+        continue;
+      }
+      problems.push({
+        ...problem,
+        id: firstId + problems.length,
+        scores: {
+          market_size: clampScore(scores.market_size),
+          urgency: clampScore(scores.urgency),
+          fit: clampScore(scores.fit),
+          competition: clampScore(scores.competition),
+        },
+        sources: cited?.sources ?? [],
+        freshness_timestamp: cited?.freshness_timestamp ?? evidence.scan.scanned_at,
+      });
+    }
+
+    return { ...draft, problems: problems.slice(0, MAX_DISCOVERED_PROBLEMS), scan: evidence.scan };
+  } catch (error) {
+    handleGenerationError(error, "discover opportunities");
+  }
+};
+
+// One embedding per problem statement, for telling genuinely new problems from rewordings of earlier ones
+export const embedProblems = async (problems: Pick<Problem, 'problem_statement'>[], options: GenerationOptions = {}): Promise<number[][]> => {
+  try {
+    return await getLLMProvider().embed({ texts: problems.map(problem => problem.problem_statement), ...options });
+  } catch (error) {
+    handleGenerationError(error, "compare discovered problems");
+  }
+};
+
+export const composeActionPlan = async (
+  analysis: UserDrivenResponse,
+  opportunities: Problem[],
+  liveData: LiveData[],
+  founderProfile: FounderProfile,
+  priority: Priority,
+  priorityDecision: PriorityDecision,
+  previousPlan: ComposedActionPlan | null = null,
+  options: GenerationOptions = {}
+): Promise<ComposedActionPlan> => {
+  const priorityBasis = priorityDecision.mode === 'auto'
+    ? ` (derived automatically: ${priorityDecision.reasoning.join('; ')})`
+    : ' (chosen by the founder)';
+  // Heartbeat recompositions revise the existing plan instead of starting over
+  const previousPlanInput = previousPlan ? `
+    6.  **Previous Plan (revise, don't restart):** ${JSON.stringify({ fusion_summary: previousPlan.fusion_summary, action_plan: previousPlan.action_plan })}
+        Tasks with status 'done' are finished: do not plan them again. Keep unfinished tasks that are still relevant, with the same title, and adjust or replace the rest based on what changed in the live data.` : '';
+  const systemInstruction = `
+    You are the Forge AI "Composer," the central brain of Project Aura. Your purpose is to synthesize multiple data streams into a single, executable, cross-domain action plan. You must act as an autonomous agent, fusing insights and generating tangible actions. Strictly adhere to the JSON schema.
+
+    **INPUTS FOR FUSION:**
+    1.  **Founder Profile:** ${JSON.stringify(founderProfile)}
+    2.  **Problem Analysis:** ${JSON.stringify(analysis)}
+    3.  **Discovered Opportunities:** ${JSON.stringify(opportunities)}
+    4.  **Live Data Stream:** ${JSON.stringify(liveData)}
+    5.  **Stated Priority:** ${priority}${priorityBasis}${previousPlanInput}
+
+    **7-STEP FUSION ENGINE DIRECTIVE:**
+    1.  **Ingest & Normalize:** Review all provided inputs. Identify key constraints from the founder profile (runway, team size), core insights from the analysis (especially financial estimates from 'Feasibility & Scalability' and government schemes from 'Market & Edge'), high-potential problems from opportunities, and urgent signals from the live data.
+    2.  **Cross-Domain Matching:** Find non-obvious connections between the inputs. For example, connect a 'key_insight' from the analysis with a user comment from 'liveData' and a relevant 'problem_statement' from the opportunities. The goal is to find threats or opportunities that only emerge when looking at the whole picture.
+    3.  **Insight Fusion:** Generate 2-5 high-quality 'fused_insights'. Each must cite its sources (e.g., "analysis.chunk2", "opportunities[0]", "liveData.slack"). Assign a 'confidence' score (0.0 to 1.0) based on how strongly the data supports the insight. A high-confidence insight might be, "The offline crash reported in Slack directly threatens the core UVP of serving farmers in low-connectivity areas, which was a key part of the analysis. This is a critical threat."
+    4.  **Priority Scoring:** Synthesize a single 'fusion_summary' that explains the most critical takeaway. Then, use the user's stated 'priority' and the founder's constraints (especially a short runway) to determine the urgency of the action plan.
+    5.  **Action Plan Synthesis:** Generate 3-7 'action_plan' tasks. These must be concrete and actionable.
+        -   **Ownership:** Assign tasks to 'founder' (requires human decision), 'ai' (can be automated), or 'tool' (a specific integration).
+        -   **Executability:** About 60% of tasks should be 'executable'. For these, provide a 'command' the founder can approve and run. Only these commands exist; quote every value that contains spaces:
+            -   github create issue --title '<title>' --body '<details>' [--labels a,b] [--repo owner/name]
+            -   email draft --to <address> --subject '<subject>' --body '<text>' (saved as a draft, never sent)
+            -   note write --title '<title>' --body '<text>'
+            A task that needs anything else is not executable. For founder tasks and non-executable tasks, the command should be null.
+        -   **Deadlines:** Assign a 'due_in_hours' that is aggressive and reflects the project's priority and the founder's runway.
+    6.  **Execution Log:** Leave 'execution_log' empty. Nothing has been executed yet; the server records each command once the founder approves and runs it.
+    7.  **Output & Schedule:** Generate a UUID for 'cap_id' and a current ISO 8601 UTC timestamp for 'generated_at'. Extract financial and governmental notes from the 'analysis' input into the 'key_considerations' field. Set the 'next_heartbeat_in_seconds' based on priority: 'urgent' -> 300, 'high' -> 900, 'medium' -> 1800, 'low' -> 3600. The entire output must be a single, valid JSON object that strictly follows the schema.
+  `;
+
+  try {
+    const plan = await generateValidated<ComposedActionPlan>({
+      task: 'compose',
+      tier: 'reasoning',
+      prompt: "Compose the action plan based on the provided data.",
+      systemInstruction,
+      schema: composedActionPlanSchemaWithConsiderations,
+      thinkingBudget: 32768,
+      context: { analysis, opportunities, liveData, founderProfile, priority, previousPlan },
+      ...options,
+    });
+    // The priority is decided before generation, so the model doesn't get to overrule it
+    // Only the server writes execution_log, after a founder-approved command actually runs
+    return {
+      ...plan,
+      execution_log: [],
+      priority,
+      next_heartbeat_in_seconds: HEARTBEAT_SECONDS[priority],
+      priority_decision: priorityDecision,
+    };
+  } catch (error) {
+    handleGenerationError(error, "compose the action plan");
+  }
+};
+
+const CHAT_SYSTEM_INSTRUCTION = `
+    You are Forge AI, a personalized AI co-pilot for startup founders and innovators. 
+    You help founders with strategic thinking, problem-solving, opportunity discovery, and actionable planning.
+    
+    Your personality:
+    - Expert and knowledgeable about startups, technology, and business strategy
+    - Supportive and encouraging, but honest and direct
+    - Focused on practical, actionable advice
+    - Remember context from the conversation and build upon it
+    
+    When responding:
+    - Be concise but thorough
+    - Ask clarifying questions when needed
+    - Provide specific examples when possible
+    - Consider the founder's constraints (team size, runway, resources)
+    - Reference previous parts of the conversation when relevant
+  `;
+
+const chatRequest = (message: string, conversationHistory: ChatMessage[], options: GenerationOptions): ChatRequest => ({
+  tier: 'fast',
+  systemInstruction: CHAT_SYSTEM_INSTRUCTION,
+  messages: [
+    ...conversationHistory,
+    { role: 'user', parts: message }
+  ],
+  ...options,
+});
+
+export const chat = async (
+  message: string,
+  conversationHistory: ChatMessage[],
+  options: GenerationOptions = {}
+): Promise<string> => {
+  const llm = getLLMProvider();
+  try {
+    return await llm.generateChat(chatRequest(message, conversationHistory, options));
+  } catch (error) {
+    handleGenerationError(error, "chat");
+  }
+};
+
+// Streams the reply through onDelta as it is generated and resolves with the full text
+export const streamChat = async (
+  message: string,
+  conversationHistory: ChatMessage[],
+  onDelta: (text: string) => void,
+  options: GenerationOptions = {}
+): Promise<string> => {
+  const llm = getLLMProvider();
+  try {
+    let reply = '';
+    for await (const fragment of llm.streamChat(chatRequest(message, conversationHistory, options))) {
+      reply += fragment;
+      onDelta(fragment);
+    }
+    return reply.trim();
+  } catch (error) {
+    handleGenerationError(error, "chat");
+  }
+};
@@ -0,0 +1,137 @@
+import { AnalysisChunk, AnalysisDiff, ChunkDiff, DiffPart, FounderProfile, ProfileFieldChange, UserDrivenResponse } from '../types';
+
+// Above this many comparison cells a text is diffed line by line instead of word by word
+const MAX_DIFF_CELLS = 4_000_000;
+
+const PROFILE_FIELDS: (keyof FounderProfile)[] = [
+  'experience_years',
+  'team_size',
+  'runway_months',
+  'runway_unit',
+  'funding_stage',
+  'location',
+  'tech_stack',
+];
+
+const normalize = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Longest-common-subsequence diff of two token lists, one part per token. Tokens are compared by key;
+ * equal tokens carry the target's text.
+ */
+function diffTokens(base: string[], target: string[], key: (token: string) => string): DiffPart[] {
+  const parts: DiffPart[] = [];
+
+  // Common ends don't need the table
+  let start = 0;
+  while (start < base.length && start < target.length && key(base[start]) === key(target[start])) start++;
+  let baseEnd = base.length;
+  let targetEnd = target.length;
+  while (baseEnd > start && targetEnd > start && key(base[baseEnd - 1]) === key(target[targetEnd - 1])) {
+    baseEnd--;
+    targetEnd--;
+  }
+
+  for (let i = 0; i < start; i++) parts.push({ type: 'equal', text: target[i] });
+
+  const a = base.slice(start, baseEnd);
+  const b = target.slice(start, targetEnd);
+  const width = b.length + 1;
+  // lengths[i * width + j] is the LCS length of a[i..] and b[j..]
+  const lengths = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] = key(a[i]) === key(b[j])
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (key(a[i]) === key(b[j])) {
+      parts.push({ type: 'equal', text: b[j] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      parts.push({ type: 'removed', text: a[i++] });
+    } else {
+      parts.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) parts.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) parts.push({ type: 'added', text: b[j++] });
+
+  for (let k = targetEnd; k < target.length; k++) parts.push({ type: 'equal', text: target[k] });
+  return parts;
+}
+
+// Word-level diff of two texts, with runs of the same kind merged; whitespace-only changes don't count
+export function diffText(base: string, target: string): DiffPart[] {
+  const words = (text: string) => text.match(/\S+\s*/g) ?? [];
+  let a = words(base);
+  let b = words(target);
+  if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+    const lines = (text: string) => text.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+    a = lines(base);
+    b = lines(target);
+  }
+
+  const merged: DiffPart[] = [];
+  for (const part of diffTokens(a, b, token => token.trim())) {
+    const previous = merged[merged.length - 1];
+    if (previous?.type === part.type) {
+      previous.text += part.text;
+    } else {
+      merged.push({ ...part });
+    }
+  }
+  return merged;
+}
+
+// Item-level diff of two ordered lists, e.g. solution guide steps; items differing only in case or spacing are equal
+export const diffList = (base: string[], target: string[]): DiffPart[] => diffTokens(base, target, normalize);
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Profiles saved before runway units existed count in months
+const profileValue = (profile: FounderProfile | undefined, field: keyof FounderProfile) =>
+  field === 'runway_unit' && profile ? profile.runway_unit ?? 'months' : profile?.[field] ?? null;
+
+export function diffProfiles(base: FounderProfile | undefined, target: FounderProfile | undefined): ProfileFieldChange[] {
+  return PROFILE_FIELDS
+    .filter(field => !sameValue(profileValue(base, field), profileValue(target, field)))
+    .map(field => ({ field, before: profileValue(base, field), after: profileValue(target, field) }));
+}
+
+function diffChunk(base: AnalysisChunk | undefined, target: AnalysisChunk | undefined): ChunkDiff {
+  const analysis = diffText(base?.analysis ?? '', target?.analysis ?? '');
+  const keyInsights = diffList(base?.key_insights ?? [], target?.key_insights ?? []);
+  const changed = [...analysis, ...keyInsights].some(part => part.type !== 'equal');
+  return {
+    title: (target ?? base)!.title,
+    status: !base ? 'added' : !target ? 'removed' : changed ? 'changed' : 'unchanged',
+    analysis,
+    key_insights: keyInsights,
+  };
+}
+
+/**
+ * What changed from one analysis to another: the founder profile fields, the refined problem, each chunk (matched
+ * by title, in the target's order, with chunks only the base has at the end) and the solution guide.
+ */
+export function diffAnalyses(base: UserDrivenResponse, target: UserDrivenResponse): AnalysisDiff {
+  const baseChunks = new Map(base.chunks.map(chunk => [normalize(chunk.title), chunk]));
+  const targetTitles = new Set(target.chunks.map(chunk => normalize(chunk.title)));
+
+  return {
+    profile_changes: diffProfiles(base.founder_profile, target.founder_profile),
+    refined_problem: diffText(base.refined_problem, target.refined_problem),
+    chunks: [
+      ...target.chunks.map(chunk => diffChunk(baseChunks.get(normalize(chunk.title)), chunk)),
+      ...base.chunks.filter(chunk => !targetTitles.has(normalize(chunk.title))).map(chunk => diffChunk(chunk, undefined)),
+    ],
+    solution_guide: diffList(base.synthesis?.solution_guide ?? [], target.synthesis?.solution_guide ?? []),
+  };
+}
@@ -0,0 +1,119 @@
+import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
+import { eq, and, gt, lt } from 'drizzle-orm';
+import { db } from './db';
+import { sessions } from '../shared/schema';
+
+// Sliding expiry: every authenticated request pushes expiresAt out by this much
+const SESSION_TTL_MS = (Number(process.env.SESSION_TTL_DAYS) || 7) * 24 * 60 * 60 * 1000;
+// Avoid a write on every request; lastSeenAt only needs minute-level precision
+const TOUCH_INTERVAL_MS = 60 * 1000;
+
+export interface AuthSession {
+  id: number;
+  userId: number;
+}
+
+export function generateSessionToken(): string {
+  return crypto.randomUUID();
+}
+
+// Only a hash of the token is stored, so a leaked sessions table can't be replayed
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function getBearerToken(req: Request): string | undefined {
+  return req.headers.authorization?.replace('Bearer ', '') || undefined;
+}
+
+function nextExpiry(): Date {
+  return new Date(Date.now() + SESSION_TTL_MS);
+}
+
+export async function createSession(userId: number, req: Request): Promise<{ token: string; expiresAt: Date }> {
+  if (!db) throw new Error('Database not configured');
+
+  const token = generateSessionToken();
+  const expiresAt = nextExpiry();
+  await db.insert(sessions).values({
+    userId,
+    tokenHash: hashToken(token),
+    userAgent: req.headers['user-agent']?.slice(0, 512) ?? null,
+    expiresAt,
+  });
+  return { token, expiresAt };
+}
+
+export async function getSession(req: Request): Promise<AuthSession | undefined> {
+  const token = getBearerToken(req);
+  if (!token || !db) return undefined;
+
+  const now = new Date();
+  const [session] = await db
+    .select()
+    .from(sessions)
+    .where(and(eq(sessions.tokenHash, hashToken(token)), gt(sessions.expiresAt, now)))
+    .limit(1);
+
+  if (!session) return undefined;
+
+  if (now.getTime() - session.lastSeenAt.getTime() > TOUCH_INTERVAL_MS) {
+    await db
+      .update(sessions)
+      .set({ lastSeenAt: now, expiresAt: nextExpiry() })
+      .where(eq(sessions.id, session.id));
+  }
+
+  return { id: session.id, userId: session.userId };
+}
+
+export async function getSessionUserId(req: Request): Promise<number | undefined> {
+  const session = await getSession(req);
+  return session?.userId;
+}
+
+// Issues a fresh token for an existing session, invalidating the old one
+export async function rotateSession(sessionId: number): Promise<{ token: string; expiresAt: Date }> {
+  if (!db) throw new Error('Database not configured');
+
+  const token = generateSessionToken();
+  const expiresAt = nextExpiry();
+  await db
+    .update(sessions)
+    .set({ tokenHash: hashToken(token), lastSeenAt: new Date(), expiresAt })
+    .where(eq(sessions.id, sessionId));
+  return { token, expiresAt };
+}
+
+export async function revokeSessionToken(token: string): Promise<void> {
+  if (!db) return;
+  await db.delete(sessions).where(eq(sessions.tokenHash, hashToken(token)));
+}
+
+export async function purgeExpiredSessions(): Promise<void> {
+  if (!db) return;
+  await db.delete(sessions).where(lt(sessions.expiresAt, new Date()));
+}
+
+// Rejects unauthenticated requests and exposes the caller as res.locals.userId / res.locals.sessionId
+export async function requireAuth(req: Request, res: Response, next: NextFunction): Promise<void> {
+  if (!db) {
+    res.status(503).json({ error: 'Database not configured' });
+    return;
+  }
+
+  try {
+    const session = await getSession(req);
+    if (!session) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+    res.locals.userId = session.userId;
+    res.locals.sessionId = session.id;
+    next();
+  } catch (error) {
+    console.error('Session lookup error:', error);
+    res.status(500).json({ error: 'Failed to verify session' });
+  }
+}
@@ -0,0 +1,183 @@
+import { eq, and } from 'drizzle-orm';
+import { db } from '../db';
+import { actionOutputs, connectors } from '../../shared/schema';
+import { ActionTask, GitHubConnectorConfig } from '../../types';
+import { Transport } from '../connectors';
+import { CommandParseError } from './parse';
+
+export interface CommandInput {
+  positional: string[];
+  flags: Record<string, string | true>;
+}
+
+export interface CommandContext {
+  userId: number;
+  planId: number;
+  task: ActionTask;
+  transport: Transport;
+  signal?: AbortSignal;
+}
+
+export interface CommandResult {
+  summary: string;
+  url?: string;
+}
+
+// One whitelisted action. Parsing happens before approval so the founder sees exactly what will run.
+export interface CommandHandler<A> {
+  action: string;
+  names: string[]; // accepted spellings, matched against the leading words of a command
+  usage: string;
+  parse(input: CommandInput, task: ActionTask): A;
+  describe(action: A): string;
+  run(action: A, context: CommandContext): Promise<CommandResult>;
+}
+
+const MAX_TITLE_LENGTH = 255;
+const MAX_BODY_LENGTH = 10_000;
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/;
+const REPO_PATTERN = /^[\w.-]+\/[\w.-]+$/;
+
+function flag(input: CommandInput, names: string[]): string | undefined {
+  for (const name of names) {
+    const value = input.flags[name];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+  }
+  return undefined;
+}
+
+const positionalText = (input: CommandInput): string | undefined =>
+  input.positional.length ? input.positional.join(' ').trim() || undefined : undefined;
+
+function requireText(value: string | undefined, what: string, maxLength: number): string {
+  if (!value) throw new CommandParseError(`Missing ${what}`);
+  if (value.length > maxLength) throw new CommandParseError(`${what[0].toUpperCase()}${what.slice(1)} is longer than ${maxLength} characters`);
+  return value;
+}
+
+const saveOutput = (values: Omit<typeof actionOutputs.$inferInsert, 'id' | 'createdAt'>) =>
+  db!.insert(actionOutputs).values(values).returning().then(([row]) => row);
+
+interface CreateIssueAction {
+  repo: string | null;
+  title: string;
+  body: string;
+  labels: string[];
+}
+
+export const createIssueHandler: CommandHandler<CreateIssueAction> = {
+  action: 'github.create_issue',
+  names: ['github create issue', 'github issue create', 'gh issue create'],
+  usage: "github create issue --title '<title>' [--body '<text>'] [--labels a,b] [--repo owner/name]",
+
+  parse(input) {
+    const repo = flag(input, ['repo', 'repository']) ?? null;
+    if (repo && !REPO_PATTERN.test(repo)) throw new CommandParseError('Repository must look like "owner/name"');
+    const labels = flag(input, ['labels', 'label']);
+    return {
+      repo,
+      title: requireText(flag(input, ['title']) ?? positionalText(input), 'issue title', MAX_TITLE_LENGTH),
+      body: (flag(input, ['body', 'description']) ?? '').slice(0, MAX_BODY_LENGTH),
+      labels: labels ? labels.split(',').map(label => label.trim()).filter(Boolean) : [],
+    };
+  },
+
+  describe(action) {
+    const labels = action.labels.length ? ` labelled ${action.labels.join(', ')}` : '';
+    return `Create a GitHub issue "${action.title}"${labels} in ${action.repo ?? 'your connected repository'}`;
+  },
+
+  // Issues go to a repository the founder has already connected, using that connector's token
+  async run(action, { userId, transport, signal }) {
+    const rows = await db!
+      .select()
+      .from(connectors)
+      .where(and(eq(connectors.userId, userId), eq(connectors.kind, 'github')));
+    const configs = rows.map(row => row.config as GitHubConnectorConfig);
+    const config = action.repo
+      ? configs.find(c => c.repo.toLowerCase() === action.repo!.toLowerCase())
+      : configs.length === 1 ? configs[0] : undefined;
+
+    if (!config) {
+      throw new Error(action.repo
+        ? `Connect ${action.repo} as a GitHub live data source before creating issues in it`
+        : configs.length ? 'Several GitHub repositories are connected; add --repo to pick one' : 'Connect a GitHub repository as a live data source first');
+    }
+    if (!config.token) throw new Error(`The ${config.repo} connector has no access token, which creating issues requires`);
+
+    const response = await transport.fetch(`https://api.github.com/repos/${config.repo}/issues`, {
+      method: 'POST',
+      headers: {
+        'Accept': 'application/vnd.github+json',
+        'Authorization': `Bearer ${config.token}`,
+        'Content-Type': 'application/json',
+        'User-Agent': 'forge-ai',
+      },
+      body: JSON.stringify({ title: action.title, body: action.body, labels: action.labels }),
+      signal,
+    });
+    if (!response.ok) throw new Error(`GitHub returned ${response.status} when creating the issue`);
+
+    const issue = await response.json() as { number: number; html_url: string };
+    return { summary: `Created ${config.repo}#${issue.number} "${action.title}"`, url: issue.html_url };
+  },
+};
+
+interface DraftEmailAction {
+  to: string;
+  subject: string;
+  body: string;
+}
+
+// Drafts only: nothing is ever sent from the server
+export const draftEmailHandler: CommandHandler<DraftEmailAction> = {
+  action: 'email.draft',
+  names: ['email draft', 'draft email', 'email create draft', 'gmail draft'],
+  usage: "email draft --to <address> --subject '<subject>' [--body '<text>']",
+
+  parse(input, task) {
+    const to = requireText(flag(input, ['to', 'recipient']), 'recipient (--to)', MAX_TITLE_LENGTH);
+    if (!EMAIL_PATTERN.test(to)) throw new CommandParseError(`"${to}" is not an email address`);
+    return {
+      to,
+      subject: requireText(flag(input, ['subject', 'title']) ?? positionalText(input) ?? task.title, 'subject', MAX_TITLE_LENGTH),
+      body: (flag(input, ['body', 'message']) ?? task.description).slice(0, MAX_BODY_LENGTH),
+    };
+  },
+
+  describe(action) {
+    return `Save an email draft to ${action.to} with the subject "${action.subject}" (it will not be sent)`;
+  },
+
+  async run(action, { userId, planId, task }) {
+    const row = await saveOutput({ userId, planId, taskId: task.id, kind: 'email_draft', title: action.subject, body: action.body, recipient: action.to });
+    return { summary: `Saved email draft #${row.id} to ${action.to}: "${action.subject}"` };
+  },
+};
+
+interface NoteAction {
+  title: string;
+  body: string;
+}
+
+export const writeNoteHandler: CommandHandler<NoteAction> = {
+  action: 'note.write',
+  names: ['note write', 'write note', 'note create', 'notes create'],
+  usage: "note write --title '<title>' [--body '<text>']",
+
+  parse(input, task) {
+    return {
+      title: requireText(flag(input, ['title']) ?? positionalText(input) ?? task.title, 'note title', MAX_TITLE_LENGTH),
+      body: (flag(input, ['body', 'content', 'text']) ?? task.description).slice(0, MAX_BODY_LENGTH),
+    };
+  },
+
+  describe(action) {
+    return `Write a note "${action.title}"`;
+  },
+
+  async run(action, { userId, planId, task }) {
+    const row = await saveOutput({ userId, planId, taskId: task.id, kind: 'note', title: action.title, body: action.body });
+    return { summary: `Wrote note #${row.id} "${action.title}"` };
+  },
+};
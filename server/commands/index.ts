@@ -0,0 +1,110 @@
+import { ActionTask, CommandPreview, TaskExecution } from '../../types';
+import { getTransport } from '../connectors';
+import { CommandParseError, parseCommand } from './parse';
+import {
+  CommandHandler,
+  CommandResult,
+  createIssueHandler,
+  draftEmailHandler,
+  writeNoteHandler,
+} from './handlers';
+
+export { CommandParseError } from './parse';
+
+// The only actions a task command can ever trigger; anything else is rejected before approval
+export const COMMAND_HANDLERS: CommandHandler<unknown>[] = [
+  createIssueHandler,
+  draftEmailHandler,
+  writeNoteHandler,
+];
+
+// A handler can't hang a request forever, e.g. on a slow GitHub response
+const EXECUTION_TIMEOUT_MS = 20_000;
+
+export interface ResolvedCommand {
+  handler: CommandHandler<unknown>;
+  action: unknown;
+}
+
+// Matches the longest accepted spelling; words after it become positional arguments
+export function resolveCommand(command: string | null | undefined, task: ActionTask): ResolvedCommand {
+  // Plans saved before commands existed, or tasks the model didn't mark executable, may have none
+  if (typeof command !== 'string' || !command.trim()) {
+    throw new CommandParseError(`Task #${task.id} has no command to run`);
+  }
+  const parsed = parseCommand(command);
+  const lowered = parsed.words.map(word => word.toLowerCase());
+
+  let best: { handler: CommandHandler<unknown>; length: number } | null = null;
+  for (const handler of COMMAND_HANDLERS) {
+    for (const name of handler.names) {
+      const nameWords = name.split(' ');
+      const matches = nameWords.every((word, i) => lowered[i] === word);
+      if (matches && (!best || nameWords.length > best.length)) best = { handler, length: nameWords.length };
+    }
+  }
+
+  if (!best) {
+    const supported = COMMAND_HANDLERS.map(handler => handler.usage).join('; ');
+    throw new CommandParseError(`"${parsed.words.slice(0, 3).join(' ') || command}" is not an allowed command. Supported: ${supported}`);
+  }
+
+  const positional = [...parsed.words.slice(best.length), ...parsed.args];
+  return { handler: best.handler, action: best.handler.parse({ positional, flags: parsed.flags }, task) };
+}
+
+export function previewCommand(task: ActionTask): CommandPreview {
+  const preview: CommandPreview = { taskId: task.id, command: task.command, action: null, description: null, error: null };
+  try {
+    const { handler, action } = resolveCommand(task.command, task);
+    preview.action = handler.action;
+    preview.description = handler.describe(action);
+  } catch (error) {
+    preview.error = error instanceof Error ? error.message : 'Command could not be parsed';
+  }
+  return preview;
+}
+
+export interface ExecutionOutcome {
+  execution: TaskExecution;
+  logEntry: string;
+}
+
+// Builds the execution record and the matching execution_log line for a task
+export function recordOutcome(task: ActionTask, status: TaskExecution['status'], summary: string, url?: string): ExecutionOutcome {
+  const at = new Date().toISOString();
+  const label = { succeeded: 'EXECUTED', failed: 'FAILED', rejected: 'REJECTED' }[status];
+  const execution: TaskExecution = { status, summary, at };
+  if (url) execution.url = url;
+  return { execution, logEntry: `[${at}] ${label} task #${task.id} "${task.title}": ${summary}${url ? ` (${url})` : ''}` };
+}
+
+// Parses and runs an approved task's command; failures come back as a 'failed' outcome rather than throwing
+export async function executeCommand(task: ActionTask, userId: number, planId: number): Promise<ExecutionOutcome> {
+  let resolved: ResolvedCommand;
+  try {
+    resolved = resolveCommand(task.command, task);
+  } catch (error) {
+    return recordOutcome(task, 'failed', error instanceof Error ? error.message : 'Command could not be parsed');
+  }
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), EXECUTION_TIMEOUT_MS);
+  try {
+    const result: CommandResult = await resolved.handler.run(resolved.action, {
+      userId,
+      planId,
+      task,
+      transport: getTransport(),
+      signal: controller.signal,
+    });
+    return recordOutcome(task, 'succeeded', result.summary, result.url);
+  } catch (error) {
+    const message = controller.signal.aborted
+      ? `Timed out after ${EXECUTION_TIMEOUT_MS / 1000}s`
+      : error instanceof Error ? error.message : 'Command failed';
+    return recordOutcome(task, 'failed', message);
+  } finally {
+    clearTimeout(timer);
+  }
+}
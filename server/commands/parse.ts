@@ -0,0 +1,86 @@
+export interface ParsedCommand {
+  words: string[]; // tokens before the first flag, e.g. ['github', 'create', 'issue', 'Fix the crash']
+  args: string[]; // positional tokens that appear among the flags
+  flags: Record<string, string | true>;
+}
+
+export class CommandParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommandParseError';
+  }
+}
+
+// Splits like a POSIX shell would for quoting purposes, but never expands or executes anything
+export function tokenize(command: string): string[] {
+  const tokens: string[] = [];
+  let current = '';
+  let quote: '"' | "'" | null = null;
+  let inToken = false;
+
+  for (let i = 0; i < command.length; i++) {
+    const char = command[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      } else if (char === '\\' && quote === '"' && (command[i + 1] === '"' || command[i + 1] === '\\')) {
+        current += command[++i];
+      } else {
+        current += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      inToken = true;
+    } else if (/\s/.test(char)) {
+      if (inToken) tokens.push(current);
+      current = '';
+      inToken = false;
+    } else {
+      if (char === '\\' && i + 1 < command.length) {
+        current += command[++i];
+      } else {
+        current += char;
+      }
+      inToken = true;
+    }
+  }
+
+  if (quote) throw new CommandParseError('Unterminated quote in command');
+  if (inToken) tokens.push(current);
+  return tokens;
+}
+
+export function parseCommand(command: string): ParsedCommand {
+  const tokens = tokenize(command.trim());
+  if (tokens.length === 0) throw new CommandParseError('Command is empty');
+
+  const words: string[] = [];
+  const args: string[] = [];
+  const flags: Record<string, string | true> = {};
+
+  let i = 0;
+  while (i < tokens.length && !tokens[i].startsWith('-')) {
+    words.push(tokens[i]);
+    i++;
+  }
+
+  for (; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (!token.startsWith('--')) {
+      args.push(token);
+      continue;
+    }
+
+    const [name, inlineValue] = token.slice(2).split(/=(.*)/s, 2);
+    if (!name) throw new CommandParseError(`Invalid flag "${token}"`);
+    if (inlineValue !== undefined) {
+      flags[name.toLowerCase()] = inlineValue;
+    } else if (i + 1 < tokens.length && !tokens[i + 1].startsWith('--')) {
+      flags[name.toLowerCase()] = tokens[++i];
+    } else {
+      flags[name.toLowerCase()] = true;
+    }
+  }
+
+  return { words, args, flags };
+}
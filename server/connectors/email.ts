@@ -0,0 +1,141 @@
+import { EmailConnectorConfig, LiveData } from '../../types';
+import { Connector } from './types';
+import { decodeEntities, stripHtml, excerpt, toIsoTimestamp } from './text';
+import { isImapString } from './imap';
+import { IMAP_PORTS } from './network';
+
+export interface ParsedEmail {
+  from: string;
+  subject: string;
+  date: string | null;
+  text: string;
+}
+
+function decodeQuotedPrintable(text: string): string {
+  const bytes = text
+    .replace(/=\r?\n/g, '')
+    .replace(/=([0-9a-f]{2})/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+  return Buffer.from(bytes, 'latin1').toString('utf8');
+}
+
+function decodeBody(body: string, encoding: string | undefined): string {
+  switch (encoding?.toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/\s+/g, ''), 'base64').toString('utf8');
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body);
+    default:
+      return body;
+  }
+}
+
+// RFC 2047 encoded words, e.g. =?UTF-8?B?...?= in subjects and sender names
+function decodeHeaderValue(value: string): string {
+  return value
+    .replace(/\?=\s+=\?/g, '?==?')
+    .replace(/=\?([^?]+)\?([bq])\?([^?]*)\?=/gi, (_, _charset: string, encoding: string, encoded: string) =>
+      encoding.toLowerCase() === 'b'
+        ? Buffer.from(encoded, 'base64').toString('utf8')
+        : decodeQuotedPrintable(encoded.replace(/_/g, ' '))
+    );
+}
+
+function splitHeaders(raw: string): { headers: Record<string, string>; body: string } {
+  const separator = raw.match(/\r?\n\r?\n/);
+  const headerText = separator ? raw.slice(0, separator.index) : raw;
+  const body = separator ? raw.slice(separator.index! + separator[0].length) : '';
+
+  const headers: Record<string, string> = {};
+  // Continuation lines start with whitespace and belong to the previous header
+  for (const line of headerText.replace(/\r?\n[ \t]+/g, ' ').split(/\r?\n/)) {
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    const name = line.slice(0, colon).trim().toLowerCase();
+    headers[name] ??= line.slice(colon + 1).trim();
+  }
+  return { headers, body };
+}
+
+// Finds the most readable text in a (possibly multipart) entity, preferring text/plain over HTML
+function extractText(headers: Record<string, string>, body: string): string {
+  const contentType = headers['content-type'] ?? 'text/plain';
+  const boundary = contentType.match(/boundary="?([^";]+)"?/i)?.[1];
+
+  if (/^multipart\//i.test(contentType) && boundary) {
+    const parts = body
+      .split(`--${boundary}`)
+      .slice(1)
+      .filter(part => !part.startsWith('--'))
+      .map(part => splitHeaders(part.replace(/^\r?\n/, '')));
+    const plain = parts.find(part => /^text\/plain/i.test(part.headers['content-type'] ?? 'text/plain'));
+    const chosen = plain ?? parts.find(part => /^(text\/html|multipart\/)/i.test(part.headers['content-type'] ?? ''));
+    return chosen ? extractText(chosen.headers, chosen.body) : '';
+  }
+
+  const decoded = decodeBody(body, headers['content-transfer-encoding']);
+  return /^text\/html/i.test(contentType) ? stripHtml(decoded) : decodeEntities(decoded);
+}
+
+export function parseEmail(raw: string): ParsedEmail {
+  const { headers, body } = splitHeaders(raw);
+  return {
+    from: decodeHeaderValue(headers['from'] ?? 'Unknown sender'),
+    subject: decodeHeaderValue(headers['subject'] ?? '(no subject)'),
+    date: toIsoTimestamp(headers['date']),
+    text: extractText(headers, body),
+  };
+}
+
+// Splits an mbox file into raw messages, undoing the ">From " escaping mbox applies to bodies
+export function splitMbox(mbox: string): string[] {
+  return mbox
+    .split(/^From .*\r?\n/m)
+    .map(message => message.replace(/^>(>*From )/gm, '$1').trim())
+    .filter(Boolean);
+}
+
+export const emailConnector: Connector<EmailConnectorConfig> = {
+  kind: 'email',
+  source: 'email',
+  privateFields: ['password', 'mbox'],
+
+  async validate(config, transport) {
+    if (config.mode === 'mbox') {
+      return config.mbox?.trim() ? null : 'Upload an mbox export to import';
+    }
+    if (config.mode === 'imap') {
+      if (!config.host || !config.user) return 'IMAP host and user are required';
+      if (config.port !== undefined && !IMAP_PORTS.includes(config.port)) return `IMAP port must be ${IMAP_PORTS.join(' or ')}`;
+      // These are sent as quoted strings on the IMAP command line, where a line break would start a new command
+      if ([config.user, config.password, config.mailbox].some(value => value !== undefined && !isImapString(value))) {
+        return 'IMAP user, password and mailbox must be text without line breaks';
+      }
+      return transport.checkHost(config.host);
+    }
+    return 'Email mode must be "imap" or "mbox"';
+  },
+
+  async fetch(config, { transport, since, limit, signal }) {
+    const rawMessages = config.mode === 'mbox'
+      ? splitMbox(config.mbox ?? '')
+      : await transport.fetchMail({
+          host: config.host!,
+          port: config.port ?? (config.secure === false ? 143 : 993),
+          secure: config.secure !== false,
+          user: config.user!,
+          password: config.password ?? '',
+          mailbox: config.mailbox || 'INBOX',
+        }, { since, limit, signal });
+
+    return rawMessages
+      .map(parseEmail)
+      .filter(email => !since || !email.date || new Date(email.date) >= since)
+      .sort((a, b) => (b.date ?? '').localeCompare(a.date ?? ''))
+      .slice(0, limit)
+      .map((email): LiveData => ({
+        source: 'email',
+        content: `From ${email.from}: ${email.subject}${email.text ? ` — ${excerpt(email.text, 300)}` : ''}`,
+        timestamp: email.date ?? new Date().toISOString(),
+      }));
+  },
+};
@@ -0,0 +1,68 @@
+import { GitHubConnectorConfig, LiveData } from '../../types';
+import { Connector, ConnectorError } from './types';
+import { excerpt, toIsoTimestamp } from './text';
+
+const API_BASE_URL = 'https://api.github.com';
+const REPO_PATTERN = /^[\w.-]+\/[\w.-]+$/;
+
+interface GitHubIssue {
+  number: number;
+  title: string;
+  body: string | null;
+  html_url: string;
+  state: string;
+  labels: ({ name?: string } | string)[];
+  comments: number;
+  updated_at: string;
+  pull_request?: unknown;
+}
+
+// Open issues (not pull requests) from one repository, most recently updated first
+export const githubConnector: Connector<GitHubConnectorConfig> = {
+  kind: 'github',
+  source: 'github',
+  privateFields: ['token'],
+
+  async validate(config) {
+    if (!config.repo || !REPO_PATTERN.test(config.repo)) return 'GitHub repository must look like "owner/name"';
+    if (config.labels && !Array.isArray(config.labels)) return 'GitHub labels must be a list';
+    return null;
+  },
+
+  async fetch(config, { transport, since, limit, signal }) {
+    const params = new URLSearchParams({
+      state: 'open',
+      sort: 'updated',
+      direction: 'desc',
+      per_page: String(Math.min(limit, 100)),
+    });
+    if (since) params.set('since', since.toISOString());
+    if (config.labels?.length) params.set('labels', config.labels.join(','));
+
+    const headers: Record<string, string> = {
+      'Accept': 'application/vnd.github+json',
+      'User-Agent': 'forge-ai',
+    };
+    if (config.token) headers['Authorization'] = `Bearer ${config.token}`;
+
+    const response = await transport.fetch(`${API_BASE_URL}/repos/${config.repo}/issues?${params}`, { headers, signal });
+    if (!response.ok) {
+      throw new ConnectorError(`GitHub returned ${response.status} for ${config.repo}`, 'github');
+    }
+
+    const issues = await response.json() as GitHubIssue[];
+    return issues
+      .filter(issue => !issue.pull_request)
+      .slice(0, limit)
+      .map((issue): LiveData => {
+        const labels = issue.labels.map(label => typeof label === 'string' ? label : label.name).filter(Boolean);
+        const labelText = labels.length ? ` [${labels.join(', ')}]` : '';
+        const body = issue.body ? `: ${excerpt(issue.body, 300)}` : '';
+        return {
+          source: 'github',
+          content: `${config.repo}#${issue.number} ${issue.title}${labelText}${body} (${issue.comments} comments, ${issue.html_url})`,
+          timestamp: toIsoTimestamp(issue.updated_at) ?? new Date().toISOString(),
+        };
+      });
+  },
+};
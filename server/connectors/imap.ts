@@ -0,0 +1,172 @@
+import net from 'net';
+import tls from 'tls';
+import { FetchMailOptions } from './types';
+import { IMAP_PORTS, assertPublicLiteral, publicLookup } from './network';
+
+export interface ImapOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user: string;
+  password: string;
+  mailbox: string;
+}
+
+const SOCKET_TIMEOUT_MS = 20_000;
+// Only the start of each message is needed for an excerpt; large attachments are skipped this way
+const MAX_MESSAGE_BYTES = 16_384;
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+interface ImapResponse {
+  lines: string[];
+  literals: string[];
+}
+
+interface PendingCommand {
+  tag: string | null; // null while waiting for the server greeting
+  response: ImapResponse;
+  resolve: (response: ImapResponse) => void;
+  reject: (error: Error) => void;
+}
+
+// CR, LF and NUL can't appear in a quoted string (RFC 3501 section 4.3)
+export const isImapString = (value: unknown): value is string =>
+  typeof value === 'string' && !/[\r\n\0]/.test(value);
+
+function quote(value: string): string {
+  // Configs saved before validation rejected these must not be able to inject commands either
+  if (!isImapString(value)) throw new Error('IMAP values cannot contain line breaks');
+  return `"${value.replace(/[\\"]/g, match => `\\${match}`)}"`;
+}
+
+function imapDate(date: Date): string {
+  return `${date.getUTCDate()}-${MONTHS[date.getUTCMonth()]}-${date.getUTCFullYear()}`;
+}
+
+// Just enough of IMAP4rev1 (RFC 3501) to log in, search a mailbox and read message heads
+class ImapSession {
+  private buffer = Buffer.alloc(0);
+  private literalBytes: number | null = null;
+  private pending: PendingCommand | null = null;
+  private nextTag = 1;
+  private failure: Error | null = null;
+
+  private constructor(private readonly socket: net.Socket) {
+    socket.on('data', chunk => {
+      this.buffer = Buffer.concat([this.buffer, chunk]);
+      this.drain();
+    });
+    socket.on('error', error => this.fail(error));
+    socket.on('close', () => this.fail(new Error('IMAP connection closed')));
+    socket.setTimeout(SOCKET_TIMEOUT_MS, () => socket.destroy(new Error('IMAP server timed out')));
+  }
+
+  // The host comes from the user's config, so only public addresses on the IMAP ports are connected to
+  static async connect(options: ImapOptions, signal?: AbortSignal): Promise<ImapSession> {
+    if (!IMAP_PORTS.includes(options.port)) throw new Error(`IMAP port must be ${IMAP_PORTS.join(' or ')}`);
+    assertPublicLiteral(options.host);
+
+    const socket = options.secure
+      ? tls.connect({ host: options.host, port: options.port, servername: options.host, lookup: publicLookup })
+      : net.connect({ host: options.host, port: options.port, lookup: publicLookup });
+    const session = new ImapSession(socket);
+
+    if (signal) {
+      const onAbort = () => socket.destroy(signal.reason instanceof Error ? signal.reason : new Error('Aborted'));
+      if (signal.aborted) onAbort();
+      signal.addEventListener('abort', onAbort, { once: true });
+      socket.once('close', () => signal.removeEventListener('abort', onAbort));
+    }
+
+    const greeting = await session.expect(null);
+    if (!greeting.lines[0]?.startsWith('* OK')) {
+      socket.destroy();
+      throw new Error(`Unexpected IMAP greeting: ${greeting.lines[0] ?? ''}`);
+    }
+    return session;
+  }
+
+  async command(text: string): Promise<ImapResponse> {
+    const tag = `A${this.nextTag++}`;
+    const response = this.expect(tag);
+    this.socket.write(`${tag} ${text}\r\n`);
+    return response;
+  }
+
+  close(): void {
+    if (this.socket.destroyed) return;
+    this.socket.end(`A${this.nextTag++} LOGOUT\r\n`);
+  }
+
+  private expect(tag: string | null): Promise<ImapResponse> {
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.pending = { tag, response: { lines: [], literals: [] }, resolve, reject };
+      this.drain();
+    });
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    const pending = this.pending;
+    this.pending = null;
+    pending?.reject(this.failure);
+  }
+
+  private drain(): void {
+    while (this.pending) {
+      const { response } = this.pending;
+
+      if (this.literalBytes !== null) {
+        if (this.buffer.length < this.literalBytes) return;
+        response.literals.push(this.buffer.subarray(0, this.literalBytes).toString('utf8'));
+        this.buffer = this.buffer.subarray(this.literalBytes);
+        this.literalBytes = null;
+        continue;
+      }
+
+      const lineEnd = this.buffer.indexOf('\r\n');
+      if (lineEnd === -1) return;
+      const line = this.buffer.subarray(0, lineEnd).toString('utf8');
+      this.buffer = this.buffer.subarray(lineEnd + 2);
+
+      const literal = line.match(/\{(\d+)\}$/);
+      if (literal) this.literalBytes = Number(literal[1]);
+
+      const { tag, resolve, reject } = this.pending;
+      if (tag === null) {
+        this.pending = null;
+        resolve({ lines: [line], literals: [] });
+      } else if (line.startsWith(`${tag} `)) {
+        this.pending = null;
+        const status = line.slice(tag.length + 1);
+        if (status.startsWith('OK')) resolve(response);
+        else reject(new Error(`IMAP command failed: ${status}`));
+      } else {
+        response.lines.push(line);
+      }
+    }
+  }
+}
+
+// Fetches the most recent messages from a mailbox as raw RFC 822 text, oldest first
+export async function fetchImapMessages(options: ImapOptions, { since, limit, signal }: FetchMailOptions): Promise<string[]> {
+  const session = await ImapSession.connect(options, signal);
+  try {
+    await session.command(`LOGIN ${quote(options.user)} ${quote(options.password)}`);
+    await session.command(`EXAMINE ${quote(options.mailbox)}`);
+
+    const search = await session.command(since ? `SEARCH SINCE ${imapDate(since)}` : 'SEARCH ALL');
+    const ids = search.lines
+      .filter(line => line.startsWith('* SEARCH'))
+      .flatMap(line => line.slice('* SEARCH'.length).trim().split(/\s+/))
+      .filter(Boolean)
+      .slice(-limit);
+    if (ids.length === 0) return [];
+
+    const fetched = await session.command(`FETCH ${ids.join(',')} BODY.PEEK[]<0.${MAX_MESSAGE_BYTES}>`);
+    return fetched.literals;
+  } finally {
+    session.close();
+  }
+}
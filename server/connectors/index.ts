@@ -0,0 +1,146 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import {
+  ConnectorKind,
+  ConnectorConfig,
+  EmailConnectorConfig,
+  GitHubConnectorConfig,
+  LiveData,
+  MAX_LIVE_DATA_ITEMS,
+  RssConnectorConfig,
+} from '../../types';
+import { Connector, Transport } from './types';
+import { githubConnector } from './github';
+import { emailConnector, splitMbox } from './email';
+import { rssConnector } from './rss';
+import { fetchImapMessages } from './imap';
+import { checkPublicHost, fetchPublic } from './network';
+
+export { ConnectorError } from './types';
+export type { Connector, Transport } from './types';
+
+interface ConnectorConfigs {
+  github: GitHubConnectorConfig;
+  email: EmailConnectorConfig;
+  rss: RssConnectorConfig;
+}
+
+export const CONNECTORS: { [K in ConnectorKind]: Connector<ConnectorConfigs[K]> } = {
+  github: githubConnector,
+  email: emailConnector,
+  rss: rssConnector,
+};
+
+// The connector for a kind, typed by that kind's config
+export const connectorFor = <K extends ConnectorKind>(kind: K): Connector<ConnectorConfigs[K]> => CONNECTORS[kind];
+
+export const isConnectorKind = (value: unknown): value is ConnectorKind =>
+  typeof value === 'string' && value in CONNECTORS;
+
+// Caps keep the Composer prompt small no matter how many connectors are enabled
+export const PER_CONNECTOR_LIMIT = 10;
+// A slow source shouldn't hold up the whole Composer request
+const CONNECTOR_TIMEOUT_MS = 20_000;
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+const liveTransport: Transport = {
+  fetch: (url, init) => fetch(url, init),
+  fetchPublic,
+  checkHost: checkPublicHost,
+  fetchMail: fetchImapMessages,
+};
+
+// Which canned response answers a request: connector APIs first, then the discovery feeds
+function fixtureFile(hostname: string, pathname: string): [string, string] {
+  if (hostname === 'api.github.com') {
+    return [pathname.startsWith('/search/') ? 'github-search.json' : 'github-issues.json', 'application/json'];
+  }
+  if (hostname === 'hn.algolia.com') return ['hn-search.json', 'application/json'];
+  if (hostname === 'www.reddit.com') return ['reddit-search.json', 'application/json'];
+  if (hostname === 'export.arxiv.org') return ['arxiv.atom.xml', 'application/atom+xml'];
+  return pathname.includes('atom')
+    ? ['market-news.atom.xml', 'application/atom+xml']
+    : ['market-news.xml', 'application/rss+xml'];
+}
+
+// Serves canned responses from ./fixtures so connectors can be exercised offline (CONNECTOR_MODE=fixtures)
+const fixtureTransport: Transport = {
+  async fetch(url, init) {
+    const { hostname, pathname } = new URL(url);
+    if (init?.method === 'POST' && hostname === 'api.github.com') {
+      const number = 1000 + Math.floor(Math.random() * 9000);
+      const repo = pathname.split('/').slice(2, 4).join('/');
+      return Response.json({ number, html_url: `https://github.com/${repo}/issues/${number}` }, { status: 201 });
+    }
+    const [file, contentType] = fixtureFile(hostname, pathname);
+    const body = await fs.readFile(path.join(FIXTURES_DIR, file), 'utf8');
+    return new Response(body, { status: 200, headers: { 'Content-Type': contentType } });
+  },
+  fetchPublic(url, init) {
+    return fixtureTransport.fetch(url, init);
+  },
+  async checkHost() {
+    return null;
+  },
+  async fetchMail(_options, { limit }) {
+    const mbox = await fs.readFile(path.join(FIXTURES_DIR, 'inbox.mbox'), 'utf8');
+    return splitMbox(mbox).slice(-limit);
+  },
+};
+
+export function getTransport(): Transport {
+  return process.env.CONNECTOR_MODE === 'fixtures' ? fixtureTransport : liveTransport;
+}
+
+// Returns private config fields with their values removed, plus the names of the ones that were set
+export function redactConfig(kind: ConnectorKind, config: Record<string, unknown>) {
+  const redacted: Record<string, unknown> = { ...config };
+  const privateFieldsSet: string[] = [];
+  for (const field of connectorFor(kind).privateFields) {
+    if (redacted[field] !== undefined && redacted[field] !== '') privateFieldsSet.push(field);
+    delete redacted[field];
+  }
+  return { config: redacted as Partial<ConnectorConfig>, privateFieldsSet };
+}
+
+export interface ConnectorSource {
+  id: string;
+  name: string;
+  kind: ConnectorKind;
+  config: ConnectorConfig;
+}
+
+export interface ConnectorResult {
+  id: string;
+  items: LiveData[];
+  error: string | null;
+}
+
+export async function runConnector(source: ConnectorSource, options: { since?: Date; signal?: AbortSignal } = {}): Promise<ConnectorResult> {
+  try {
+    const timeout = AbortSignal.timeout(CONNECTOR_TIMEOUT_MS);
+    const items = await connectorFor(source.kind).fetch(source.config, {
+      transport: getTransport(),
+      limit: PER_CONNECTOR_LIMIT,
+      since: options.since,
+      signal: options.signal ? AbortSignal.any([options.signal, timeout]) : timeout,
+    });
+    return { id: source.id, items, error: null };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Connector ${source.kind} "${source.name}" failed:`, message);
+    return { id: source.id, items: [], error: message };
+  }
+}
+
+// Runs every source in parallel; a failing source is reported rather than failing the whole batch
+export async function collectLiveData(sources: ConnectorSource[], options: { since?: Date; signal?: AbortSignal } = {}) {
+  const results = await Promise.all(sources.map(source => runConnector(source, options)));
+  const items = results
+    .flatMap(result => result.items)
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    .slice(0, MAX_LIVE_DATA_ITEMS);
+  return { items, results };
+}
@@ -0,0 +1,129 @@
+import dns from 'dns';
+import net from 'net';
+import http from 'http';
+import https from 'https';
+
+// Hosts and URLs in connector configs come from users, and the server must not reach its own network for them
+const PRIVATE_RANGES = new net.BlockList();
+for (const [prefix, bits] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24],
+  ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_RANGES.addSubnet(prefix, bits, 'ipv4');
+}
+// BlockList checks IPv4-mapped IPv6 addresses against the IPv4 ranges itself; NAT64 ones are blocked wholesale
+for (const [prefix, bits] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32],
+  ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  PRIVATE_RANGES.addSubnet(prefix, bits, 'ipv6');
+}
+
+const MAX_REDIRECTS = 5;
+const MAX_RESPONSE_BYTES = 5 * 1024 * 1024;
+
+export const IMAP_PORTS = [143, 993];
+
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  return family !== 0 && !PRIVATE_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+const unbracket = (hostname: string) => hostname.replace(/^\[(.*)\]$/, '$1');
+
+// Why the server won't connect to the host on a user's behalf, or null when every address it resolves to is public
+export async function checkPublicHost(hostname: string): Promise<string | null> {
+  const host = unbracket(hostname);
+  if (net.isIP(host)) return isPublicAddress(host) ? null : `${hostname} is not a public address`;
+
+  try {
+    const addresses = await dns.promises.lookup(host, { all: true });
+    return addresses.every(({ address }) => isPublicAddress(address)) ? null : `${hostname} resolves to a private address`;
+  } catch {
+    return `${hostname} could not be resolved`;
+  }
+}
+
+/**
+ * A dns.lookup for sockets that fails when the host resolves to a non-public address. The socket connects to
+ * the address checked here, so a DNS answer that changes after validation (rebinding) can't slip through.
+ */
+export const publicLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+    if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+      callback(Object.assign(new Error(`${hostname} resolves to a private address`), { code: 'EADDRNOTAVAIL' }), '');
+      return;
+    }
+    if (options.all) callback(null, addresses);
+    else callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+// Literal IPs skip the lookup, so they are checked before connecting
+export function assertPublicLiteral(hostname: string): void {
+  const host = unbracket(hostname);
+  if (net.isIP(host) && !isPublicAddress(host)) {
+    throw new Error(`${hostname} is not a public address`);
+  }
+}
+
+function toHeaders(incoming: http.IncomingHttpHeaders): Headers {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(incoming)) {
+    for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) headers.append(name, item);
+  }
+  return headers;
+}
+
+function requestPublic(url: URL, init: RequestInit): Promise<Response> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return Promise.reject(new Error('Only http and https URLs can be fetched'));
+  }
+  try {
+    assertPublicLiteral(url.hostname);
+  } catch (error) {
+    return Promise.reject(error);
+  }
+
+  return new Promise((resolve, reject) => {
+    const request = (url.protocol === 'https:' ? https : http).request(url, {
+      method: init.method ?? 'GET',
+      headers: Object.fromEntries(new Headers(init.headers)),
+      lookup: publicLookup,
+      signal: init.signal ?? undefined,
+    }, response => {
+      const chunks: Buffer[] = [];
+      let size = 0;
+      response.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_RESPONSE_BYTES) request.destroy(new Error('Response is too large'));
+        else chunks.push(chunk);
+      });
+      response.on('end', () => {
+        const status = response.statusCode ?? 502;
+        const hasBody = ![101, 204, 205, 304].includes(status);
+        resolve(new Response(hasBody ? Buffer.concat(chunks) : null, { status, headers: toHeaders(response.headers) }));
+      });
+      response.on('error', reject);
+    });
+    request.on('error', reject);
+    request.end(typeof init.body === 'string' ? init.body : undefined);
+  });
+}
+
+// fetch() for user-supplied URLs: every hop of a redirect chain must resolve to a public address
+export async function fetchPublic(url: string, init: RequestInit = {}): Promise<Response> {
+  let current = new URL(url);
+  for (let redirects = 0; ; redirects++) {
+    const response = await requestPublic(current, init);
+    const location = response.headers.get('location');
+    if (response.status < 300 || response.status >= 400 || !location) return response;
+    if (redirects >= MAX_REDIRECTS) throw new Error('Too many redirects');
+    current = new URL(location, current);
+  }
+}
@@ -0,0 +1,82 @@
+import { RssConnectorConfig, LiveData } from '../../types';
+import { Connector, ConnectorError } from './types';
+import { decodeEntities, stripHtml, excerpt, toIsoTimestamp } from './text';
+
+export interface FeedEntry {
+  title: string;
+  link: string | null;
+  summary: string;
+  publishedAt: string | null;
+}
+
+// Text content of the first <tag> in xml, with CDATA unwrapped and entities decoded
+function tagText(xml: string, tags: string[]): string | null {
+  for (const tag of tags) {
+    const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'));
+    if (match) {
+      const cdata = match[1].match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+      return cdata ? cdata[1] : decodeEntities(match[1]);
+    }
+  }
+  return null;
+}
+
+// Atom puts the URL in an attribute: prefer rel="alternate" (or no rel) over self/edit links
+function atomLink(entry: string): string | null {
+  const links = [...entry.matchAll(/<link\b([^>]*)\/?>/gi)].map(match => match[1]);
+  const preferred = links.find(attrs => !/rel=/.test(attrs) || /rel=["']alternate["']/.test(attrs)) ?? links[0];
+  const href = preferred?.match(/href=["']([^"']+)["']/);
+  return href ? decodeEntities(href[1]) : null;
+}
+
+/**
+ * Minimal RSS 2.0 / Atom 1.0 reader. Feeds are regular enough that pulling the few
+ * fields we need out with patterns is more robust than requiring well-formed XML.
+ */
+export function parseFeed(xml: string): FeedEntry[] {
+  const isAtom = /<feed\b[^>]*>/i.test(xml) && !/<rss\b/i.test(xml);
+  const blocks = [...xml.matchAll(isAtom ? /<entry\b[\s\S]*?<\/entry>/gi : /<item\b[\s\S]*?<\/item>/gi)].map(match => match[0]);
+
+  return blocks.map(block => ({
+    title: excerpt(stripHtml(tagText(block, ['title']) ?? ''), 200),
+    link: isAtom ? atomLink(block) : (tagText(block, ['link', 'guid'])?.trim() || null),
+    summary: excerpt(stripHtml(tagText(block, isAtom ? ['summary', 'content'] : ['description', 'content:encoded']) ?? ''), 300),
+    publishedAt: toIsoTimestamp(tagText(block, isAtom ? ['updated', 'published'] : ['pubDate', 'dc:date'])?.trim()),
+  }));
+}
+
+export const rssConnector: Connector<RssConnectorConfig> = {
+  kind: 'rss',
+  source: 'market_news',
+  privateFields: [],
+
+  async validate(config, transport) {
+    let url: URL;
+    try {
+      url = new URL(config.url ?? '');
+    } catch {
+      return 'Feed URL is not a valid URL';
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return 'Feed URL must use http or https';
+    return transport.checkHost(url.hostname);
+  },
+
+  async fetch(config, { transport, since, limit, signal }) {
+    const response = await transport.fetchPublic(config.url, {
+      headers: { 'Accept': 'application/rss+xml, application/atom+xml, application/xml, text/xml' },
+      signal,
+    });
+    if (!response.ok) {
+      throw new ConnectorError(`Feed returned ${response.status}`, 'rss');
+    }
+
+    return parseFeed(await response.text())
+      .filter(entry => entry.title && (!since || !entry.publishedAt || new Date(entry.publishedAt) >= since))
+      .slice(0, limit)
+      .map((entry): LiveData => ({
+        source: 'market_news',
+        content: [entry.title, entry.summary].filter(Boolean).join(' — ') + (entry.link ? ` (${entry.link})` : ''),
+        timestamp: entry.publishedAt ?? new Date().toISOString(),
+      }));
+  },
+};
@@ -0,0 +1,43 @@
+import { LiveData, LiveDataSource, ConnectorKind } from '../../types';
+import { ImapOptions } from './imap';
+
+export interface FetchMailOptions {
+  since?: Date;
+  limit: number;
+  signal?: AbortSignal;
+}
+
+// All network access goes through the transport, so connectors can run against local fixtures
+export interface Transport {
+  fetch(url: string, init?: RequestInit): Promise<Response>;
+  // fetch() for URLs users supply, which must not reach loopback, private or link-local addresses
+  fetchPublic(url: string, init?: RequestInit): Promise<Response>;
+  // Why a user-supplied host can't be connected to, or null when it can
+  checkHost(hostname: string): Promise<string | null>;
+  // Raw RFC 822 messages, newest last
+  fetchMail(options: ImapOptions, fetchOptions: FetchMailOptions): Promise<string[]>;
+}
+
+export interface ConnectorContext {
+  transport: Transport;
+  since?: Date;
+  limit: number;
+  signal?: AbortSignal;
+}
+
+export interface Connector<C> {
+  kind: ConnectorKind;
+  source: LiveDataSource;
+  // Config fields that hold credentials or bulky uploads; never echoed back to the client
+  privateFields: (keyof C & string)[];
+  // Resolves to a message describing what's wrong with the config, or null when it's usable
+  validate(config: Partial<C>, transport: Transport): Promise<string | null>;
+  fetch(config: C, context: ConnectorContext): Promise<LiveData[]>;
+}
+
+export class ConnectorError extends Error {
+  constructor(message: string, readonly kind: ConnectorKind) {
+    super(message);
+    this.name = 'ConnectorError';
+  }
+}
@@ -0,0 +1,115 @@
+import { FeedEntry } from '../connectors/rss';
+import { terms } from '../connectors/text';
+
+// How close an item must be to a cluster to join it (cosine similarity of term counts)
+const SIMILARITY_THRESHOLD = 0.25;
+const MAX_CLUSTERS = 10;
+const ITEMS_PER_CLUSTER = 4;
+// A cluster's weight halves for every two weeks since its newest item
+const RECENCY_HALF_LIFE_DAYS = 14;
+
+// Words people use when something hurts; items containing them are more likely to describe a real problem
+const PAIN_TERMS = new Set([
+  'problem', 'problems', 'issue', 'issues', 'struggle', 'struggling', 'pain', 'broken', 'fails', 'failing', 'failure',
+  'bug', 'slow', 'expensive', 'costly', 'lack', 'lacking', 'missing', 'hard', 'difficult', 'frustrating', 'manual',
+  'shortage', 'delay', 'delayed', 'need', 'needs', 'help', 'cannot', 'unable', 'workaround', 'crisis',
+]);
+
+export type TermVector = Map<string, number>;
+
+export interface EvidenceItem extends FeedEntry {
+  ref: number; // What the model cites the item as
+  feed: string;
+  seenAt: string; // When the feed was fetched; stands in for undated items' publication time
+}
+
+export interface PainPointCluster {
+  label: string;
+  items: EvidenceItem[];
+  newestAt: string;
+}
+
+export function termVector(text: string): TermVector {
+  const vector: TermVector = new Map();
+  for (const term of terms(text)) vector.set(term, (vector.get(term) ?? 0) + 1);
+  return vector;
+}
+
+export function cosineSimilarity(a: TermVector, b: TermVector): number {
+  let dot = 0;
+  for (const [term, count] of a) dot += count * (b.get(term) ?? 0);
+  if (!dot) return 0;
+  const norm = (vector: TermVector) => Math.sqrt([...vector.values()].reduce((sum, count) => sum + count * count, 0));
+  return dot / (norm(a) * norm(b));
+}
+
+export const itemTime = (item: Pick<EvidenceItem, 'publishedAt' | 'seenAt'>) => item.publishedAt ?? item.seenAt;
+
+interface WorkingCluster {
+  items: (Omit<EvidenceItem, 'ref'> & { pain: number })[];
+  centroid: TermVector;
+}
+
+/**
+ * Groups feed items about the same thing, then ranks the groups by how painful, how corroborated (across feeds)
+ * and how recent they are. Items are numbered across the returned clusters, newest first within each.
+ * The sector's own words are in nearly every item, so they are left out of the comparison.
+ */
+export function clusterPainPoints(items: Omit<EvidenceItem, 'ref'>[], sector: string, now = new Date()): PainPointCluster[] {
+  const sectorTerms = new Set(terms(sector));
+  const candidates = items
+    .map(item => {
+      // The title says what an item is about; count it twice against the (often noisy) summary
+      const vector = termVector(`${item.title} ${item.title} ${item.summary}`);
+      sectorTerms.forEach(term => vector.delete(term));
+      const pain = [...vector.keys()].filter(term => PAIN_TERMS.has(term)).length;
+      return { item: { ...item, pain }, vector };
+    })
+    .filter(({ vector }) => vector.size > 0)
+    .sort((a, b) => b.item.pain - a.item.pain || itemTime(b.item).localeCompare(itemTime(a.item)));
+
+  const clusters: WorkingCluster[] = [];
+  for (const { item, vector } of candidates) {
+    let best: WorkingCluster | null = null;
+    let bestSimilarity = SIMILARITY_THRESHOLD;
+    for (const cluster of clusters) {
+      const similarity = cosineSimilarity(vector, cluster.centroid);
+      if (similarity >= bestSimilarity) {
+        best = cluster;
+        bestSimilarity = similarity;
+      }
+    }
+    if (!best) {
+      clusters.push({ items: [item], centroid: new Map(vector) });
+      continue;
+    }
+    best.items.push(item);
+    for (const [term, count] of vector) best.centroid.set(term, (best.centroid.get(term) ?? 0) + count);
+  }
+
+  const score = (cluster: WorkingCluster) => {
+    const newest = Math.max(...cluster.items.map(item => new Date(itemTime(item)).getTime()));
+    const ageDays = Math.max(0, (now.getTime() - newest) / 86_400_000);
+    const feeds = new Set(cluster.items.map(item => item.feed)).size;
+    const weight = cluster.items.reduce((sum, item) => sum + 1 + item.pain, 0);
+    return weight * (1 + 0.5 * (feeds - 1)) * 0.5 ** (ageDays / RECENCY_HALF_LIFE_DAYS);
+  };
+
+  let ref = 0;
+  return clusters
+    .map(cluster => ({ cluster, score: score(cluster) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_CLUSTERS)
+    .map(({ cluster }) => {
+      const newestFirst = [...cluster.items]
+        .sort((a, b) => itemTime(b).localeCompare(itemTime(a)))
+        .slice(0, ITEMS_PER_CLUSTER)
+        .map(({ pain, ...item }) => ({ ...item, ref: ++ref }));
+      const label = [...cluster.centroid.entries()]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 3)
+        .map(([term]) => term)
+        .join(', ');
+      return { label, items: newestFirst, newestAt: itemTime(newestFirst[0]) };
+    });
+}
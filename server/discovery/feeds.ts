@@ -0,0 +1,196 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { getTransport } from '../connectors';
+import { parseFeed, FeedEntry } from '../connectors/rss';
+import { stripHtml, excerpt, toIsoTimestamp } from '../connectors/text';
+
+const DEFAULT_FEEDS = path.join(path.dirname(fileURLToPath(import.meta.url)), 'feeds.json');
+const CACHE_DIR = process.env.DISCOVERY_CACHE_DIR || path.join(process.cwd(), '.cache', 'discovery');
+const CACHE_TTL_MS = Number(process.env.DISCOVERY_CACHE_TTL_MINUTES || 30) * 60_000;
+// Stale copies stand in for feeds that are down, but every sector queried gets its own file, so old ones are pruned
+const STALE_CACHE_MS = Math.max(CACHE_TTL_MS, 24 * 60 * 60_000);
+const PRUNE_INTERVAL_MS = 60 * 60_000;
+const FEED_TIMEOUT_MS = 15_000;
+const ITEMS_PER_FEED = 30;
+
+type FeedField = keyof FeedEntry;
+
+/**
+ * One entry of the feeds file. `{query}` in the URL is replaced with the URL-encoded sector, so search APIs
+ * can be scoped to it; feeds without the placeholder are read as they are.
+ */
+export interface FeedConfig {
+  name: string;
+  url: string;
+  format: 'rss' | 'json'; // rss covers RSS 2.0 and Atom
+  headers?: Record<string, string>;
+  // JSON feeds only: dotted path to the item array, and per field the paths (or `{path}` templates) to try in order
+  items?: string;
+  fields?: Partial<Record<FeedField, string | string[]>>;
+}
+
+// Defaults follow JSON Feed 1.1 (https://jsonfeed.org/version/1.1)
+const JSON_FEED_FIELDS: Record<FeedField, string[]> = {
+  title: ['title'],
+  link: ['url', 'external_url'],
+  summary: ['summary', 'content_text', 'content_html'],
+  publishedAt: ['date_published', 'date_modified'],
+};
+
+export interface FeedFetchResult {
+  entries: FeedEntry[];
+  fetchedAt: string;
+  cached: boolean;
+  error: string | null;
+}
+
+interface CachedFeed {
+  url: string;
+  fetchedAt: string;
+  entries: FeedEntry[];
+}
+
+// Read on every scan, so edits to the feeds file apply without a restart
+export async function loadFeedConfigs(): Promise<FeedConfig[]> {
+  const file = process.env.DISCOVERY_FEEDS_PATH || DEFAULT_FEEDS;
+  const configs = JSON.parse(await fs.readFile(file, 'utf8'));
+  if (!Array.isArray(configs)) {
+    throw new Error(`${file} must contain an array of feeds`);
+  }
+  configs.forEach((config, index) => {
+    if (typeof config?.name !== 'string' || typeof config.url !== 'string' || !['rss', 'json'].includes(config.format)) {
+      throw new Error(`${file}: feed ${index + 1} needs a name, a url and a format of "rss" or "json"`);
+    }
+  });
+  return configs;
+}
+
+const valueAt = (value: unknown, dottedPath: string): unknown =>
+  dottedPath.split('.').reduce<unknown>((current, key) => (current as Record<string, unknown> | null)?.[key], value);
+
+const asText = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() ? value : typeof value === 'number' ? String(value) : null;
+
+// The first candidate that resolves: a dotted path, or a template whose `{path}` parts all resolve
+function resolveField(item: unknown, candidates: string | string[]): string | null {
+  for (const candidate of Array.isArray(candidates) ? candidates : [candidates]) {
+    if (candidate.includes('{')) {
+      let complete = true;
+      const filled = candidate.replace(/\{([^}]+)\}/g, (_, fieldPath: string) => {
+        const text = asText(valueAt(item, fieldPath));
+        if (text === null) complete = false;
+        return text ?? '';
+      });
+      if (complete) return filled;
+    } else {
+      const text = asText(valueAt(item, candidate));
+      if (text !== null) return text;
+    }
+  }
+  return null;
+}
+
+// Some APIs (Reddit, for one) give Unix seconds rather than ISO dates
+const publishedAt = (value: string | null): string | null =>
+  value !== null && /^\d+(\.\d+)?$/.test(value)
+    ? toIsoTimestamp(Number(value) < 1e12 ? Number(value) * 1000 : Number(value))
+    : toIsoTimestamp(value);
+
+export function parseJsonFeed(body: unknown, config: FeedConfig): FeedEntry[] {
+  const items = valueAt(body, config.items ?? 'items');
+  if (!Array.isArray(items)) {
+    throw new Error(`No item array at "${config.items ?? 'items'}"`);
+  }
+  const fields = { ...JSON_FEED_FIELDS, ...config.fields };
+  return items.map(item => ({
+    title: excerpt(stripHtml(resolveField(item, fields.title) ?? ''), 200),
+    link: resolveField(item, fields.link),
+    summary: excerpt(stripHtml(resolveField(item, fields.summary) ?? ''), 300),
+    publishedAt: publishedAt(resolveField(item, fields.publishedAt)),
+  }));
+}
+
+const feedUrl = (config: FeedConfig, sector: string) => config.url.replaceAll('{query}', encodeURIComponent(sector));
+
+const cacheFile = (url: string) =>
+  path.join(CACHE_DIR, `${crypto.createHash('sha1').update(url).digest('hex')}.json`);
+
+async function readCache(url: string): Promise<CachedFeed | null> {
+  try {
+    return JSON.parse(await fs.readFile(cacheFile(url), 'utf8'));
+  } catch {
+    return null;
+  }
+}
+
+let lastPrunedAt = 0;
+
+// Deletes cache files not rewritten within STALE_CACHE_MS; runs at most once per PRUNE_INTERVAL_MS
+async function pruneCache(): Promise<void> {
+  const now = Date.now();
+  if (now - lastPrunedAt < PRUNE_INTERVAL_MS) return;
+  lastPrunedAt = now;
+
+  for (const name of await fs.readdir(CACHE_DIR)) {
+    if (!name.endsWith('.json')) continue;
+    const file = path.join(CACHE_DIR, name);
+    try {
+      const { mtimeMs } = await fs.stat(file);
+      if (now - mtimeMs > STALE_CACHE_MS) await fs.unlink(file);
+    } catch {
+      // Removed by a concurrent prune
+    }
+  }
+}
+
+async function writeCache(entry: CachedFeed): Promise<void> {
+  try {
+    await fs.mkdir(CACHE_DIR, { recursive: true });
+    await fs.writeFile(cacheFile(entry.url), JSON.stringify(entry));
+    await pruneCache();
+  } catch (error) {
+    console.warn('Failed to cache discovery feed:', error);
+  }
+}
+
+/**
+ * Returns the feed's entries for the sector, from the local cache while it is fresh. When the feed can't be
+ * fetched, a stale cached copy is still better than nothing and is returned along with the error.
+ */
+export async function fetchFeed(config: FeedConfig, sector: string, signal?: AbortSignal): Promise<FeedFetchResult> {
+  const url = feedUrl(config, sector);
+  const cached = await readCache(url);
+  if (cached && Date.now() - new Date(cached.fetchedAt).getTime() < CACHE_TTL_MS) {
+    return { entries: cached.entries, fetchedAt: cached.fetchedAt, cached: true, error: null };
+  }
+
+  try {
+    const timeout = AbortSignal.timeout(FEED_TIMEOUT_MS);
+    const response = await getTransport().fetch(url, {
+      headers: {
+        'Accept': config.format === 'json' ? 'application/json' : 'application/rss+xml, application/atom+xml, application/xml, text/xml',
+        ...config.headers,
+      },
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+    });
+    if (!response.ok) {
+      throw new Error(`Feed returned ${response.status}`);
+    }
+
+    const entries = (config.format === 'json' ? parseJsonFeed(await response.json(), config) : parseFeed(await response.text()))
+      .filter(entry => entry.title)
+      .slice(0, ITEMS_PER_FEED);
+    const fresh: CachedFeed = { url, fetchedAt: new Date().toISOString(), entries };
+    await writeCache(fresh);
+    return { entries, fetchedAt: fresh.fetchedAt, cached: false, error: null };
+  } catch (error) {
+    signal?.throwIfAborted();
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Discovery feed "${config.name}" failed:`, message);
+    return cached
+      ? { entries: cached.entries, fetchedAt: cached.fetchedAt, cached: true, error: message }
+      : { entries: [], fetchedAt: new Date().toISOString(), cached: false, error: message };
+  }
+}
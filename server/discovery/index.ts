@@ -0,0 +1,83 @@
+import { DiscoveryScan, ProblemSource } from '../../types';
+import { loadFeedConfigs, fetchFeed } from './feeds';
+import { clusterPainPoints, itemTime, EvidenceItem, PainPointCluster } from './cluster';
+
+export type { FeedConfig } from './feeds';
+export type { EvidenceItem, PainPointCluster, TermVector } from './cluster';
+export { termVector, cosineSimilarity } from './cluster';
+
+export interface DiscoveryEvidence {
+  clusters: PainPointCluster[];
+  scan: DiscoveryScan;
+}
+
+/**
+ * Fetches every configured feed for the sector (in parallel, each from cache when fresh) and clusters the
+ * items into pain points, leaving out the links in `exclude`. Feeds that fail are reported in `scan.feeds`
+ * instead of failing the discovery.
+ */
+export async function collectEvidence(
+  sector: string,
+  options: { signal?: AbortSignal; exclude?: Set<string> } = {}
+): Promise<DiscoveryEvidence> {
+  const configs = await loadFeedConfigs();
+  const results = await Promise.all(configs.map(config => fetchFeed(config, sector, options.signal)));
+
+  // Items without a link can't be cited; the same story often turns up in more than one feed
+  const seen = new Set<string>(options.exclude);
+  const items: Omit<EvidenceItem, 'ref'>[] = [];
+  results.forEach((result, index) => {
+    for (const entry of result.entries) {
+      if (!entry.link || seen.has(entry.link)) continue;
+      seen.add(entry.link);
+      items.push({ ...entry, feed: configs[index].name, seenAt: result.fetchedAt });
+    }
+  });
+
+  const clusters = clusterPainPoints(items, sector);
+  return {
+    clusters,
+    scan: {
+      scanned_at: new Date().toISOString(),
+      feeds: results.map((result, index) => ({
+        name: configs[index].name,
+        items: result.entries.length,
+        error: result.error,
+        cached: result.cached,
+      })),
+      clusters: clusters.length,
+    },
+  };
+}
+
+// The evidence as the discovery prompt lists it: one block per cluster, items numbered [E1], [E2], ...
+export function evidencePrompt(evidence: DiscoveryEvidence): string {
+  return evidence.clusters
+    .map((cluster, index) => [
+      `Cluster ${index + 1} (${cluster.label}):`,
+      ...cluster.items.map(item =>
+        `  [E${item.ref}] ${item.title}${item.summary ? ` — ${item.summary}` : ''} (${item.feed}, ${itemTime(item).slice(0, 10)})`
+      ),
+    ].join('\n'))
+    .join('\n\n');
+}
+
+/**
+ * The sources behind the cited evidence items, and the problem's freshness: the newest of their timestamps.
+ * Returns null when none of the refs match an item, so an uncited problem can be told apart.
+ */
+export function citeEvidence(evidence: DiscoveryEvidence, refs: number[]): { sources: ProblemSource[]; freshness_timestamp: string } | null {
+  const wanted = new Set(refs);
+  const cited = evidence.clusters.flatMap(cluster => cluster.items).filter(item => wanted.has(item.ref));
+  if (cited.length === 0) return null;
+
+  return {
+    sources: cited.map(item => ({
+      url: item.link!,
+      title: item.title,
+      feed: item.feed,
+      published_at: item.publishedAt,
+    })),
+    freshness_timestamp: cited.map(itemTime).sort().at(-1)!,
+  };
+}
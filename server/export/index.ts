@@ -0,0 +1,78 @@
+import { ComposedActionPlan, UserDrivenResponse } from '../../types';
+import { analysisToMarkdown, parseMarkdown } from './markdown';
+import { renderPdf } from './pdf';
+import { renderDocx } from './docx';
+import { planToCsv, planToIcs, planToJson, PlanExportContext } from './plan';
+
+export type ExportFormat = 'md' | 'pdf' | 'docx';
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  md: 'text/markdown; charset=utf-8',
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+export const isExportFormat = (value: unknown): value is ExportFormat =>
+  typeof value === 'string' && value in EXPORT_CONTENT_TYPES;
+
+export type PlanExportFormat = 'ics' | 'csv' | 'json';
+
+export const PLAN_EXPORT_CONTENT_TYPES: Record<PlanExportFormat, string> = {
+  ics: 'text/calendar; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+};
+
+export const isPlanExportFormat = (value: unknown): value is PlanExportFormat =>
+  typeof value === 'string' && value in PLAN_EXPORT_CONTENT_TYPES;
+
+export interface ExportedFile {
+  filename: string;
+  contentType: string;
+  body: Buffer;
+}
+
+// A short, filesystem-safe name derived from the document title
+export function exportFilename(title: string, extension: string, date = new Date()): string {
+  const slug = title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60)
+    .replace(/-+$/, '');
+  return `${slug || 'export'}-${date.toISOString().slice(0, 10)}.${extension}`;
+}
+
+export function exportAnalysis(analysis: UserDrivenResponse, format: ExportFormat, generatedAt = new Date()): ExportedFile {
+  const title = analysis.refined_problem || analysis.input_problem || 'Problem analysis';
+  const markdown = analysisToMarkdown(analysis, generatedAt);
+  const meta = { title, createdAt: generatedAt };
+
+  const body = format === 'md'
+    ? Buffer.from(markdown, 'utf8')
+    : format === 'pdf'
+      ? renderPdf(parseMarkdown(markdown), meta)
+      : renderDocx(parseMarkdown(markdown), meta);
+
+  return { filename: exportFilename(title, format, generatedAt), contentType: EXPORT_CONTENT_TYPES[format], body };
+}
+
+export function exportPlan(plan: ComposedActionPlan, format: PlanExportFormat, context: PlanExportContext, asEvents = false): ExportedFile {
+  const text = format === 'ics'
+    ? planToIcs(plan, context, asEvents)
+    : format === 'csv'
+      ? planToCsv(plan, context)
+      : planToJson(plan, context);
+
+  return {
+    filename: exportFilename(`action-plan-${plan.priority}`, format, context.exportedAt),
+    contentType: PLAN_EXPORT_CONTENT_TYPES[format],
+    body: Buffer.from(text, 'utf8'),
+  };
+}
+
+// RFC 6266 header with an ASCII fallback and the UTF-8 name
+export const contentDisposition = (filename: string) =>
+  `attachment; filename="${filename.replace(/[^\x20-\x7e]|"/g, '_')}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
@@ -0,0 +1,216 @@
+import { FounderProfile, UserDrivenResponse } from '../../types';
+
+// Inline text with the emphasis the PDF and DOCX renderers understand
+export interface Run {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+}
+
+export type Block =
+  | { type: 'heading'; level: number; runs: Run[] }
+  | { type: 'paragraph'; runs: Run[] }
+  | { type: 'quote'; runs: Run[] }
+  | { type: 'list'; ordered: boolean; items: Run[][] }
+  | { type: 'table'; header: Run[][]; rows: Run[][][] }
+  | { type: 'code'; lines: string[] }
+  | { type: 'rule' };
+
+const formatRunway = (profile: FounderProfile) => `${profile.runway_months} ${profile.runway_unit ?? 'months'}`;
+
+const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+/**
+ * The canonical rendering of an analysis. The Markdown export is this text as-is; PDF and DOCX are rendered from it,
+ * so all three formats always carry the same content.
+ */
+export function analysisToMarkdown(analysis: UserDrivenResponse, generatedAt = new Date()): string {
+  const profile = analysis.founder_profile;
+  const sections: string[] = [
+    `# ${analysis.refined_problem || analysis.input_problem}`,
+    `*Problem analysis generated by Forge AI on ${generatedAt.toISOString().slice(0, 10)}*`,
+    `## Problem Statement\n\n${analysis.input_problem}`,
+  ];
+
+  if (analysis.refined_problem && analysis.refined_problem !== analysis.input_problem) {
+    sections.push(`## Refined Problem\n\n${analysis.refined_problem}`);
+  }
+
+  if (profile) {
+    const rows: [string, string][] = [
+      ['Experience', `${profile.experience_years} years`],
+      ['Team size', String(profile.team_size)],
+      ['Runway', formatRunway(profile)],
+      ['Funding stage', profile.funding_stage],
+      ['Location', profile.location],
+      ['Tech stack', profile.tech_stack.join(', ') || '—'],
+    ];
+    sections.push(`## Founder Profile\n\n| Field | Value |\n| --- | --- |\n${rows.map(([field, value]) => `| ${field} | ${escapeCell(value)} |`).join('\n')}`);
+  }
+
+  for (const chunk of analysis.chunks) {
+    const insights = chunk.key_insights.length
+      ? `\n\n**Key Insights**\n\n${chunk.key_insights.map(insight => `- ${insight}`).join('\n')}`
+      : '';
+    const sources = chunk.sources?.length
+      ? `\n\n**Sources**\n\n${chunk.sources.map((source, i) => `${i + 1}. [${source.title}](${source.url})${source.snippet ? ` — ${source.snippet}` : ''}`).join('\n')}`
+      : '';
+    // Chunk bodies use their own headings, so push them below the chunk's level. Footnote markers become plain
+    // [n] references to the numbered source list, which PDF and DOCX can show as well
+    const body = demoteHeadings(chunk.analysis.trim(), 2).replace(/\[\^(\d+)\]/g, '[$1]');
+    sections.push(`## ${chunk.title}\n\n${body}${insights}${sources}`);
+  }
+
+  if (analysis.synthesis?.solution_guide.length) {
+    sections.push(`## Solution Guide\n\n${analysis.synthesis.solution_guide.map((step, i) => `${i + 1}. ${step}`).join('\n')}`);
+  }
+
+  return `${sections.join('\n\n')}\n`;
+}
+
+function demoteHeadings(markdown: string, by: number): string {
+  let inFence = false;
+  return markdown.split('\n').map(line => {
+    if (/^\s*```/.test(line)) inFence = !inFence;
+    if (inFence) return line;
+    return line.replace(/^(#{1,6})(\s)/, (_, hashes: string, space: string) => '#'.repeat(Math.min(6, hashes.length + by)) + space);
+  }).join('\n');
+}
+
+// **bold**, __bold__, *italic*, _italic_, `code` and [text](url); anything else is literal text
+export function parseInline(text: string, base: Omit<Run, 'text'> = {}): Run[] {
+  const runs: Run[] = [];
+  const pattern = /(\*\*|__)(.+?)\1|(?<![\w*])([*_])(?!\s)(.+?)(?<!\s)\3(?![\w*])|`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  const push = (run: Run) => {
+    if (!run.text) return;
+    const previous = runs[runs.length - 1];
+    if (previous && !!previous.bold === !!run.bold && !!previous.italic === !!run.italic && !!previous.code === !!run.code) {
+      previous.text += run.text;
+    } else {
+      runs.push(run);
+    }
+  };
+
+  while ((match = pattern.exec(text))) {
+    push({ ...base, text: text.slice(last, match.index) });
+    if (match[2] !== undefined) {
+      parseInline(match[2], { ...base, bold: true }).forEach(push);
+    } else if (match[4] !== undefined) {
+      parseInline(match[4], { ...base, italic: true }).forEach(push);
+    } else if (match[5] !== undefined) {
+      push({ ...base, text: match[5], code: true });
+    } else {
+      parseInline(match[6], base).forEach(push);
+      if (match[7] !== match[6]) push({ ...base, text: ` (${match[7]})` });
+    }
+    last = match.index + match[0].length;
+  }
+  push({ ...base, text: text.slice(last) });
+  return runs;
+}
+
+const splitRow = (line: string): string[] =>
+  line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '').split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'));
+
+const LIST_ITEM = /^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/;
+const TABLE_DIVIDER = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+// A block-level parser for the Markdown subset models produce: headings, lists, tables, quotes, code and paragraphs
+export function parseMarkdown(markdown: string): Block[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: Block[] = [];
+  let paragraph: string[] = [];
+
+  const flush = () => {
+    if (paragraph.length) blocks.push({ type: 'paragraph', runs: parseInline(paragraph.join(' ')) });
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    if (!trimmed) {
+      flush();
+      continue;
+    }
+
+    if (trimmed.startsWith('```')) {
+      flush();
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trim().startsWith('```')) code.push(lines[i]);
+      blocks.push({ type: 'code', lines: code });
+      continue;
+    }
+
+    const heading = trimmed.match(/^(#{1,6})\s+(.*?)\s*#*$/);
+    if (heading) {
+      flush();
+      blocks.push({ type: 'heading', level: heading[1].length, runs: parseInline(heading[2]) });
+      continue;
+    }
+
+    if (/^([-*_])(\s*\1){2,}$/.test(trimmed)) {
+      flush();
+      blocks.push({ type: 'rule' });
+      continue;
+    }
+
+    if (trimmed.startsWith('|') && i + 1 < lines.length && TABLE_DIVIDER.test(lines[i + 1])) {
+      flush();
+      const header = splitRow(trimmed).map(cell => parseInline(cell));
+      const rows: Run[][][] = [];
+      i++;
+      while (i + 1 < lines.length && lines[i + 1].trim().startsWith('|')) {
+        rows.push(splitRow(lines[++i]).map(cell => parseInline(cell)));
+      }
+      blocks.push({ type: 'table', header, rows });
+      continue;
+    }
+
+    if (trimmed.startsWith('>')) {
+      flush();
+      const quote: string[] = [];
+      while (i < lines.length && lines[i].trim().startsWith('>')) {
+        quote.push(lines[i].trim().replace(/^>\s?/, ''));
+        i++;
+      }
+      i--;
+      blocks.push({ type: 'quote', runs: parseInline(quote.join(' ')) });
+      continue;
+    }
+
+    const item = line.match(LIST_ITEM);
+    if (item) {
+      flush();
+      const ordered = item[2] !== undefined;
+      const items: string[] = [];
+      while (i < lines.length) {
+        const next = lines[i].match(LIST_ITEM);
+        if (next && (next[2] !== undefined) === ordered) {
+          items.push(next[3]);
+        } else if (lines[i].trim() && /^\s{2,}/.test(lines[i]) && items.length) {
+          // Indented continuation or nested item: folded into the current item
+          items[items.length - 1] += ` ${lines[i].trim().replace(LIST_ITEM, '$3')}`;
+        } else {
+          break;
+        }
+        i++;
+      }
+      i--;
+      blocks.push({ type: 'list', ordered, items: items.map(text => parseInline(text)) });
+      continue;
+    }
+
+    paragraph.push(trimmed);
+  }
+
+  flush();
+  return blocks;
+}
+
+export const runsToText = (runs: Run[]) => runs.map(run => run.text).join('');
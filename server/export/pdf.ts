@@ -0,0 +1,398 @@
+import zlib from 'zlib';
+import { Block, Run } from './markdown';
+import { DocumentMeta } from './docx';
+
+// A4 in points, with 2cm margins
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56.7;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const FOOTER_Y = 30;
+
+type FontKey = 'F1' | 'F2' | 'F3' | 'F4' | 'F5';
+
+const FONTS: Record<FontKey, string> = {
+  F1: 'Helvetica',
+  F2: 'Helvetica-Bold',
+  F3: 'Helvetica-Oblique',
+  F4: 'Helvetica-BoldOblique',
+  F5: 'Courier',
+};
+
+// Advance widths (per 1000 em) for characters 32-126, from the standard Adobe font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+  556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611,
+  611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Characters outside Latin-1 that WinAnsiEncoding still has, with their byte and approximate width
+const WIN_ANSI_EXTRAS: Record<string, [number, number]> = {
+  '€': [0x80, 556], '‚': [0x82, 222], '„': [0x84, 333], '…': [0x85, 1000], '‘': [0x91, 222], '’': [0x92, 222],
+  '“': [0x93, 333], '”': [0x94, 333], '•': [0x95, 350], '–': [0x96, 556], '—': [0x97, 1000], '™': [0x99, 1000],
+};
+
+// Common symbols the standard fonts lack, spelled out instead of dropped
+const TRANSLITERATIONS: Record<string, string> = {
+  '₹': 'Rs.', '→': '->', '←': '<-', '≈': '~', '≥': '>=', '≤': '<=', '≠': '!=', '✓': '[x]', '✔': '[x]', '✗': '[ ]', '−': '-',
+};
+
+// Maps text to WinAnsi bytes (as a latin1 string); anything without an equivalent is approximated or dropped
+function encode(text: string): string {
+  let out = '';
+  for (const char of text.replace(/[\u2010\u2011\u2012]/g, '-').replace(/\u00A0/g, ' ')) {
+    const code = char.codePointAt(0)!;
+    if (WIN_ANSI_EXTRAS[char]) out += String.fromCharCode(WIN_ANSI_EXTRAS[char][0]);
+    else if (TRANSLITERATIONS[char]) out += TRANSLITERATIONS[char];
+    else if (code >= 32 && code < 127) out += char;
+    else if (code >= 0xa0 && code <= 0xff) out += char;
+    else if (char === '\t') out += '    ';
+    else {
+      const stripped = char.normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+      out += stripped && stripped.codePointAt(0)! < 256 ? stripped : '?';
+    }
+  }
+  return out;
+}
+
+const EXTRA_WIDTHS = new Map(Object.values(WIN_ANSI_EXTRAS).map(([byte, width]) => [byte, width]));
+
+function measure(encoded: string, font: FontKey, size: number): number {
+  if (font === 'F5') return encoded.length * 600 * size / 1000;
+  const widths = font === 'F2' || font === 'F4' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (let i = 0; i < encoded.length; i++) {
+    const code = encoded.charCodeAt(i);
+    total += code >= 32 && code < 127 ? widths[code - 32] : EXTRA_WIDTHS.get(code) ?? 556;
+  }
+  return total * size / 1000;
+}
+
+const escapeString = (encoded: string) =>
+  encoded.replace(/[\\()]/g, '\\$&').replace(/[\x80-\xff]/g, char => `\\${char.charCodeAt(0).toString(8).padStart(3, '0')}`);
+
+const fontFor = (run: Run, base: { bold?: boolean; italic?: boolean } = {}): FontKey => {
+  if (run.code) return 'F5';
+  const bold = run.bold || base.bold;
+  const italic = run.italic || base.italic;
+  return bold && italic ? 'F4' : bold ? 'F2' : italic ? 'F3' : 'F1';
+};
+
+interface Segment {
+  text: string; // encoded
+  font: FontKey;
+  width: number;
+}
+
+// Greedy word wrap across runs with different fonts
+function wrap(runs: Run[], size: number, maxWidth: number, base: { bold?: boolean; italic?: boolean } = {}): Segment[][] {
+  const lines: Segment[][] = [[]];
+  let lineWidth = 0;
+
+  const add = (text: string, font: FontKey) => {
+    const line = lines[lines.length - 1];
+    const last = line[line.length - 1];
+    const width = measure(text, font, size);
+    if (last && last.font === font) {
+      last.text += text;
+      last.width += width;
+    } else {
+      line.push({ text, font, width });
+    }
+    lineWidth += width;
+  };
+
+  for (const run of runs) {
+    const font = fontFor(run, base);
+    const words = encode(run.text).split(/( +)/);
+    for (const word of words) {
+      if (!word) continue;
+      const isSpace = word.trim() === '';
+      if (isSpace) {
+        if (lineWidth > 0) add(' ', font);
+        continue;
+      }
+      let remaining = word;
+      while (remaining) {
+        const width = measure(remaining, font, size);
+        if (lineWidth + width <= maxWidth) {
+          add(remaining, font);
+          break;
+        }
+        if (lineWidth > 0) {
+          // Trailing space doesn't count against the line
+          const line = lines[lines.length - 1];
+          const last = line[line.length - 1];
+          if (last.text.endsWith(' ')) {
+            last.text = last.text.slice(0, -1);
+            last.width -= measure(' ', last.font, size);
+          }
+          lines.push([]);
+          lineWidth = 0;
+          continue;
+        }
+        // A single word wider than the line is broken by characters
+        let cut = remaining.length;
+        while (cut > 1 && measure(remaining.slice(0, cut), font, size) > maxWidth) cut--;
+        add(remaining.slice(0, cut), font);
+        remaining = remaining.slice(cut);
+        if (remaining) {
+          lines.push([]);
+          lineWidth = 0;
+        }
+      }
+    }
+  }
+
+  return lines.filter((line, i) => line.length > 0 || i === 0);
+}
+
+const num = (n: number) => Number(n.toFixed(2)).toString();
+
+class PdfLayout {
+  pages: string[][] = [];
+  private y = 0;
+
+  constructor() {
+    this.newPage();
+  }
+
+  private get ops() {
+    return this.pages[this.pages.length - 1];
+  }
+
+  newPage() {
+    this.pages.push([]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  // Starts a new page unless `height` points still fit on this one
+  ensure(height: number) {
+    if (this.y - height < MARGIN && this.y < PAGE_HEIGHT - MARGIN) this.newPage();
+  }
+
+  space(points: number) {
+    this.y -= points;
+  }
+
+  text(lines: Segment[][], x: number, size: number, leading: number, options: { gray?: number; keepTogether?: boolean } = {}) {
+    if (options.keepTogether) this.ensure(lines.length * leading);
+    for (const line of lines) {
+      this.ensure(leading);
+      this.y -= leading;
+      this.drawLine(line, x, this.y + (leading - size) / 2 + size * 0.22, size, options.gray);
+    }
+  }
+
+  drawLine(line: Segment[], x: number, baseline: number, size: number, gray = 0) {
+    if (line.length === 0) return;
+    const parts = line.map(segment => `/${segment.font} ${num(size)} Tf (${escapeString(segment.text)}) Tj`).join(' ');
+    this.ops.push(`BT ${num(gray)} g ${num(x)} ${num(baseline)} Td ${parts} ET`);
+  }
+
+  rect(x: number, y: number, width: number, height: number, gray: number) {
+    this.ops.push(`${num(gray)} g ${num(x)} ${num(y)} ${num(width)} ${num(height)} re f`);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, gray = 0.75, width = 0.5) {
+    this.ops.push(`${num(gray)} G ${num(width)} w ${num(x1)} ${num(y1)} m ${num(x2)} ${num(y2)} l S`);
+  }
+
+  get cursor() {
+    return this.y;
+  }
+
+  set cursor(y: number) {
+    this.y = y;
+  }
+}
+
+const HEADING_SIZES = [0, 22, 16, 13, 11.5, 11, 11];
+const BODY_SIZE = 10.5;
+const BODY_LEADING = 15;
+
+function drawTable(layout: PdfLayout, header: Run[][], rows: Run[][][]) {
+  const columns = Math.max(header.length, ...rows.map(row => row.length), 1);
+  const columnWidth = CONTENT_WIDTH / columns;
+  const padding = 5;
+  const size = 9.5;
+  const leading = 13;
+
+  const drawRow = (cells: Run[][], isHeader: boolean) => {
+    const wrapped = Array.from({ length: columns }, (_, i) =>
+      wrap(cells[i] ?? [], size, columnWidth - 2 * padding, { bold: isHeader }));
+    const height = Math.max(...wrapped.map(lines => lines.length)) * leading + 2 * padding;
+
+    layout.ensure(height);
+    const top = layout.cursor;
+    if (isHeader) layout.rect(MARGIN, top - height, CONTENT_WIDTH, height, 0.93);
+    wrapped.forEach((lines, column) => {
+      lines.forEach((line, i) => {
+        const baseline = top - padding - (i + 1) * leading + (leading - size) / 2 + size * 0.22;
+        layout.drawLine(line, MARGIN + column * columnWidth + padding, baseline, size);
+      });
+    });
+    layout.line(MARGIN, top, MARGIN + CONTENT_WIDTH, top);
+    layout.line(MARGIN, top - height, MARGIN + CONTENT_WIDTH, top - height);
+    for (let column = 0; column <= columns; column++) {
+      const x = MARGIN + column * columnWidth;
+      layout.line(x, top, x, top - height);
+    }
+    layout.cursor = top - height;
+  };
+
+  drawRow(header, true);
+  rows.forEach(row => drawRow(row, false));
+}
+
+function drawBlocks(layout: PdfLayout, blocks: Block[]) {
+  blocks.forEach((block, index) => {
+    const isFirst = index === 0;
+    switch (block.type) {
+      case 'heading': {
+        const size = HEADING_SIZES[block.level];
+        const leading = size * 1.3;
+        const lines = wrap(block.runs, size, CONTENT_WIDTH, { bold: true, italic: block.level >= 4 });
+        if (!isFirst) layout.space(block.level <= 2 ? 14 : 8);
+        // Keep a heading with at least a few lines of what follows
+        layout.ensure(lines.length * leading + 3 * BODY_LEADING);
+        layout.text(lines, MARGIN, size, leading);
+        layout.space(block.level === 1 ? 6 : 3);
+        break;
+      }
+      case 'paragraph':
+        layout.text(wrap(block.runs, BODY_SIZE, CONTENT_WIDTH), MARGIN, BODY_SIZE, BODY_LEADING);
+        layout.space(6);
+        break;
+      case 'quote': {
+        const top = layout.cursor;
+        const lines = wrap(block.runs, BODY_SIZE, CONTENT_WIDTH - 16, { italic: true });
+        layout.text(lines, MARGIN + 16, BODY_SIZE, BODY_LEADING, { gray: 0.35, keepTogether: lines.length <= 6 });
+        if (layout.cursor < top) layout.line(MARGIN + 4, top, MARGIN + 4, layout.cursor, 0.7, 2);
+        layout.space(6);
+        break;
+      }
+      case 'list':
+        block.items.forEach((item, i) => {
+          const marker = block.ordered ? `${i + 1}.` : encode('•');
+          const indent = block.ordered ? 20 : 14;
+          const lines = wrap(item, BODY_SIZE, CONTENT_WIDTH - indent);
+          layout.ensure(BODY_LEADING);
+          const top = layout.cursor;
+          layout.text(lines, MARGIN + indent, BODY_SIZE, BODY_LEADING);
+          layout.drawLine([{ text: marker, font: 'F1', width: 0 }], MARGIN + 2, top - BODY_LEADING + (BODY_LEADING - BODY_SIZE) / 2 + BODY_SIZE * 0.22, BODY_SIZE);
+          layout.space(2);
+        });
+        layout.space(4);
+        break;
+      case 'table':
+        layout.space(2);
+        drawTable(layout, block.header, block.rows);
+        layout.space(10);
+        break;
+      case 'code': {
+        const size = 8.5;
+        const leading = 11;
+        for (const line of block.lines) {
+          const wrapped = wrap([{ text: line || ' ', code: true }], size, CONTENT_WIDTH - 12);
+          for (const segment of wrapped) {
+            layout.ensure(leading);
+            layout.rect(MARGIN, layout.cursor - leading, CONTENT_WIDTH, leading, 0.95);
+            layout.text([segment], MARGIN + 6, size, leading, { gray: 0.15 });
+          }
+        }
+        layout.space(8);
+        break;
+      }
+      case 'rule':
+        layout.space(6);
+        layout.line(MARGIN, layout.cursor, MARGIN + CONTENT_WIDTH, layout.cursor);
+        layout.space(8);
+        break;
+    }
+  });
+}
+
+// UTF-16BE with a byte order mark, so document info can hold any Unicode text
+const textString = (text: string) =>
+  `<FEFF${Array.from(text).map(char => {
+    const code = char.codePointAt(0)!;
+    if (code <= 0xffff) return code.toString(16).padStart(4, '0');
+    const offset = code - 0x10000;
+    return ((offset >> 10) + 0xd800).toString(16) + ((offset & 0x3ff) + 0xdc00).toString(16);
+  }).join('').toUpperCase()}>`;
+
+const pdfDate = (date: Date) => `(D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z)`;
+
+// Renders blocks as a paginated A4 PDF using the standard Helvetica and Courier fonts
+export function renderPdf(blocks: Block[], meta: DocumentMeta): Buffer {
+  const layout = new PdfLayout();
+  drawBlocks(layout, blocks);
+
+  const pageCount = layout.pages.length;
+  const footerTitle = encode(meta.title.length > 80 ? `${meta.title.slice(0, 79)}…` : meta.title);
+  layout.pages.forEach((ops, i) => {
+    const label = encode(`Page ${i + 1} of ${pageCount}`);
+    ops.push(`BT 0.5 g /F1 8 Tf ${num(MARGIN)} ${FOOTER_Y} Td (${escapeString(footerTitle)}) Tj ET`);
+    ops.push(`BT 0.5 g /F1 8 Tf ${num(PAGE_WIDTH - MARGIN - measure(label, 'F1', 8))} ${FOOTER_Y} Td (${escapeString(label)}) Tj ET`);
+  });
+
+  const objects: Buffer[] = [];
+  const add = (body: string | Buffer) => {
+    objects.push(typeof body === 'string' ? Buffer.from(body, 'latin1') : body);
+    return objects.length;
+  };
+
+  const catalogId = add('');
+  const pagesId = add('');
+  const fontIds = Object.fromEntries(Object.entries(FONTS).map(([key, name]) =>
+    [key, add(`<< /Type /Font /Subtype /Type1 /BaseFont /${name} /Encoding /WinAnsiEncoding >>`)]));
+  const fontResources = Object.entries(fontIds).map(([key, id]) => `/${key} ${id} 0 R`).join(' ');
+  const createdAt = meta.createdAt ?? new Date();
+  const infoId = add(`<< /Title ${textString(meta.title)} /Producer (Forge AI) /CreationDate ${pdfDate(createdAt)} >>`);
+
+  const pageIds = layout.pages.map(ops => {
+    const content = zlib.deflateSync(Buffer.from(ops.join('\n'), 'latin1'));
+    const contentId = add(Buffer.concat([
+      Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+      content,
+      Buffer.from('\nendstream', 'latin1'),
+    ]));
+    return add(`<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << ${fontResources} >> >> /Contents ${contentId} 0 R >>`);
+  });
+
+  objects[catalogId - 1] = Buffer.from(`<< /Type /Catalog /Pages ${pagesId} 0 R >>`, 'latin1');
+  objects[pagesId - 1] = Buffer.from(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`, 'latin1');
+
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')];
+  let offset = chunks[0].length;
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(offset);
+    const object = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`, 'latin1'), body, Buffer.from('\nendobj\n', 'latin1')]);
+    chunks.push(object);
+    offset += object.length;
+  });
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(o => `${String(o).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>`,
+    'startxref',
+    String(offset),
+    '%%EOF',
+  ].join('\n');
+  chunks.push(Buffer.from(`${xref}\n`, 'latin1'));
+
+  return Buffer.concat(chunks);
+}
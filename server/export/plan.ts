@@ -0,0 +1,260 @@
+import { ActionOwner, ActionStatus, ActionTask, ComposedActionPlan, Priority } from '../../types';
+
+// What the board knows about a plan task beyond the plan itself
+export interface TaskSchedule {
+  dueAt: Date;
+  assignee?: string | null;
+}
+
+export interface PlanExportContext {
+  planId: string;
+  composedAt: Date;
+  exportedAt: Date;
+  // Board due dates and assignees by plan task id; tasks without one are due `due_in_hours` after composing
+  schedule?: Map<number, TaskSchedule>;
+}
+
+export const PLAN_EXPORT_FORMAT = 'forge.action_plan';
+export const PLAN_EXPORT_VERSION = 1;
+
+// A board due date and assignee in the JSON export, keyed by the plan task's id
+export interface ScheduledTaskExport {
+  task_id: number;
+  due_at: string;
+  assignee: string | null;
+}
+
+// The JSON export; importing it gives back the same plan with the same due dates and assignees
+export interface PlanExportEnvelope {
+  format: typeof PLAN_EXPORT_FORMAT;
+  version: number;
+  exported_at: string;
+  composed_at: string;
+  plan: ComposedActionPlan;
+  // Absent from exports made before the board schedule was included
+  schedule?: ScheduledTaskExport[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const EVENT_MINUTES = 30;
+
+const STATUS_LABELS: Record<ActionStatus, string> = {
+  pending: 'Pending',
+  in_progress: 'In progress',
+  done: 'Done',
+};
+
+const OWNER_LABELS: Record<ActionOwner, string> = {
+  founder: 'Founder',
+  ai: 'AI',
+  tool: 'Tool',
+};
+
+const scheduleFor = (task: ActionTask, context: PlanExportContext): TaskSchedule =>
+  context.schedule?.get(task.id) ?? { dueAt: new Date(context.composedAt.getTime() + task.due_in_hours * HOUR_MS) };
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+// --- iCalendar (RFC 5545) ---
+
+const VTODO_STATUS: Record<ActionStatus, string> = {
+  pending: 'NEEDS-ACTION',
+  in_progress: 'IN-PROCESS',
+  done: 'COMPLETED',
+};
+
+// 1 is the highest priority, 9 the lowest
+const ICAL_PRIORITY: Record<Priority, number> = { urgent: 1, high: 3, medium: 5, low: 9 };
+
+const icsDate = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const icsText = (text: string) =>
+  text.replace(/\r\n?/g, '\n').replace(/[\\;,]/g, match => `\\${match}`).replace(/\n/g, '\\n');
+
+// Content lines are folded at 75 octets without splitting a multi-byte character
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf8');
+    // Continuation lines spend one octet on the leading space
+    if (octets + size > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function taskDescription(task: ActionTask, schedule: TaskSchedule): string {
+  const lines = [task.description, '', `Owner: ${OWNER_LABELS[task.owner]}`];
+  if (schedule.assignee) lines.push(`Assignee: ${schedule.assignee}`);
+  lines.push(`Status: ${STATUS_LABELS[task.status]}`);
+  if (task.command) lines.push(`Command: ${task.command}`);
+  return lines.join('\n');
+}
+
+/**
+ * One VTODO per task, or with `asEvents` a short VEVENT ending at each task's due time (with a reminder for open
+ * tasks) for calendars that don't show to-dos. UIDs are stable per plan and task, so re-importing an updated export
+ * replaces the earlier entries instead of duplicating them.
+ */
+export function planToIcs(plan: ComposedActionPlan, context: PlanExportContext, asEvents = false): string {
+  const stamp = icsDate(context.exportedAt);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Forge AI//Action Plan//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${icsText(`Forge action plan (${plan.priority})`)}`,
+  ];
+
+  for (const task of plan.action_plan) {
+    const schedule = scheduleFor(task, context);
+    const common = [
+      `UID:task-${context.planId}-${task.id}-${plan.cap_id.replace(/[^\w-]/g, '')}@forge-ai`,
+      `DTSTAMP:${stamp}`,
+      `CREATED:${icsDate(context.composedAt)}`,
+      `SUMMARY:${icsText(task.title)}`,
+      `DESCRIPTION:${icsText(taskDescription(task, schedule))}`,
+      `PRIORITY:${ICAL_PRIORITY[plan.priority]}`,
+      `CATEGORIES:${icsText(OWNER_LABELS[task.owner])}`,
+    ];
+
+    if (asEvents) {
+      lines.push(
+        'BEGIN:VEVENT',
+        ...common,
+        `DTSTART:${icsDate(new Date(schedule.dueAt.getTime() - EVENT_MINUTES * 60 * 1000))}`,
+        `DTEND:${icsDate(schedule.dueAt)}`,
+        'TRANSP:TRANSPARENT',
+      );
+      if (task.status !== 'done') {
+        lines.push('BEGIN:VALARM', 'ACTION:DISPLAY', `DESCRIPTION:${icsText(task.title)}`, 'TRIGGER:-PT1H', 'END:VALARM');
+      }
+      lines.push('END:VEVENT');
+    } else {
+      lines.push(
+        'BEGIN:VTODO',
+        ...common,
+        `DUE:${icsDate(schedule.dueAt)}`,
+        `STATUS:${VTODO_STATUS[task.status]}`,
+        ...(task.status === 'done' ? ['PERCENT-COMPLETE:100'] : []),
+        'END:VTODO',
+      );
+    }
+  }
+
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
+
+// --- CSV (RFC 4180) ---
+
+const CSV_COLUMNS = ['Task ID', 'Name', 'Description', 'Status', 'Owner', 'Assignee', 'Due Date', 'Due Time', 'Priority', 'Tags', 'Command'];
+
+function csvCell(value: string): string {
+  // Spreadsheets treat these leading characters as a formula
+  const text = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]|^\s|\s$/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per task with the columns Asana, Todoist, Trello and Notion importers map by name. Dates are UTC
+ * (YYYY-MM-DD and HH:MM); the byte-order mark makes Excel read the file as UTF-8.
+ */
+export function planToCsv(plan: ComposedActionPlan, context: PlanExportContext): string {
+  const rows = plan.action_plan.map(task => {
+    const schedule = scheduleFor(task, context);
+    const due = schedule.dueAt.toISOString();
+    return [
+      String(task.id),
+      task.title,
+      task.description,
+      STATUS_LABELS[task.status],
+      OWNER_LABELS[task.owner],
+      schedule.assignee ?? '',
+      due.slice(0, 10),
+      due.slice(11, 16),
+      capitalize(plan.priority),
+      ['forge', task.owner].join(','),
+      task.command ?? '',
+    ];
+  });
+  return `\ufeff${[CSV_COLUMNS, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n')}\r\n`;
+}
+
+// --- JSON ---
+
+export function planToJson(plan: ComposedActionPlan, context: PlanExportContext): string {
+  const envelope: PlanExportEnvelope = {
+    format: PLAN_EXPORT_FORMAT,
+    version: PLAN_EXPORT_VERSION,
+    exported_at: context.exportedAt.toISOString(),
+    composed_at: context.composedAt.toISOString(),
+    plan,
+    schedule: [...(context.schedule ?? [])].map(([taskId, { dueAt, assignee }]) => ({
+      task_id: taskId,
+      due_at: dueAt.toISOString(),
+      assignee: assignee ?? null,
+    })),
+  };
+  return `${JSON.stringify(envelope, null, 2)}\n`;
+}
+
+export class PlanImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlanImportError';
+  }
+}
+
+// Entries that don't name a task id and a readable date are skipped; those tasks fall back to `due_in_hours`
+function parseSchedule(value: unknown): Map<number, TaskSchedule> {
+  const schedule = new Map<number, TaskSchedule>();
+  if (!Array.isArray(value)) return schedule;
+
+  for (const entry of value) {
+    if (!entry || typeof entry !== 'object') continue;
+    const { task_id: taskId, due_at: dueAtText, assignee } = entry as Record<string, unknown>;
+    const dueAt = typeof dueAtText === 'string' ? new Date(dueAtText) : null;
+    if (!Number.isInteger(taskId) || !dueAt || Number.isNaN(dueAt.getTime())) continue;
+    schedule.set(taskId as number, {
+      dueAt,
+      assignee: typeof assignee === 'string' && assignee.trim() ? assignee.trim().slice(0, 255) : null,
+    });
+  }
+  return schedule;
+}
+
+/**
+ * Accepts a JSON export or a bare composed plan. Returns the plan still unchecked (the caller validates it against
+ * the plan schema) and, for exports, when it was composed and the board schedule, so due dates and assignees come
+ * back unchanged.
+ */
+export function unwrapPlanImport(value: unknown): { plan: unknown; composedAt: Date | null; schedule: Map<number, TaskSchedule> } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new PlanImportError('The file does not contain an action plan');
+  }
+
+  const record = value as Record<string, unknown>;
+  if (record.mode === 'compose') return { plan: record, composedAt: null, schedule: new Map() };
+
+  if (record.format !== PLAN_EXPORT_FORMAT) {
+    throw new PlanImportError('The file is not a Forge action plan export');
+  }
+  if (typeof record.version !== 'number' || record.version > PLAN_EXPORT_VERSION) {
+    throw new PlanImportError('This export was made by a newer version of Forge');
+  }
+
+  const composedAt = typeof record.composed_at === 'string' ? new Date(record.composed_at) : null;
+  // A future or unreadable date would put every task's due date out of reach; fall back to now
+  const valid = composedAt && !Number.isNaN(composedAt.getTime()) && composedAt.getTime() <= Date.now();
+  return { plan: record.plan, composedAt: valid ? composedAt : null, schedule: parseSchedule(record.schedule) };
+}
@@ -0,0 +1,245 @@
+import crypto from 'crypto';
+import { eq, and, lte, isNotNull, desc } from 'drizzle-orm';
+import { db } from './db';
+import { actionPlans, actionPlanRevisions, analyses } from '../shared/schema';
+import { composeActionPlan } from './aiService';
+import { collectUserLiveData } from './liveData';
+import { derivePriority, overdueTasks } from './priority';
+import { syncPlanTasks } from './tasks';
+import { taskKey } from '../shared/keys';
+import { exceededLimit, nextUtcDay, recordUsage } from './usage';
+import { ActionTask, ComposedActionPlan, LiveData, Priority, PriorityDecision } from '../types';
+
+type ActionPlanRow = typeof actionPlans.$inferSelect;
+
+const POLL_MS = Number(process.env.HEARTBEAT_POLL_MS ?? 30_000);
+const BATCH_SIZE = 5;
+// A claimed plan isn't picked up again for this long, even if the server dies mid-recomposition
+const CLAIM_MS = 10 * 60 * 1000;
+// After a failure, wait at least this long before trying again
+const RETRY_AFTER_MS = 15 * 60 * 1000;
+export const MAX_LOG_ENTRIES = 100;
+
+export const heartbeatDueAt = (plan: ComposedActionPlan, from = new Date()): Date | null =>
+  plan.next_heartbeat_in_seconds > 0 ? new Date(from.getTime() + plan.next_heartbeat_in_seconds * 1000) : null;
+
+// In-process fan-out of plan updates to the user's open event streams
+const listeners = new Map<number, Set<(row: ActionPlanRow) => void>>();
+
+export function subscribeToPlanUpdates(userId: number, listener: (row: ActionPlanRow) => void): () => void {
+  const userListeners = listeners.get(userId) ?? new Set();
+  userListeners.add(listener);
+  listeners.set(userId, userListeners);
+  return () => {
+    userListeners.delete(listener);
+    if (userListeners.size === 0) listeners.delete(userId);
+  };
+}
+
+export function publishPlanUpdate(row: ActionPlanRow): void {
+  listeners.get(row.userId)?.forEach(listener => listener(row));
+}
+
+// Completed tasks survive every recomposition. Tasks the model carries over keep their id, in-progress state and
+// execution record, so a command's outcome still lands on its task and a command that already ran isn't offered again.
+// Titles are matched with the board's taskKey, so the plan and the board agree on which tasks are the same.
+export function mergeWithPreviousPlan(previous: ComposedActionPlan, next: ComposedActionPlan, logEntry: string): ComposedActionPlan {
+  const doneTasks = previous.action_plan.filter(task => task.status === 'done');
+  const doneTitles = new Set(doneTasks.map(task => taskKey(task.title)));
+  const openTasksByTitle = new Map(
+    previous.action_plan.filter(task => task.status !== 'done').map(task => [taskKey(task.title), task])
+  );
+
+  let nextId = Math.max(0, ...previous.action_plan.map(task => task.id));
+  const openTasks = next.action_plan
+    .filter(task => !doneTitles.has(taskKey(task.title)))
+    .map(({ execution: _execution, ...task }): ActionTask => {
+      const key = taskKey(task.title);
+      const earlier = openTasksByTitle.get(key);
+      // Each earlier task is carried over once, so two new tasks with the same title never share an id
+      openTasksByTitle.delete(key);
+      const merged: ActionTask = {
+        ...task,
+        id: earlier?.id ?? ++nextId,
+        status: earlier?.status === 'in_progress' ? 'in_progress' : task.status === 'done' ? 'pending' : task.status,
+      };
+      return earlier?.execution ? { ...merged, execution: earlier.execution } : merged;
+    });
+
+  return {
+    ...next,
+    cap_id: previous.cap_id,
+    action_plan: [...openTasks, ...doneTasks],
+    execution_log: [...previous.execution_log, logEntry, ...next.execution_log].slice(-MAX_LOG_ENTRIES),
+  };
+}
+
+const liveDataHash = (liveData: LiveData[]): string =>
+  crypto.createHash('sha256').update(JSON.stringify(liveData.map(item => [item.source, item.content, item.timestamp]))).digest('hex');
+
+const logTime = (date = new Date()) => `${date.toISOString().slice(11, 19)} UTC`;
+
+async function updatePlan(planId: number, changes: Partial<typeof actionPlans.$inferInsert>): Promise<void> {
+  const [row] = await db!
+    .update(actionPlans)
+    .set(changes)
+    .where(eq(actionPlans.id, planId))
+    .returning();
+  if (row) publishPlanUpdate(row);
+}
+
+// Recomposes one plan from fresh live data and stores the result as a new revision
+export async function runHeartbeat(row: ActionPlanRow): Promise<void> {
+  const inputs = row.composeInputs;
+  if (!inputs) return;
+  const now = new Date();
+
+  const exceeded = await exceededLimit(row.userId);
+  if (exceeded) {
+    await updatePlan(row.id, {
+      nextHeartbeatAt: nextUtcDay(now),
+      heartbeatError: `Skipped: today's ${exceeded} limit is used up. The plan refreshes again after midnight UTC.`,
+    });
+    return;
+  }
+
+  const liveData = await collectUserLiveData(row.userId);
+  const hash = liveDataHash(liveData);
+  // Nothing new to fuse, so composing again would only spend quota on the same plan
+  if (hash === row.liveDataHash) {
+    await updatePlan(row.id, { nextHeartbeatAt: heartbeatDueAt(row.payload, now), heartbeatError: null });
+    return;
+  }
+
+  // Prefer the stored analysis, which may have been refined since the plan was composed
+  let analysis = inputs.analysis;
+  if (row.analysisId) {
+    const [saved] = await db!.select({ payload: analyses.payload }).from(analyses).where(eq(analyses.id, row.analysisId)).limit(1);
+    if (saved) analysis = saved.payload;
+  }
+
+  let decision: { priority: Priority } & PriorityDecision;
+  if (inputs.priority === 'auto') {
+    decision = derivePriority({
+      founderProfile: analysis.founder_profile,
+      liveData,
+      overdueTaskTitles: overdueTasks(row.payload, row.createdAt, now).map(task => task.title),
+    }, now);
+  } else {
+    decision = { priority: inputs.priority, mode: 'manual', reasoning: ['Chosen by the founder'] };
+  }
+  const { priority, ...priorityDecision } = decision;
+
+  const composed = await composeActionPlan(
+    analysis,
+    inputs.opportunities,
+    liveData,
+    analysis.founder_profile,
+    priority,
+    priorityDecision,
+    row.payload,
+    { onUsage: usage => recordUsage(row.userId, usage) }
+  );
+
+  // Merge against the latest stored payload so tasks completed during recomposition aren't lost
+  const [current] = await db!.select().from(actionPlans).where(eq(actionPlans.id, row.id)).limit(1);
+  if (!current) return;
+
+  const revision = current.revision + 1;
+  const merged = mergeWithPreviousPlan(
+    current.payload,
+    composed,
+    `[${logTime()}] HEARTBEAT: Plan recomposed as revision ${revision} from ${liveData.length} live signal${liveData.length === 1 ? '' : 's'}.`
+  );
+
+  const [updated] = await db!.transaction(async (tx) => {
+    const payload = await syncPlanTasks(tx, current, merged);
+    await tx.insert(actionPlanRevisions).values({ planId: row.id, revision, trigger: 'heartbeat', payload });
+    return tx
+      .update(actionPlans)
+      .set({
+        payload,
+        revision,
+        liveDataHash: hash,
+        nextHeartbeatAt: current.heartbeatEnabled ? heartbeatDueAt(merged) : null,
+        heartbeatError: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(actionPlans.id, row.id))
+      .returning();
+  });
+
+  if (updated) publishPlanUpdate(updated);
+}
+
+// Claims due plans one at a time, so overlapping ticks or several server processes never recompose the same plan twice
+async function claimDuePlans(now: Date): Promise<ActionPlanRow[]> {
+  const due = await db!
+    .select()
+    .from(actionPlans)
+    .where(and(
+      eq(actionPlans.heartbeatEnabled, true),
+      isNotNull(actionPlans.composeInputs),
+      lte(actionPlans.nextHeartbeatAt, now),
+    ))
+    .orderBy(actionPlans.nextHeartbeatAt)
+    .limit(BATCH_SIZE);
+
+  const claimed: ActionPlanRow[] = [];
+  for (const row of due) {
+    const [won] = await db!
+      .update(actionPlans)
+      .set({ nextHeartbeatAt: new Date(now.getTime() + CLAIM_MS) })
+      .where(and(eq(actionPlans.id, row.id), eq(actionPlans.nextHeartbeatAt, row.nextHeartbeatAt!)))
+      .returning({ id: actionPlans.id });
+    if (won) claimed.push(row);
+  }
+  return claimed;
+}
+
+async function tick(): Promise<void> {
+  const claimed = await claimDuePlans(new Date());
+  for (const row of claimed) {
+    try {
+      await runHeartbeat(row);
+    } catch (error: any) {
+      console.error(`Heartbeat for action plan ${row.id} failed:`, error);
+      const interval = Math.max(RETRY_AFTER_MS, row.payload.next_heartbeat_in_seconds * 1000);
+      await updatePlan(row.id, {
+        nextHeartbeatAt: new Date(Date.now() + interval),
+        heartbeatError: error?.message || 'Failed to recompose the plan',
+      }).catch(updateError => console.error('Heartbeat bookkeeping error:', updateError));
+    }
+  }
+}
+
+// Polls for plans whose heartbeat is due. Set HEARTBEAT_ENABLED=false to turn automatic recomposition off.
+export function startHeartbeatScheduler(): void {
+  if (!db || process.env.HEARTBEAT_ENABLED === 'false') return;
+
+  let running = false;
+  setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await tick();
+    } catch (error) {
+      console.error('Heartbeat scheduler error:', error);
+    } finally {
+      running = false;
+    }
+  }, POLL_MS).unref();
+}
+
+// A new plan for an analysis supersedes the older ones, which stop refreshing
+export async function retireOlderPlans(userId: number, analysisId: number, keepPlanId: number): Promise<void> {
+  const older = await db!
+    .select({ id: actionPlans.id })
+    .from(actionPlans)
+    .where(and(eq(actionPlans.userId, userId), eq(actionPlans.analysisId, analysisId), eq(actionPlans.heartbeatEnabled, true)))
+    .orderBy(desc(actionPlans.createdAt));
+
+  for (const { id } of older) {
+    if (id !== keepPlanId) await updatePlan(id, { heartbeatEnabled: false, nextHeartbeatAt: null });
+  }
+}
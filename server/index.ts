@@ -1,109 +1,43 @@
 import express, { Request, Response } from 'express';
 import cors from 'cors';
-import bcrypt from 'bcryptjs';
-import crypto from 'crypto';
 import { eq, and, desc } from 'drizzle-orm';
 import { db } from './db';
-import { users, conversations, messages } from '../shared/schema';
+import { conversations, messages } from '../shared/schema';
+import { getSessionUserId, purgeExpiredSessions } from './auth';
+import { authRouter } from './routes/auth';
+import { aiRouter } from './routes/ai';
+import { analysesRouter } from './routes/analyses';
+import { discoveriesRouter } from './routes/discoveries';
+import { actionPlansRouter } from './routes/actionPlans';
+import { founderProfilesRouter } from './routes/founderProfiles';
+import { usageRouter } from './routes/usage';
+import { connectorsRouter } from './routes/connectors';
+import { liveDataRouter } from './routes/liveData';
+import { tasksRouter } from './routes/tasks';
+import { watchlistsRouter } from './routes/watchlists';
+import { shortlistRouter } from './routes/shortlist';
+import { isLLMConfigured } from './llm';
+import { startHeartbeatScheduler } from './heartbeat';
+import { startWatchlistScheduler } from './watchlists';
 
 const app = express();
 const PORT = 3001;
 
 app.use(cors());
-app.use(express.json());
-
-const sessions = new Map<string, number>();
-
-function generateSessionToken(): string {
-  return crypto.randomUUID();
-}
-
-app.post('/api/auth/register', async (req: Request, res: Response): Promise<void> => {
-  try {
-    if (!db) {
-      res.status(503).json({ error: 'Database not configured. Authentication disabled for development.' });
-      return;
-    }
-
-    const { email, password, name } = req.body;
-
-    if (!email || !password || !name) {
-      res.status(400).json({ error: 'All fields are required' });
-      return;
-    }
-
-    const existingUser = await db.select().from(users).where(eq(users.email, email)).limit(1);
-    if (existingUser.length > 0) {
-      res.status(400).json({ error: 'Email already registered' });
-      return;
-    }
-
-    const hashedPassword = await bcrypt.hash(password, 10);
-    const [newUser] = await db.insert(users).values({
-      email,
-      password: hashedPassword,
-      name,
-    }).returning();
-
-    const token = generateSessionToken();
-    sessions.set(token, newUser.id);
-
-    res.json({
-      user: { id: newUser.id, email: newUser.email, name: newUser.name },
-      token,
-    });
-  } catch (error) {
-    console.error('Registration error:', error);
-    res.status(500).json({ error: 'Registration failed' });
-  }
-});
-
-app.post('/api/auth/login', async (req: Request, res: Response): Promise<void> => {
-  try {
-    if (!db) {
-      res.status(503).json({ error: 'Database not configured. Authentication disabled for development.' });
-      return;
-    }
-
-    const { email, password } = req.body;
-
-    if (!email || !password) {
-      res.status(400).json({ error: 'Email and password are required' });
-      return;
-    }
-
-    const [user] = await db.select().from(users).where(eq(users.email, email)).limit(1);
-    if (!user) {
-      res.status(401).json({ error: 'Invalid credentials' });
-      return;
-    }
-
-    const validPassword = await bcrypt.compare(password, user.password);
-    if (!validPassword) {
-      res.status(401).json({ error: 'Invalid credentials' });
-      return;
-    }
-
-    const token = generateSessionToken();
-    sessions.set(token, user.id);
-
-    res.json({
-      user: { id: user.id, email: user.email, name: user.name },
-      token,
-    });
-  } catch (error) {
-    console.error('Login error:', error);
-    res.status(500).json({ error: 'Login failed' });
-  }
-});
-
-app.post('/api/auth/logout', (req: Request, res: Response): void => {
-  const token = req.headers.authorization?.replace('Bearer ', '');
-  if (token) {
-    sessions.delete(token);
-  }
-  res.json({ success: true });
-});
+app.use(express.json({ limit: '2mb' }));
+
+app.use('/api/auth', authRouter);
+app.use('/api', aiRouter);
+app.use('/api/analyses', analysesRouter);
+app.use('/api/discoveries', discoveriesRouter);
+app.use('/api/action-plans', actionPlansRouter);
+app.use('/api/founder-profiles', founderProfilesRouter);
+app.use('/api/usage', usageRouter);
+app.use('/api/connectors', connectorsRouter);
+app.use('/api/live-data', liveDataRouter);
+app.use('/api/tasks', tasksRouter);
+app.use('/api/watchlists', watchlistsRouter);
+app.use('/api/shortlist', shortlistRouter);
 
 app.get('/api/conversations', async (req: Request, res: Response): Promise<void> => {
   try {
@@ -112,8 +46,7 @@ app.get('/api/conversations', async (req: Request, res: Response): Promise<void>
       return;
     }
 
-    const token = req.headers.authorization?.replace('Bearer ', '');
-    const userId = token ? sessions.get(token) : undefined;
+    const userId = await getSessionUserId(req);
 
     if (!userId) {
       res.status(401).json({ error: 'Unauthorized' });
@@ -162,8 +95,7 @@ app.post('/api/conversations', async (req: Request, res: Response): Promise<void
       return;
     }
 
-    const token = req.headers.authorization?.replace('Bearer ', '');
-    const userId = token ? sessions.get(token) : undefined;
+    const userId = await getSessionUserId(req);
 
     if (!userId) {
       res.status(401).json({ error: 'Unauthorized' });
@@ -196,8 +128,7 @@ app.post('/api/conversations/:id/messages', async (req: Request, res: Response):
       return;
     }
 
-    const token = req.headers.authorization?.replace('Bearer ', '');
-    const userId = token ? sessions.get(token) : undefined;
+    const userId = await getSessionUserId(req);
 
     if (!userId) {
       res.status(401).json({ error: 'Unauthorized' });
@@ -248,8 +179,7 @@ app.delete('/api/conversations/:id', async (req: Request, res: Response): Promis
       return;
     }
 
-    const token = req.headers.authorization?.replace('Bearer ', '');
-    const userId = token ? sessions.get(token) : undefined;
+    const userId = await getSessionUserId(req);
 
     if (!userId) {
       res.status(401).json({ error: 'Unauthorized' });
@@ -271,9 +201,19 @@ app.delete('/api/conversations/:id', async (req: Request, res: Response): Promis
 
 app.listen(PORT, () => {
   console.log(`Server running on http://localhost:${PORT}`);
+  if (db) {
+    const purge = () => purgeExpiredSessions().catch((error) => console.error('Session purge error:', error));
+    purge();
+    setInterval(purge, 60 * 60 * 1000).unref();
+    startHeartbeatScheduler();
+    startWatchlistScheduler();
+  }
   if (!db) {
     console.log('⚠️  Database not configured - Authentication features disabled');
-    console.log('   Main features (Analyze, Discover, Compose) will work without database');
     console.log('   To enable authentication, set DATABASE_URL in .env.local');
   }
+  if (!isLLMConfigured()) {
+    console.log('⚠️  GEMINI_API_KEY not set - Analyze, Discover, Compose and chat requests will fail');
+    console.log('   Set LLM_PROVIDER=mock to run against offline fixtures instead');
+  }
 });
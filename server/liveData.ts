@@ -0,0 +1,70 @@
+import { eq, and, desc } from 'drizzle-orm';
+import { db } from './db';
+import { connectors, liveDataItems } from '../shared/schema';
+import { collectLiveData, ConnectorSource } from './connectors';
+import { ConnectorKind, LiveData, LiveDataSource, MAX_LIVE_DATA_ITEMS } from '../types';
+
+export const toConnectorSource = (row: typeof connectors.$inferSelect): ConnectorSource => ({
+  id: row.id.toString(),
+  name: row.name,
+  kind: row.kind as ConnectorKind,
+  config: row.config,
+});
+
+// Only the first line of an error is kept; they are shown next to the connector in the UI
+export const recordConnectorSync = (connectorId: number, error: string | null) =>
+  db!
+    .update(connectors)
+    .set({ lastSyncedAt: new Date(), lastError: error ? error.split('\n')[0].slice(0, 500) : null })
+    .where(eq(connectors.id, connectorId));
+
+// Fetches every enabled connector for the user and records how each sync went
+export async function collectConnectorData(userId: number, signal?: AbortSignal) {
+  const rows = await db!
+    .select()
+    .from(connectors)
+    .where(and(eq(connectors.userId, userId), eq(connectors.enabled, true)));
+
+  const { items, results } = await collectLiveData(rows.map(toConnectorSource), { signal });
+  await Promise.all(results.map(result => recordConnectorSync(Number(result.id), result.error)));
+
+  const errors = results
+    .filter(result => result.error)
+    .map(result => ({
+      id: result.id,
+      name: rows.find(row => row.id.toString() === result.id)?.name ?? '',
+      error: result.error!,
+    }));
+
+  return { items, errors };
+}
+
+// The newest inbox items plus connector data, newest first and capped like connector data alone, so a full
+// inbox can't blow the Composer's context window or the user's token quota
+export async function collectUserLiveData(userId: number, signal?: AbortSignal): Promise<LiveData[]> {
+  const [manual, fromConnectors] = await Promise.all([
+    db!
+      .select()
+      .from(liveDataItems)
+      .where(eq(liveDataItems.userId, userId))
+      .orderBy(desc(liveDataItems.occurredAt))
+      .limit(MAX_LIVE_DATA_ITEMS),
+    collectConnectorData(userId, signal),
+  ]);
+
+  return newestLiveData([
+    ...manual.map((row): LiveData => ({
+      source: row.source as LiveDataSource,
+      content: row.content,
+      timestamp: row.occurredAt.toISOString(),
+    })),
+    ...fromConnectors.items,
+  ]);
+}
+
+export const newestLiveData = (items: LiveData[]): LiveData[] =>
+  [...items].sort((a, b) => b.timestamp.localeCompare(a.timestamp)).slice(0, MAX_LIVE_DATA_ITEMS);
+
+// Live data posted by the client; timestamps and content must be strings so the items can be sorted and prompted
+export const isLiveDataList = (value: unknown): value is LiveData[] => Array.isArray(value)
+  && value.every(item => typeof item?.timestamp === 'string' && typeof item.content === 'string');
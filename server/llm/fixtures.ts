@@ -0,0 +1,233 @@
+import {
+  FounderProfile,
+  UserDrivenResponse,
+  ProactiveDiscoveryResponse,
+  Problem,
+  OpportunityScores,
+  ComposedActionPlan
+} from '../../types';
+
+// Canned, schema-valid responses used by the mock provider. Keep them in sync with types.ts.
+
+export const fixtureFounderProfile: FounderProfile = {
+  experience_years: 3,
+  team_size: 2,
+  runway_months: 6,
+  tech_stack: ['React', 'Node.js', 'PostgreSQL'],
+  location: 'Bangalore, India',
+  funding_stage: 'pre-seed',
+};
+
+export const analysisFixture: UserDrivenResponse = {
+  mode: 'user_driven',
+  input_problem: 'Predict crop failure for small Indian farmers',
+  refined_problem: 'Enable a 2-person team in Bangalore to predict crop loss 7 days ahead for smallholder farmers using free satellite data and SMS alerts.',
+  founder_profile: fixtureFounderProfile,
+  chunks: [
+    {
+      id: 1,
+      title: 'Existing Solutions & Gaps',
+      analysis: '**CropIn** and **Fasal** serve large agribusinesses with paid IoT sensors, which is too expensive for a 6-month runway. Government advisories exist but are generic and delayed.',
+      key_insights: [
+        'Incumbents price out smallholders with hardware-first offerings.',
+        'No player combines free satellite indices with vernacular SMS delivery.',
+      ],
+    },
+    {
+      id: 2,
+      title: 'Feasibility & Scalability',
+      analysis: '- **MVP Cost:** ₹50K - ₹2 Lakh\n- **Tech Stack:** React dashboard, Node.js workers pulling Sentinel-2 NDVI, PostgreSQL, an SMS gateway free tier.\n- **Scalability:** High due to serverless batch jobs.',
+      key_insights: [
+        'Free Sentinel-2 imagery removes the largest data cost.',
+        'Batch scoring keeps infrastructure spend close to zero.',
+      ],
+    },
+    {
+      id: 3,
+      title: 'Market & Edge',
+      analysis: '- **TAM:** Roughly 12M smallholder farms across Karnataka and neighbouring states.\n- **Target User:** Farmer producer organisations managing 200-2,000 members.\n- **UVP:** Offline-first SMS alerts in Kannada.\n- **Govt Support:** [Startup India Seed Fund](https://seedfund.startupindia.gov.in/) offers up to ₹20 Lakh for proof of concept.',
+      key_insights: [
+        'Selling to FPOs shortens the sales cycle compared with individual farmers.',
+        'Seed Fund eligibility aligns with the pre-seed stage.',
+      ],
+    },
+    {
+      id: 4,
+      title: 'Resources & Timeline',
+      analysis: '- **Team:** One full-stack engineer and one founder handling field pilots.\n- **Timeline:** 4-6 weeks to an MVP covering one district.',
+      key_insights: [
+        'Field validation is the critical path, not engineering.',
+      ],
+    },
+    {
+      id: 5,
+      title: 'Ethics & Risks',
+      analysis: 'False alarms could push farmers into unnecessary pesticide spend. Mitigate by publishing confidence levels and pairing alerts with agronomist review during the pilot.',
+      key_insights: [
+        'Model errors carry direct financial harm for farmers.',
+      ],
+    },
+  ],
+  synthesis: {
+    solution_guide: [
+      'Pull 3 seasons of Sentinel-2 NDVI for one district using Google Earth Engine free tier.',
+      'Interview 10 FPO leaders to confirm willingness to pay.',
+      'Build a Node.js scoring job and store results in PostgreSQL.',
+      'Send Kannada SMS alerts through a free-tier gateway.',
+      'Run a 4-week pilot with one FPO and track alert accuracy.',
+    ],
+  },
+};
+
+// Discovery as the model drafts it; the mock provider fills in `evidence` from the request's feed items
+type DiscoveryDraftFixture = Omit<ProactiveDiscoveryResponse, 'problems'> & {
+  problems: (Pick<Problem, 'id' | 'problem_statement' | 'personalization_note'> & { evidence: number[]; scores: OpportunityScores })[];
+};
+
+export const discoveryFixture: DiscoveryDraftFixture = {
+  mode: 'proactive_discovery',
+  sector: 'agritech',
+  founder_profile: fixtureFounderProfile,
+  problems: [
+    {
+      id: 1,
+      problem_statement: 'Smallholder farmers lack early warning for pest outbreaks in their district.',
+      evidence: [],
+      personalization_note: 'Solvable with free satellite data and your Node.js skills inside a 6-month runway.',
+      scores: { market_size: 7, urgency: 9, fit: 9, competition: 6 },
+    },
+    {
+      id: 2,
+      problem_statement: 'Farmer producer organisations track member produce on paper ledgers.',
+      evidence: [],
+      personalization_note: 'A simple React + PostgreSQL app a 2-person team can ship in weeks.',
+      scores: { market_size: 6, urgency: 7, fit: 9, competition: 8 },
+    },
+    {
+      id: 3,
+      problem_statement: 'Cold-storage operators cannot forecast capacity during harvest peaks.',
+      evidence: [],
+      personalization_note: 'Forecasting on existing booking data avoids expensive hardware.',
+      scores: { market_size: 6, urgency: 6, fit: 7, competition: 7 },
+    },
+    {
+      id: 4,
+      problem_statement: 'Mandi price information reaches farmers too late to influence selling decisions.',
+      evidence: [],
+      personalization_note: 'Public mandi feeds plus SMS keep costs under your pre-seed budget.',
+      scores: { market_size: 8, urgency: 8, fit: 8, competition: 5 },
+    },
+    {
+      id: 5,
+      problem_statement: 'Crop insurance claims take months because field evidence is collected manually.',
+      evidence: [],
+      personalization_note: 'Your location gives direct access to insurers piloting digital claims.',
+      scores: { market_size: 7, urgency: 6, fit: 6, competition: 7 },
+    },
+    {
+      id: 6,
+      problem_statement: 'Agri input dealers cannot check which pesticides are genuine before selling them.',
+      evidence: [],
+      personalization_note: 'Counterfeit checks via a barcode lookup fit a small React app and a 6-month runway.',
+      scores: { market_size: 6, urgency: 7, fit: 7, competition: 8 },
+    },
+    {
+      id: 7,
+      problem_statement: 'Drip irrigation subsidies go unclaimed because the application paperwork is too complex.',
+      evidence: [],
+      personalization_note: 'A guided form filler needs no hardware and suits your Node.js skills.',
+      scores: { market_size: 5, urgency: 6, fit: 8, competition: 8 },
+    },
+    {
+      id: 8,
+      problem_statement: 'Tractor owners in rural clusters have no simple way to rent out idle equipment.',
+      evidence: [],
+      personalization_note: 'A marketplace MVP can launch in one district with two people.',
+      scores: { market_size: 7, urgency: 5, fit: 7, competition: 5 },
+    },
+    {
+      id: 9,
+      problem_statement: 'Dairy cooperatives lose milk to spoilage because chilling centre temperatures are not monitored.',
+      evidence: [],
+      personalization_note: 'Cheap temperature loggers plus SMS alerts keep the MVP under ₹2 Lakh.',
+      scores: { market_size: 6, urgency: 8, fit: 6, competition: 7 },
+    },
+    {
+      id: 10,
+      problem_statement: 'Soil test results arrive as PDFs that farmers cannot interpret.',
+      evidence: [],
+      personalization_note: 'Turning reports into vernacular advice is a pure software problem for your team.',
+      scores: { market_size: 6, urgency: 5, fit: 9, competition: 7 },
+    },
+  ],
+};
+
+export const composedPlanFixture: ComposedActionPlan = {
+  mode: 'compose',
+  cap_id: '00000000-0000-4000-8000-000000000000',
+  generated_at: '2025-01-06T10:00:00.000Z',
+  founder_profile: fixtureFounderProfile,
+  priority: 'high',
+  fusion_summary: 'Validate demand with one FPO before building beyond a single-district MVP; the runway only covers one pilot cycle.',
+  fused_insights: [
+    {
+      from_sources: ['analysis.chunk2', 'analysis.chunk4'],
+      insight: 'Field validation, not engineering, bounds the timeline, so pilots must start in week one.',
+      confidence: 0.8,
+    },
+    {
+      from_sources: ['analysis.chunk3', 'opportunities[1]'],
+      insight: 'FPOs are both the buyer and the distribution channel for alerts.',
+      confidence: 0.65,
+    },
+  ],
+  action_plan: [
+    {
+      id: 1,
+      title: 'Schedule FPO interviews',
+      description: 'Book calls with 10 FPO leaders in the target district.',
+      owner: 'founder',
+      executable: false,
+      command: null,
+      status: 'pending',
+      due_in_hours: 48,
+    },
+    {
+      id: 2,
+      title: 'Create NDVI ingestion issue',
+      description: 'Track the Sentinel-2 ingestion job in the repository.',
+      owner: 'ai',
+      executable: true,
+      command: "github create issue --title 'Ingest Sentinel-2 NDVI for pilot district' --body 'Pull weekly NDVI tiles for the pilot district and store per-field averages.' --labels data,pilot",
+      status: 'pending',
+      due_in_hours: 24,
+    },
+    {
+      id: 3,
+      title: 'Draft Seed Fund application',
+      description: 'Prepare the Startup India Seed Fund proof-of-concept application.',
+      owner: 'tool',
+      executable: true,
+      command: "note write --title 'Seed Fund application draft' --body 'Problem, pilot traction, team and a 12-month budget for the Startup India Seed Fund application.'",
+      status: 'pending',
+      due_in_hours: 72,
+    },
+  ],
+  execution_log: [],
+  next_heartbeat_in_seconds: 900,
+  key_considerations: {
+    financial: ['MVP budget of ₹50K - ₹2 Lakh fits a 6-month runway.'],
+    governmental: ['Startup India Seed Fund covers proof-of-concept costs up to ₹20 Lakh.'],
+  },
+};
+
+// The new material a "drill deeper" refinement appends to a chunk
+export const deeperChunkFixture = {
+  analysis: '### Going deeper\n\n| Step | Cost | Time |\n| --- | --- | --- |\n| Pull Sentinel-2 NDVI via Google Earth Engine | Free for research use | 1 week |\n| SMS alerts through a bulk SMS gateway | ~₹0.15 per message | 2 days |\n\nStart with one district and 50 farmers so alert precision can be checked against field reports before scaling.',
+  key_insights: [
+    'A single-district pilot with 50 farmers keeps SMS costs under ₹1,000 a month.',
+    'Field reports from the pilot are the ground truth for tuning alert thresholds.',
+  ],
+};
+
+export const chatReplyFixture = 'This is an offline reply from the mock provider. Ask the same question with LLM_PROVIDER=gemini for a real answer.';
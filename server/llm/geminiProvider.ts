@@ -0,0 +1,166 @@
+import { GoogleGenAI, GenerateContentParameters, GenerateContentResponseUsageMetadata } from '@google/genai';
+import { LLMProvider, ModelTier, GenerationTask, GenerationOptions, StructuredRequest, ChatRequest, EmbeddingRequest } from './types';
+import { withRetry, deadlineSignal, retryPolicy, QuotaExhaustedError } from './retry';
+
+const modelList = (value: string | undefined): string[] =>
+  (value ?? '').split(',').map(model => model.trim()).filter(Boolean);
+
+// Each tier tries its primary model first and moves down the chain when quota runs out
+const MODEL_CHAINS: Record<ModelTier, string[]> = {
+  reasoning: [
+    process.env.GEMINI_REASONING_MODEL || 'gemini-2.5-pro',
+    ...modelList(process.env.GEMINI_REASONING_FALLBACKS ?? 'gemini-2.5-flash'),
+  ],
+  fast: [
+    process.env.GEMINI_FAST_MODEL || 'gemini-2.5-flash',
+    ...modelList(process.env.GEMINI_FAST_FALLBACKS ?? 'gemini-2.5-flash-lite'),
+  ],
+};
+
+const EMBEDDING_MODEL = process.env.GEMINI_EMBEDDING_MODEL || 'text-embedding-004';
+
+export class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini';
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async generateStructured(request: StructuredRequest): Promise<unknown> {
+    const text = await this.generate(request.task, request.tier, request, model => structuredParams(request, model));
+    return JSON.parse(text);
+  }
+
+  async generateChat(request: ChatRequest): Promise<string> {
+    return this.generate('chat', request.tier, request, model => chatParams(request, model));
+  }
+
+  async *streamStructured(request: StructuredRequest): AsyncIterable<string> {
+    yield* this.stream(request.task, request.tier, request, model => structuredParams(request, model));
+  }
+
+  async *streamChat(request: ChatRequest): AsyncIterable<string> {
+    yield* this.stream('chat', request.tier, request, model => chatParams(request, model));
+  }
+
+  async embed(request: EmbeddingRequest): Promise<number[][]> {
+    if (request.texts.length === 0) return [];
+    const startedAt = Date.now();
+    const response = await withRetry(
+      abortSignal => this.ai.models.embedContent({ model: EMBEDDING_MODEL, contents: request.texts, config: { abortSignal } }),
+      { label: `embed on ${EMBEDDING_MODEL}`, signal: request.signal }
+    );
+    // The Gemini API doesn't report token counts for embeddings, so estimate them (~4 characters per token)
+    const promptTokenCount = request.texts.reduce((sum, text) => sum + Math.ceil(text.length / 4), 0);
+    reportUsage(request, 'embed', EMBEDDING_MODEL, { promptTokenCount }, startedAt);
+    return (response.embeddings ?? []).map(embedding => embedding.values ?? []);
+  }
+
+  private async generate(
+    task: GenerationTask,
+    tier: ModelTier,
+    options: GenerationOptions,
+    params: (model: string) => GenerateContentParameters
+  ): Promise<string> {
+    const response = await this.withFallback(tier, async model => {
+      const startedAt = Date.now();
+      const response = await withRetry(
+        abortSignal => this.ai.models.generateContent(withSignal(params(model), abortSignal)),
+        { label: `${task} on ${model}`, signal: options.signal }
+      );
+      reportUsage(options, task, model, response.usageMetadata, startedAt);
+      return response;
+    });
+    return (response.text ?? '').trim();
+  }
+
+  // Only opening the stream is retried; once text has been sent to the client a failure is final
+  private async *stream(
+    task: GenerationTask,
+    tier: ModelTier,
+    options: GenerationOptions,
+    params: (model: string) => GenerateContentParameters
+  ): AsyncIterable<string> {
+    const deadline = deadlineSignal(options.signal, retryPolicy.timeoutMs);
+    const startedAt = Date.now();
+    let streamModel = '';
+    let usage: GenerateContentResponseUsageMetadata | undefined;
+    try {
+      const stream = await this.withFallback(tier, model => {
+        streamModel = model;
+        return withRetry(
+          () => this.ai.models.generateContentStream(withSignal(params(model), deadline.signal)),
+          { label: `${task} stream on ${model}`, signal: deadline.signal, timeoutMs: 0 }
+        );
+      });
+      for await (const response of stream) {
+        // Usage totals arrive on the final response of the stream
+        usage = response.usageMetadata ?? usage;
+        if (response.text) yield response.text;
+      }
+      reportUsage(options, task, streamModel, usage, startedAt);
+    } catch (error) {
+      throw deadline.signal.aborted ? deadline.signal.reason : error;
+    } finally {
+      deadline.dispose();
+    }
+  }
+
+  private async withFallback<T>(tier: ModelTier, run: (model: string) => Promise<T>): Promise<T> {
+    const chain = MODEL_CHAINS[tier];
+    for (let i = 0; i < chain.length - 1; i++) {
+      try {
+        return await run(chain[i]);
+      } catch (error) {
+        if (!(error instanceof QuotaExhaustedError)) throw error;
+        console.warn(`Quota exhausted on ${chain[i]}, falling back to ${chain[i + 1]}`);
+      }
+    }
+    return run(chain[chain.length - 1]);
+  }
+}
+
+const reportUsage = (
+  options: GenerationOptions,
+  task: GenerationTask,
+  model: string,
+  usage: GenerateContentResponseUsageMetadata | undefined,
+  startedAt: number
+) => {
+  options.onUsage?.({
+    task,
+    model,
+    promptTokens: usage?.promptTokenCount ?? 0,
+    responseTokens: usage?.candidatesTokenCount ?? 0,
+    thinkingTokens: usage?.thoughtsTokenCount ?? 0,
+    latencyMs: Date.now() - startedAt,
+  });
+};
+
+const withSignal = (params: GenerateContentParameters, abortSignal: AbortSignal): GenerateContentParameters => ({
+  ...params,
+  config: { ...params.config, abortSignal },
+});
+
+const structuredParams = (request: StructuredRequest, model: string): GenerateContentParameters => ({
+  model,
+  contents: request.prompt,
+  config: {
+    systemInstruction: request.systemInstruction,
+    responseMimeType: 'application/json',
+    responseSchema: request.schema,
+    ...(request.thinkingBudget ? { thinkingConfig: { thinkingBudget: request.thinkingBudget } } : {}),
+  },
+});
+
+const chatParams = (request: ChatRequest, model: string): GenerateContentParameters => ({
+  model,
+  contents: request.messages.map(msg => ({
+    role: msg.role,
+    parts: [{ text: msg.parts }]
+  })),
+  config: {
+    systemInstruction: request.systemInstruction,
+  },
+});
@@ -0,0 +1,32 @@
+import { LLMProvider } from './types';
+import { GeminiProvider } from './geminiProvider';
+import { MockProvider } from './mockProvider';
+
+export * from './types';
+export { validateAgainstSchema, ResponseValidationError } from './validation';
+export { GenerationTimeoutError, QuotaExhaustedError, isAbortError } from './retry';
+
+let provider: LLMProvider | null = null;
+
+// LLM_PROVIDER=mock runs every generation offline against local fixtures
+export function getLLMProvider(): LLMProvider {
+  if (provider) return provider;
+
+  const name = (process.env.LLM_PROVIDER || 'gemini').toLowerCase();
+  if (name === 'mock') {
+    provider = new MockProvider();
+  } else if (name === 'gemini') {
+    const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
+    if (!apiKey) {
+      throw new Error("GEMINI_API_KEY environment variable not set. Provide a valid API key or set LLM_PROVIDER=mock.");
+    }
+    provider = new GeminiProvider(apiKey);
+  } else {
+    throw new Error(`Unknown LLM_PROVIDER "${name}". Expected "gemini" or "mock".`);
+  }
+  return provider;
+}
+
+export function isLLMConfigured(): boolean {
+  return process.env.LLM_PROVIDER?.toLowerCase() === 'mock' || !!(process.env.GEMINI_API_KEY || process.env.API_KEY);
+}
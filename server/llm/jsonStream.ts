@@ -0,0 +1,82 @@
+/**
+ * Incrementally scans streamed JSON text and yields each element of a top-level
+ * array property (e.g. `chunks`) as soon as its closing brace arrives, so callers
+ * can show partial results long before the whole document is complete.
+ */
+export class JsonArrayItemStream {
+  private text = '';
+  private position = 0;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  private lastString = '';
+  private lastKey = '';
+  private arrayDepth = -1;
+  private itemStart = -1;
+
+  constructor(private readonly property: string) {}
+
+  get buffer(): string {
+    return this.text;
+  }
+
+  // Appends a fragment and returns any array items that are now complete
+  push(fragment: string): unknown[] {
+    this.text += fragment;
+    const items: unknown[] = [];
+
+    for (; this.position < this.text.length; this.position++) {
+      const char = this.text[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+          this.lastString = this.text.slice(this.stringStart + 1, this.position);
+        }
+        continue;
+      }
+
+      switch (char) {
+        case '"':
+          this.inString = true;
+          this.stringStart = this.position;
+          break;
+        case ':':
+          this.lastKey = this.lastString;
+          break;
+        case '[':
+          if (this.depth === 1 && this.lastKey === this.property) {
+            this.arrayDepth = this.depth + 1;
+          }
+          this.depth++;
+          break;
+        case '{':
+          if (this.depth === this.arrayDepth) {
+            this.itemStart = this.position;
+          }
+          this.depth++;
+          break;
+        case '}':
+          this.depth--;
+          if (this.depth === this.arrayDepth && this.itemStart >= 0) {
+            items.push(JSON.parse(this.text.slice(this.itemStart, this.position + 1)));
+            this.itemStart = -1;
+          }
+          break;
+        case ']':
+          this.depth--;
+          if (this.depth < this.arrayDepth) {
+            this.arrayDepth = -1;
+          }
+          break;
+      }
+    }
+
+    return items;
+  }
+}
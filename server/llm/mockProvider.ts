@@ -0,0 +1,174 @@
+import crypto from 'crypto';
+import {
+  FounderProfile,
+  Priority,
+  UserDrivenResponse,
+  AnalysisChunk,
+  ChunkRefinement,
+  ComposedActionPlan
+} from '../../types';
+import { LLMProvider, GenerationTask, GenerationOptions, StructuredRequest, ChatRequest, EmbeddingRequest } from './types';
+import { terms } from '../connectors/text';
+import { analysisFixture, discoveryFixture, composedPlanFixture, deeperChunkFixture, chatReplyFixture } from './fixtures';
+
+// Mimics a network stream so the streaming UI can be exercised offline
+const STREAM_DELAY_MS = 20;
+
+async function* drip(pieces: string[], signal?: AbortSignal): AsyncIterable<string> {
+  for (const piece of pieces) {
+    signal?.throwIfAborted();
+    await new Promise(resolve => setTimeout(resolve, STREAM_DELAY_MS));
+    yield piece;
+  }
+}
+
+// Rough token estimate (~4 characters per token) so usage accounting works offline too
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const reportUsage = (options: GenerationOptions, task: GenerationTask, prompt: string, output: string) => {
+  options.onUsage?.({
+    task,
+    model: 'mock',
+    promptTokens: estimateTokens(prompt),
+    responseTokens: estimateTokens(output),
+    thinkingTokens: 0,
+    latencyMs: 0,
+  });
+};
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+// Cites one of the request's sources, the way a grounded model would; `index` wraps around the list
+const withCitation = (text: string, sources: unknown, index: number): string => {
+  const count = Array.isArray(sources) ? sources.length : 0;
+  return count ? `${text.trimEnd()}[^${(index % count) + 1}]` : text;
+};
+
+// The evidence item sharing the most words with the text, as a grounded model would cite it
+const citeClosest = (text: string, items: { ref: number; title: string; summary: string }[]): number[] | null => {
+  const wanted = new Set(terms(text));
+  let best: { ref: number; shared: number } | null = null;
+  for (const item of items) {
+    const shared = new Set(terms(`${item.title} ${item.summary}`).filter(term => wanted.has(term))).size;
+    if (shared > (best?.shared ?? 0)) best = { ref: item.ref, shared };
+  }
+  return best && [best.ref];
+};
+
+// Stands in for an embedding model: word counts hashed into a fixed number of dimensions, so similar wording
+// gives similar vectors
+const EMBEDDING_DIMENSIONS = 256;
+const hashedEmbedding = (text: string): number[] => {
+  const vector = new Array<number>(EMBEDDING_DIMENSIONS).fill(0);
+  for (const term of terms(text)) {
+    vector[crypto.createHash('md5').update(term).digest().readUInt32BE(0) % EMBEDDING_DIMENSIONS] += 1;
+  }
+  return vector;
+};
+
+// Same inputs always produce the same id, so fixtures stay stable across runs
+const deterministicUuid = (seed: unknown): string => {
+  const hex = crypto.createHash('sha1').update(JSON.stringify(seed)).digest('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-4${hex.slice(13, 16)}-8${hex.slice(17, 20)}-${hex.slice(20, 32)}`;
+};
+
+/**
+ * Offline provider that answers every request from local fixtures, personalised
+ * with the request context so callers still see their own inputs echoed back.
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = 'mock';
+
+  async generateStructured(request: StructuredRequest): Promise<unknown> {
+    const result = this.fixtureFor(request);
+    reportUsage(request, request.task, request.prompt, JSON.stringify(result));
+    return result;
+  }
+
+  async generateChat(request: ChatRequest): Promise<string> {
+    const reply = this.replyFor(request);
+    reportUsage(request, 'chat', request.messages.map(m => m.parts).join('\n'), reply);
+    return reply;
+  }
+
+  async *streamStructured(request: StructuredRequest): AsyncIterable<string> {
+    const text = JSON.stringify(this.fixtureFor(request));
+    yield* drip(text.match(/[\s\S]{1,120}/g) ?? [], request.signal);
+    reportUsage(request, request.task, request.prompt, text);
+  }
+
+  async *streamChat(request: ChatRequest): AsyncIterable<string> {
+    const text = this.replyFor(request);
+    yield* drip(text.match(/\s*\S+/g) ?? [], request.signal);
+    reportUsage(request, 'chat', request.messages.map(m => m.parts).join('\n'), text);
+  }
+
+  async embed(request: EmbeddingRequest): Promise<number[][]> {
+    const vectors = request.texts.map(hashedEmbedding);
+    reportUsage(request, 'embed', request.texts.join('\n'), '');
+    return vectors;
+  }
+
+  private fixtureFor(request: StructuredRequest): unknown {
+    const { context } = request;
+    const founderProfile = context.founderProfile as FounderProfile | undefined;
+
+    switch (request.task) {
+      case 'analyze': {
+        const result: UserDrivenResponse = clone(analysisFixture);
+        const problem = String(context.problem ?? result.input_problem);
+        result.input_problem = problem;
+        if (founderProfile) {
+          result.founder_profile = founderProfile;
+          result.refined_problem = `Enable a ${founderProfile.team_size}-person team${founderProfile.location ? ` in ${founderProfile.location}` : ''} to ${problem.charAt(0).toLowerCase()}${problem.slice(1)}.`;
+        }
+        result.chunks.forEach((chunk, index) => {
+          chunk.analysis = withCitation(chunk.analysis, context.sources, index);
+        });
+        return result;
+      }
+      case 'refine': {
+        const sources = context.sources as unknown[] | undefined;
+        if ((context.mode as ChunkRefinement) === 'deepen') {
+          const deeper = clone(deeperChunkFixture);
+          deeper.analysis = withCitation(deeper.analysis, sources, (sources?.length ?? 0) - 1);
+          return deeper;
+        }
+        const chunk = context.chunk as AnalysisChunk;
+        const original = analysisFixture.chunks.find(candidate => candidate.title === chunk.title) ?? chunk;
+        return {
+          analysis: `${withCitation(original.analysis, sources, chunk.id - 1)}\n\n*Regenerated offline by the mock provider.*`,
+          key_insights: clone(original.key_insights),
+        };
+      }
+      case 'discover': {
+        const result = clone(discoveryFixture);
+        const seen = new Set((context.seen as string[] | undefined) ?? []);
+        result.problems = result.problems.filter(problem => !seen.has(problem.problem_statement)).slice(0, 5);
+        result.sector = String(context.sector ?? result.sector);
+        if (founderProfile) result.founder_profile = founderProfile;
+        const items = ((context.evidence as { items: { ref: number; title: string; summary: string }[] }[] | undefined) ?? [])
+          .flatMap(cluster => cluster.items);
+        result.problems.forEach((problem, index) => {
+          problem.evidence = citeClosest(problem.problem_statement, items) ?? (items[index] ? [items[index].ref] : []);
+        });
+        return result;
+      }
+      case 'compose': {
+        const result: ComposedActionPlan = clone(composedPlanFixture);
+        const priority = (context.priority as Priority | undefined) ?? result.priority;
+        result.cap_id = deterministicUuid(context);
+        result.priority = priority;
+        if (founderProfile) result.founder_profile = founderProfile;
+        return result;
+      }
+      default:
+        throw new Error(`Mock provider has no fixture for task "${request.task}"`);
+    }
+  }
+
+  private replyFor(request: ChatRequest): string {
+    const lastMessage = request.messages[request.messages.length - 1];
+    return lastMessage ? `${chatReplyFixture}\n\n> ${lastMessage.parts}` : chatReplyFixture;
+  }
+}
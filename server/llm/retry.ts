@@ -0,0 +1,138 @@
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  // Per attempt for single calls, for the whole stream when streaming; 0 disables it
+  timeoutMs: number;
+}
+
+const envNumber = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+export const retryPolicy: RetryPolicy = {
+  maxRetries: envNumber('LLM_MAX_RETRIES', 3),
+  baseDelayMs: envNumber('LLM_RETRY_BASE_MS', 1000),
+  maxDelayMs: envNumber('LLM_RETRY_MAX_MS', 30000),
+  timeoutMs: envNumber('LLM_TIMEOUT_MS', 180000),
+};
+
+export class GenerationTimeoutError extends Error {
+  constructor(readonly timeoutMs: number) {
+    super(`Generation timed out after ${Math.round(timeoutMs / 1000)} seconds`);
+    this.name = 'GenerationTimeoutError';
+  }
+}
+
+// Rate limiting didn't clear within the retry budget; callers may fall back to another model
+export class QuotaExhaustedError extends Error {
+  constructor(cause: unknown) {
+    super(`Quota exhausted: ${String(cause)}`, { cause });
+    this.name = 'QuotaExhaustedError';
+  }
+}
+
+export const isAbortError = (error: unknown): boolean => (error as any)?.name === 'AbortError';
+
+type FailureKind = 'rate_limited' | 'transient' | 'fatal';
+
+const TRANSIENT_STATUSES = [500, 502, 503, 504];
+const TRANSIENT_PATTERN = /UNAVAILABLE|INTERNAL|DEADLINE_EXCEEDED|ECONNRESET|ETIMEDOUT|EAI_AGAIN|fetch failed|socket hang up/i;
+
+function classify(error: unknown): { kind: FailureKind; retryAfterMs?: number } {
+  const status = typeof (error as any)?.status === 'number' ? (error as any).status : undefined;
+  const message = String((error as any)?.message ?? error);
+
+  if (status === 429 || /\b429\b|RESOURCE_EXHAUSTED/.test(message)) {
+    // Gemini reports its retry-after hint as RetryInfo, e.g. "retryDelay": "17s"
+    const hint = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+    return { kind: 'rate_limited', retryAfterMs: hint ? Math.ceil(Number(hint[1]) * 1000) : undefined };
+  }
+  if ((status && TRANSIENT_STATUSES.includes(status)) || TRANSIENT_PATTERN.test(message)) {
+    return { kind: 'transient' };
+  }
+  return { kind: 'fatal' };
+}
+
+// Exponential backoff with jitter so concurrent callers don't retry in lockstep
+const backoffDelay = (attempt: number, policy: RetryPolicy): number => {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * A signal that aborts when the parent does or when timeoutMs passes, whichever comes
+ * first. Timing out aborts with a GenerationTimeoutError. Call dispose() when finished.
+ */
+export function deadlineSignal(parent: AbortSignal | undefined, timeoutMs: number) {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(parent!.reason);
+  if (parent?.aborted) {
+    controller.abort(parent.reason);
+  } else {
+    parent?.addEventListener('abort', onAbort, { once: true });
+  }
+  const timer = timeoutMs > 0
+    ? setTimeout(() => controller.abort(new GenerationTimeoutError(timeoutMs)), timeoutMs)
+    : undefined;
+
+  return {
+    signal: controller.signal,
+    dispose() {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+interface RetryOptions {
+  label: string;
+  signal?: AbortSignal;
+  policy?: RetryPolicy;
+  // Overrides policy.timeoutMs for each attempt
+  timeoutMs?: number;
+}
+
+/**
+ * Runs operation, retrying transient failures and rate limits with backoff (honouring
+ * retry-after hints). Persistent rate limiting surfaces as QuotaExhaustedError; timeouts,
+ * cancellation and other errors are thrown straight away.
+ */
+export async function withRetry<T>(operation: (signal: AbortSignal) => Promise<T>, options: RetryOptions): Promise<T> {
+  const policy = options.policy ?? retryPolicy;
+  const timeoutMs = options.timeoutMs ?? policy.timeoutMs;
+
+  for (let attempt = 0; ; attempt++) {
+    options.signal?.throwIfAborted();
+    const deadline = deadlineSignal(options.signal, timeoutMs);
+    try {
+      return await operation(deadline.signal);
+    } catch (error) {
+      const failure = deadline.signal.aborted ? deadline.signal.reason : error;
+      const { kind, retryAfterMs } = classify(failure);
+      if (kind === 'fatal') throw failure;
+
+      const delay = retryAfterMs ?? backoffDelay(attempt, policy);
+      if (attempt >= policy.maxRetries || delay > policy.maxDelayMs) {
+        throw kind === 'rate_limited' ? new QuotaExhaustedError(failure) : failure;
+      }
+      console.warn(`${options.label} failed (${kind}), retrying in ${delay}ms [${attempt + 1}/${policy.maxRetries}]`);
+      await sleep(delay, options.signal);
+    } finally {
+      deadline.dispose();
+    }
+  }
+}
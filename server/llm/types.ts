@@ -0,0 +1,55 @@
+import { Schema } from '@google/genai';
+import { ChatMessage } from '../../types';
+
+// Providers map these tiers onto their own model names
+export type ModelTier = 'reasoning' | 'fast';
+
+export type GenerationTask = 'analyze' | 'refine' | 'discover' | 'compose' | 'chat' | 'search' | 'embed';
+
+export interface GenerationUsage {
+  task: GenerationTask;
+  model: string;
+  promptTokens: number;
+  responseTokens: number;
+  thinkingTokens: number;
+  latencyMs: number;
+}
+
+// Per-call hooks supplied by the caller rather than derived from the prompt
+export interface GenerationOptions {
+  signal?: AbortSignal;
+  // Called once for every successful model call, including repair attempts
+  onUsage?: (usage: GenerationUsage) => void;
+}
+
+export interface StructuredRequest extends GenerationOptions {
+  task: GenerationTask;
+  tier: ModelTier;
+  systemInstruction: string;
+  prompt: string;
+  schema: Schema;
+  thinkingBudget?: number;
+  // Raw inputs behind the prompt; offline providers build their answers from these
+  context: Record<string, unknown>;
+}
+
+export interface ChatRequest extends GenerationOptions {
+  tier: ModelTier;
+  systemInstruction: string;
+  messages: ChatMessage[];
+}
+
+export interface EmbeddingRequest extends GenerationOptions {
+  texts: string[];
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  generateStructured(request: StructuredRequest): Promise<unknown>;
+  generateChat(request: ChatRequest): Promise<string>;
+  // Streaming variants yield raw text fragments; concatenated they equal the non-streaming output
+  streamStructured(request: StructuredRequest): AsyncIterable<string>;
+  streamChat(request: ChatRequest): AsyncIterable<string>;
+  // One vector per text, in order; only vectors from the same provider are comparable
+  embed(request: EmbeddingRequest): Promise<number[][]>;
+}
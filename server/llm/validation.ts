@@ -0,0 +1,88 @@
+import { Schema, Type } from '@google/genai';
+import { GenerationTask } from './types';
+
+const MAX_REPORTED_ISSUES = 20;
+
+/**
+ * Checks a parsed model response against the same response schema the model was
+ * given, so `types.ts`, the prompt contract and the runtime check can't drift apart.
+ * Returns a list of human-readable issues (empty when the value is valid).
+ */
+export function validateAgainstSchema(value: unknown, schema: Schema, path = '$'): string[] {
+  const issues: string[] = [];
+  collectIssues(value, schema, path, issues);
+  return issues.slice(0, MAX_REPORTED_ISSUES);
+}
+
+function collectIssues(value: unknown, schema: Schema, path: string, issues: string[]): void {
+  if (value === null || value === undefined) {
+    if (!schema.nullable) issues.push(`${path}: expected ${describe(schema)}, got ${value === null ? 'null' : 'nothing'}`);
+    return;
+  }
+
+  switch (schema.type) {
+    case Type.OBJECT: {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        issues.push(`${path}: expected an object`);
+        return;
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required ?? []) {
+        if (!(key in record)) issues.push(`${path}.${key}: missing required field`);
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+        if (key in record) collectIssues(record[key], propertySchema, `${path}.${key}`, issues);
+      }
+      return;
+    }
+    case Type.ARRAY:
+      if (!Array.isArray(value)) {
+        issues.push(`${path}: expected an array`);
+        return;
+      }
+      if (schema.items) {
+        value.forEach((item, index) => collectIssues(item, schema.items!, `${path}[${index}]`, issues));
+      }
+      return;
+    case Type.STRING:
+      if (typeof value !== 'string') {
+        issues.push(`${path}: expected a string`);
+      } else if (schema.enum && !schema.enum.includes(value)) {
+        issues.push(`${path}: "${value}" is not one of ${schema.enum.join(', ')}`);
+      }
+      return;
+    case Type.INTEGER:
+      if (!Number.isInteger(value)) issues.push(`${path}: expected an integer`);
+      return;
+    case Type.NUMBER:
+      if (typeof value !== 'number' || !Number.isFinite(value)) issues.push(`${path}: expected a number`);
+      return;
+    case Type.BOOLEAN:
+      if (typeof value !== 'boolean') issues.push(`${path}: expected a boolean`);
+      return;
+  }
+}
+
+function describe(schema: Schema): string {
+  return schema.type ? `a value of type ${String(schema.type).toLowerCase()}` : 'a value';
+}
+
+const TASK_LABELS: Record<GenerationTask, string> = {
+  analyze: 'analysis',
+  refine: 'analysis section',
+  discover: 'discovery report',
+  compose: 'action plan',
+  chat: 'reply',
+  search: 'search results',
+  embed: 'embeddings',
+};
+
+// Thrown when the model keeps returning output that doesn't match its response schema
+export class ResponseValidationError extends Error {
+  readonly code = 'invalid_model_output';
+
+  constructor(readonly task: GenerationTask, readonly issues: string[], attempts: number) {
+    super(`The AI returned an incomplete or malformed ${TASK_LABELS[task]} after ${attempts} attempt${attempts === 1 ? '' : 's'}. Please try again.`);
+    this.name = 'ResponseValidationError';
+  }
+}
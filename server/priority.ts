@@ -0,0 +1,111 @@
+import { eq, and, desc } from 'drizzle-orm';
+import { db } from './db';
+import { actionPlans } from '../shared/schema';
+import { FounderProfile, LiveData, Priority, PriorityDecision, ComposedActionPlan, RunwayUnit } from '../types';
+
+export const PRIORITIES: Priority[] = ['urgent', 'high', 'medium', 'low'];
+
+// How often a plan should be revisited at each priority
+export const HEARTBEAT_SECONDS: Record<Priority, number> = {
+  urgent: 300,
+  high: 900,
+  medium: 1800,
+  low: 3600,
+};
+
+export const isPriority = (value: unknown): value is Priority => PRIORITIES.includes(value as Priority);
+
+const MONTHS_PER_UNIT: Record<RunwayUnit, number> = {
+  hours: 1 / (24 * 30),
+  days: 1 / 30,
+  months: 1,
+  years: 12,
+};
+
+export const isRunwayUnit = (value: unknown): value is RunwayUnit =>
+  typeof value === 'string' && Object.hasOwn(MONTHS_PER_UNIT, value);
+
+// Signals only count as urgent while they are fresh
+const URGENT_SIGNAL_WINDOW_HOURS = 72;
+const URGENT_SIGNAL_PATTERN = /\b(urgent|asap|outage|(is|are|went|goes) down|crash(es|ed|ing)?|broken|blocker|blocking|blocked|p0|sev ?1|security|breach|data loss|churn(ed|ing)?|cancel(led|ling|lation)?|refund|lawsuit|deadline|overdue)\b/i;
+
+// Profiles posted with a plan skip the saved-profile validation, so an unknown unit is read as months
+export function runwayInMonths(profile: FounderProfile): number {
+  return profile.runway_months * MONTHS_PER_UNIT[isRunwayUnit(profile.runway_unit) ? profile.runway_unit : 'months'];
+}
+
+export function isUrgentSignal(item: LiveData, now = new Date()): boolean {
+  const age = now.getTime() - new Date(item.timestamp).getTime();
+  return age <= URGENT_SIGNAL_WINDOW_HOURS * 60 * 60 * 1000 && URGENT_SIGNAL_PATTERN.test(item.content);
+}
+
+// Tasks still open after their due_in_hours, counted from when the plan was generated
+export function overdueTasks(plan: ComposedActionPlan, composedAt: Date, now = new Date()) {
+  const generatedAt = new Date(plan.generated_at);
+  const start = Number.isNaN(generatedAt.getTime()) ? composedAt : generatedAt;
+  return plan.action_plan.filter(task =>
+    task.status !== 'done' && start.getTime() + task.due_in_hours * 60 * 60 * 1000 < now.getTime()
+  );
+}
+
+// Overdue tasks from the latest plan composed for the analysis, if there is one
+export async function overdueTasksForAnalysis(userId: number, analysisId: number | null, now = new Date()) {
+  if (!analysisId || !db) return [];
+
+  const [row] = await db
+    .select()
+    .from(actionPlans)
+    .where(and(eq(actionPlans.userId, userId), eq(actionPlans.analysisId, analysisId)))
+    .orderBy(desc(actionPlans.createdAt))
+    .limit(1);
+
+  return row ? overdueTasks(row.payload, row.createdAt, now) : [];
+}
+
+interface PriorityInputs {
+  founderProfile: FounderProfile;
+  liveData: LiveData[];
+  overdueTaskTitles: string[];
+}
+
+const formatMonths = (months: number): string =>
+  months >= 1 ? `${Number(months.toFixed(1))} months` : `${Math.max(1, Math.round(months * 30))} days`;
+
+// Scores runway pressure, fresh urgent signals and slipped tasks, then maps the score onto a priority
+export function derivePriority({ founderProfile, liveData, overdueTaskTitles }: PriorityInputs, now = new Date()): { priority: Priority } & PriorityDecision {
+  let score = 0;
+  const reasoning: string[] = [];
+
+  const runway = runwayInMonths(founderProfile);
+  if (runway <= 1) {
+    score += 4;
+    reasoning.push(`Runway is ${formatMonths(runway)}, a month or less`);
+  } else if (runway <= 3) {
+    score += 2;
+    reasoning.push(`Runway is ${formatMonths(runway)}, under a quarter`);
+  } else if (runway <= 6) {
+    score += 1;
+    reasoning.push(`Runway is ${formatMonths(runway)}, under six months`);
+  } else {
+    reasoning.push(`Runway is ${formatMonths(runway)}, no immediate pressure`);
+  }
+
+  const urgentSignals = liveData.filter(item => isUrgentSignal(item, now));
+  if (urgentSignals.length > 0) {
+    score += urgentSignals.length >= 3 ? 3 : 2;
+    const examples = urgentSignals.slice(0, 2).map(item => `${item.source}: "${item.content.slice(0, 80)}"`).join('; ');
+    reasoning.push(`${urgentSignals.length} urgent live signal${urgentSignals.length === 1 ? '' : 's'} in the last ${URGENT_SIGNAL_WINDOW_HOURS} hours (${examples})`);
+  } else {
+    reasoning.push('No urgent live signals');
+  }
+
+  if (overdueTaskTitles.length > 0) {
+    score += overdueTaskTitles.length >= 3 ? 2 : 1;
+    reasoning.push(`${overdueTaskTitles.length} task${overdueTaskTitles.length === 1 ? '' : 's'} overdue from the previous plan (${overdueTaskTitles.slice(0, 3).join('; ')})`);
+  } else {
+    reasoning.push('No overdue tasks');
+  }
+
+  const priority: Priority = score >= 4 ? 'urgent' : score >= 2 ? 'high' : score >= 1 ? 'medium' : 'low';
+  return { priority, mode: 'auto', reasoning };
+}
@@ -0,0 +1,90 @@
+import { eq, and, asc, desc, inArray, isNull, max } from 'drizzle-orm';
+import { db } from './db';
+import { analyses, problems } from '../shared/schema';
+import { Transaction } from './tasks';
+import { problemKey } from '../shared/keys';
+import { ShortlistAnalysis } from '../types';
+
+/**
+ * Finds or creates the user's problem for a statement and returns the version number the next analysis of it gets.
+ * The problem row is locked until the transaction ends, so two analyses saved at once can't share a version.
+ */
+export async function nextProblemVersion(tx: Transaction, userId: number, statement: string): Promise<{ problemId: number; version: number }> {
+  const dedupKey = problemKey(statement);
+  await tx
+    .insert(problems)
+    .values({ userId, dedupKey, statement })
+    .onConflictDoNothing({ target: [problems.userId, problems.dedupKey] });
+
+  const [problem] = await tx
+    .select()
+    .from(problems)
+    .where(and(eq(problems.userId, userId), eq(problems.dedupKey, dedupKey)))
+    .for('update')
+    .limit(1);
+  const [{ latest }] = await tx
+    .select({ latest: max(analyses.version) })
+    .from(analyses)
+    .where(eq(analyses.problemId, problem.id));
+  await tx.update(problems).set({ statement, updatedAt: new Date() }).where(eq(problems.id, problem.id));
+
+  return { problemId: problem.id, version: (latest ?? 0) + 1 };
+}
+
+// Numbers the user's analyses saved before versioning existed, oldest first
+export async function assignProblemVersions(userId: number): Promise<void> {
+  const unversioned = await db!
+    .select({ id: analyses.id, problem: analyses.problem })
+    .from(analyses)
+    .where(and(eq(analyses.userId, userId), isNull(analyses.problemId)))
+    .orderBy(asc(analyses.createdAt), asc(analyses.id));
+
+  for (const analysis of unversioned) {
+    await db!.transaction(async (tx) => {
+      const { problemId, version } = await nextProblemVersion(tx, userId, analysis.problem);
+      await tx
+        .update(analyses)
+        .set({ problemId, version })
+        .where(and(eq(analyses.id, analysis.id), isNull(analyses.problemId)));
+    });
+  }
+}
+
+// The user's analyses of each statement, keyed by problem key; statements never analyzed are left out
+export async function analysisSummaries(userId: number, statements: string[]): Promise<Map<string, ShortlistAnalysis>> {
+  const keys = [...new Set(statements.map(problemKey))];
+  if (keys.length === 0) return new Map();
+
+  const rows = await db!
+    .select({
+      problemId: problems.id,
+      dedupKey: problems.dedupKey,
+      statement: problems.statement,
+      analysisId: analyses.id,
+      conversationId: analyses.conversationId,
+      updatedAt: analyses.updatedAt,
+    })
+    .from(problems)
+    .innerJoin(analyses, eq(analyses.problemId, problems.id))
+    .where(and(eq(problems.userId, userId), inArray(problems.dedupKey, keys)))
+    .orderBy(desc(analyses.version));
+
+  // Newest version first, so the first row of each problem is its latest analysis
+  const summaries = new Map<string, ShortlistAnalysis>();
+  for (const row of rows) {
+    const summary = summaries.get(row.dedupKey);
+    if (summary) {
+      summary.versionCount++;
+      continue;
+    }
+    summaries.set(row.dedupKey, {
+      id: row.problemId.toString(),
+      statement: row.statement,
+      versionCount: 1,
+      latestAnalysisId: row.analysisId.toString(),
+      conversationId: row.conversationId?.toString() ?? null,
+      updatedAt: row.updatedAt.getTime(),
+    });
+  }
+  return summaries;
+}
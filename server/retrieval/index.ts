@@ -0,0 +1,68 @@
+import { CitedSource } from '../../types';
+import { GenerationOptions, isAbortError } from '../llm';
+import { RetrievalBackend } from './types';
+import { SearchGroundingBackend } from './searchGrounding';
+import { LocalIndexBackend } from './localIndex';
+import { SourceRegistry } from './registry';
+
+export * from './types';
+export { SourceRegistry } from './registry';
+
+// Documents kept per query, and per generation across all its queries
+const RESULTS_PER_QUERY = 4;
+const MAX_SOURCES = 12;
+
+let backend: RetrievalBackend | null | undefined;
+
+/**
+ * RETRIEVAL_BACKEND=search|local|none. Without it, the mock provider uses the local index, Gemini uses search
+ * grounding, and analyses run ungrounded when neither is configured.
+ */
+export function getRetrievalBackend(): RetrievalBackend | null {
+  if (backend !== undefined) return backend;
+
+  const apiKey = process.env.GEMINI_API_KEY || process.env.API_KEY;
+  const name = (process.env.RETRIEVAL_BACKEND
+    || (process.env.LLM_PROVIDER?.toLowerCase() === 'mock' ? 'local' : apiKey ? 'search' : 'none')).toLowerCase();
+
+  if (name === 'search') {
+    if (!apiKey) {
+      throw new Error('RETRIEVAL_BACKEND=search needs GEMINI_API_KEY. Set RETRIEVAL_BACKEND=local or none instead.');
+    }
+    backend = new SearchGroundingBackend(apiKey);
+  } else if (name === 'local') {
+    backend = new LocalIndexBackend();
+  } else if (name === 'none') {
+    backend = null;
+  } else {
+    throw new Error(`Unknown RETRIEVAL_BACKEND "${name}". Expected "search", "local" or "none".`);
+  }
+  return backend;
+}
+
+/**
+ * Runs the queries against the configured backend and registers what they find after the seed sources.
+ * A failed query only costs its sources: the generation still runs, with fewer (or no) citations.
+ */
+export async function retrieveSources(queries: string[], options: GenerationOptions = {}, seed: CitedSource[] = []): Promise<SourceRegistry> {
+  const registry = new SourceRegistry(seed);
+  const retrieval = getRetrievalBackend();
+  if (!retrieval) return registry;
+
+  const results = await Promise.allSettled(
+    queries.map(query => retrieval.search(query, { ...options, limit: RESULTS_PER_QUERY }))
+  );
+  options.signal?.throwIfAborted();
+
+  for (const [index, result] of results.entries()) {
+    if (result.status === 'rejected') {
+      if (!isAbortError(result.reason)) console.warn(`${retrieval.name} retrieval failed for "${queries[index]}":`, result.reason);
+      continue;
+    }
+    for (const document of result.value) {
+      if (registry.size >= seed.length + MAX_SOURCES) return registry;
+      registry.add(document);
+    }
+  }
+  return registry;
+}
@@ -0,0 +1,85 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { terms } from '../connectors/text';
+import { RetrievalBackend, RetrievalOptions, RetrievedDocument } from './types';
+
+const DEFAULT_INDEX = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'documents.json');
+const MAX_SNIPPET_LENGTH = 300;
+
+interface IndexedDocument extends RetrievedDocument {
+  text: string;
+  terms: Map<string, number>;
+}
+
+const countTerms = (words: string[]) => {
+  const counts = new Map<string, number>();
+  for (const word of words) counts.set(word, (counts.get(word) ?? 0) + 1);
+  return counts;
+};
+
+/**
+ * Ranks documents from a JSON file (`[{ url, title, text }]`) by TF-IDF against the query and uses the sentence
+ * with the most query terms as the snippet. Points at `RETRIEVAL_INDEX_PATH`, or the bundled fixtures.
+ */
+export class LocalIndexBackend implements RetrievalBackend {
+  readonly name = 'local';
+  private documents: Promise<IndexedDocument[]> | null = null;
+
+  constructor(private readonly indexPath = process.env.RETRIEVAL_INDEX_PATH || DEFAULT_INDEX) {}
+
+  async search(query: string, options: RetrievalOptions): Promise<RetrievedDocument[]> {
+    options.signal?.throwIfAborted();
+    const documents = await this.load();
+    const queryTerms = [...new Set(terms(query))];
+
+    const scored = documents
+      .map(document => ({
+        document,
+        score: queryTerms.reduce((sum, term) => {
+          const frequency = document.terms.get(term) ?? 0;
+          if (!frequency) return sum;
+          const containing = documents.filter(other => other.terms.has(term)).length;
+          return sum + (1 + Math.log(frequency)) * Math.log(1 + documents.length / containing);
+        }, 0),
+      }))
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit);
+
+    return scored.map(({ document }) => ({
+      url: document.url,
+      title: document.title,
+      snippet: bestSentence(document.text, queryTerms),
+    }));
+  }
+
+  private load(): Promise<IndexedDocument[]> {
+    this.documents ??= fs.readFile(this.indexPath, 'utf8').then(raw => {
+      const entries = JSON.parse(raw) as { url: string; title: string; text: string }[];
+      return entries.map(entry => ({
+        url: entry.url,
+        title: entry.title,
+        snippet: '',
+        text: entry.text,
+        terms: countTerms(terms(`${entry.title} ${entry.text}`)),
+      }));
+    });
+    return this.documents;
+  }
+}
+
+function bestSentence(text: string, queryTerms: string[]): string {
+  const sentences = text.match(/[^.!?]+[.!?]*/g) ?? [text];
+  let best = sentences[0];
+  let bestScore = -1;
+  for (const sentence of sentences) {
+    const sentenceTerms = new Set(terms(sentence));
+    const score = queryTerms.filter(term => sentenceTerms.has(term)).length;
+    if (score > bestScore) {
+      best = sentence;
+      bestScore = score;
+    }
+  }
+  return best.trim().slice(0, MAX_SNIPPET_LENGTH);
+}
@@ -0,0 +1,80 @@
+import { AnalysisChunk, CitedSource } from '../../types';
+import { RetrievedDocument } from './types';
+
+const CITATION_MARKER = /\[\^(\d+)\]/g;
+
+// Two search hits for the same page often differ only by a fragment or a trailing slash
+const normalizeUrl = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return parsed.toString().replace(/\/$/, '');
+  } catch {
+    return url.trim();
+  }
+};
+
+/**
+ * The numbered list of sources a generation may cite. The model cites them as `[^n]` with the numbers given
+ * here; `cite` then renumbers each chunk's markers from 1 and attaches only the sources that chunk uses.
+ */
+export class SourceRegistry {
+  private sources: CitedSource[] = [];
+  private ids = new Map<string, number>();
+
+  // Seeding with a chunk's own sources keeps the markers already in its text pointing at the same documents
+  constructor(seed: CitedSource[] = []) {
+    seed.forEach(source => this.add(source, source.retrieved_at));
+  }
+
+  get size(): number {
+    return this.sources.length;
+  }
+
+  list(): CitedSource[] {
+    return [...this.sources];
+  }
+
+  // Returns the source's 1-based id, reusing the existing one when the URL is already registered
+  add(document: RetrievedDocument, retrievedAt = new Date().toISOString()): number {
+    const key = normalizeUrl(document.url);
+    const existing = this.ids.get(key);
+    if (existing) return existing;
+
+    this.sources.push({ url: document.url, title: document.title, snippet: document.snippet, retrieved_at: retrievedAt });
+    this.ids.set(key, this.sources.length);
+    return this.sources.length;
+  }
+
+  promptList(): string {
+    return this.sources
+      .map((source, index) => `[${index + 1}] ${source.title} — ${source.url}\n    ${source.snippet}`)
+      .join('\n');
+  }
+
+  /**
+   * Renumbers the chunk's citation markers by first appearance, drops markers that don't match a registered
+   * source and sets `sources` to the cited documents in that order. Key insights are kept free of markers.
+   */
+  cite(chunk: AnalysisChunk): AnalysisChunk {
+    const cited: CitedSource[] = [];
+    const local = new Map<number, number>();
+
+    const analysis = chunk.analysis.replace(CITATION_MARKER, (_, id: string) => {
+      const source = this.sources[Number(id) - 1];
+      if (!source) return '';
+      if (!local.has(Number(id))) {
+        cited.push(source);
+        local.set(Number(id), cited.length);
+      }
+      return `[^${local.get(Number(id))}]`;
+    });
+
+    return {
+      ...chunk,
+      analysis,
+      key_insights: chunk.key_insights.map(insight => insight.replace(CITATION_MARKER, '').trim()),
+      sources: cited,
+    };
+  }
+}
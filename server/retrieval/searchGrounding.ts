@@ -0,0 +1,74 @@
+import { GoogleGenAI } from '@google/genai';
+import { withRetry } from '../llm/retry';
+import { RetrievalBackend, RetrievalOptions, RetrievedDocument } from './types';
+
+const SEARCH_MODEL = process.env.GEMINI_SEARCH_MODEL || 'gemini-2.5-flash';
+const REDIRECT_TIMEOUT_MS = 5_000;
+const MAX_SNIPPET_LENGTH = 300;
+
+// Grounding links point at a Google redirect; follow it once so citations show the publisher's URL
+async function resolveRedirect(uri: string, signal?: AbortSignal): Promise<string> {
+  if (!/^https:\/\/vertexaisearch\.cloud\.google\.com\//.test(uri)) return uri;
+  try {
+    const timeout = AbortSignal.timeout(REDIRECT_TIMEOUT_MS);
+    const response = await fetch(uri, {
+      method: 'HEAD',
+      redirect: 'manual',
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+    });
+    return response.headers.get('location') || uri;
+  } catch {
+    return uri;
+  }
+}
+
+/**
+ * Runs the query through Gemini with the Google Search tool and returns the pages the answer was grounded on,
+ * each with the passages of the answer they support as its snippet.
+ */
+export class SearchGroundingBackend implements RetrievalBackend {
+  readonly name = 'search';
+  private ai: GoogleGenAI;
+
+  constructor(apiKey: string) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async search(query: string, options: RetrievalOptions): Promise<RetrievedDocument[]> {
+    const startedAt = Date.now();
+    const response = await withRetry(
+      abortSignal => this.ai.models.generateContent({
+        model: SEARCH_MODEL,
+        contents: `Find recent, authoritative sources on: ${query}\nSummarise the key facts, with figures where available.`,
+        config: { tools: [{ googleSearch: {} }], abortSignal },
+      }),
+      { label: `search on ${SEARCH_MODEL}`, signal: options.signal }
+    );
+    options.onUsage?.({
+      task: 'search',
+      model: SEARCH_MODEL,
+      promptTokens: response.usageMetadata?.promptTokenCount ?? 0,
+      responseTokens: response.usageMetadata?.candidatesTokenCount ?? 0,
+      thinkingTokens: response.usageMetadata?.thoughtsTokenCount ?? 0,
+      latencyMs: Date.now() - startedAt,
+    });
+
+    const metadata = response.candidates?.[0]?.groundingMetadata;
+    const supports = metadata?.groundingSupports ?? [];
+    const pages = (metadata?.groundingChunks ?? [])
+      .map((chunk, index) => ({ web: chunk.web, index }))
+      .filter(({ web }) => web?.uri)
+      .slice(0, options.limit);
+
+    return Promise.all(pages.map(async ({ web, index }) => {
+      const passages = supports
+        .filter(support => support.groundingChunkIndices?.includes(index) && support.segment?.text)
+        .map(support => support.segment!.text!.trim());
+      return {
+        url: await resolveRedirect(web!.uri!, options.signal),
+        title: web!.title || new URL(web!.uri!).hostname,
+        snippet: passages.join(' ').slice(0, MAX_SNIPPET_LENGTH),
+      };
+    }));
+  }
+}
@@ -0,0 +1,18 @@
+import { GenerationOptions } from '../llm';
+
+// A document a backend found for a query, before it is cited
+export interface RetrievedDocument {
+  url: string;
+  title: string;
+  snippet: string;
+}
+
+export interface RetrievalOptions extends GenerationOptions {
+  limit: number;
+}
+
+// Where analyses get their sources from: web search in production, a local document index offline and in tests
+export interface RetrievalBackend {
+  readonly name: string;
+  search(query: string, options: RetrievalOptions): Promise<RetrievedDocument[]>;
+}
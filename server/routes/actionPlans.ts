@@ -0,0 +1,533 @@
+import { Router, Request, Response } from 'express';
+import { eq, and, desc } from 'drizzle-orm';
+import { db } from '../db';
+import { actionPlans, actionPlanRevisions, actionOutputs, tasks } from '../../shared/schema';
+import { requireAuth } from '../auth';
+import { openEventStream } from '../sse';
+import { isPriority } from '../priority';
+import { heartbeatDueAt, retireOlderPlans, subscribeToPlanUpdates, publishPlanUpdate, MAX_LOG_ENTRIES } from '../heartbeat';
+import { executeCommand, previewCommand, recordOutcome, ExecutionOutcome } from '../commands';
+import { applyTaskSchedule, findTaskByTitle, isActionStatus, moveTask, setTaskStatus, syncPlanTasks, syncStoredPlanTasks } from '../tasks';
+import { contentDisposition, exportPlan, isPlanExportFormat } from '../export';
+import { PlanImportError, TaskSchedule, unwrapPlanImport } from '../export/plan';
+import { composedActionPlanSchemaWithConsiderations } from '../aiService';
+import { validateAgainstSchema } from '../llm/validation';
+import { parseId, ownedConversationId, ownedAnalysisId } from './utils';
+import { ComposeInputs, ComposedActionPlan } from '../../types';
+
+export const actionPlansRouter = Router();
+
+actionPlansRouter.use(requireAuth);
+
+const toSavedActionPlan = (row: typeof actionPlans.$inferSelect) => ({
+  id: row.id.toString(),
+  conversationId: row.conversationId?.toString() ?? null,
+  analysisId: row.analysisId?.toString() ?? null,
+  revision: row.revision,
+  heartbeatEnabled: row.heartbeatEnabled,
+  nextHeartbeatAt: row.nextHeartbeatAt ? row.nextHeartbeatAt.getTime() : null,
+  heartbeatError: row.heartbeatError,
+  createdAt: row.createdAt.getTime(),
+  updatedAt: row.updatedAt.getTime(),
+  data: row.payload,
+});
+
+const isComposeInputs = (data: unknown): data is ComposeInputs => {
+  const inputs = data as ComposeInputs | null;
+  return typeof inputs === 'object' && inputs !== null &&
+    inputs.analysis?.mode === 'user_driven' &&
+    Array.isArray(inputs.opportunities) &&
+    (inputs.priority === 'auto' || isPriority(inputs.priority));
+};
+
+// The execution log and each task's execution record what the server actually ran, so a client never writes them
+const withoutExecutions = (plan: ComposedActionPlan): ComposedActionPlan => ({
+  ...plan,
+  action_plan: plan.action_plan.map(({ execution: _execution, ...task }) => task),
+  execution_log: [],
+});
+
+const withStoredExecutions = (plan: ComposedActionPlan, stored: ComposedActionPlan): ComposedActionPlan => {
+  const executions = new Map(stored.action_plan.map(task => [task.id, task.execution]));
+  return {
+    ...plan,
+    action_plan: plan.action_plan.map(({ execution: _execution, ...task }) => {
+      const execution = executions.get(task.id);
+      return execution ? { ...task, execution } : task;
+    }),
+    execution_log: stored.execution_log,
+  };
+};
+
+const isComposedPlan = (data: unknown): data is ComposedActionPlan =>
+  typeof data === 'object' && data !== null &&
+  (data as ComposedActionPlan).mode === 'compose' && Array.isArray((data as ComposedActionPlan).action_plan);
+
+const KEEPALIVE_MS = 25_000;
+
+// Tasks whose command is running right now, so a double-click can't run it twice
+const runningTasks = new Set<string>();
+
+actionPlansRouter.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId: number = res.locals.userId;
+    const analysisId = req.query.analysisId !== undefined ? parseId(req.query.analysisId) : undefined;
+
+    const rows = await db!
+      .select()
+      .from(actionPlans)
+      .where(analysisId !== undefined
+        ? and(eq(actionPlans.userId, userId), eq(actionPlans.analysisId, analysisId ?? -1))
+        : eq(actionPlans.userId, userId))
+      .orderBy(desc(actionPlans.createdAt));
+
+    res.json(rows.map(toSavedActionPlan));
+  } catch (error) {
+    console.error('Get action plans error:', error);
+    res.status(500).json({ error: 'Failed to fetch action plans' });
+  }
+});
+
+// Pushes a `plan` event whenever one of the user's plans changes on the server, e.g. after a heartbeat
+actionPlansRouter.get('/events', (req: Request, res: Response): void => {
+  const stream = openEventStream(res);
+  const unsubscribe = subscribeToPlanUpdates(res.locals.userId, row => stream.send('plan', toSavedActionPlan(row)));
+  const keepalive = setInterval(() => stream.ping(), KEEPALIVE_MS);
+
+  res.on('close', () => {
+    clearInterval(keepalive);
+    unsubscribe();
+  });
+});
+
+actionPlansRouter.get('/:id/revisions', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const [plan] = await db!
+      .select({ id: actionPlans.id })
+      .from(actionPlans)
+      .where(and(eq(actionPlans.id, parseId(req.params.id) ?? -1), eq(actionPlans.userId, res.locals.userId)))
+      .limit(1);
+
+    if (!plan) {
+      res.status(404).json({ error: 'Action plan not found' });
+      return;
+    }
+
+    const rows = await db!
+      .select()
+      .from(actionPlanRevisions)
+      .where(eq(actionPlanRevisions.planId, plan.id))
+      .orderBy(desc(actionPlanRevisions.revision));
+
+    res.json(rows.map(row => ({
+      revision: row.revision,
+      trigger: row.trigger,
+      createdAt: row.createdAt.getTime(),
+      data: row.payload,
+    })));
+  } catch (error) {
+    console.error('Get action plan revisions error:', error);
+    res.status(500).json({ error: 'Failed to fetch action plan revisions' });
+  }
+});
+
+async function findOwnedPlan(userId: number, id: unknown) {
+  const [row] = await db!
+    .select()
+    .from(actionPlans)
+    .where(and(eq(actionPlans.id, parseId(id) ?? -1), eq(actionPlans.userId, userId)))
+    .limit(1);
+  return row;
+}
+
+// Writes the outcome into the latest stored payload, so a heartbeat or edit that landed meanwhile isn't lost
+async function applyOutcome(planId: number, taskId: number, outcome: ExecutionOutcome) {
+  const row = await db!.transaction(async (tx) => {
+    const [current] = await tx.select().from(actionPlans).where(eq(actionPlans.id, planId)).for('update').limit(1);
+    if (!current) return undefined;
+
+    const succeeded = outcome.execution.status === 'succeeded';
+    const payload: ComposedActionPlan = {
+      ...current.payload,
+      action_plan: current.payload.action_plan.map(task => task.id !== taskId ? task : {
+        ...task,
+        execution: outcome.execution,
+        status: succeeded ? 'done' as const : task.status,
+      }),
+      execution_log: [...current.payload.execution_log, outcome.logEntry].slice(-MAX_LOG_ENTRIES),
+    };
+
+    const executed = current.payload.action_plan.find(task => task.id === taskId);
+    const boardTask = succeeded && executed ? await findTaskByTitle(current.userId, executed.title, tx) : undefined;
+    if (boardTask) await moveTask(tx, boardTask, 'done', 'command');
+
+    const [updated] = await tx
+      .update(actionPlans)
+      .set({ payload, updatedAt: new Date() })
+      .where(eq(actionPlans.id, planId))
+      .returning();
+    return updated;
+  });
+
+  if (row) publishPlanUpdate(row);
+  return row;
+}
+
+// Shows what a task's command would do before the founder approves it
+actionPlansRouter.get('/:id/tasks/:taskId/command', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const plan = await findOwnedPlan(res.locals.userId, req.params.id);
+    const task = plan?.payload.action_plan.find(t => t.id === parseId(req.params.taskId));
+
+    if (!plan || !task) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+
+    res.json(previewCommand(task));
+  } catch (error) {
+    console.error('Preview task command error:', error);
+    res.status(500).json({ error: 'Failed to preview task command' });
+  }
+});
+
+// Runs a task's command only once the founder approves it; rejections are logged too
+actionPlansRouter.post('/:id/tasks/:taskId/execute', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId: number = res.locals.userId;
+    const { decision } = req.body;
+
+    if (decision !== 'approve' && decision !== 'reject') {
+      res.status(400).json({ error: 'Decision must be "approve" or "reject"' });
+      return;
+    }
+
+    const plan = await findOwnedPlan(userId, req.params.id);
+    const task = plan?.payload.action_plan.find(t => t.id === parseId(req.params.taskId));
+
+    if (!plan || !task) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+    if (task.execution?.status === 'succeeded') {
+      res.status(409).json({ error: 'This task has already been executed' });
+      return;
+    }
+
+    const key = `${plan.id}:${task.id}`;
+    if (runningTasks.has(key)) {
+      res.status(409).json({ error: 'This task is already running' });
+      return;
+    }
+
+    runningTasks.add(key);
+    let row: typeof actionPlans.$inferSelect | undefined;
+    let outcome: ExecutionOutcome;
+    try {
+      outcome = decision === 'approve'
+        ? await executeCommand(task, userId, plan.id)
+        : recordOutcome(task, 'rejected', 'Founder rejected the command; nothing was run');
+      row = await applyOutcome(plan.id, task.id, outcome);
+    } finally {
+      runningTasks.delete(key);
+    }
+
+    if (!row) {
+      res.status(404).json({ error: 'Action plan not found' });
+      return;
+    }
+
+    res.json({ execution: outcome.execution, plan: toSavedActionPlan(row) });
+  } catch (error) {
+    console.error('Execute task command error:', error);
+    res.status(500).json({ error: 'Failed to execute task command' });
+  }
+});
+
+// Task progress from the Composer; goes through the task board so it survives recomposition
+actionPlansRouter.put('/:id/tasks/:taskId', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId: number = res.locals.userId;
+    const { status } = req.body;
+
+    if (!isActionStatus(status)) {
+      res.status(400).json({ error: 'Status must be pending, in_progress or done' });
+      return;
+    }
+
+    const plan = await findOwnedPlan(userId, req.params.id);
+    const task = plan?.payload.action_plan.find(t => t.id === parseId(req.params.taskId));
+
+    if (!plan || !task) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+
+    // Plans saved before the board existed get their tasks added on first use
+    let boardTask = await findTaskByTitle(userId, task.title);
+    if (!boardTask) {
+      await syncStoredPlanTasks(plan);
+      boardTask = await findTaskByTitle(userId, task.title);
+    }
+    if (!boardTask) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+
+    const update = await setTaskStatus(userId, boardTask.id, status, 'composer');
+    if (update?.plan) publishPlanUpdate(update.plan);
+
+    const [row] = await db!.select().from(actionPlans).where(eq(actionPlans.id, plan.id)).limit(1);
+    res.json(toSavedActionPlan(row));
+  } catch (error) {
+    console.error('Update task status error:', error);
+    res.status(500).json({ error: 'Failed to update task status' });
+  }
+});
+
+actionPlansRouter.get('/:id/outputs', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const plan = await findOwnedPlan(res.locals.userId, req.params.id);
+
+    if (!plan) {
+      res.status(404).json({ error: 'Action plan not found' });
+      return;
+    }
+
+    const rows = await db!
+      .select()
+      .from(actionOutputs)
+      .where(eq(actionOutputs.planId, plan.id))
+      .orderBy(desc(actionOutputs.createdAt));
+
+    res.json(rows.map(row => ({
+      id: row.id.toString(),
+      planId: row.planId.toString(),
+      taskId: row.taskId,
+      kind: row.kind,
+      title: row.title,
+      body: row.body,
+      recipient: row.recipient,
+      remindAt: row.remindAt ? row.remindAt.getTime() : null,
+      createdAt: row.createdAt.getTime(),
+    })));
+  } catch (error) {
+    console.error('Get action outputs error:', error);
+    res.status(500).json({ error: 'Failed to fetch action outputs' });
+  }
+});
+
+// Downloads the plan's tasks as an iCalendar file (to-dos, or events with `events=1`), a CSV or a re-importable JSON file
+actionPlansRouter.get('/:id/export', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const format = req.query.format ?? 'ics';
+
+    if (!isPlanExportFormat(format)) {
+      res.status(400).json({ error: 'Format must be ics, csv or json' });
+      return;
+    }
+
+    const plan = await findOwnedPlan(res.locals.userId, req.params.id);
+
+    if (!plan) {
+      res.status(404).json({ error: 'Action plan not found' });
+      return;
+    }
+
+    // Due dates and assignees changed on the board win over the plan's own
+    const boardTasks = await db!.select().from(tasks).where(eq(tasks.planId, plan.id));
+    const schedule = new Map<number, TaskSchedule>();
+    for (const task of boardTasks) {
+      if (task.planTaskId !== null && task.dueAt) schedule.set(task.planTaskId, { dueAt: task.dueAt, assignee: task.assignee });
+    }
+
+    const file = exportPlan(plan.payload, format, {
+      planId: plan.id.toString(),
+      composedAt: plan.createdAt,
+      exportedAt: new Date(),
+      schedule,
+    }, req.query.events === '1');
+    res.set({
+      'Content-Type': file.contentType,
+      'Content-Disposition': contentDisposition(file.filename),
+      'Content-Length': String(file.body.length),
+    });
+    res.send(file.body);
+  } catch (error) {
+    console.error('Export action plan error:', error);
+    res.status(500).json({ error: 'Failed to export action plan' });
+  }
+});
+
+actionPlansRouter.get('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const [row] = await db!
+      .select()
+      .from(actionPlans)
+      .where(and(eq(actionPlans.id, parseId(req.params.id) ?? -1), eq(actionPlans.userId, res.locals.userId)))
+      .limit(1);
+
+    if (!row) {
+      res.status(404).json({ error: 'Action plan not found' });
+      return;
+    }
+
+    res.json(toSavedActionPlan(row));
+  } catch (error) {
+    console.error('Get action plan error:', error);
+    res.status(500).json({ error: 'Failed to fetch action plan' });
+  }
+});
+
+actionPlansRouter.post('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId: number = res.locals.userId;
+    const { data, conversationId, analysisId, inputs } = req.body;
+
+    if (!isComposedPlan(data)) {
+      res.status(400).json({ error: 'A composed action plan is required' });
+      return;
+    }
+    if (inputs !== undefined && !isComposeInputs(inputs)) {
+      res.status(400).json({ error: 'Compose inputs need an analysis, a list of opportunities and a priority' });
+      return;
+    }
+
+    const ownedAnalysis = await ownedAnalysisId(userId, analysisId);
+    const conversation = await ownedConversationId(userId, conversationId);
+
+    // Without its inputs a plan can't be recomposed, so it only gets a heartbeat when they are supplied
+    const row = await db!.transaction(async (tx) => {
+      const [created] = await tx.insert(actionPlans).values({
+        userId,
+        conversationId: conversation,
+        analysisId: ownedAnalysis,
+        payload: withoutExecutions(data),
+        composeInputs: inputs ?? null,
+        heartbeatEnabled: !!inputs,
+        nextHeartbeatAt: inputs ? heartbeatDueAt(data) : null,
+      }).returning();
+      // Tasks the founder already has on the board keep their progress
+      const payload = await syncPlanTasks(tx, created);
+      const [synced] = await tx.update(actionPlans).set({ payload }).where(eq(actionPlans.id, created.id)).returning();
+      await tx.insert(actionPlanRevisions).values({ planId: created.id, revision: 1, trigger: 'compose', payload });
+      return synced;
+    });
+
+    if (ownedAnalysis && inputs) {
+      await retireOlderPlans(userId, ownedAnalysis, row.id);
+    }
+
+    res.json(toSavedActionPlan(row));
+  } catch (error) {
+    console.error('Create action plan error:', error);
+    res.status(500).json({ error: 'Failed to save action plan' });
+  }
+});
+
+// Saves a plan from a JSON export (or a bare plan) as a new plan; it has no compose inputs, so it never auto-refreshes
+actionPlansRouter.post('/import', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId: number = res.locals.userId;
+    const { plan: data, composedAt, schedule } = unwrapPlanImport(req.body.data);
+
+    const issues = validateAgainstSchema(data, composedActionPlanSchemaWithConsiderations, '$.plan');
+    if (issues.length > 0) {
+      res.status(400).json({ error: 'The file is not a valid action plan', issues });
+      return;
+    }
+
+    const payload = withoutExecutions(data as ComposedActionPlan);
+    const ids = payload.action_plan.map(task => task.id);
+    if (new Set(ids).size !== ids.length) {
+      res.status(400).json({ error: 'Every task in the plan needs a distinct id' });
+      return;
+    }
+
+    const ownedAnalysis = await ownedAnalysisId(userId, req.body.analysisId);
+
+    const row = await db!.transaction(async (tx) => {
+      const [created] = await tx.insert(actionPlans).values({
+        userId,
+        analysisId: ownedAnalysis,
+        payload,
+        heartbeatEnabled: false,
+        ...(composedAt ? { createdAt: composedAt } : {}),
+      }).returning();
+      const synced = await syncPlanTasks(tx, created);
+      await applyTaskSchedule(tx, created.id, schedule);
+      const [saved] = await tx.update(actionPlans).set({ payload: synced }).where(eq(actionPlans.id, created.id)).returning();
+      await tx.insert(actionPlanRevisions).values({ planId: created.id, revision: 1, trigger: 'import', payload: synced });
+      return saved;
+    });
+
+    res.json(toSavedActionPlan(row));
+  } catch (error) {
+    if (error instanceof PlanImportError) {
+      res.status(400).json({ error: error.message });
+      return;
+    }
+    console.error('Import action plan error:', error);
+    res.status(500).json({ error: 'Failed to import action plan' });
+  }
+});
+
+actionPlansRouter.put('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { data, heartbeatEnabled } = req.body;
+
+    if (data !== undefined && !isComposedPlan(data)) {
+      res.status(400).json({ error: 'A composed action plan is required' });
+      return;
+    }
+    if (data === undefined && typeof heartbeatEnabled !== 'boolean') {
+      res.status(400).json({ error: 'Nothing to update' });
+      return;
+    }
+
+    const where = and(eq(actionPlans.id, parseId(req.params.id) ?? -1), eq(actionPlans.userId, res.locals.userId));
+    const [existing] = await db!.select().from(actionPlans).where(where).limit(1);
+
+    if (!existing) {
+      res.status(404).json({ error: 'Action plan not found' });
+      return;
+    }
+    if (heartbeatEnabled === true && !existing.composeInputs) {
+      res.status(400).json({ error: 'This plan was saved without its inputs and cannot refresh automatically' });
+      return;
+    }
+
+    const payload = data !== undefined ? withStoredExecutions(data, existing.payload) : existing.payload;
+    const [row] = await db!
+      .update(actionPlans)
+      .set({
+        payload,
+        ...(typeof heartbeatEnabled === 'boolean' ? {
+          heartbeatEnabled,
+          nextHeartbeatAt: heartbeatEnabled ? heartbeatDueAt(payload) : null,
+          heartbeatError: null,
+        } : {}),
+        updatedAt: new Date(),
+      })
+      .where(where)
+      .returning();
+
+    res.json(toSavedActionPlan(data !== undefined ? await syncStoredPlanTasks(row) : row));
+  } catch (error) {
+    console.error('Update action plan error:', error);
+    res.status(500).json({ error: 'Failed to update action plan' });
+  }
+});
+
+actionPlansRouter.delete('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    await db!
+      .delete(actionPlans)
+      .where(and(eq(actionPlans.id, parseId(req.params.id) ?? -1), eq(actionPlans.userId, res.locals.userId)));
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete action plan error:', error);
+    res.status(500).json({ error: 'Failed to delete action plan' });
+  }
+});
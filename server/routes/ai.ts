@@ -0,0 +1,212 @@
+import { Router, Request, Response } from 'express';
+import { requireAuth } from '../auth';
+import { analyzeProblem, streamAnalyzeProblem, refineAnalysisChunk, discoverOpportunities, composeActionPlan, chat, streamChat } from '../aiService';
+import { openEventStream } from '../sse';
+import { ResponseValidationError, GenerationOptions } from '../llm';
+import { requireQuota, usageRecorder } from '../usage';
+import { derivePriority, isPriority, overdueTasksForAnalysis } from '../priority';
+import { abortOnDisconnect, ownedAnalysisId } from './utils';
+import { isLiveDataList, newestLiveData } from '../liveData';
+import { ChunkRefinement, MAX_SEEN_PROBLEMS, Priority, PriorityDecision, Problem } from '../../types';
+
+export const aiRouter = Router();
+
+// Validation failures keep their code and issues so the client can tell them apart from outages
+const errorBody = (error: any, fallback: string) => error instanceof ResponseValidationError
+  ? { error: error.message, code: error.code, issues: error.issues }
+  : { error: error.message || fallback };
+
+const sendError = (res: Response, error: any, fallback: string) => {
+  if (res.destroyed) return;
+  res.status(error instanceof ResponseValidationError ? 502 : 500).json(errorBody(error, fallback));
+};
+
+// Streams can go quiet during long model calls, and proxies close connections that look idle
+const KEEPALIVE_MS = 25_000;
+
+const generationOptions = (res: Response): GenerationOptions => ({
+  signal: abortOnDisconnect(res),
+  onUsage: usageRecorder(res),
+});
+
+aiRouter.post('/analyze', requireAuth, requireQuota, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { problem, founderProfile } = req.body;
+
+    if (!problem || !founderProfile) {
+      res.status(400).json({ error: 'Problem and founder profile are required' });
+      return;
+    }
+
+    const result = await analyzeProblem(problem, founderProfile, generationOptions(res));
+    res.json(result);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to analyze the problem');
+  }
+});
+
+// Server-sent events: one `chunk` per finished analysis chunk, then `done` with the full response
+aiRouter.post('/analyze/stream', requireAuth, requireQuota, async (req: Request, res: Response): Promise<void> => {
+  const { problem, founderProfile } = req.body;
+
+  if (!problem || !founderProfile) {
+    res.status(400).json({ error: 'Problem and founder profile are required' });
+    return;
+  }
+
+  const options = generationOptions(res);
+  const stream = openEventStream(res);
+  const keepalive = setInterval(() => stream.ping(), KEEPALIVE_MS);
+  res.on('close', () => clearInterval(keepalive));
+  try {
+    const result = await streamAnalyzeProblem(problem, founderProfile, chunk => stream.send('chunk', chunk), options);
+    stream.send('done', result);
+  } catch (error: any) {
+    stream.send('error', errorBody(error, 'Failed to analyze the problem'));
+  } finally {
+    clearInterval(keepalive);
+    stream.end();
+  }
+});
+
+const CHUNK_REFINEMENTS: ChunkRefinement[] = ['regenerate', 'deepen'];
+const MAX_FOCUS_LENGTH = 500;
+
+// Regenerates one chunk of an analysis, or drills deeper into it; responds with the updated chunk
+aiRouter.post('/analyze/chunk', requireAuth, requireQuota, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { analysis, chunkId, mode, focus } = req.body;
+
+    if (!analysis || analysis.mode !== 'user_driven' || !Array.isArray(analysis.chunks)) {
+      res.status(400).json({ error: 'A user_driven analysis is required' });
+      return;
+    }
+    if (!analysis.chunks.some((chunk: any) => chunk?.id === chunkId)) {
+      res.status(400).json({ error: 'The analysis has no section with that id' });
+      return;
+    }
+    if (!CHUNK_REFINEMENTS.includes(mode)) {
+      res.status(400).json({ error: 'Mode must be "regenerate" or "deepen"' });
+      return;
+    }
+    if (focus !== undefined && (typeof focus !== 'string' || focus.length > MAX_FOCUS_LENGTH)) {
+      res.status(400).json({ error: `Focus must be text of at most ${MAX_FOCUS_LENGTH} characters` });
+      return;
+    }
+
+    const chunk = await refineAnalysisChunk(analysis, chunkId, mode, focus?.trim() || undefined, generationOptions(res));
+    res.json(chunk);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to refine the analysis section');
+  }
+});
+
+type SeenProblem = Pick<Problem, 'id' | 'problem_statement' | 'sources'>;
+
+const isSeenProblem = (problem: unknown): problem is SeenProblem => {
+  if (typeof problem !== 'object' || problem === null) return false;
+  const { id, problem_statement, sources } = problem as SeenProblem;
+  return Number.isInteger(id) && typeof problem_statement === 'string' && (sources === undefined
+    || (Array.isArray(sources) && sources.every(source => typeof source === 'object' && source !== null && typeof source.url === 'string')));
+};
+
+aiRouter.post('/discover', requireAuth, requireQuota, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { sector, founderProfile, seen = [] } = req.body;
+
+    if (!sector || !founderProfile) {
+      res.status(400).json({ error: 'Sector and founder profile are required' });
+      return;
+    }
+    if (!Array.isArray(seen) || !seen.every(isSeenProblem)) {
+      res.status(400).json({ error: 'Seen problems must be a list of problems with an id, a statement and source links' });
+      return;
+    }
+
+    // Older clients send every problem shown, so the newest are kept rather than rejecting the request
+    const result = await discoverOpportunities(sector, founderProfile, seen.slice(-MAX_SEEN_PROBLEMS), generationOptions(res));
+    res.json(result);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to discover opportunities');
+  }
+});
+
+aiRouter.post('/compose', requireAuth, requireQuota, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { analysis, analysisId, opportunities, liveData = [], founderProfile, priority } = req.body;
+
+    if (!analysis || !founderProfile || !priority) {
+      res.status(400).json({ error: 'Analysis, founder profile and priority are required' });
+      return;
+    }
+    if (!isLiveDataList(liveData)) {
+      res.status(400).json({ error: 'Live data must be a list of items with content and a timestamp' });
+      return;
+    }
+    // The client trims too, but the prompt must stay bounded whatever is posted
+    const recentLiveData = newestLiveData(liveData);
+    if (priority !== 'auto' && !isPriority(priority)) {
+      res.status(400).json({ error: 'Priority must be "auto", "urgent", "high", "medium" or "low"' });
+      return;
+    }
+
+    let decision: { priority: Priority } & PriorityDecision;
+    if (priority === 'auto') {
+      const ownedAnalysis = await ownedAnalysisId(res.locals.userId, analysisId);
+      const overdue = await overdueTasksForAnalysis(res.locals.userId, ownedAnalysis);
+      decision = derivePriority({
+        founderProfile,
+        liveData: recentLiveData,
+        overdueTaskTitles: overdue.map(task => task.title),
+      });
+    } else {
+      decision = { priority, mode: 'manual', reasoning: ['Chosen by the founder'] };
+    }
+
+    const { priority: chosenPriority, ...priorityDecision } = decision;
+    const result = await composeActionPlan(analysis, opportunities || [], recentLiveData, founderProfile, chosenPriority, priorityDecision, null, generationOptions(res));
+    res.json(result);
+  } catch (error: any) {
+    sendError(res, error, 'Failed to compose the action plan');
+  }
+});
+
+aiRouter.post('/chat', requireAuth, requireQuota, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { message, history } = req.body;
+
+    if (!message) {
+      res.status(400).json({ error: 'Message is required' });
+      return;
+    }
+
+    const reply = await chat(message, history || [], generationOptions(res));
+    res.json({ reply });
+  } catch (error: any) {
+    sendError(res, error, 'Failed to chat');
+  }
+});
+
+// Server-sent events: `delta` events carry reply text as it is generated, then `done` with the full reply
+aiRouter.post('/chat/stream', requireAuth, requireQuota, async (req: Request, res: Response): Promise<void> => {
+  const { message, history } = req.body;
+
+  if (!message) {
+    res.status(400).json({ error: 'Message is required' });
+    return;
+  }
+
+  const options = generationOptions(res);
+  const stream = openEventStream(res);
+  const keepalive = setInterval(() => stream.ping(), KEEPALIVE_MS);
+  res.on('close', () => clearInterval(keepalive));
+  try {
+    const reply = await streamChat(message, history || [], text => stream.send('delta', { text }), options);
+    stream.send('done', { reply });
+  } catch (error: any) {
+    stream.send('error', errorBody(error, 'Failed to chat'));
+  } finally {
+    clearInterval(keepalive);
+    stream.end();
+  }
+});
@@ -0,0 +1,249 @@
+import { Router, Request, Response } from 'express';
+import { eq, and, asc, desc } from 'drizzle-orm';
+import { db } from '../db';
+import { analyses } from '../../shared/schema';
+import { requireAuth } from '../auth';
+import { parseId, ownedConversationId } from './utils';
+import { contentDisposition, exportAnalysis, isExportFormat } from '../export';
+import { assignProblemVersions, nextProblemVersion } from '../problems';
+import { problemKey } from '../../shared/keys';
+import { diffAnalyses } from '../analysisDiff';
+
+export const analysesRouter = Router();
+
+analysesRouter.use(requireAuth);
+
+async function findOwnedAnalysis(userId: number, id: unknown) {
+  const [row] = await db!
+    .select()
+    .from(analyses)
+    .where(and(eq(analyses.id, parseId(id) ?? -1), eq(analyses.userId, userId)))
+    .limit(1);
+  return row;
+}
+
+const toSavedAnalysis = (row: typeof analyses.$inferSelect) => ({
+  id: row.id.toString(),
+  conversationId: row.conversationId?.toString() ?? null,
+  problemId: row.problemId?.toString() ?? null,
+  version: row.version,
+  createdAt: row.createdAt.getTime(),
+  updatedAt: row.updatedAt.getTime(),
+  data: row.payload,
+});
+
+analysesRouter.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId: number = res.locals.userId;
+    const conversationId = req.query.conversationId !== undefined ? parseId(req.query.conversationId) : undefined;
+
+    const rows = await db!
+      .select()
+      .from(analyses)
+      .where(conversationId !== undefined
+        ? and(eq(analyses.userId, userId), eq(analyses.conversationId, conversationId ?? -1))
+        : eq(analyses.userId, userId))
+      .orderBy(desc(analyses.createdAt));
+
+    res.json(rows.map(toSavedAnalysis));
+  } catch (error) {
+    console.error('Get analyses error:', error);
+    res.status(500).json({ error: 'Failed to fetch analyses' });
+  }
+});
+
+analysesRouter.get('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const row = await findOwnedAnalysis(res.locals.userId, req.params.id);
+
+    if (!row) {
+      res.status(404).json({ error: 'Analysis not found' });
+      return;
+    }
+
+    res.json(toSavedAnalysis(row));
+  } catch (error) {
+    console.error('Get analysis error:', error);
+    res.status(500).json({ error: 'Failed to fetch analysis' });
+  }
+});
+
+// Renders the analysis as a downloadable Markdown, PDF or DOCX report
+analysesRouter.get('/:id/export', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const format = req.query.format ?? 'md';
+
+    if (!isExportFormat(format)) {
+      res.status(400).json({ error: 'Format must be md, pdf or docx' });
+      return;
+    }
+
+    const row = await findOwnedAnalysis(res.locals.userId, req.params.id);
+
+    if (!row) {
+      res.status(404).json({ error: 'Analysis not found' });
+      return;
+    }
+
+    const file = exportAnalysis(row.payload, format);
+    res.set({
+      'Content-Type': file.contentType,
+      'Content-Disposition': contentDisposition(file.filename),
+      'Content-Length': String(file.body.length),
+    });
+    res.send(file.body);
+  } catch (error) {
+    console.error('Export analysis error:', error);
+    res.status(500).json({ error: 'Failed to export analysis' });
+  }
+});
+
+// Every analysis of the same problem as this one, oldest version first
+analysesRouter.get('/:id/versions', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId: number = res.locals.userId;
+    let analysis = await findOwnedAnalysis(userId, req.params.id);
+
+    if (!analysis) {
+      res.status(404).json({ error: 'Analysis not found' });
+      return;
+    }
+    if (analysis.problemId === null) {
+      await assignProblemVersions(userId);
+      analysis = await findOwnedAnalysis(userId, req.params.id);
+    }
+
+    const rows = await db!
+      .select()
+      .from(analyses)
+      .where(and(eq(analyses.userId, userId), eq(analyses.problemId, analysis.problemId ?? -1)))
+      .orderBy(asc(analyses.version));
+
+    res.json(rows.map(toSavedAnalysis));
+  } catch (error) {
+    console.error('Get analysis versions error:', error);
+    res.status(500).json({ error: 'Failed to fetch analysis versions' });
+  }
+});
+
+// Diffs this analysis (the base) against `?with=<analysisId>` (the target)
+analysesRouter.get('/:id/compare', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId: number = res.locals.userId;
+    const [base, target] = await Promise.all([
+      findOwnedAnalysis(userId, req.params.id),
+      findOwnedAnalysis(userId, req.query.with),
+    ]);
+
+    if (!base || !target) {
+      res.status(404).json({ error: 'Analysis not found' });
+      return;
+    }
+
+    res.json({
+      base: toSavedAnalysis(base),
+      target: toSavedAnalysis(target),
+      diff: diffAnalyses(base.payload, target.payload),
+    });
+  } catch (error) {
+    console.error('Compare analyses error:', error);
+    res.status(500).json({ error: 'Failed to compare analyses' });
+  }
+});
+
+analysesRouter.post('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId: number = res.locals.userId;
+    const { data, conversationId } = req.body;
+
+    if (!data || data.mode !== 'user_driven') {
+      res.status(400).json({ error: 'A user_driven analysis is required' });
+      return;
+    }
+
+    const conversation = await ownedConversationId(userId, conversationId);
+    const problem = data.input_problem || '';
+
+    // Re-analyzing a problem, e.g. with a different founder profile, adds a version of it
+    const row = await db!.transaction(async (tx) => {
+      const { problemId, version } = await nextProblemVersion(tx, userId, problem);
+      const [created] = await tx.insert(analyses).values({
+        userId,
+        conversationId: conversation,
+        problemId,
+        version,
+        problem,
+        payload: data,
+      }).returning();
+      return created;
+    });
+
+    res.json(toSavedAnalysis(row));
+  } catch (error) {
+    console.error('Create analysis error:', error);
+    res.status(500).json({ error: 'Failed to save analysis' });
+  }
+});
+
+analysesRouter.put('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId: number = res.locals.userId;
+    const { data, conversationId } = req.body;
+
+    if (!data || data.mode !== 'user_driven') {
+      res.status(400).json({ error: 'A user_driven analysis is required' });
+      return;
+    }
+
+    const existing = await findOwnedAnalysis(userId, req.params.id);
+    if (!existing) {
+      res.status(404).json({ error: 'Analysis not found' });
+      return;
+    }
+
+    const problem = data.input_problem || '';
+    const conversation = conversationId !== undefined ? await ownedConversationId(userId, conversationId) : undefined;
+
+    const row = await db!.transaction(async (tx) => {
+      // Changing the problem statement makes this an analysis of another problem, so it becomes that problem's next version
+      const rekeyed = problemKey(problem) !== problemKey(existing.problem)
+        ? await nextProblemVersion(tx, userId, problem)
+        : {};
+      const [updated] = await tx
+        .update(analyses)
+        .set({
+          problem,
+          payload: data,
+          ...rekeyed,
+          ...(conversation !== undefined ? { conversationId: conversation } : {}),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(analyses.id, existing.id), eq(analyses.userId, userId)))
+        .returning();
+      return updated;
+    });
+
+    if (!row) {
+      res.status(404).json({ error: 'Analysis not found' });
+      return;
+    }
+
+    res.json(toSavedAnalysis(row));
+  } catch (error) {
+    console.error('Update analysis error:', error);
+    res.status(500).json({ error: 'Failed to update analysis' });
+  }
+});
+
+analysesRouter.delete('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    await db!
+      .delete(analyses)
+      .where(and(eq(analyses.id, parseId(req.params.id) ?? -1), eq(analyses.userId, res.locals.userId)));
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete analysis error:', error);
+    res.status(500).json({ error: 'Failed to delete analysis' });
+  }
+});
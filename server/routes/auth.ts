@@ -0,0 +1,168 @@
+import { Router, Request, Response } from 'express';
+import bcrypt from 'bcryptjs';
+import { eq, and, desc, gt } from 'drizzle-orm';
+import { db } from '../db';
+import { users, sessions } from '../../shared/schema';
+import { createSession, rotateSession, revokeSessionToken, getBearerToken, requireAuth } from '../auth';
+
+export const authRouter = Router();
+
+authRouter.post('/register', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!db) {
+      res.status(503).json({ error: 'Database not configured. Authentication disabled for development.' });
+      return;
+    }
+
+    const { email, password, name } = req.body;
+
+    if (!email || !password || !name) {
+      res.status(400).json({ error: 'All fields are required' });
+      return;
+    }
+
+    const existingUser = await db.select().from(users).where(eq(users.email, email)).limit(1);
+    if (existingUser.length > 0) {
+      res.status(400).json({ error: 'Email already registered' });
+      return;
+    }
+
+    const hashedPassword = await bcrypt.hash(password, 10);
+    const [newUser] = await db.insert(users).values({
+      email,
+      password: hashedPassword,
+      name,
+    }).returning();
+
+    const { token, expiresAt } = await createSession(newUser.id, req);
+
+    res.json({
+      user: { id: newUser.id, email: newUser.email, name: newUser.name },
+      token,
+      expiresAt: expiresAt.getTime(),
+    });
+  } catch (error) {
+    console.error('Registration error:', error);
+    res.status(500).json({ error: 'Registration failed' });
+  }
+});
+
+authRouter.post('/login', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!db) {
+      res.status(503).json({ error: 'Database not configured. Authentication disabled for development.' });
+      return;
+    }
+
+    const { email, password } = req.body;
+
+    if (!email || !password) {
+      res.status(400).json({ error: 'Email and password are required' });
+      return;
+    }
+
+    const [user] = await db.select().from(users).where(eq(users.email, email)).limit(1);
+    if (!user) {
+      res.status(401).json({ error: 'Invalid credentials' });
+      return;
+    }
+
+    const validPassword = await bcrypt.compare(password, user.password);
+    if (!validPassword) {
+      res.status(401).json({ error: 'Invalid credentials' });
+      return;
+    }
+
+    const { token, expiresAt } = await createSession(user.id, req);
+
+    res.json({
+      user: { id: user.id, email: user.email, name: user.name },
+      token,
+      expiresAt: expiresAt.getTime(),
+    });
+  } catch (error) {
+    console.error('Login error:', error);
+    res.status(500).json({ error: 'Login failed' });
+  }
+});
+
+authRouter.post('/logout', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const token = getBearerToken(req);
+    if (token) {
+      await revokeSessionToken(token);
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({ error: 'Logout failed' });
+  }
+});
+
+authRouter.post('/refresh', requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const [user] = await db!.select().from(users).where(eq(users.id, res.locals.userId)).limit(1);
+    if (!user) {
+      res.status(401).json({ error: 'Unauthorized' });
+      return;
+    }
+
+    const { token, expiresAt } = await rotateSession(res.locals.sessionId);
+
+    res.json({
+      user: { id: user.id, email: user.email, name: user.name },
+      token,
+      expiresAt: expiresAt.getTime(),
+    });
+  } catch (error) {
+    console.error('Refresh session error:', error);
+    res.status(500).json({ error: 'Failed to refresh session' });
+  }
+});
+
+authRouter.post('/logout-all', requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    await db!.delete(sessions).where(eq(sessions.userId, res.locals.userId));
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Logout all error:', error);
+    res.status(500).json({ error: 'Failed to log out all devices' });
+  }
+});
+
+authRouter.get('/sessions', requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userSessions = await db!
+      .select()
+      .from(sessions)
+      .where(and(eq(sessions.userId, res.locals.userId), gt(sessions.expiresAt, new Date())))
+      .orderBy(desc(sessions.lastSeenAt));
+
+    res.json(userSessions.map((session) => ({
+      id: session.id,
+      userAgent: session.userAgent,
+      createdAt: session.createdAt.getTime(),
+      lastSeenAt: session.lastSeenAt.getTime(),
+      expiresAt: session.expiresAt.getTime(),
+      current: session.id === res.locals.sessionId,
+    })));
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({ error: 'Failed to fetch sessions' });
+  }
+});
+
+authRouter.delete('/sessions/:id', requireAuth, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const sessionId = parseInt(req.params.id);
+
+    await db!
+      .delete(sessions)
+      .where(and(eq(sessions.id, sessionId), eq(sessions.userId, res.locals.userId)));
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({ error: 'Failed to revoke session' });
+  }
+});
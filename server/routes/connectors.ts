@@ -0,0 +1,175 @@
+import { Router, Request, Response } from 'express';
+import { eq, and, desc } from 'drizzle-orm';
+import { db } from '../db';
+import { connectors } from '../../shared/schema';
+import { requireAuth } from '../auth';
+import { abortOnDisconnect, parseId } from './utils';
+import { connectorFor, getTransport, isConnectorKind, redactConfig, runConnector } from '../connectors';
+import { collectConnectorData, recordConnectorSync, toConnectorSource } from '../liveData';
+import { ConnectorKind } from '../../types';
+
+export const connectorsRouter = Router();
+
+connectorsRouter.use(requireAuth);
+
+type ConnectorRow = typeof connectors.$inferSelect;
+
+const toSavedConnector = (row: ConnectorRow) => {
+  const kind = row.kind as ConnectorKind;
+  return {
+    id: row.id.toString(),
+    kind,
+    name: row.name,
+    enabled: row.enabled,
+    ...redactConfig(kind, row.config as unknown as Record<string, unknown>),
+    lastSyncedAt: row.lastSyncedAt ? row.lastSyncedAt.getTime() : null,
+    lastError: row.lastError,
+    createdAt: row.createdAt.getTime(),
+    updatedAt: row.updatedAt.getTime(),
+  };
+};
+
+connectorsRouter.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rows = await db!
+      .select()
+      .from(connectors)
+      .where(eq(connectors.userId, res.locals.userId))
+      .orderBy(desc(connectors.createdAt));
+
+    res.json(rows.map(toSavedConnector));
+  } catch (error) {
+    console.error('Get connectors error:', error);
+    res.status(500).json({ error: 'Failed to fetch connectors' });
+  }
+});
+
+// Items from every enabled connector, newest first, ready to pass to the Composer
+connectorsRouter.get('/live-data', async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json(await collectConnectorData(res.locals.userId, abortOnDisconnect(res)));
+  } catch (error) {
+    console.error('Collect live data error:', error);
+    res.status(500).json({ error: 'Failed to collect live data' });
+  }
+});
+
+connectorsRouter.post('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { kind, name, config, enabled } = req.body;
+
+    if (!isConnectorKind(kind) || !name || !config || typeof config !== 'object') {
+      res.status(400).json({ error: 'A connector kind, name and config are required' });
+      return;
+    }
+
+    const problem = await connectorFor(kind).validate(config, getTransport());
+    if (problem) {
+      res.status(400).json({ error: problem });
+      return;
+    }
+
+    const [row] = await db!.insert(connectors).values({
+      userId: res.locals.userId,
+      kind,
+      name: String(name).slice(0, 255),
+      config,
+      enabled: enabled !== false,
+    }).returning();
+
+    res.json(toSavedConnector(row));
+  } catch (error) {
+    console.error('Create connector error:', error);
+    res.status(500).json({ error: 'Failed to create connector' });
+  }
+});
+
+connectorsRouter.put('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name, config, enabled } = req.body;
+    const where = and(eq(connectors.id, parseId(req.params.id) ?? -1), eq(connectors.userId, res.locals.userId));
+
+    const [existing] = await db!.select().from(connectors).where(where).limit(1);
+    if (!existing) {
+      res.status(404).json({ error: 'Connector not found' });
+      return;
+    }
+
+    let nextConfig = existing.config;
+    if (config !== undefined) {
+      if (!config || typeof config !== 'object') {
+        res.status(400).json({ error: 'Connector config must be an object' });
+        return;
+      }
+
+      // The client never sees private fields, so leaving one blank means "keep the stored value"
+      const connector = connectorFor(existing.kind as ConnectorKind);
+      const merged: Record<string, unknown> = { ...config };
+      for (const field of connector.privateFields) {
+        if (merged[field] === undefined || merged[field] === '') {
+          merged[field] = (existing.config as unknown as Record<string, unknown>)[field];
+        }
+      }
+
+      const problem = await connector.validate(merged, getTransport());
+      if (problem) {
+        res.status(400).json({ error: problem });
+        return;
+      }
+      nextConfig = merged as unknown as typeof existing.config;
+    }
+
+    const [row] = await db!
+      .update(connectors)
+      .set({
+        ...(name ? { name: String(name).slice(0, 255) } : {}),
+        ...(typeof enabled === 'boolean' ? { enabled } : {}),
+        config: nextConfig,
+        updatedAt: new Date(),
+      })
+      .where(where)
+      .returning();
+
+    res.json(toSavedConnector(row));
+  } catch (error) {
+    console.error('Update connector error:', error);
+    res.status(500).json({ error: 'Failed to update connector' });
+  }
+});
+
+// Fetches one connector now, so the user can check its configuration and preview what the Composer will see
+connectorsRouter.post('/:id/sync', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const [row] = await db!
+      .select()
+      .from(connectors)
+      .where(and(eq(connectors.id, parseId(req.params.id) ?? -1), eq(connectors.userId, res.locals.userId)))
+      .limit(1);
+
+    if (!row) {
+      res.status(404).json({ error: 'Connector not found' });
+      return;
+    }
+
+    const result = await runConnector(toConnectorSource(row), { signal: abortOnDisconnect(res) });
+    const [updated] = await recordConnectorSync(row.id, result.error).returning();
+
+    res.json({ connector: toSavedConnector(updated), items: result.items, error: result.error });
+  } catch (error) {
+    console.error('Sync connector error:', error);
+    res.status(500).json({ error: 'Failed to sync connector' });
+  }
+});
+
+connectorsRouter.delete('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    await db!
+      .delete(connectors)
+      .where(and(eq(connectors.id, parseId(req.params.id) ?? -1), eq(connectors.userId, res.locals.userId)));
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete connector error:', error);
+    res.status(500).json({ error: 'Failed to delete connector' });
+  }
+});
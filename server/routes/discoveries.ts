@@ -0,0 +1,117 @@
+import { Router, Request, Response } from 'express';
+import { eq, and, desc } from 'drizzle-orm';
+import { db } from '../db';
+import { discoveries } from '../../shared/schema';
+import { requireAuth } from '../auth';
+import { parseId, ownedConversationId } from './utils';
+
+export const discoveriesRouter = Router();
+
+discoveriesRouter.use(requireAuth);
+
+const toSavedDiscovery = (row: typeof discoveries.$inferSelect) => ({
+  id: row.id.toString(),
+  conversationId: row.conversationId?.toString() ?? null,
+  createdAt: row.createdAt.getTime(),
+  updatedAt: row.updatedAt.getTime(),
+  data: row.payload,
+});
+
+discoveriesRouter.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rows = await db!
+      .select()
+      .from(discoveries)
+      .where(eq(discoveries.userId, res.locals.userId))
+      .orderBy(desc(discoveries.createdAt));
+
+    res.json(rows.map(toSavedDiscovery));
+  } catch (error) {
+    console.error('Get discoveries error:', error);
+    res.status(500).json({ error: 'Failed to fetch discoveries' });
+  }
+});
+
+discoveriesRouter.get('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const [row] = await db!
+      .select()
+      .from(discoveries)
+      .where(and(eq(discoveries.id, parseId(req.params.id) ?? -1), eq(discoveries.userId, res.locals.userId)))
+      .limit(1);
+
+    if (!row) {
+      res.status(404).json({ error: 'Discovery not found' });
+      return;
+    }
+
+    res.json(toSavedDiscovery(row));
+  } catch (error) {
+    console.error('Get discovery error:', error);
+    res.status(500).json({ error: 'Failed to fetch discovery' });
+  }
+});
+
+discoveriesRouter.post('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId: number = res.locals.userId;
+    const { data, conversationId } = req.body;
+
+    if (!data || data.mode !== 'proactive_discovery') {
+      res.status(400).json({ error: 'A proactive_discovery response is required' });
+      return;
+    }
+
+    const [row] = await db!.insert(discoveries).values({
+      userId,
+      conversationId: await ownedConversationId(userId, conversationId),
+      sector: String(data.sector || '').slice(0, 255),
+      payload: data,
+    }).returning();
+
+    res.json(toSavedDiscovery(row));
+  } catch (error) {
+    console.error('Create discovery error:', error);
+    res.status(500).json({ error: 'Failed to save discovery' });
+  }
+});
+
+discoveriesRouter.put('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { data } = req.body;
+
+    if (!data || data.mode !== 'proactive_discovery') {
+      res.status(400).json({ error: 'A proactive_discovery response is required' });
+      return;
+    }
+
+    const [row] = await db!
+      .update(discoveries)
+      .set({ sector: String(data.sector || '').slice(0, 255), payload: data, updatedAt: new Date() })
+      .where(and(eq(discoveries.id, parseId(req.params.id) ?? -1), eq(discoveries.userId, res.locals.userId)))
+      .returning();
+
+    if (!row) {
+      res.status(404).json({ error: 'Discovery not found' });
+      return;
+    }
+
+    res.json(toSavedDiscovery(row));
+  } catch (error) {
+    console.error('Update discovery error:', error);
+    res.status(500).json({ error: 'Failed to update discovery' });
+  }
+});
+
+discoveriesRouter.delete('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    await db!
+      .delete(discoveries)
+      .where(and(eq(discoveries.id, parseId(req.params.id) ?? -1), eq(discoveries.userId, res.locals.userId)));
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete discovery error:', error);
+    res.status(500).json({ error: 'Failed to delete discovery' });
+  }
+});
@@ -0,0 +1,175 @@
+import { Router, Request, Response } from 'express';
+import { eq, and, desc } from 'drizzle-orm';
+import { db } from '../db';
+import { founderProfiles } from '../../shared/schema';
+import { requireAuth } from '../auth';
+import { parseId } from './utils';
+import { isRunwayUnit } from '../priority';
+import { FounderProfile } from '../../types';
+
+export const founderProfilesRouter = Router();
+
+founderProfilesRouter.use(requireAuth);
+
+const toSavedFounderProfile = (row: typeof founderProfiles.$inferSelect) => ({
+  id: row.id.toString(),
+  name: row.name,
+  isActive: row.isActive,
+  createdAt: row.createdAt.getTime(),
+  updatedAt: row.updatedAt.getTime(),
+  data: row.payload,
+});
+
+export const isFounderProfile = (data: unknown): data is FounderProfile => {
+  const profile = data as FounderProfile | null;
+  return typeof profile === 'object' && profile !== null &&
+    typeof profile.experience_years === 'number' &&
+    typeof profile.team_size === 'number' &&
+    typeof profile.runway_months === 'number' &&
+    (profile.runway_unit === undefined || isRunwayUnit(profile.runway_unit)) &&
+    Array.isArray(profile.tech_stack) &&
+    typeof profile.location === 'string' &&
+    typeof profile.funding_stage === 'string';
+};
+
+// Exactly one profile per user is active; it drives Analyze and Discover
+async function activateProfile(userId: number, profileId: number) {
+  return db!.transaction(async (tx) => {
+    await tx
+      .update(founderProfiles)
+      .set({ isActive: false })
+      .where(eq(founderProfiles.userId, userId));
+
+    const [row] = await tx
+      .update(founderProfiles)
+      .set({ isActive: true })
+      .where(and(eq(founderProfiles.id, profileId), eq(founderProfiles.userId, userId)))
+      .returning();
+
+    return row;
+  });
+}
+
+founderProfilesRouter.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rows = await db!
+      .select()
+      .from(founderProfiles)
+      .where(eq(founderProfiles.userId, res.locals.userId))
+      .orderBy(desc(founderProfiles.updatedAt));
+
+    res.json(rows.map(toSavedFounderProfile));
+  } catch (error) {
+    console.error('Get founder profiles error:', error);
+    res.status(500).json({ error: 'Failed to fetch founder profiles' });
+  }
+});
+
+founderProfilesRouter.post('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId: number = res.locals.userId;
+    const { name, data, activate } = req.body;
+
+    if (!name || !isFounderProfile(data)) {
+      res.status(400).json({ error: 'A name and a complete founder profile are required' });
+      return;
+    }
+
+    const existing = await db!
+      .select({ id: founderProfiles.id })
+      .from(founderProfiles)
+      .where(eq(founderProfiles.userId, userId))
+      .limit(1);
+
+    let [row] = await db!.insert(founderProfiles).values({
+      userId,
+      name: String(name).slice(0, 255),
+      payload: data,
+    }).returning();
+
+    if (activate || existing.length === 0) {
+      row = await activateProfile(userId, row.id);
+    }
+
+    res.json(toSavedFounderProfile(row));
+  } catch (error) {
+    console.error('Create founder profile error:', error);
+    res.status(500).json({ error: 'Failed to create founder profile' });
+  }
+});
+
+founderProfilesRouter.put('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { name, data } = req.body;
+
+    if (data !== undefined && !isFounderProfile(data)) {
+      res.status(400).json({ error: 'A complete founder profile is required' });
+      return;
+    }
+
+    const [row] = await db!
+      .update(founderProfiles)
+      .set({
+        ...(name ? { name: String(name).slice(0, 255) } : {}),
+        ...(data ? { payload: data } : {}),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(founderProfiles.id, parseId(req.params.id) ?? -1), eq(founderProfiles.userId, res.locals.userId)))
+      .returning();
+
+    if (!row) {
+      res.status(404).json({ error: 'Founder profile not found' });
+      return;
+    }
+
+    res.json(toSavedFounderProfile(row));
+  } catch (error) {
+    console.error('Update founder profile error:', error);
+    res.status(500).json({ error: 'Failed to update founder profile' });
+  }
+});
+
+founderProfilesRouter.post('/:id/activate', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const row = await activateProfile(res.locals.userId, parseId(req.params.id) ?? -1);
+
+    if (!row) {
+      res.status(404).json({ error: 'Founder profile not found' });
+      return;
+    }
+
+    res.json(toSavedFounderProfile(row));
+  } catch (error) {
+    console.error('Activate founder profile error:', error);
+    res.status(500).json({ error: 'Failed to switch founder profile' });
+  }
+});
+
+founderProfilesRouter.delete('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId: number = res.locals.userId;
+
+    const [deleted] = await db!
+      .delete(founderProfiles)
+      .where(and(eq(founderProfiles.id, parseId(req.params.id) ?? -1), eq(founderProfiles.userId, userId)))
+      .returning();
+
+    // Keep one profile active when the active one goes away
+    if (deleted?.isActive) {
+      const [next] = await db!
+        .select({ id: founderProfiles.id })
+        .from(founderProfiles)
+        .where(eq(founderProfiles.userId, userId))
+        .orderBy(desc(founderProfiles.updatedAt))
+        .limit(1);
+      if (next) {
+        await activateProfile(userId, next.id);
+      }
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete founder profile error:', error);
+    res.status(500).json({ error: 'Failed to delete founder profile' });
+  }
+});
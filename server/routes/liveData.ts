@@ -0,0 +1,131 @@
+import { Router, Request, Response } from 'express';
+import { eq, and, desc, count } from 'drizzle-orm';
+import { db } from '../db';
+import { liveDataItems } from '../../shared/schema';
+import { requireAuth } from '../auth';
+import { parseId } from './utils';
+import { LIVE_DATA_SOURCES, LiveDataSource } from '../../types';
+
+export const liveDataRouter = Router();
+
+liveDataRouter.use(requireAuth);
+
+const MAX_CONTENT_LENGTH = 4000;
+// Keeps the Composer prompt bounded; older items have to be deleted before more can be added
+const MAX_ITEMS_PER_USER = 500;
+
+const toSavedLiveDataItem = (row: typeof liveDataItems.$inferSelect) => ({
+  id: row.id.toString(),
+  source: row.source as LiveDataSource,
+  content: row.content,
+  timestamp: row.occurredAt.toISOString(),
+  createdAt: row.createdAt.getTime(),
+  updatedAt: row.updatedAt.getTime(),
+});
+
+// Returns the columns for a valid item, or a message describing what's wrong with it
+function parseLiveDataItem(item: any): { source: LiveDataSource; content: string; occurredAt: Date } | string {
+  if (!item || typeof item !== 'object') return 'Item must be an object';
+  if (!LIVE_DATA_SOURCES.includes(item.source)) return `Source must be one of ${LIVE_DATA_SOURCES.join(', ')}`;
+  if (typeof item.content !== 'string' || !item.content.trim()) return 'Content is required';
+
+  const occurredAt = item.timestamp ? new Date(item.timestamp) : new Date();
+  if (Number.isNaN(occurredAt.getTime())) return 'Timestamp is not a valid date';
+
+  return { source: item.source, content: item.content.trim().slice(0, MAX_CONTENT_LENGTH), occurredAt };
+}
+
+liveDataRouter.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rows = await db!
+      .select()
+      .from(liveDataItems)
+      .where(eq(liveDataItems.userId, res.locals.userId))
+      .orderBy(desc(liveDataItems.occurredAt));
+
+    res.json(rows.map(toSavedLiveDataItem));
+  } catch (error) {
+    console.error('Get live data error:', error);
+    res.status(500).json({ error: 'Failed to fetch live data' });
+  }
+});
+
+// Accepts { items: [...] } so a single add and a bulk import go through the same validation
+liveDataRouter.post('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId: number = res.locals.userId;
+    const { items } = req.body;
+
+    if (!Array.isArray(items) || items.length === 0) {
+      res.status(400).json({ error: 'At least one live data item is required' });
+      return;
+    }
+
+    const parsed = items.map(parseLiveDataItem);
+    const problems = parsed
+      .map((result, index) => typeof result === 'string' ? `Item ${index + 1}: ${result}` : null)
+      .filter(Boolean);
+    if (problems.length > 0) {
+      res.status(400).json({ error: 'Some live data items are invalid', issues: problems });
+      return;
+    }
+
+    const [{ total }] = await db!
+      .select({ total: count() })
+      .from(liveDataItems)
+      .where(eq(liveDataItems.userId, userId));
+    if (total + items.length > MAX_ITEMS_PER_USER) {
+      res.status(400).json({ error: `You can keep at most ${MAX_ITEMS_PER_USER} live data items; delete some before adding more` });
+      return;
+    }
+
+    const rows = await db!
+      .insert(liveDataItems)
+      .values(parsed.map(item => ({ userId, ...(item as Exclude<typeof item, string>) })))
+      .returning();
+
+    res.json(rows.map(toSavedLiveDataItem));
+  } catch (error) {
+    console.error('Create live data error:', error);
+    res.status(500).json({ error: 'Failed to save live data' });
+  }
+});
+
+liveDataRouter.put('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const parsed = parseLiveDataItem(req.body);
+    if (typeof parsed === 'string') {
+      res.status(400).json({ error: parsed });
+      return;
+    }
+
+    const [row] = await db!
+      .update(liveDataItems)
+      .set({ ...parsed, updatedAt: new Date() })
+      .where(and(eq(liveDataItems.id, parseId(req.params.id) ?? -1), eq(liveDataItems.userId, res.locals.userId)))
+      .returning();
+
+    if (!row) {
+      res.status(404).json({ error: 'Live data item not found' });
+      return;
+    }
+
+    res.json(toSavedLiveDataItem(row));
+  } catch (error) {
+    console.error('Update live data error:', error);
+    res.status(500).json({ error: 'Failed to update live data' });
+  }
+});
+
+liveDataRouter.delete('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    await db!
+      .delete(liveDataItems)
+      .where(and(eq(liveDataItems.id, parseId(req.params.id) ?? -1), eq(liveDataItems.userId, res.locals.userId)));
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete live data error:', error);
+    res.status(500).json({ error: 'Failed to delete live data' });
+  }
+});
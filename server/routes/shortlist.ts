@@ -0,0 +1,164 @@
+import { Router, Request, Response } from 'express';
+import { eq, and, desc } from 'drizzle-orm';
+import { db } from '../db';
+import { shortlistItems } from '../../shared/schema';
+import { requireAuth } from '../auth';
+import { analysisSummaries } from '../problems';
+import { problemKey } from '../../shared/keys';
+import { parseId } from './utils';
+import { Problem, ShortlistAnalysis } from '../../types';
+
+export const shortlistRouter = Router();
+
+shortlistRouter.use(requireAuth);
+
+type ShortlistRow = typeof shortlistItems.$inferSelect;
+
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 40;
+const MAX_NOTE_LENGTH = 5000;
+
+const toShortlistItem = (row: ShortlistRow, analysis: ShortlistAnalysis | null) => ({
+  id: row.id.toString(),
+  sector: row.sector,
+  problem: row.problem,
+  tags: row.tags,
+  note: row.note,
+  analysis,
+  createdAt: row.createdAt.getTime(),
+  updatedAt: row.updatedAt.getTime(),
+});
+
+// Rows with their analysis status, which is looked up fresh so items analyzed since bookmarking show up as such
+async function withAnalyses(userId: number, rows: ShortlistRow[]) {
+  const summaries = await analysisSummaries(userId, rows.map(row => row.problem.problem_statement));
+  return rows.map(row => toShortlistItem(row, summaries.get(row.dedupKey) ?? null));
+}
+
+// Trimmed, de-duplicated regardless of case, in the order given; null when the value isn't a list of strings
+function normalizeTags(value: unknown): string[] | null {
+  if (!Array.isArray(value) || !value.every(tag => typeof tag === 'string')) return null;
+  const seen = new Set<string>();
+  const tags: string[] = [];
+  for (const raw of value as string[]) {
+    const tag = raw.replace(/\s+/g, ' ').trim().slice(0, MAX_TAG_LENGTH);
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    tags.push(tag);
+  }
+  return tags.slice(0, MAX_TAGS);
+}
+
+const isProblem = (problem: unknown): problem is Problem =>
+  typeof problem === 'object' && problem !== null &&
+  typeof (problem as Problem).problem_statement === 'string' && !!(problem as Problem).problem_statement.trim();
+
+shortlistRouter.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId: number = res.locals.userId;
+    const rows = await db!
+      .select()
+      .from(shortlistItems)
+      .where(eq(shortlistItems.userId, userId))
+      .orderBy(desc(shortlistItems.createdAt));
+
+    res.json(await withAnalyses(userId, rows));
+  } catch (error) {
+    console.error('Get shortlist error:', error);
+    res.status(500).json({ error: 'Failed to fetch the shortlist' });
+  }
+});
+
+// Bookmarking a problem that is already on the shortlist returns the existing item, tags and note intact
+shortlistRouter.post('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId: number = res.locals.userId;
+    const { problem, sector, tags = [], note = '' } = req.body;
+    const normalizedTags = normalizeTags(tags);
+
+    if (!isProblem(problem)) {
+      res.status(400).json({ error: 'A problem with a problem statement is required' });
+      return;
+    }
+    if (!normalizedTags || typeof note !== 'string') {
+      res.status(400).json({ error: 'Tags must be a list of strings and the note a string' });
+      return;
+    }
+
+    const dedupKey = problemKey(problem.problem_statement);
+    await db!
+      .insert(shortlistItems)
+      .values({
+        userId,
+        dedupKey,
+        sector: String(sector || '').slice(0, 255),
+        problem,
+        tags: normalizedTags,
+        note: note.slice(0, MAX_NOTE_LENGTH),
+      })
+      .onConflictDoNothing({ target: [shortlistItems.userId, shortlistItems.dedupKey] });
+
+    const rows = await db!
+      .select()
+      .from(shortlistItems)
+      .where(and(eq(shortlistItems.userId, userId), eq(shortlistItems.dedupKey, dedupKey)))
+      .limit(1);
+
+    const [item] = await withAnalyses(userId, rows);
+    res.json(item);
+  } catch (error) {
+    console.error('Add to shortlist error:', error);
+    res.status(500).json({ error: 'Failed to add to the shortlist' });
+  }
+});
+
+shortlistRouter.put('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId: number = res.locals.userId;
+    const { tags, note } = req.body;
+    const normalizedTags = tags === undefined ? undefined : normalizeTags(tags);
+
+    if (normalizedTags === null) {
+      res.status(400).json({ error: 'Tags must be a list of strings' });
+      return;
+    }
+    if (note !== undefined && typeof note !== 'string') {
+      res.status(400).json({ error: 'The note must be a string' });
+      return;
+    }
+
+    const rows = await db!
+      .update(shortlistItems)
+      .set({
+        ...(normalizedTags !== undefined ? { tags: normalizedTags } : {}),
+        ...(note !== undefined ? { note: note.slice(0, MAX_NOTE_LENGTH) } : {}),
+        updatedAt: new Date(),
+      })
+      .where(and(eq(shortlistItems.id, parseId(req.params.id) ?? -1), eq(shortlistItems.userId, userId)))
+      .returning();
+
+    if (rows.length === 0) {
+      res.status(404).json({ error: 'Shortlist item not found' });
+      return;
+    }
+
+    const [item] = await withAnalyses(userId, rows);
+    res.json(item);
+  } catch (error) {
+    console.error('Update shortlist item error:', error);
+    res.status(500).json({ error: 'Failed to update the shortlist item' });
+  }
+});
+
+shortlistRouter.delete('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    await db!
+      .delete(shortlistItems)
+      .where(and(eq(shortlistItems.id, parseId(req.params.id) ?? -1), eq(shortlistItems.userId, res.locals.userId)));
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete shortlist item error:', error);
+    res.status(500).json({ error: 'Failed to remove from the shortlist' });
+  }
+});
@@ -0,0 +1,135 @@
+import { Router, Request, Response } from 'express';
+import { eq, and, asc, desc, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { tasks, taskStatusChanges } from '../../shared/schema';
+import { requireAuth } from '../auth';
+import { publishPlanUpdate } from '../heartbeat';
+import { isActionStatus, setTaskStatus, toBoardTask } from '../tasks';
+import { parseId } from './utils';
+
+export const tasksRouter = Router();
+
+tasksRouter.use(requireAuth);
+
+const MAX_ASSIGNEE_LENGTH = 255;
+
+// Every task from the user's plans, soonest due first; tasks without a due date go last
+tasksRouter.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId: number = res.locals.userId;
+    const analysisId = req.query.analysisId !== undefined ? parseId(req.query.analysisId) : undefined;
+
+    const rows = await db!
+      .select()
+      .from(tasks)
+      .where(analysisId !== undefined
+        ? and(eq(tasks.userId, userId), eq(tasks.analysisId, analysisId ?? -1))
+        : eq(tasks.userId, userId))
+      .orderBy(sql`${tasks.dueAt} asc nulls last`, asc(tasks.id));
+
+    res.json(rows.map(toBoardTask));
+  } catch (error) {
+    console.error('Get tasks error:', error);
+    res.status(500).json({ error: 'Failed to fetch tasks' });
+  }
+});
+
+tasksRouter.get('/:id/history', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const [task] = await db!
+      .select({ id: tasks.id })
+      .from(tasks)
+      .where(and(eq(tasks.id, parseId(req.params.id) ?? -1), eq(tasks.userId, res.locals.userId)))
+      .limit(1);
+
+    if (!task) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+
+    const rows = await db!
+      .select()
+      .from(taskStatusChanges)
+      .where(eq(taskStatusChanges.taskId, task.id))
+      .orderBy(desc(taskStatusChanges.createdAt), desc(taskStatusChanges.id));
+
+    res.json(rows.map(row => ({
+      from: row.fromStatus,
+      to: row.toStatus,
+      source: row.source,
+      at: row.createdAt.getTime(),
+    })));
+  } catch (error) {
+    console.error('Get task history error:', error);
+    res.status(500).json({ error: 'Failed to fetch task history' });
+  }
+});
+
+tasksRouter.put('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId: number = res.locals.userId;
+    const { status, assignee, dueAt } = req.body;
+
+    if (status !== undefined && !isActionStatus(status)) {
+      res.status(400).json({ error: 'Status must be pending, in_progress or done' });
+      return;
+    }
+    if (assignee !== undefined && assignee !== null && (typeof assignee !== 'string' || assignee.length > MAX_ASSIGNEE_LENGTH)) {
+      res.status(400).json({ error: `Assignee must be text of at most ${MAX_ASSIGNEE_LENGTH} characters` });
+      return;
+    }
+    const due = dueAt === undefined || dueAt === null ? dueAt : new Date(dueAt);
+    if (due instanceof Date && Number.isNaN(due.getTime())) {
+      res.status(400).json({ error: 'Due date is not a valid date' });
+      return;
+    }
+    if (status === undefined && assignee === undefined && dueAt === undefined) {
+      res.status(400).json({ error: 'Nothing to update' });
+      return;
+    }
+
+    const where = and(eq(tasks.id, parseId(req.params.id) ?? -1), eq(tasks.userId, userId));
+    const [existing] = await db!.select({ id: tasks.id }).from(tasks).where(where).limit(1);
+
+    if (!existing) {
+      res.status(404).json({ error: 'Task not found' });
+      return;
+    }
+
+    if (assignee !== undefined || dueAt !== undefined) {
+      await db!
+        .update(tasks)
+        .set({
+          ...(assignee !== undefined ? { assignee: assignee?.trim() || null } : {}),
+          ...(dueAt !== undefined ? { dueAt: due } : {}),
+          updatedAt: new Date(),
+        })
+        .where(where);
+    }
+
+    if (status !== undefined) {
+      const update = await setTaskStatus(userId, existing.id, status, 'board');
+      if (update?.plan) publishPlanUpdate(update.plan);
+    }
+
+    const [row] = await db!.select().from(tasks).where(where).limit(1);
+    res.json(toBoardTask(row));
+  } catch (error) {
+    console.error('Update task error:', error);
+    res.status(500).json({ error: 'Failed to update task' });
+  }
+});
+
+// Removes the task from the board; a later plan that proposes it again adds it back as new
+tasksRouter.delete('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    await db!
+      .delete(tasks)
+      .where(and(eq(tasks.id, parseId(req.params.id) ?? -1), eq(tasks.userId, res.locals.userId)));
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete task error:', error);
+    res.status(500).json({ error: 'Failed to delete task' });
+  }
+});
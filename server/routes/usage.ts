@@ -0,0 +1,91 @@
+import { Router, Request, Response } from 'express';
+import { eq, and, gte, desc, sql } from 'drizzle-orm';
+import { db } from '../db';
+import { usageEvents, users } from '../../shared/schema';
+import { requireAuth } from '../auth';
+import {
+  DAILY_LIMITS,
+  startOfUtcDay,
+  nextUtcDay,
+  getUsageTotals,
+  usageTotalsColumns,
+  withTotalTokens,
+  isUsageAdmin
+} from '../usage';
+
+export const usageRouter = Router();
+
+usageRouter.use(requireAuth);
+
+const RECENT_LIMIT = 10;
+const TEAM_LIMIT = 20;
+
+// Today's totals against the daily limits, a per-task breakdown and the latest calls
+usageRouter.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId: number = res.locals.userId;
+    const since = startOfUtcDay();
+
+    const [today, byTask, recent, isAdmin] = await Promise.all([
+      getUsageTotals(userId, since),
+      db!
+        .select({ task: usageEvents.task, ...usageTotalsColumns })
+        .from(usageEvents)
+        .where(and(eq(usageEvents.userId, userId), gte(usageEvents.createdAt, since)))
+        .groupBy(usageEvents.task),
+      db!
+        .select()
+        .from(usageEvents)
+        .where(eq(usageEvents.userId, userId))
+        .orderBy(desc(usageEvents.createdAt))
+        .limit(RECENT_LIMIT),
+      isUsageAdmin(userId),
+    ]);
+
+    res.json({
+      today,
+      limits: DAILY_LIMITS,
+      resetsAt: nextUtcDay().getTime(),
+      byTask: byTask.map(withTotalTokens),
+      recent: recent.map(row => ({
+        id: row.id.toString(),
+        task: row.task,
+        model: row.model,
+        promptTokens: row.promptTokens,
+        responseTokens: row.responseTokens,
+        thinkingTokens: row.thinkingTokens,
+        latencyMs: row.latencyMs,
+        createdAt: row.createdAt.getTime(),
+      })),
+      isAdmin,
+    });
+  } catch (error) {
+    console.error('Get usage error:', error);
+    res.status(500).json({ error: 'Failed to fetch usage' });
+  }
+});
+
+// Everyone's usage today, heaviest first. Restricted to USAGE_ADMIN_EMAILS.
+usageRouter.get('/team', async (req: Request, res: Response): Promise<void> => {
+  try {
+    if (!(await isUsageAdmin(res.locals.userId))) {
+      res.status(403).json({ error: 'Not allowed to view team usage' });
+      return;
+    }
+
+    const totalTokens = sql<number>`coalesce(sum(${usageEvents.promptTokens} + ${usageEvents.responseTokens} + ${usageEvents.thinkingTokens}), 0)::int`;
+    const rows = await db!
+      .select({ userId: users.id, name: users.name, email: users.email, ...usageTotalsColumns })
+      .from(usageEvents)
+      .innerJoin(users, eq(usageEvents.userId, users.id))
+      .where(gte(usageEvents.createdAt, startOfUtcDay()))
+      .groupBy(users.id, users.name, users.email)
+      .orderBy(desc(totalTokens))
+      .limit(TEAM_LIMIT);
+
+    res.json(rows.map(row => ({ ...withTotalTokens(row), userId: row.userId.toString() })));
+  } catch (error) {
+    console.error('Get team usage error:', error);
+    res.status(500).json({ error: 'Failed to fetch team usage' });
+  }
+});
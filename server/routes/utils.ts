@@ -0,0 +1,45 @@
+import { Response } from 'express';
+import { eq, and } from 'drizzle-orm';
+import { db } from '../db';
+import { conversations, analyses } from '../../shared/schema';
+
+// Aborts work done for a request, e.g. generation or a connector sync, when the client disconnects
+export function abortOnDisconnect(res: Response): AbortSignal {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+}
+
+export function parseId(value: unknown): number | null {
+  const id = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+// Returns the conversation id if it belongs to the user, so artifacts can't be attached to someone else's chat
+export async function ownedConversationId(userId: number, value: unknown): Promise<number | null> {
+  const conversationId = parseId(value);
+  if (!conversationId || !db) return null;
+
+  const [conversation] = await db
+    .select({ id: conversations.id })
+    .from(conversations)
+    .where(and(eq(conversations.id, conversationId), eq(conversations.userId, userId)))
+    .limit(1);
+
+  return conversation ? conversation.id : null;
+}
+
+export async function ownedAnalysisId(userId: number, value: unknown): Promise<number | null> {
+  const analysisId = parseId(value);
+  if (!analysisId || !db) return null;
+
+  const [analysis] = await db
+    .select({ id: analyses.id })
+    .from(analyses)
+    .where(and(eq(analyses.id, analysisId), eq(analyses.userId, userId)))
+    .limit(1);
+
+  return analysis ? analysis.id : null;
+}
@@ -0,0 +1,303 @@
+import { Router, Request, Response } from 'express';
+import { eq, and, desc, isNull, lt } from 'drizzle-orm';
+import { db } from '../db';
+import { watchlists, watchlistScans, watchlistAlerts } from '../../shared/schema';
+import { requireAuth } from '../auth';
+import { openEventStream } from '../sse';
+import { requireQuota, usageRecorder } from '../usage';
+import {
+  isIntervalHours,
+  markAlertsRead,
+  nextScanDueAt,
+  recordWatchlistScan,
+  runWatchlistScan,
+  subscribeToWatchlistUpdates,
+  MIN_INTERVAL_HOURS,
+  MAX_INTERVAL_HOURS,
+} from '../watchlists';
+import { isFounderProfile } from './founderProfiles';
+import { abortOnDisconnect, parseId } from './utils';
+import { ProactiveDiscoveryResponse, WATCHLIST_SCANS_PAGE_SIZE, WatchlistScan } from '../../types';
+
+export const watchlistsRouter = Router();
+
+watchlistsRouter.use(requireAuth);
+
+type WatchlistRow = typeof watchlists.$inferSelect;
+
+const DEFAULT_INTERVAL_HOURS = 168;
+const MAX_ALERTS = 50;
+const KEEPALIVE_MS = 25_000;
+
+const toSavedWatchlist = (row: WatchlistRow) => ({
+  id: row.id.toString(),
+  sector: row.sector,
+  founderProfile: row.founderProfile,
+  intervalHours: row.intervalHours,
+  enabled: row.enabled,
+  nextScanAt: row.nextScanAt ? row.nextScanAt.getTime() : null,
+  lastScanAt: row.lastScanAt ? row.lastScanAt.getTime() : null,
+  lastError: row.lastError,
+  createdAt: row.createdAt.getTime(),
+  updatedAt: row.updatedAt.getTime(),
+});
+
+// Embeddings stay on the server; they are only for diffing scans
+const toWatchlistScan = (row: typeof watchlistScans.$inferSelect) => ({
+  id: row.id.toString(),
+  watchlistId: row.watchlistId.toString(),
+  trigger: row.trigger as WatchlistScan['trigger'],
+  newProblemIds: row.newProblemIds,
+  createdAt: row.createdAt.getTime(),
+  data: row.payload,
+});
+
+const toWatchlistAlert = (row: typeof watchlistAlerts.$inferSelect, sector: string) => ({
+  id: row.id.toString(),
+  watchlistId: row.watchlistId.toString(),
+  scanId: row.scanId.toString(),
+  sector,
+  problem: row.problem,
+  readAt: row.readAt ? row.readAt.getTime() : null,
+  createdAt: row.createdAt.getTime(),
+});
+
+const isDiscoveryResponse = (data: unknown): data is ProactiveDiscoveryResponse =>
+  typeof data === 'object' && data !== null &&
+  (data as ProactiveDiscoveryResponse).mode === 'proactive_discovery' && Array.isArray((data as ProactiveDiscoveryResponse).problems);
+
+async function findOwnedWatchlist(userId: number, id: unknown): Promise<WatchlistRow | undefined> {
+  const [row] = await db!
+    .select()
+    .from(watchlists)
+    .where(and(eq(watchlists.id, parseId(id) ?? -1), eq(watchlists.userId, userId)))
+    .limit(1);
+  return row;
+}
+
+watchlistsRouter.get('/', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const rows = await db!
+      .select()
+      .from(watchlists)
+      .where(eq(watchlists.userId, res.locals.userId))
+      .orderBy(desc(watchlists.createdAt));
+
+    res.json(rows.map(toSavedWatchlist));
+  } catch (error) {
+    console.error('Get watchlists error:', error);
+    res.status(500).json({ error: 'Failed to fetch watchlists' });
+  }
+});
+
+// Pushes `watchlist` whenever one of the user's watchlists is scanned or rescheduled, and `alert` for each new problem
+watchlistsRouter.get('/events', (req: Request, res: Response): void => {
+  const stream = openEventStream(res);
+  const unsubscribe = subscribeToWatchlistUpdates(res.locals.userId, ({ watchlist, alerts }) => {
+    stream.send('watchlist', toSavedWatchlist(watchlist));
+    alerts.forEach(alert => stream.send('alert', toWatchlistAlert(alert, watchlist.sector)));
+  });
+  const keepalive = setInterval(() => stream.ping(), KEEPALIVE_MS);
+
+  res.on('close', () => {
+    clearInterval(keepalive);
+    unsubscribe();
+  });
+});
+
+// Newest first; `unread=1` leaves out alerts already read
+watchlistsRouter.get('/alerts', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId: number = res.locals.userId;
+    const rows = await db!
+      .select({ alert: watchlistAlerts, sector: watchlists.sector })
+      .from(watchlistAlerts)
+      .innerJoin(watchlists, eq(watchlists.id, watchlistAlerts.watchlistId))
+      .where(req.query.unread === '1'
+        ? and(eq(watchlistAlerts.userId, userId), isNull(watchlistAlerts.readAt))
+        : eq(watchlistAlerts.userId, userId))
+      .orderBy(desc(watchlistAlerts.createdAt))
+      .limit(MAX_ALERTS);
+
+    res.json(rows.map(({ alert, sector }) => toWatchlistAlert(alert, sector)));
+  } catch (error) {
+    console.error('Get watchlist alerts error:', error);
+    res.status(500).json({ error: 'Failed to fetch alerts' });
+  }
+});
+
+// Marks the listed alerts read, or all of them without `ids`
+watchlistsRouter.post('/alerts/read', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { ids } = req.body ?? {};
+    const alertIds = ids === undefined ? undefined : Array.isArray(ids) ? ids.map(parseId) : null;
+
+    if (alertIds === null || alertIds?.some(id => id === null) || alertIds?.length === 0) {
+      res.status(400).json({ error: 'Alert ids must be a non-empty list' });
+      return;
+    }
+
+    await markAlertsRead(res.locals.userId, alertIds as number[] | undefined);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Mark watchlist alerts read error:', error);
+    res.status(500).json({ error: 'Failed to mark alerts read' });
+  }
+});
+
+// Watching a sector from a discovery result records that result as the baseline, so only later problems raise alerts.
+// Without one, the first scan runs as soon as the scheduler next polls.
+watchlistsRouter.post('/', requireQuota, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const userId: number = res.locals.userId;
+    const { sector, founderProfile, intervalHours = DEFAULT_INTERVAL_HOURS, baseline } = req.body;
+
+    if (typeof sector !== 'string' || !sector.trim() || !isFounderProfile(founderProfile)) {
+      res.status(400).json({ error: 'Sector and founder profile are required' });
+      return;
+    }
+    if (!isIntervalHours(intervalHours)) {
+      res.status(400).json({ error: `The interval must be between ${MIN_INTERVAL_HOURS} and ${MAX_INTERVAL_HOURS} hours` });
+      return;
+    }
+    if (baseline !== undefined && !isDiscoveryResponse(baseline)) {
+      res.status(400).json({ error: 'The baseline must be a proactive_discovery response' });
+      return;
+    }
+
+    const now = new Date();
+    let [row] = await db!.insert(watchlists).values({
+      userId,
+      sector: sector.trim().slice(0, 255),
+      founderProfile,
+      intervalHours,
+      nextScanAt: baseline ? nextScanDueAt(intervalHours, now) : now,
+      lastScanAt: baseline ? now : null,
+    }).returning();
+
+    if (baseline) {
+      try {
+        await recordWatchlistScan(row, baseline, 'baseline', { signal: abortOnDisconnect(res), onUsage: usageRecorder(res) });
+        row = (await findOwnedWatchlist(userId, row.id)) ?? row;
+      } catch (error) {
+        // Still watched; the first scan just treats every problem as new
+        console.warn(`Could not record the baseline of watchlist ${row.id}:`, error);
+      }
+    }
+
+    res.json(toSavedWatchlist(row));
+  } catch (error) {
+    console.error('Create watchlist error:', error);
+    res.status(500).json({ error: 'Failed to create watchlist' });
+  }
+});
+
+// Pausing stops scheduled scans; resuming or changing the interval schedules the next scan from the last one
+watchlistsRouter.put('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { enabled, intervalHours, founderProfile } = req.body;
+
+    if (enabled !== undefined && typeof enabled !== 'boolean') {
+      res.status(400).json({ error: 'enabled must be a boolean' });
+      return;
+    }
+    if (intervalHours !== undefined && !isIntervalHours(intervalHours)) {
+      res.status(400).json({ error: `The interval must be between ${MIN_INTERVAL_HOURS} and ${MAX_INTERVAL_HOURS} hours` });
+      return;
+    }
+    if (founderProfile !== undefined && !isFounderProfile(founderProfile)) {
+      res.status(400).json({ error: 'Invalid founder profile' });
+      return;
+    }
+
+    const current = await findOwnedWatchlist(res.locals.userId, req.params.id);
+
+    if (!current) {
+      res.status(404).json({ error: 'Watchlist not found' });
+      return;
+    }
+
+    const now = new Date();
+    const nextEnabled = enabled ?? current.enabled;
+    const nextInterval = intervalHours ?? current.intervalHours;
+    const dueAt = nextScanDueAt(nextInterval, current.lastScanAt ?? now);
+
+    const [row] = await db!
+      .update(watchlists)
+      .set({
+        enabled: nextEnabled,
+        intervalHours: nextInterval,
+        ...(founderProfile !== undefined ? { founderProfile } : {}),
+        nextScanAt: nextEnabled ? (dueAt < now ? now : dueAt) : null,
+        updatedAt: now,
+      })
+      .where(eq(watchlists.id, current.id))
+      .returning();
+
+    res.json(toSavedWatchlist(row));
+  } catch (error) {
+    console.error('Update watchlist error:', error);
+    res.status(500).json({ error: 'Failed to update watchlist' });
+  }
+});
+
+watchlistsRouter.delete('/:id', async (req: Request, res: Response): Promise<void> => {
+  try {
+    await db!
+      .delete(watchlists)
+      .where(and(eq(watchlists.id, parseId(req.params.id) ?? -1), eq(watchlists.userId, res.locals.userId)));
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Delete watchlist error:', error);
+    res.status(500).json({ error: 'Failed to delete watchlist' });
+  }
+});
+
+watchlistsRouter.get('/:id/scans', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const watchlist = await findOwnedWatchlist(res.locals.userId, req.params.id);
+
+    if (!watchlist) {
+      res.status(404).json({ error: 'Watchlist not found' });
+      return;
+    }
+
+    const before = req.query.before !== undefined ? parseId(req.query.before) : undefined;
+    if (before === null) {
+      res.status(400).json({ error: 'before must be a scan id' });
+      return;
+    }
+
+    // Newest first; pass the last id as `?before=` for the page after
+    const rows = await db!
+      .select()
+      .from(watchlistScans)
+      .where(and(eq(watchlistScans.watchlistId, watchlist.id), before !== undefined ? lt(watchlistScans.id, before) : undefined))
+      .orderBy(desc(watchlistScans.id))
+      .limit(WATCHLIST_SCANS_PAGE_SIZE);
+
+    res.json(rows.map(toWatchlistScan));
+  } catch (error) {
+    console.error('Get watchlist scans error:', error);
+    res.status(500).json({ error: 'Failed to fetch watchlist history' });
+  }
+});
+
+// Scans the sector now instead of waiting for the schedule
+watchlistsRouter.post('/:id/scan', requireQuota, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const watchlist = await findOwnedWatchlist(res.locals.userId, req.params.id);
+
+    if (!watchlist) {
+      res.status(404).json({ error: 'Watchlist not found' });
+      return;
+    }
+
+    const { scan } = await runWatchlistScan(watchlist, 'manual', { signal: abortOnDisconnect(res), onUsage: usageRecorder(res) });
+    res.json(toWatchlistScan(scan));
+  } catch (error: any) {
+    console.error('Scan watchlist error:', error);
+    res.status(500).json({ error: error?.message || 'Failed to scan the sector' });
+  }
+});
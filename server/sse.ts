@@ -0,0 +1,39 @@
+import { Response } from 'express';
+
+export interface EventStream {
+  send(event: string, data: unknown): void;
+  // Comment line that keeps idle connections from being closed by proxies
+  ping(): void;
+  end(): void;
+}
+
+// Switches a response to server-sent events; writes after the client disconnects are dropped
+export function openEventStream(res: Response): EventStream {
+  let closed = false;
+  res.on('close', () => {
+    closed = true;
+  });
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+
+  return {
+    send(event, data) {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    ping() {
+      if (closed) return;
+      res.write(': ping\n\n');
+    },
+    end() {
+      if (closed) return;
+      res.end();
+    },
+  };
+}
@@ -0,0 +1,191 @@
+import { eq, and, inArray } from 'drizzle-orm';
+import { db } from './db';
+import { actionPlans, tasks, taskStatusChanges } from '../shared/schema';
+import { taskKey } from '../shared/keys';
+import { MAX_LOG_ENTRIES } from './heartbeat';
+import { TaskSchedule } from './export/plan';
+import { ActionStatus, ActionTask, BoardTask, ComposedActionPlan, TaskStatusSource } from '../types';
+
+type TaskRow = typeof tasks.$inferSelect;
+type ActionPlanRow = typeof actionPlans.$inferSelect;
+export type Transaction = Parameters<Parameters<NonNullable<typeof db>['transaction']>[0]>[0];
+
+export const ACTION_STATUSES: ActionStatus[] = ['pending', 'in_progress', 'done'];
+
+export const isActionStatus = (value: unknown): value is ActionStatus =>
+  typeof value === 'string' && (ACTION_STATUSES as string[]).includes(value);
+
+
+export const toBoardTask = (row: TaskRow): BoardTask => ({
+  id: row.id.toString(),
+  planId: row.planId?.toString() ?? null,
+  planTaskId: row.planTaskId,
+  analysisId: row.analysisId?.toString() ?? null,
+  title: row.title,
+  description: row.description,
+  owner: row.owner as BoardTask['owner'],
+  assignee: row.assignee,
+  status: row.status as ActionStatus,
+  executable: row.executable,
+  command: row.command,
+  dueAt: row.dueAt ? row.dueAt.getTime() : null,
+  completedAt: row.completedAt ? row.completedAt.getTime() : null,
+  createdAt: row.createdAt.getTime(),
+  updatedAt: row.updatedAt.getTime(),
+});
+
+export async function moveTask(tx: Transaction, row: TaskRow, status: ActionStatus, source: TaskStatusSource): Promise<TaskRow> {
+  if (row.status === status) return row;
+
+  const now = new Date();
+  const [updated] = await tx
+    .update(tasks)
+    .set({ status, completedAt: status === 'done' ? now : null, updatedAt: now })
+    .where(eq(tasks.id, row.id))
+    .returning();
+  await tx.insert(taskStatusChanges).values({ taskId: row.id, fromStatus: row.status, toStatus: status, source });
+  return updated;
+}
+
+/**
+ * Upserts a plan's tasks into the board. A task the user already has (by title) is linked to this plan and keeps
+ * its board status, assignee and due date; new ones are added with a due date counted from the plan's creation.
+ * Returns the plan with each task's status taken from the board.
+ */
+export async function syncPlanTasks(tx: Transaction, plan: ActionPlanRow, payload: ComposedActionPlan = plan.payload): Promise<ComposedActionPlan> {
+  const keyed = payload.action_plan
+    .map(task => ({ task, key: taskKey(task.title) }))
+    .filter(({ key }) => key);
+  if (keyed.length === 0) return payload;
+
+  const existing = await tx
+    .select()
+    .from(tasks)
+    .where(and(eq(tasks.userId, plan.userId), inArray(tasks.dedupKey, keyed.map(({ key }) => key))));
+  const byKey = new Map(existing.map(row => [row.dedupKey, row]));
+  const now = new Date();
+
+  for (const { task, key } of keyed) {
+    const row = byKey.get(key);
+    if (row) {
+      const [linked] = await tx
+        .update(tasks)
+        .set({
+          planId: plan.id,
+          planTaskId: task.id,
+          analysisId: plan.analysisId ?? row.analysisId,
+          description: task.description,
+          executable: task.executable,
+          command: task.command,
+          updatedAt: now,
+        })
+        .where(eq(tasks.id, row.id))
+        .returning();
+      byKey.set(key, linked);
+      continue;
+    }
+
+    const [created] = await tx
+      .insert(tasks)
+      .values({
+        userId: plan.userId,
+        planId: plan.id,
+        planTaskId: task.id,
+        analysisId: plan.analysisId,
+        dedupKey: key,
+        title: task.title.slice(0, 255),
+        description: task.description,
+        owner: task.owner,
+        status: task.status,
+        executable: task.executable,
+        command: task.command,
+        dueAt: new Date(plan.createdAt.getTime() + task.due_in_hours * 60 * 60 * 1000),
+        completedAt: task.status === 'done' ? now : null,
+      })
+      // Another request may have added the same task in the meantime
+      .onConflictDoNothing({ target: [tasks.userId, tasks.dedupKey] })
+      .returning();
+    if (created) {
+      await tx.insert(taskStatusChanges).values({ taskId: created.id, fromStatus: null, toStatus: created.status, source: 'plan' });
+      byKey.set(key, created);
+    }
+  }
+
+  return {
+    ...payload,
+    action_plan: payload.action_plan.map((task): ActionTask => {
+      const row = byKey.get(taskKey(task.title));
+      return row ? { ...task, status: row.status as ActionStatus } : task;
+    }),
+  };
+}
+
+// Sets the board due dates and assignees of a plan's tasks, keyed by plan task id, e.g. from an imported export
+export async function applyTaskSchedule(tx: Transaction, planId: number, schedule: Map<number, TaskSchedule>): Promise<void> {
+  for (const [planTaskId, { dueAt, assignee }] of schedule) {
+    await tx
+      .update(tasks)
+      .set({ dueAt, assignee: assignee ?? null, updatedAt: new Date() })
+      .where(and(eq(tasks.planId, planId), eq(tasks.planTaskId, planTaskId)));
+  }
+}
+
+// Syncs a plan's tasks in their own transaction and stores the board statuses back on the plan
+export async function syncStoredPlanTasks(plan: ActionPlanRow): Promise<ActionPlanRow> {
+  return db!.transaction(async (tx) => {
+    const payload = await syncPlanTasks(tx, plan);
+    const [updated] = await tx.update(actionPlans).set({ payload }).where(eq(actionPlans.id, plan.id)).returning();
+    return updated ?? plan;
+  });
+}
+
+export async function findTaskByTitle(userId: number, title: string, executor: Pick<Transaction, 'select'> = db!): Promise<TaskRow | undefined> {
+  const [row] = await executor
+    .select()
+    .from(tasks)
+    .where(and(eq(tasks.userId, userId), eq(tasks.dedupKey, taskKey(title))))
+    .limit(1);
+  return row;
+}
+
+export interface StatusUpdate {
+  task: TaskRow;
+  plan: ActionPlanRow | null;
+}
+
+/**
+ * Moves a board task and mirrors the change onto the plan that last proposed it, with an execution log entry,
+ * so the Composer and the board never disagree.
+ */
+export async function setTaskStatus(userId: number, taskId: number, status: ActionStatus, source: TaskStatusSource): Promise<StatusUpdate | null> {
+  return db!.transaction(async (tx) => {
+    const [row] = await tx
+      .select()
+      .from(tasks)
+      .where(and(eq(tasks.id, taskId), eq(tasks.userId, userId)))
+      .for('update')
+      .limit(1);
+    if (!row) return null;
+
+    const task = await moveTask(tx, row, status, source);
+    if (task === row || !task.planId) return { task, plan: null };
+
+    const [plan] = await tx.select().from(actionPlans).where(eq(actionPlans.id, task.planId)).for('update').limit(1);
+    const planTask = plan?.payload.action_plan.find(t => taskKey(t.title) === task.dedupKey);
+    if (!plan || !planTask) return { task, plan: null };
+
+    const label = status === 'done' ? 'completed' : status === 'in_progress' ? 'started' : 'moved back to pending';
+    const payload: ComposedActionPlan = {
+      ...plan.payload,
+      action_plan: plan.payload.action_plan.map(t => t === planTask ? { ...t, status } : t),
+      execution_log: [...plan.payload.execution_log, `[${new Date().toISOString()}] Task #${planTask.id} ${label}: ${planTask.title}`].slice(-MAX_LOG_ENTRIES),
+    };
+    const [updatedPlan] = await tx
+      .update(actionPlans)
+      .set({ payload, updatedAt: new Date() })
+      .where(eq(actionPlans.id, plan.id))
+      .returning();
+
+    return { task, plan: updatedPlan };
+  });
+}
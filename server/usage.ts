@@ -0,0 +1,110 @@
+import { Request, Response, NextFunction } from 'express';
+import { and, eq, gte, sql } from 'drizzle-orm';
+import { db } from './db';
+import { usageEvents, users } from '../shared/schema';
+import { GenerationUsage } from './llm';
+
+const envLimit = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+};
+
+// Daily allowance per user; 0 disables a limit. Days roll over at midnight UTC.
+export const DAILY_LIMITS = {
+  generations: envLimit('USAGE_DAILY_GENERATIONS', 100),
+  tokens: envLimit('USAGE_DAILY_TOKENS', 2_000_000),
+};
+
+// Comma-separated emails allowed to see everyone's usage
+const ADMIN_EMAILS = (process.env.USAGE_ADMIN_EMAILS ?? '')
+  .split(',')
+  .map(email => email.trim().toLowerCase())
+  .filter(Boolean);
+
+export interface UsageTotals {
+  generations: number;
+  promptTokens: number;
+  responseTokens: number;
+  thinkingTokens: number;
+  totalTokens: number;
+}
+
+export function startOfUtcDay(now = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+export function nextUtcDay(now = new Date()): Date {
+  return new Date(startOfUtcDay(now).getTime() + 24 * 60 * 60 * 1000);
+}
+
+export const usageTotalsColumns = {
+  generations: sql<number>`count(*)::int`,
+  promptTokens: sql<number>`coalesce(sum(${usageEvents.promptTokens}), 0)::int`,
+  responseTokens: sql<number>`coalesce(sum(${usageEvents.responseTokens}), 0)::int`,
+  thinkingTokens: sql<number>`coalesce(sum(${usageEvents.thinkingTokens}), 0)::int`,
+};
+
+export const withTotalTokens = <T extends Omit<UsageTotals, 'totalTokens'>>(row: T): T & { totalTokens: number } => ({
+  ...row,
+  totalTokens: row.promptTokens + row.responseTokens + row.thinkingTokens,
+});
+
+export async function getUsageTotals(userId: number, since: Date): Promise<UsageTotals> {
+  const [row] = await db!
+    .select(usageTotalsColumns)
+    .from(usageEvents)
+    .where(and(eq(usageEvents.userId, userId), gte(usageEvents.createdAt, since)));
+  return withTotalTokens(row);
+}
+
+// Ledger writes never fail the generation they describe
+export async function recordUsage(userId: number, usage: GenerationUsage): Promise<void> {
+  try {
+    await db!.insert(usageEvents).values({ userId, ...usage });
+  } catch (error) {
+    console.error('Record usage error:', error);
+  }
+}
+
+// An onUsage hook that records every model call against the signed-in user
+export function usageRecorder(res: Response): (usage: GenerationUsage) => void {
+  const userId: number = res.locals.userId;
+  return usage => {
+    recordUsage(userId, usage);
+  };
+}
+
+export async function isUsageAdmin(userId: number): Promise<boolean> {
+  if (ADMIN_EMAILS.length === 0) return false;
+  const [user] = await db!.select({ email: users.email }).from(users).where(eq(users.id, userId)).limit(1);
+  return !!user && ADMIN_EMAILS.includes(user.email.toLowerCase());
+}
+
+// Which of today's limits the user has reached, if any
+export async function exceededLimit(userId: number): Promise<'generation' | 'token' | null> {
+  const totals = await getUsageTotals(userId, startOfUtcDay());
+  if (DAILY_LIMITS.generations > 0 && totals.generations >= DAILY_LIMITS.generations) return 'generation';
+  if (DAILY_LIMITS.tokens > 0 && totals.totalTokens >= DAILY_LIMITS.tokens) return 'token';
+  return null;
+}
+
+// Rejects generation requests once the user has used up today's allowance. Must run after requireAuth.
+export async function requireQuota(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const exceeded = await exceededLimit(res.locals.userId);
+
+    if (exceeded) {
+      const resetsAt = nextUtcDay();
+      res.status(429).json({
+        error: `You've reached today's ${exceeded} limit. It resets at ${resetsAt.toISOString().slice(11, 16)} UTC.`,
+        code: 'quota_exceeded',
+        resetsAt: resetsAt.getTime(),
+      });
+      return;
+    }
+    next();
+  } catch (error) {
+    console.error('Quota check error:', error);
+    res.status(500).json({ error: 'Failed to check usage quota' });
+  }
+}
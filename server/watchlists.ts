@@ -0,0 +1,230 @@
+import { eq, and, lte, desc, inArray, isNull } from 'drizzle-orm';
+import { db } from './db';
+import { watchlists, watchlistScans, watchlistAlerts } from '../shared/schema';
+import { discoverOpportunities, embedProblems } from './aiService';
+import { exceededLimit, nextUtcDay, recordUsage } from './usage';
+import { GenerationOptions } from './llm';
+import { ProactiveDiscoveryResponse, WatchlistScan } from '../types';
+
+type WatchlistRow = typeof watchlists.$inferSelect;
+type WatchlistScanRow = typeof watchlistScans.$inferSelect;
+type WatchlistAlertRow = typeof watchlistAlerts.$inferSelect;
+
+type ScanTrigger = WatchlistScan['trigger'];
+
+const POLL_MS = Number(process.env.WATCHLIST_POLL_MS ?? 60_000);
+const BATCH_SIZE = 5;
+// A claimed watchlist isn't picked up again for this long, even if the server dies mid-scan
+const CLAIM_MS = 15 * 60 * 1000;
+// After a failure, wait at least this long before trying again
+const RETRY_AFTER_MS = 60 * 60 * 1000;
+// A problem at least this close (cosine similarity of embeddings) to one an earlier scan found is the same problem
+const DUPLICATE_THRESHOLD = Number(process.env.WATCHLIST_DUPLICATE_THRESHOLD ?? 0.85);
+// How many earlier scans a new one is compared against
+const HISTORY_SCANS = 20;
+
+export const MIN_INTERVAL_HOURS = 1;
+export const MAX_INTERVAL_HOURS = 24 * 30;
+
+export const isIntervalHours = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= MIN_INTERVAL_HOURS && (value as number) <= MAX_INTERVAL_HOURS;
+
+export const nextScanDueAt = (intervalHours: number, from = new Date()): Date =>
+  new Date(from.getTime() + intervalHours * 60 * 60 * 1000);
+
+export interface WatchlistUpdate {
+  watchlist: WatchlistRow;
+  alerts: WatchlistAlertRow[];
+}
+
+// In-process fan-out of scan results to the user's open event streams
+const listeners = new Map<number, Set<(update: WatchlistUpdate) => void>>();
+
+export function subscribeToWatchlistUpdates(userId: number, listener: (update: WatchlistUpdate) => void): () => void {
+  const userListeners = listeners.get(userId) ?? new Set();
+  userListeners.add(listener);
+  listeners.set(userId, userListeners);
+  return () => {
+    userListeners.delete(listener);
+    if (userListeners.size === 0) listeners.delete(userId);
+  };
+}
+
+function publishWatchlistUpdate(update: WatchlistUpdate): void {
+  listeners.get(update.watchlist.userId)?.forEach(listener => listener(update));
+}
+
+// Embeddings from different models (e.g. after switching LLM_PROVIDER) can't be compared and count as unrelated
+function cosine(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return dot && dot / Math.sqrt(normA * normB);
+}
+
+async function updateWatchlist(watchlistId: number, changes: Partial<typeof watchlists.$inferInsert>): Promise<void> {
+  const [row] = await db!
+    .update(watchlists)
+    .set(changes)
+    .where(eq(watchlists.id, watchlistId))
+    .returning();
+  if (row) publishWatchlistUpdate({ watchlist: row, alerts: [] });
+}
+
+/**
+ * Stores a discovery result as the watchlist's latest scan. Its problems are embedded and compared with every
+ * problem of the earlier scans; the ones that match none are new and get an alert, except in a baseline scan,
+ * which only records what the founder has already seen.
+ */
+export async function recordWatchlistScan(
+  row: WatchlistRow,
+  discovery: ProactiveDiscoveryResponse,
+  trigger: ScanTrigger,
+  options: GenerationOptions = {}
+): Promise<{ scan: WatchlistScanRow; alerts: WatchlistAlertRow[] }> {
+  const embeddings = await embedProblems(discovery.problems, options);
+  const previous = await db!
+    .select({ embeddings: watchlistScans.embeddings })
+    .from(watchlistScans)
+    .where(eq(watchlistScans.watchlistId, row.id))
+    .orderBy(desc(watchlistScans.createdAt))
+    .limit(HISTORY_SCANS);
+  const known = previous.flatMap(scan => scan.embeddings);
+
+  const newProblems = discovery.problems.filter((_, index) =>
+    !known.some(embedding => cosine(embeddings[index] ?? [], embedding) >= DUPLICATE_THRESHOLD)
+  );
+  const now = new Date();
+
+  const result = await db!.transaction(async (tx) => {
+    const [scan] = await tx.insert(watchlistScans).values({
+      watchlistId: row.id,
+      trigger,
+      payload: discovery,
+      newProblemIds: newProblems.map(problem => problem.id),
+      embeddings,
+    }).returning();
+
+    const alerts = trigger === 'baseline' || newProblems.length === 0
+      ? []
+      : await tx.insert(watchlistAlerts).values(newProblems.map(problem => ({
+        userId: row.userId,
+        watchlistId: row.id,
+        scanId: scan.id,
+        problem,
+      }))).returning();
+
+    // The founder may have paused or rescheduled the watchlist while it was being scanned
+    const [current] = await tx.select().from(watchlists).where(eq(watchlists.id, row.id)).limit(1);
+    const [watchlist] = await tx
+      .update(watchlists)
+      .set({
+        lastScanAt: now,
+        nextScanAt: current?.enabled ? nextScanDueAt(current.intervalHours, now) : null,
+        lastError: null,
+        updatedAt: now,
+      })
+      .where(eq(watchlists.id, row.id))
+      .returning();
+
+    return { scan, alerts, watchlist };
+  });
+
+  if (result.watchlist) publishWatchlistUpdate({ watchlist: result.watchlist, alerts: result.alerts });
+  return { scan: result.scan, alerts: result.alerts };
+}
+
+// Runs discovery for the watchlist's sector and records the result as its next scan
+export async function runWatchlistScan(
+  row: WatchlistRow,
+  trigger: ScanTrigger,
+  options: GenerationOptions = {}
+): Promise<{ scan: WatchlistScanRow; alerts: WatchlistAlertRow[] }> {
+  const discovery = await discoverOpportunities(row.sector, row.founderProfile, [], options);
+  return recordWatchlistScan(row, discovery, trigger, options);
+}
+
+async function runScheduledScan(row: WatchlistRow): Promise<void> {
+  const exceeded = await exceededLimit(row.userId);
+  if (exceeded) {
+    await updateWatchlist(row.id, {
+      nextScanAt: nextUtcDay(),
+      lastError: `Skipped: today's ${exceeded} limit is used up. The sector is scanned again after midnight UTC.`,
+    });
+    return;
+  }
+
+  await runWatchlistScan(row, 'schedule', { onUsage: usage => recordUsage(row.userId, usage) });
+}
+
+// Claims due watchlists one at a time, so overlapping ticks or several server processes never scan one twice
+async function claimDueWatchlists(now: Date): Promise<WatchlistRow[]> {
+  const due = await db!
+    .select()
+    .from(watchlists)
+    .where(and(eq(watchlists.enabled, true), lte(watchlists.nextScanAt, now)))
+    .orderBy(watchlists.nextScanAt)
+    .limit(BATCH_SIZE);
+
+  const claimed: WatchlistRow[] = [];
+  for (const row of due) {
+    const [won] = await db!
+      .update(watchlists)
+      .set({ nextScanAt: new Date(now.getTime() + CLAIM_MS) })
+      .where(and(eq(watchlists.id, row.id), eq(watchlists.nextScanAt, row.nextScanAt!)))
+      .returning({ id: watchlists.id });
+    if (won) claimed.push(row);
+  }
+  return claimed;
+}
+
+async function tick(): Promise<void> {
+  const claimed = await claimDueWatchlists(new Date());
+  for (const row of claimed) {
+    try {
+      await runScheduledScan(row);
+    } catch (error: any) {
+      console.error(`Scan of watchlist ${row.id} failed:`, error);
+      await updateWatchlist(row.id, {
+        nextScanAt: new Date(Date.now() + RETRY_AFTER_MS),
+        lastError: error?.message || 'Failed to scan the sector',
+      }).catch(updateError => console.error('Watchlist bookkeeping error:', updateError));
+    }
+  }
+}
+
+// Polls for watchlists whose next scan is due. Set WATCHLISTS_ENABLED=false to turn scheduled scans off.
+export function startWatchlistScheduler(): void {
+  if (!db || process.env.WATCHLISTS_ENABLED === 'false') return;
+
+  let running = false;
+  setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await tick();
+    } catch (error) {
+      console.error('Watchlist scheduler error:', error);
+    } finally {
+      running = false;
+    }
+  }, POLL_MS).unref();
+}
+
+// Marks the given alerts read, or all of the user's alerts when no ids are given
+export async function markAlertsRead(userId: number, alertIds?: number[]): Promise<void> {
+  await db!
+    .update(watchlistAlerts)
+    .set({ readAt: new Date() })
+    .where(and(
+      eq(watchlistAlerts.userId, userId),
+      isNull(watchlistAlerts.readAt),
+      alertIds ? inArray(watchlistAlerts.id, alertIds) : undefined,
+    ));
+}
@@ -1,3 +1,38 @@
+import {
+  UserDrivenResponse,
+  AnalysisChunk,
+  ChunkRefinement,
+  ProactiveDiscoveryResponse,
+  ComposedActionPlan,
+  FounderProfile,
+  Problem,
+  MAX_SEEN_PROBLEMS,
+  LiveData,
+  PrioritySelection,
+  ChatMessage,
+  SavedAnalysis,
+  AnalysisComparison,
+  SavedDiscovery,
+  SavedActionPlan,
+  ActionPlanRevision,
+  ComposeInputs,
+  SavedFounderProfile,
+  SavedConnector,
+  SavedLiveDataItem,
+  ConnectorKind,
+  ConnectorConfig,
+  CommandPreview,
+  TaskExecution,
+  ActionOutput,
+  ActionStatus,
+  BoardTask,
+  TaskStatusChange,
+  SavedWatchlist,
+  WatchlistScan,
+  WatchlistAlert,
+  ShortlistItem
+} from '../types';
+
 const API_BASE_URL = '/api';
 
 let authToken: string | null = localStorage.getItem('auth_token');
@@ -15,14 +50,38 @@ export function getAuthToken() {
   return authToken;
 }
 
-async function fetchAPI(endpoint: string, options: RequestInit = {}) {
+let unauthorizedHandler: (() => void) | null = null;
+
+// Called when the server rejects our token (expired or revoked elsewhere)
+export function setUnauthorizedHandler(handler: (() => void) | null) {
+  unauthorizedHandler = handler;
+}
+
+// Carries the server's error code and details alongside the message
+export class ApiError extends Error {
+  constructor(message: string, readonly status: number, readonly code?: string, readonly issues: string[] = []) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+// True when the model's output failed validation even after repair attempts
+export function isInvalidModelOutput(error: unknown): error is ApiError {
+  return error instanceof ApiError && error.code === 'invalid_model_output';
+}
+
+const toApiError = (body: any, status: number) =>
+  new ApiError(body?.error || 'Request failed', status, body?.code, Array.isArray(body?.issues) ? body.issues : []);
+
+async function sendRequest(endpoint: string, options: RequestInit = {}) {
   const headers: HeadersInit = {
     'Content-Type': 'application/json',
     ...options.headers,
   };
 
-  if (authToken) {
-    headers['Authorization'] = `Bearer ${authToken}`;
+  const sentToken = authToken;
+  if (sentToken) {
+    headers['Authorization'] = `Bearer ${sentToken}`;
   }
 
   const response = await fetch(`${API_BASE_URL}${endpoint}`, {
@@ -30,14 +89,91 @@ async function fetchAPI(endpoint: string, options: RequestInit = {}) {
     headers,
   });
 
+  if (response.status === 401 && sentToken) {
+    // Only a rejection of the current token means we're logged out. The token may have been replaced
+    // meanwhile, here or by another tab sharing localStorage (which we then adopt).
+    const storedToken = localStorage.getItem('auth_token');
+    if (storedToken && storedToken !== sentToken) {
+      authToken = storedToken;
+    } else if (authToken === sentToken) {
+      setAuthToken(null);
+      unauthorizedHandler?.();
+    }
+  }
+
   if (!response.ok) {
     const error = await response.json().catch(() => ({ error: 'Request failed' }));
-    throw new Error(error.error || 'Request failed');
+    throw toApiError(error, response.status);
   }
 
+  return response;
+}
+
+async function fetchAPI(endpoint: string, options: RequestInit = {}) {
+  const response = await sendRequest(endpoint, options);
   return response.json();
 }
 
+export interface DownloadedFile {
+  blob: Blob;
+  filename: string;
+}
+
+// Fetches an attachment; the filename comes from the server's Content-Disposition header
+async function downloadAPI(endpoint: string, fallbackName: string): Promise<DownloadedFile> {
+  const response = await sendRequest(endpoint, { headers: { 'Accept': '*/*' } });
+  const disposition = response.headers.get('Content-Disposition') ?? '';
+  const encoded = disposition.match(/filename\*=UTF-8''([^;]+)/i);
+  const plain = disposition.match(/filename="([^"]+)"/i);
+  const filename = encoded ? decodeURIComponent(encoded[1]) : plain ? plain[1] : fallbackName;
+  return { blob: await response.blob(), filename };
+}
+
+// Opens a server-sent events endpoint and calls onEvent for each event until the stream closes.
+// The body is POSTed; without one the stream is opened with a GET. An `error` event from the server is rethrown as an Error.
+async function streamAPI(endpoint: string, body: unknown, onEvent: (event: string, data: any) => void, signal?: AbortSignal) {
+  const response = await sendRequest(endpoint, {
+    method: body === undefined ? 'GET' : 'POST',
+    headers: { 'Accept': 'text/event-stream' },
+    ...(body === undefined ? {} : { body: JSON.stringify(body) }),
+    signal,
+  });
+
+  if (!response.body) {
+    throw new Error('Streaming is not supported by this browser');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = 'message';
+      const dataLines: string[] = [];
+      for (const line of rawEvent.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+      }
+      if (dataLines.length === 0) continue;
+
+      const data = JSON.parse(dataLines.join('\n'));
+      if (event === 'error') {
+        throw toApiError(data, response.status);
+      }
+      onEvent(event, data);
+    }
+  }
+}
+
 export interface RegisterData {
   email: string;
   password: string;
@@ -55,6 +191,67 @@ export interface User {
   name: string;
 }
 
+export interface AuthResult {
+  user: User;
+  token: string;
+  expiresAt: number;
+}
+
+export interface Session {
+  id: number;
+  userAgent: string | null;
+  createdAt: number;
+  lastSeenAt: number;
+  expiresAt: number;
+  current: boolean;
+}
+
+export interface UsageTotals {
+  generations: number;
+  promptTokens: number;
+  responseTokens: number;
+  thinkingTokens: number;
+  totalTokens: number;
+}
+
+export interface UsageEvent {
+  id: string;
+  task: string;
+  model: string;
+  promptTokens: number;
+  responseTokens: number;
+  thinkingTokens: number;
+  latencyMs: number;
+  createdAt: number;
+}
+
+export interface UsageReport {
+  today: UsageTotals;
+  // 0 means unlimited
+  limits: { generations: number; tokens: number };
+  resetsAt: number;
+  byTask: (UsageTotals & { task: string })[];
+  recent: UsageEvent[];
+  isAdmin: boolean;
+}
+
+export interface TeamUsage extends UsageTotals {
+  userId: string;
+  name: string;
+  email: string;
+}
+
+export interface ConnectorSyncResult {
+  connector: SavedConnector;
+  items: LiveData[];
+  error: string | null;
+}
+
+export interface LiveDataResult {
+  items: LiveData[];
+  errors: { id: string; name: string; error: string }[];
+}
+
 export interface Message {
   id: string;
   role: 'user' | 'assistant';
@@ -70,7 +267,7 @@ export interface Conversation {
 }
 
 export const authAPI = {
-  async register(data: RegisterData): Promise<{ user: User; token: string }> {
+  async register(data: RegisterData): Promise<AuthResult> {
     const result = await fetchAPI('/auth/register', {
       method: 'POST',
       body: JSON.stringify(data),
@@ -79,7 +276,7 @@ export const authAPI = {
     return result;
   },
 
-  async login(data: LoginData): Promise<{ user: User; token: string }> {
+  async login(data: LoginData): Promise<AuthResult> {
     const result = await fetchAPI('/auth/login', {
       method: 'POST',
       body: JSON.stringify(data),
@@ -92,6 +289,27 @@ export const authAPI = {
     await fetchAPI('/auth/logout', { method: 'POST' });
     setAuthToken(null);
   },
+
+  async refresh(): Promise<AuthResult> {
+    const result = await fetchAPI('/auth/refresh', { method: 'POST' });
+    setAuthToken(result.token);
+    return result;
+  },
+
+  async logoutAll(): Promise<void> {
+    await fetchAPI('/auth/logout-all', { method: 'POST' });
+    setAuthToken(null);
+  },
+
+  async getSessions(): Promise<Session[]> {
+    return fetchAPI('/auth/sessions');
+  },
+
+  async revokeSession(sessionId: number): Promise<void> {
+    await fetchAPI(`/auth/sessions/${sessionId}`, {
+      method: 'DELETE',
+    });
+  },
 };
 
 export const conversationAPI = {
@@ -119,3 +337,461 @@ export const conversationAPI = {
     });
   },
 };
+
+export const aiAPI = {
+  async analyzeProblem(problem: string, founderProfile: FounderProfile): Promise<UserDrivenResponse> {
+    return fetchAPI('/analyze', {
+      method: 'POST',
+      body: JSON.stringify({ problem, founderProfile }),
+    });
+  },
+
+  // Streams the analysis, reporting each chunk as soon as it is generated.
+  // Aborting the signal stops generation on the server too.
+  async analyzeProblemStream(
+    problem: string,
+    founderProfile: FounderProfile,
+    onChunk: (chunk: AnalysisChunk) => void,
+    signal?: AbortSignal
+  ): Promise<UserDrivenResponse> {
+    let result: UserDrivenResponse | null = null;
+    await streamAPI('/analyze/stream', { problem, founderProfile }, (event, data) => {
+      if (event === 'chunk') onChunk(data);
+      else if (event === 'done') result = data;
+    }, signal);
+    if (!result) throw new Error('The analysis ended before it was complete. Please try again.');
+    return result;
+  },
+
+  // Regenerates one chunk, or appends a deeper dive to it; the chunk comes back with its earlier content in previous_versions
+  async refineChunk(analysis: UserDrivenResponse, chunkId: number, mode: ChunkRefinement, focus?: string): Promise<AnalysisChunk> {
+    return fetchAPI('/analyze/chunk', {
+      method: 'POST',
+      body: JSON.stringify({ analysis, chunkId, mode, focus }),
+    });
+  },
+
+  // Pass the problems already shown to get different ones
+  async discoverOpportunities(sector: string, founderProfile: FounderProfile, seen: Problem[] = []): Promise<ProactiveDiscoveryResponse> {
+    return fetchAPI('/discover', {
+      method: 'POST',
+      body: JSON.stringify({
+        sector,
+        founderProfile,
+        seen: seen.slice(-MAX_SEEN_PROBLEMS).map(({ id, problem_statement, sources }) => ({ id, problem_statement, sources })),
+      }),
+    });
+  },
+
+  async composeActionPlan(
+    analysis: UserDrivenResponse,
+    opportunities: Problem[],
+    liveData: LiveData[],
+    founderProfile: FounderProfile,
+    priority: PrioritySelection,
+    analysisId?: string | null
+  ): Promise<ComposedActionPlan> {
+    return fetchAPI('/compose', {
+      method: 'POST',
+      body: JSON.stringify({ analysis, analysisId, opportunities, liveData, founderProfile, priority }),
+    });
+  },
+
+  async chat(message: string, history: ChatMessage[]): Promise<string> {
+    const result = await fetchAPI('/chat', {
+      method: 'POST',
+      body: JSON.stringify({ message, history }),
+    });
+    return result.reply;
+  },
+
+  // Streams the reply token-by-token through onDelta and resolves with the full text
+  async chatStream(message: string, history: ChatMessage[], onDelta: (text: string) => void, signal?: AbortSignal): Promise<string> {
+    let reply: string | null = null;
+    await streamAPI('/chat/stream', { message, history }, (event, data) => {
+      if (event === 'delta') onDelta(data.text);
+      else if (event === 'done') reply = data.reply;
+    }, signal);
+    if (reply === null) throw new Error('The reply ended before it was complete. Please try again.');
+    return reply;
+  },
+};
+
+export const analysesAPI = {
+  async list(conversationId?: string): Promise<SavedAnalysis[]> {
+    const query = conversationId ? `?conversationId=${encodeURIComponent(conversationId)}` : '';
+    return fetchAPI(`/analyses${query}`);
+  },
+
+  async get(analysisId: string): Promise<SavedAnalysis> {
+    return fetchAPI(`/analyses/${analysisId}`);
+  },
+
+  async create(data: UserDrivenResponse, conversationId?: string | null): Promise<SavedAnalysis> {
+    return fetchAPI('/analyses', {
+      method: 'POST',
+      body: JSON.stringify({ data, conversationId }),
+    });
+  },
+
+  async update(analysisId: string, data: UserDrivenResponse): Promise<SavedAnalysis> {
+    return fetchAPI(`/analyses/${analysisId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ data }),
+    });
+  },
+
+  // All analyses of the same problem, oldest version first
+  async versions(analysisId: string): Promise<SavedAnalysis[]> {
+    return fetchAPI(`/analyses/${analysisId}/versions`);
+  },
+
+  async compare(baseId: string, targetId: string): Promise<AnalysisComparison> {
+    return fetchAPI(`/analyses/${baseId}/compare?with=${encodeURIComponent(targetId)}`);
+  },
+
+  async export(analysisId: string, format: 'md' | 'pdf' | 'docx'): Promise<DownloadedFile> {
+    return downloadAPI(`/analyses/${analysisId}/export?format=${format}`, `analysis.${format}`);
+  },
+
+  async remove(analysisId: string): Promise<void> {
+    await fetchAPI(`/analyses/${analysisId}`, {
+      method: 'DELETE',
+    });
+  },
+};
+
+export const discoveriesAPI = {
+  async list(): Promise<SavedDiscovery[]> {
+    return fetchAPI('/discoveries');
+  },
+
+  async get(discoveryId: string): Promise<SavedDiscovery> {
+    return fetchAPI(`/discoveries/${discoveryId}`);
+  },
+
+  async create(data: ProactiveDiscoveryResponse, conversationId?: string | null): Promise<SavedDiscovery> {
+    return fetchAPI('/discoveries', {
+      method: 'POST',
+      body: JSON.stringify({ data, conversationId }),
+    });
+  },
+
+  async update(discoveryId: string, data: ProactiveDiscoveryResponse): Promise<SavedDiscovery> {
+    return fetchAPI(`/discoveries/${discoveryId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ data }),
+    });
+  },
+
+  async remove(discoveryId: string): Promise<void> {
+    await fetchAPI(`/discoveries/${discoveryId}`, {
+      method: 'DELETE',
+    });
+  },
+};
+
+export const actionPlansAPI = {
+  async list(analysisId?: string): Promise<SavedActionPlan[]> {
+    const query = analysisId ? `?analysisId=${encodeURIComponent(analysisId)}` : '';
+    return fetchAPI(`/action-plans${query}`);
+  },
+
+  async get(planId: string): Promise<SavedActionPlan> {
+    return fetchAPI(`/action-plans/${planId}`);
+  },
+
+  // Plans saved with their inputs are recomposed on the server whenever their heartbeat comes due
+  async create(data: ComposedActionPlan, analysisId?: string | null, conversationId?: string | null, inputs?: ComposeInputs): Promise<SavedActionPlan> {
+    return fetchAPI('/action-plans', {
+      method: 'POST',
+      body: JSON.stringify({ data, analysisId, conversationId, inputs }),
+    });
+  },
+
+  async update(planId: string, data: ComposedActionPlan): Promise<SavedActionPlan> {
+    return fetchAPI(`/action-plans/${planId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ data }),
+    });
+  },
+
+  async setHeartbeat(planId: string, heartbeatEnabled: boolean): Promise<SavedActionPlan> {
+    return fetchAPI(`/action-plans/${planId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ heartbeatEnabled }),
+    });
+  },
+
+  async revisions(planId: string): Promise<ActionPlanRevision[]> {
+    return fetchAPI(`/action-plans/${planId}/revisions`);
+  },
+
+  // Status changes are kept on the task board, so they carry over to later plans proposing the same task
+  async setTaskStatus(planId: string, taskId: number, status: ActionStatus): Promise<SavedActionPlan> {
+    return fetchAPI(`/action-plans/${planId}/tasks/${taskId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ status }),
+    });
+  },
+
+  async commandPreview(planId: string, taskId: number): Promise<CommandPreview> {
+    return fetchAPI(`/action-plans/${planId}/tasks/${taskId}/command`);
+  },
+
+  // Nothing runs until the founder approves; a rejection is recorded in the execution log too
+  async execute(planId: string, taskId: number, decision: 'approve' | 'reject'): Promise<{ execution: TaskExecution; plan: SavedActionPlan }> {
+    return fetchAPI(`/action-plans/${planId}/tasks/${taskId}/execute`, {
+      method: 'POST',
+      body: JSON.stringify({ decision }),
+    });
+  },
+
+  async outputs(planId: string): Promise<ActionOutput[]> {
+    return fetchAPI(`/action-plans/${planId}/outputs`);
+  },
+
+  // `events` exports calendar events instead of to-dos, for calendars that don't show tasks
+  async export(planId: string, format: 'ics' | 'csv' | 'json', events = false): Promise<DownloadedFile> {
+    return downloadAPI(`/action-plans/${planId}/export?format=${format}${events ? '&events=1' : ''}`, `action-plan.${format}`);
+  },
+
+  // Takes the parsed contents of a JSON export and saves it as a new plan
+  async import(data: unknown, analysisId?: string | null): Promise<SavedActionPlan> {
+    return fetchAPI('/action-plans/import', {
+      method: 'POST',
+      body: JSON.stringify({ data, analysisId }),
+    });
+  },
+
+  async remove(planId: string): Promise<void> {
+    await fetchAPI(`/action-plans/${planId}`, {
+      method: 'DELETE',
+    });
+  },
+
+  // Resolves when the stream closes; abort the signal to unsubscribe
+  async subscribe(onPlan: (plan: SavedActionPlan) => void, signal?: AbortSignal): Promise<void> {
+    await streamAPI('/action-plans/events', undefined, (event, data) => {
+      if (event === 'plan') onPlan(data);
+    }, signal);
+  },
+};
+
+export const tasksAPI = {
+  async list(analysisId?: string): Promise<BoardTask[]> {
+    const query = analysisId ? `?analysisId=${encodeURIComponent(analysisId)}` : '';
+    return fetchAPI(`/tasks${query}`);
+  },
+
+  async update(taskId: string, changes: { status?: ActionStatus; assignee?: string | null; dueAt?: number | null }): Promise<BoardTask> {
+    return fetchAPI(`/tasks/${taskId}`, {
+      method: 'PUT',
+      body: JSON.stringify(changes),
+    });
+  },
+
+  async history(taskId: string): Promise<TaskStatusChange[]> {
+    return fetchAPI(`/tasks/${taskId}/history`);
+  },
+
+  async remove(taskId: string): Promise<void> {
+    await fetchAPI(`/tasks/${taskId}`, {
+      method: 'DELETE',
+    });
+  },
+};
+
+export const shortlistAPI = {
+  async list(): Promise<ShortlistItem[]> {
+    return fetchAPI('/shortlist');
+  },
+
+  // Adding a problem that's already shortlisted returns the existing item
+  async add(problem: Problem, sector: string): Promise<ShortlistItem> {
+    return fetchAPI('/shortlist', {
+      method: 'POST',
+      body: JSON.stringify({ problem, sector }),
+    });
+  },
+
+  async update(itemId: string, changes: { tags?: string[]; note?: string }): Promise<ShortlistItem> {
+    return fetchAPI(`/shortlist/${itemId}`, {
+      method: 'PUT',
+      body: JSON.stringify(changes),
+    });
+  },
+
+  async remove(itemId: string): Promise<void> {
+    await fetchAPI(`/shortlist/${itemId}`, {
+      method: 'DELETE',
+    });
+  },
+};
+
+export const watchlistsAPI = {
+  async list(): Promise<SavedWatchlist[]> {
+    return fetchAPI('/watchlists');
+  },
+
+  // Pass the discovery result on screen as the baseline so only problems found after it raise alerts
+  async create(sector: string, founderProfile: FounderProfile, intervalHours?: number, baseline?: ProactiveDiscoveryResponse): Promise<SavedWatchlist> {
+    return fetchAPI('/watchlists', {
+      method: 'POST',
+      body: JSON.stringify({ sector, founderProfile, intervalHours, baseline }),
+    });
+  },
+
+  async update(watchlistId: string, changes: { enabled?: boolean; intervalHours?: number; founderProfile?: FounderProfile }): Promise<SavedWatchlist> {
+    return fetchAPI(`/watchlists/${watchlistId}`, {
+      method: 'PUT',
+      body: JSON.stringify(changes),
+    });
+  },
+
+  async remove(watchlistId: string): Promise<void> {
+    await fetchAPI(`/watchlists/${watchlistId}`, {
+      method: 'DELETE',
+    });
+  },
+
+  // Newest first, WATCHLIST_SCANS_PAGE_SIZE at a time; pass the oldest scan's id for the page before it
+  async scans(watchlistId: string, before?: string): Promise<WatchlistScan[]> {
+    return fetchAPI(`/watchlists/${watchlistId}/scans${before ? `?before=${encodeURIComponent(before)}` : ''}`);
+  },
+
+  async scanNow(watchlistId: string): Promise<WatchlistScan> {
+    return fetchAPI(`/watchlists/${watchlistId}/scan`, {
+      method: 'POST',
+    });
+  },
+
+  async alerts(unreadOnly = false): Promise<WatchlistAlert[]> {
+    return fetchAPI(`/watchlists/alerts${unreadOnly ? '?unread=1' : ''}`);
+  },
+
+  // Without ids, every alert is marked read
+  async markRead(alertIds?: string[]): Promise<void> {
+    await fetchAPI('/watchlists/alerts/read', {
+      method: 'POST',
+      body: JSON.stringify({ ids: alertIds }),
+    });
+  },
+
+  // Resolves when the stream closes; abort the signal to unsubscribe
+  async subscribe(
+    handlers: { onWatchlist?: (watchlist: SavedWatchlist) => void; onAlert?: (alert: WatchlistAlert) => void },
+    signal?: AbortSignal
+  ): Promise<void> {
+    await streamAPI('/watchlists/events', undefined, (event, data) => {
+      if (event === 'watchlist') handlers.onWatchlist?.(data);
+      if (event === 'alert') handlers.onAlert?.(data);
+    }, signal);
+  },
+};
+
+export const founderProfilesAPI = {
+  async list(): Promise<SavedFounderProfile[]> {
+    return fetchAPI('/founder-profiles');
+  },
+
+  async create(name: string, data: FounderProfile, activate = false): Promise<SavedFounderProfile> {
+    return fetchAPI('/founder-profiles', {
+      method: 'POST',
+      body: JSON.stringify({ name, data, activate }),
+    });
+  },
+
+  async update(profileId: string, changes: { name?: string; data?: FounderProfile }): Promise<SavedFounderProfile> {
+    return fetchAPI(`/founder-profiles/${profileId}`, {
+      method: 'PUT',
+      body: JSON.stringify(changes),
+    });
+  },
+
+  async activate(profileId: string): Promise<SavedFounderProfile> {
+    return fetchAPI(`/founder-profiles/${profileId}/activate`, {
+      method: 'POST',
+    });
+  },
+
+  async remove(profileId: string): Promise<void> {
+    await fetchAPI(`/founder-profiles/${profileId}`, {
+      method: 'DELETE',
+    });
+  },
+};
+
+export const usageAPI = {
+  async get(): Promise<UsageReport> {
+    return fetchAPI('/usage');
+  },
+
+  async team(): Promise<TeamUsage[]> {
+    return fetchAPI('/usage/team');
+  },
+};
+
+export const connectorsAPI = {
+  async list(): Promise<SavedConnector[]> {
+    return fetchAPI('/connectors');
+  },
+
+  async create(kind: ConnectorKind, name: string, config: Partial<ConnectorConfig>): Promise<SavedConnector> {
+    return fetchAPI('/connectors', {
+      method: 'POST',
+      body: JSON.stringify({ kind, name, config }),
+    });
+  },
+
+  // Private fields left out of config keep their stored values
+  async update(connectorId: string, changes: { name?: string; enabled?: boolean; config?: Partial<ConnectorConfig> }): Promise<SavedConnector> {
+    return fetchAPI(`/connectors/${connectorId}`, {
+      method: 'PUT',
+      body: JSON.stringify(changes),
+    });
+  },
+
+  async sync(connectorId: string): Promise<ConnectorSyncResult> {
+    return fetchAPI(`/connectors/${connectorId}/sync`, {
+      method: 'POST',
+    });
+  },
+
+  async remove(connectorId: string): Promise<void> {
+    await fetchAPI(`/connectors/${connectorId}`, {
+      method: 'DELETE',
+    });
+  },
+
+  async liveData(): Promise<LiveDataResult> {
+    return fetchAPI('/connectors/live-data');
+  },
+};
+
+export const liveDataAPI = {
+  async list(): Promise<SavedLiveDataItem[]> {
+    return fetchAPI('/live-data');
+  },
+
+  // Used for single adds and bulk imports alike
+  async create(items: LiveData[]): Promise<SavedLiveDataItem[]> {
+    return fetchAPI('/live-data', {
+      method: 'POST',
+      body: JSON.stringify({ items }),
+    });
+  },
+
+  async update(itemId: string, item: LiveData): Promise<SavedLiveDataItem> {
+    return fetchAPI(`/live-data/${itemId}`, {
+      method: 'PUT',
+      body: JSON.stringify(item),
+    });
+  },
+
+  async remove(itemId: string): Promise<void> {
+    await fetchAPI(`/live-data/${itemId}`, {
+      method: 'DELETE',
+    });
+  },
+};
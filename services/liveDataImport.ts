@@ -0,0 +1,118 @@
+import { LIVE_DATA_SOURCES, LiveData, LiveDataSource } from '../types';
+
+export interface LiveDataImport {
+  items: LiveData[];
+  errors: string[];
+}
+
+// "Market News", "market-news" and "market_news" all mean the same source
+const normalizeSource = (value: unknown): LiveDataSource | null => {
+  const source = String(value ?? '').trim().toLowerCase().replace(/[\s-]+/g, '_');
+  return LIVE_DATA_SOURCES.includes(source as LiveDataSource) ? source as LiveDataSource : null;
+};
+
+const toItem = (record: Record<string, unknown>, label: string, errors: string[]): LiveData | null => {
+  const source = normalizeSource(record.source);
+  const content = String(record.content ?? '').trim();
+  const rawTimestamp = String(record.timestamp ?? '').trim();
+  const timestamp = rawTimestamp ? new Date(rawTimestamp) : new Date();
+
+  if (!source) {
+    errors.push(`${label}: unknown source "${record.source ?? ''}" (use ${LIVE_DATA_SOURCES.join(', ')})`);
+    return null;
+  }
+  if (!content) {
+    errors.push(`${label}: content is empty`);
+    return null;
+  }
+  if (Number.isNaN(timestamp.getTime())) {
+    errors.push(`${label}: "${rawTimestamp}" is not a valid timestamp`);
+    return null;
+  }
+  return { source, content, timestamp: timestamp.toISOString() };
+};
+
+// RFC 4180 CSV: quoted fields may contain commas, newlines and doubled quotes
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+const parseCsvImport = (text: string): LiveDataImport => {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  const columns = (header ?? []).map(name => name.trim().toLowerCase());
+  if (!columns.includes('source') || !columns.includes('content')) {
+    return { items: [], errors: ['CSV needs a header row with "source" and "content" columns (and optionally "timestamp")'] };
+  }
+
+  const errors: string[] = [];
+  const items = rows
+    .map((cells, index) => {
+      const record = Object.fromEntries(columns.map((column, i) => [column, cells[i]]));
+      return toItem(record, `Row ${index + 2}`, errors);
+    })
+    .filter((item): item is LiveData => item !== null);
+  return { items, errors };
+};
+
+const parseJsonImport = (text: string): LiveDataImport => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { items: [], errors: ['File is not valid JSON'] };
+  }
+
+  const records = Array.isArray(parsed) ? parsed : parsed?.items;
+  if (!Array.isArray(records)) {
+    return { items: [], errors: ['JSON must be an array of items, or an object with an "items" array'] };
+  }
+
+  const errors: string[] = [];
+  const items = records
+    .map((record, index) => record && typeof record === 'object'
+      ? toItem(record, `Item ${index + 1}`, errors)
+      : (errors.push(`Item ${index + 1}: not an object`), null))
+    .filter((item): item is LiveData => item !== null);
+  return { items, errors };
+};
+
+// Parses an uploaded CSV or JSON file into live data items, collecting a message for every row that was skipped
+export function parseLiveDataImport(text: string, fileName = ''): LiveDataImport {
+  const looksLikeJson = /\.json$/i.test(fileName) || /^\s*[[{]/.test(text);
+  return looksLikeJson ? parseJsonImport(text) : parseCsvImport(text);
+}
@@ -0,0 +1,7 @@
+// Titles that differ only in case, punctuation or spacing describe the same task
+export const taskKey = (title: string): string =>
+  title.normalize('NFKC').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim().slice(0, 255);
+
+// Statements that differ only in case, punctuation or spacing are the same problem, as with task titles. The client
+// matches bookmarks with this too, so it agrees with the server's de-duplication.
+export const problemKey = taskKey;
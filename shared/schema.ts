@@ -1,4 +1,5 @@
-import { pgTable, serial, varchar, text, timestamp, integer } from 'drizzle-orm/pg-core';
+import { pgTable, serial, varchar, text, timestamp, integer, jsonb, boolean, index, uniqueIndex } from 'drizzle-orm/pg-core';
+import type { UserDrivenResponse, ProactiveDiscoveryResponse, ComposedActionPlan, FounderProfile, ConnectorConfig, ComposeInputs, Problem } from '../types';
 
 export const users = pgTable('users', {
   id: serial('id').primaryKey(),
@@ -23,3 +24,240 @@ export const messages = pgTable('messages', {
   content: text('content').notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
+
+export const sessions = pgTable('sessions', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  userAgent: varchar('user_agent', { length: 512 }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  lastSeenAt: timestamp('last_seen_at').defaultNow().notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
+});
+
+// A problem statement the user has analyzed; each analysis of it is a numbered version. Matched by normalised text.
+export const problems = pgTable('problems', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  dedupKey: varchar('dedup_key', { length: 255 }).notNull(),
+  statement: text('statement').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('problems_user_dedup_key_idx').on(table.userId, table.dedupKey),
+]);
+
+// Structured AI artifacts. Payloads are stored verbatim so they can be re-rendered or fed back into the Composer.
+export const analyses = pgTable('analyses', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  conversationId: integer('conversation_id').references(() => conversations.id, { onDelete: 'set null' }),
+  problemId: integer('problem_id').references(() => problems.id, { onDelete: 'set null' }),
+  version: integer('version'),
+  problem: text('problem').notNull(),
+  payload: jsonb('payload').$type<UserDrivenResponse>().notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+export const discoveries = pgTable('discoveries', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  conversationId: integer('conversation_id').references(() => conversations.id, { onDelete: 'set null' }),
+  sector: varchar('sector', { length: 255 }).notNull(),
+  payload: jsonb('payload').$type<ProactiveDiscoveryResponse>().notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Discovered problems the user bookmarked, de-duplicated by normalised statement like `problems`
+export const shortlistItems = pgTable('shortlist_items', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  dedupKey: varchar('dedup_key', { length: 255 }).notNull(),
+  sector: varchar('sector', { length: 255 }).notNull(),
+  problem: jsonb('problem').$type<Problem>().notNull(),
+  tags: jsonb('tags').$type<string[]>().default([]).notNull(),
+  note: text('note').default('').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('shortlist_items_user_dedup_key_idx').on(table.userId, table.dedupKey),
+]);
+
+// Sectors re-scanned on a schedule; each scan is diffed against the earlier ones and new problems raise alerts
+export const watchlists = pgTable('watchlists', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  sector: varchar('sector', { length: 255 }).notNull(),
+  founderProfile: jsonb('founder_profile').$type<FounderProfile>().notNull(),
+  intervalHours: integer('interval_hours').default(168).notNull(),
+  enabled: boolean('enabled').default(true).notNull(),
+  nextScanAt: timestamp('next_scan_at'),
+  lastScanAt: timestamp('last_scan_at'),
+  lastError: text('last_error'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('watchlists_next_scan_idx').on(table.nextScanAt),
+]);
+
+// Every scan of a watchlist. Embeddings line up with the payload's problems and are what later scans are diffed against.
+export const watchlistScans = pgTable('watchlist_scans', {
+  id: serial('id').primaryKey(),
+  watchlistId: integer('watchlist_id').notNull().references(() => watchlists.id, { onDelete: 'cascade' }),
+  trigger: varchar('trigger', { length: 20 }).notNull(),
+  payload: jsonb('payload').$type<ProactiveDiscoveryResponse>().notNull(),
+  newProblemIds: jsonb('new_problem_ids').$type<number[]>().notNull(),
+  embeddings: jsonb('embeddings').$type<number[][]>().notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('watchlist_scans_watchlist_idx').on(table.watchlistId, table.createdAt),
+]);
+
+// One alert per problem a scan found that no earlier scan of the watchlist had
+export const watchlistAlerts = pgTable('watchlist_alerts', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  watchlistId: integer('watchlist_id').notNull().references(() => watchlists.id, { onDelete: 'cascade' }),
+  scanId: integer('scan_id').notNull().references(() => watchlistScans.id, { onDelete: 'cascade' }),
+  problem: jsonb('problem').$type<Problem>().notNull(),
+  readAt: timestamp('read_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('watchlist_alerts_user_created_idx').on(table.userId, table.createdAt),
+]);
+
+export const actionPlans = pgTable('action_plans', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  conversationId: integer('conversation_id').references(() => conversations.id, { onDelete: 'set null' }),
+  analysisId: integer('analysis_id').references(() => analyses.id, { onDelete: 'set null' }),
+  payload: jsonb('payload').$type<ComposedActionPlan>().notNull(),
+  // Heartbeat state: plans with compose inputs are recomposed when next_heartbeat_at passes
+  revision: integer('revision').default(1).notNull(),
+  composeInputs: jsonb('compose_inputs').$type<ComposeInputs>(),
+  heartbeatEnabled: boolean('heartbeat_enabled').default(true).notNull(),
+  nextHeartbeatAt: timestamp('next_heartbeat_at'),
+  heartbeatError: text('heartbeat_error'),
+  liveDataHash: varchar('live_data_hash', { length: 64 }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('action_plans_next_heartbeat_idx').on(table.nextHeartbeatAt),
+]);
+
+// Every version of a plan, from the first composition through each heartbeat
+export const actionPlanRevisions = pgTable('action_plan_revisions', {
+  id: serial('id').primaryKey(),
+  planId: integer('plan_id').notNull().references(() => actionPlans.id, { onDelete: 'cascade' }),
+  revision: integer('revision').notNull(),
+  trigger: varchar('trigger', { length: 20 }).notNull(),
+  payload: jsonb('payload').$type<ComposedActionPlan>().notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('action_plan_revisions_plan_idx').on(table.planId, table.revision),
+]);
+
+export const founderProfiles = pgTable('founder_profiles', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 255 }).notNull(),
+  payload: jsonb('payload').$type<FounderProfile>().notNull(),
+  isActive: boolean('is_active').default(false).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// One row per model call, including repair attempts, so per-user quotas and spend can be tracked
+export const usageEvents = pgTable('usage_events', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  task: varchar('task', { length: 50 }).notNull(),
+  model: varchar('model', { length: 100 }).notNull(),
+  promptTokens: integer('prompt_tokens').default(0).notNull(),
+  responseTokens: integer('response_tokens').default(0).notNull(),
+  thinkingTokens: integer('thinking_tokens').default(0).notNull(),
+  latencyMs: integer('latency_ms').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('usage_events_user_created_idx').on(table.userId, table.createdAt),
+]);
+
+// Live data sources for the Composer. Config may hold credentials, which the API never returns.
+export const connectors = pgTable('connectors', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  kind: varchar('kind', { length: 20 }).notNull(),
+  name: varchar('name', { length: 255 }).notNull(),
+  config: jsonb('config').$type<ConnectorConfig>().notNull(),
+  enabled: boolean('enabled').default(true).notNull(),
+  lastSyncedAt: timestamp('last_synced_at'),
+  lastError: text('last_error'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Signals pasted or imported by the founder; passed to the Composer alongside connector data
+export const liveDataItems = pgTable('live_data_items', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  source: varchar('source', { length: 20 }).notNull(),
+  content: text('content').notNull(),
+  occurredAt: timestamp('occurred_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('live_data_items_user_occurred_idx').on(table.userId, table.occurredAt),
+]);
+
+// Email drafts, reminders and notes created by approved task commands
+export const actionOutputs = pgTable('action_outputs', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  planId: integer('plan_id').notNull().references(() => actionPlans.id, { onDelete: 'cascade' }),
+  taskId: integer('task_id').notNull(),
+  kind: varchar('kind', { length: 20 }).notNull(),
+  title: varchar('title', { length: 255 }).notNull(),
+  body: text('body').notNull(),
+  recipient: varchar('recipient', { length: 255 }),
+  remindAt: timestamp('remind_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('action_outputs_plan_idx').on(table.planId),
+]);
+
+// Tasks from every composed plan, de-duplicated by title, so progress outlives recomposition
+export const tasks = pgTable('tasks', {
+  id: serial('id').primaryKey(),
+  userId: integer('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  // The plan that most recently proposed the task, and the task's id inside that plan
+  planId: integer('plan_id').references(() => actionPlans.id, { onDelete: 'set null' }),
+  planTaskId: integer('plan_task_id'),
+  analysisId: integer('analysis_id').references(() => analyses.id, { onDelete: 'set null' }),
+  dedupKey: varchar('dedup_key', { length: 255 }).notNull(),
+  title: varchar('title', { length: 255 }).notNull(),
+  description: text('description').notNull(),
+  owner: varchar('owner', { length: 20 }).notNull(),
+  assignee: varchar('assignee', { length: 255 }),
+  status: varchar('status', { length: 20 }).default('pending').notNull(),
+  executable: boolean('executable').default(false).notNull(),
+  command: text('command'),
+  dueAt: timestamp('due_at'),
+  completedAt: timestamp('completed_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('tasks_user_dedup_key_idx').on(table.userId, table.dedupKey),
+]);
+
+export const taskStatusChanges = pgTable('task_status_changes', {
+  id: serial('id').primaryKey(),
+  taskId: integer('task_id').notNull().references(() => tasks.id, { onDelete: 'cascade' }),
+  fromStatus: varchar('from_status', { length: 20 }),
+  toStatus: varchar('to_status', { length: 20 }).notNull(),
+  source: varchar('source', { length: 20 }).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('task_status_changes_task_idx').on(table.taskId),
+]);
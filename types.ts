@@ -1,4 +1,4 @@
-export type ViewMode = 'analyze' | 'discover' | 'compose';
+export type ViewMode = 'analyze' | 'discover' | 'compose' | 'tasks';
 export type Theme = 'light' | 'dark';
 
 export type FundingStage = "pre-seed" | "seed" | "pre-series-a" | "series-a+";
@@ -19,6 +19,29 @@ export interface AnalysisChunk {
   title: string;
   analysis: string;
   key_insights: string[];
+  sources?: CitedSource[]; // Cited in `analysis` as [^1], [^2], ... in this order; absent on analyses saved before citations
+  previous_versions?: AnalysisChunkVersion[]; // Newest first; only present once the chunk has been refined
+}
+
+// A retrieved document an analysis cites
+export interface CitedSource {
+  url: string;
+  title: string;
+  snippet: string;
+  retrieved_at: string;
+}
+
+// Regenerate rewrites a chunk from scratch; deepen appends a more detailed section to it
+export type ChunkRefinement = 'regenerate' | 'deepen';
+
+// A chunk's content as it was before a refinement replaced it
+export interface AnalysisChunkVersion {
+  analysis: string;
+  key_insights: string[];
+  sources?: CitedSource[];
+  replaced_at: string;
+  replaced_by: ChunkRefinement;
+  focus?: string;
 }
 
 export interface Synthesis {
@@ -34,25 +57,73 @@ export interface UserDrivenResponse {
   synthesis: Synthesis;
 }
 
+// A feed item a discovered problem was derived from
+export interface ProblemSource {
+  url: string;
+  title: string;
+  feed: string;
+  published_at: string | null;
+}
+
+// Each 1-10, higher is better for the founder: a bigger market, a more pressing pain, a closer fit with
+// their runway, team and tech stack, and weaker competition
+export interface OpportunityScores {
+  market_size: number;
+  urgency: number;
+  fit: number;
+  competition: number;
+}
+
+// How much each score counts towards a problem's overall score, 0 to ignore it
+export type OpportunityWeights = Record<keyof OpportunityScores, number>;
+
 export interface Problem {
   id: number;
   problem_statement: string;
-  simulated_source: string;
-  freshness_timestamp: string;
+  scores?: OpportunityScores; // Absent on discoveries saved before scoring
+  sources?: ProblemSource[]; // Absent on discoveries saved before feeds were scanned
+  simulated_source?: string; // Only on those older discoveries
+  freshness_timestamp: string; // When the newest source was published (or first fetched, if undated)
   personalization_note: string;
 }
 
+// "Show more" sends back only the newest problems shown, which keeps the discovery prompt bounded
+export const MAX_SEEN_PROBLEMS = 50;
+
+export interface FeedScanResult {
+  name: string;
+  items: number;
+  error: string | null;
+  cached: boolean;
+}
+
+// What a discovery scanned, so the founder can judge how much evidence is behind it
+export interface DiscoveryScan {
+  scanned_at: string;
+  feeds: FeedScanResult[];
+  clusters: number;
+}
+
 export interface ProactiveDiscoveryResponse {
   mode: 'proactive_discovery';
   sector: string;
   founder_profile: FounderProfile;
   problems: Problem[];
+  scan?: DiscoveryScan;
 }
 
 // Composer Types
 export type ActionStatus = "pending" | "in_progress" | "done";
 export type ActionOwner = "founder" | "ai" | "tool";
 
+// Outcome of running (or declining to run) a task's command; written by the server, never by the model
+export interface TaskExecution {
+  status: 'succeeded' | 'failed' | 'rejected';
+  summary: string;
+  url?: string;
+  at: string;
+}
+
 export interface ActionTask {
   id: number;
   title: string;
@@ -62,6 +133,7 @@ export interface ActionTask {
   command: string | null;
   status: ActionStatus;
   due_in_hours: number;
+  execution?: TaskExecution;
 }
 
 export interface InsightFusion {
@@ -70,14 +142,25 @@ export interface InsightFusion {
   confidence: number;
 }
 
-export type LiveDataSource = "slack" | "github" | "notion" | "email" | "market_news";
+// Shared by the client's import parser and the server's validation, so the two accept the same sources
+export const LIVE_DATA_SOURCES = ["slack", "github", "notion", "email", "market_news"] as const;
+export type LiveDataSource = typeof LIVE_DATA_SOURCES[number];
 export interface LiveData {
   source: LiveDataSource;
   content: string;
   timestamp: string;
 }
+// The Composer sees at most this many signals, newest first, wherever they come from
+export const MAX_LIVE_DATA_ITEMS = 30;
 
 export type Priority = "urgent" | "high" | "medium" | "low";
+export type PrioritySelection = Priority | "auto";
+
+// How a plan's priority was chosen: picked by the founder, or derived on the server from runway, signals and overdue work
+export interface PriorityDecision {
+  mode: 'manual' | 'auto';
+  reasoning: string[];
+}
 
 export interface ComposedActionPlan {
   mode: 'compose';
@@ -90,8 +173,252 @@ export interface ComposedActionPlan {
   action_plan: ActionTask[];
   execution_log: string[];
   next_heartbeat_in_seconds: number;
+  priority_decision?: PriorityDecision; // Optional for plans composed before it was recorded
   key_considerations: {
     financial: string[];
     governmental: string[];
   };
 }
+
+// Chat Types
+export interface ChatMessage {
+  role: 'user' | 'model';
+  parts: string;
+}
+
+// Persisted artifacts
+export interface SavedRecord<T> {
+  id: string;
+  conversationId: string | null;
+  createdAt: number;
+  updatedAt: number;
+  data: T;
+}
+
+export interface SavedAnalysis extends SavedRecord<UserDrivenResponse> {
+  problemId: string | null;
+  version: number | null; // 1 for the first analysis of a problem, counting up with each re-analysis
+}
+export type SavedDiscovery = SavedRecord<ProactiveDiscoveryResponse>;
+export interface SavedActionPlan extends SavedRecord<ComposedActionPlan> {
+  analysisId: string | null;
+  revision: number;
+  heartbeatEnabled: boolean;
+  nextHeartbeatAt: number | null;
+  heartbeatError: string | null;
+}
+
+// What a plan was composed from, kept so the heartbeat can compose it again
+export interface ComposeInputs {
+  analysis: UserDrivenResponse;
+  opportunities: Problem[];
+  priority: PrioritySelection;
+}
+
+export interface ActionPlanRevision {
+  revision: number;
+  trigger: 'compose' | 'heartbeat' | 'import';
+  createdAt: number;
+  data: ComposedActionPlan;
+}
+
+export interface SavedFounderProfile {
+  id: string;
+  name: string;
+  isActive: boolean;
+  createdAt: number;
+  updatedAt: number;
+  data: FounderProfile;
+}
+
+// Live data connectors
+export type ConnectorKind = 'github' | 'email' | 'rss';
+
+export interface GitHubConnectorConfig {
+  repo: string; // owner/name
+  token?: string;
+  labels?: string[];
+}
+
+export interface EmailConnectorConfig {
+  mode: 'imap' | 'mbox';
+  host?: string;
+  port?: number;
+  secure?: boolean;
+  user?: string;
+  password?: string;
+  mailbox?: string;
+  mbox?: string; // raw mbox export, for mode 'mbox'
+}
+
+export interface RssConnectorConfig {
+  url: string;
+}
+
+export type ConnectorConfig = GitHubConnectorConfig | EmailConnectorConfig | RssConnectorConfig;
+
+export interface SavedConnector {
+  id: string;
+  kind: ConnectorKind;
+  name: string;
+  enabled: boolean;
+  // Private fields (tokens, passwords, mbox contents) are never sent back; see privateFieldsSet
+  config: Partial<ConnectorConfig>;
+  privateFieldsSet: string[];
+  lastSyncedAt: number | null;
+  lastError: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Signals the founder adds by hand in the Composer
+export interface SavedLiveDataItem extends LiveData {
+  id: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A command the server knows how to run, as parsed from a task, plus a plain-language preview for approval
+export interface CommandPreview {
+  taskId: number;
+  command: string;
+  action: string | null;
+  description: string | null;
+  error: string | null;
+}
+
+export type ActionOutputKind = 'email_draft' | 'reminder' | 'note';
+
+// Something an executed command produced that lives in the app rather than an external service
+export interface ActionOutput {
+  id: string;
+  planId: string;
+  taskId: number;
+  kind: ActionOutputKind;
+  title: string;
+  body: string;
+  recipient: string | null;
+  remindAt: number | null;
+  createdAt: number;
+}
+
+// Task board: tasks from all of a user's plans, persisted across recomposition
+export type TaskStatusSource = 'plan' | 'board' | 'composer' | 'command';
+
+export interface TaskStatusChange {
+  from: ActionStatus | null; // null when the task was first proposed
+  to: ActionStatus;
+  source: TaskStatusSource;
+  at: number;
+}
+
+export interface BoardTask {
+  id: string;
+  planId: string | null;
+  planTaskId: number | null;
+  analysisId: string | null;
+  title: string;
+  description: string;
+  owner: ActionOwner;
+  assignee: string | null;
+  status: ActionStatus;
+  executable: boolean;
+  command: string | null;
+  dueAt: number | null;
+  completedAt: number | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Analysis versions: every analysis of the same problem statement is a version of it
+export interface ProblemSummary {
+  id: string;
+  statement: string;
+  versionCount: number;
+  latestAnalysisId: string;
+  updatedAt: number;
+}
+
+// One piece of a diff: words of a text, or whole items of a list
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+export interface ProfileFieldChange {
+  field: keyof FounderProfile;
+  before: FounderProfile[keyof FounderProfile] | null;
+  after: FounderProfile[keyof FounderProfile] | null;
+}
+
+export interface ChunkDiff {
+  title: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  analysis: DiffPart[];
+  key_insights: DiffPart[];
+}
+
+export interface AnalysisDiff {
+  profile_changes: ProfileFieldChange[];
+  refined_problem: DiffPart[];
+  chunks: ChunkDiff[];
+  solution_guide: DiffPart[];
+}
+
+export interface AnalysisComparison {
+  base: SavedAnalysis;
+  target: SavedAnalysis;
+  diff: AnalysisDiff;
+}
+
+// Watchlists: sectors re-scanned on a schedule, with an alert for each problem no earlier scan found
+export interface SavedWatchlist {
+  id: string;
+  sector: string;
+  founderProfile: FounderProfile;
+  intervalHours: number;
+  enabled: boolean;
+  nextScanAt: number | null;
+  lastScanAt: number | null;
+  lastError: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Scans carry their full discovery result, so a watchlist's history is fetched a page at a time
+export const WATCHLIST_SCANS_PAGE_SIZE = 20;
+
+export interface WatchlistScan {
+  id: string;
+  watchlistId: string;
+  trigger: 'baseline' | 'schedule' | 'manual'; // A baseline records the discovery result the watchlist was started from
+  newProblemIds: number[]; // The problems in `data` that no earlier scan found
+  createdAt: number;
+  data: ProactiveDiscoveryResponse;
+}
+
+export interface WatchlistAlert {
+  id: string;
+  watchlistId: string;
+  scanId: string;
+  sector: string;
+  problem: Problem;
+  readAt: number | null;
+  createdAt: number;
+}
+
+// Shortlist: bookmarked problems, and whether (and how often) each has been analyzed
+export interface ShortlistAnalysis extends ProblemSummary {
+  conversationId: string | null; // The chat holding the latest analysis
+}
+
+export interface ShortlistItem {
+  id: string;
+  sector: string;
+  problem: Problem;
+  tags: string[];
+  note: string;
+  analysis: ShortlistAnalysis | null;
+  createdAt: number;
+  updatedAt: number;
+}